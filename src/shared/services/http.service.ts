@@ -1,8 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { AxiosResponse, AxiosError } from 'axios';
-import { firstValueFrom, timeout, retry, catchError } from 'rxjs';
+import {
+  firstValueFrom,
+  timeout,
+  retry,
+  catchError,
+  defer,
+  switchMap,
+  tap,
+  timer,
+  Observable,
+} from 'rxjs';
 import { throwError } from 'rxjs';
+import {
+  OutboundRateLimit,
+  OutboundRateLimiterService,
+  RateLimitWaitExceededError,
+} from './rate-limiter.service';
+
+export interface HttpRequestConfig {
+  timeout?: number;
+  retries?: number;
+  headers?: Record<string, string>;
+  // Outbound limit of the upstream; calls wait for a slot and retries re-acquire one
+  rateLimit?: OutboundRateLimit;
+}
 
 /**
  * HTTP service wrapper with retry logic and error handling
@@ -14,34 +37,36 @@ export class CustomHttpService {
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
 
-  constructor(private readonly httpService: HttpService) {}
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly rateLimiter: OutboundRateLimiterService,
+  ) {}
 
   /**
    * Make a GET request with retry logic
    */
-  async get<T>(
-    url: string,
-    config?: {
-      timeout?: number;
-      retries?: number;
-      headers?: Record<string, string>;
-    },
-  ): Promise<T> {
+  async get<T>(url: string, config?: HttpRequestConfig): Promise<T> {
     const requestConfig = {
       timeout: config?.timeout || this.defaultTimeout,
       headers: config?.headers || {},
     };
 
-    const retryCount = config?.retries || this.maxRetries;
+    const retryCount = config?.retries ?? this.maxRetries;
 
     try {
-      const response$ = this.httpService.get<T>(url, requestConfig).pipe(
+      const response$ = this.withRateLimit(
+        () => this.httpService.get<T>(url, requestConfig),
+        config?.rateLimit,
+      ).pipe(
         timeout(requestConfig.timeout),
         retry({
           count: retryCount,
-          delay: this.retryDelay,
+          delay: (error) => this.retryDelayFor(error),
         }),
         catchError((error: AxiosError) => {
+          if (error instanceof RateLimitWaitExceededError) {
+            return throwError(() => error);
+          }
           this.logger.error(
             `GET request failed: ${url} - ${error.message}`,
             error.stack,
@@ -64,27 +89,29 @@ export class CustomHttpService {
   async post<T>(
     url: string,
     data?: any,
-    config?: {
-      timeout?: number;
-      retries?: number;
-      headers?: Record<string, string>;
-    },
+    config?: HttpRequestConfig,
   ): Promise<T> {
     const requestConfig = {
       timeout: config?.timeout || this.defaultTimeout,
       headers: config?.headers || {},
     };
 
-    const retryCount = config?.retries || this.maxRetries;
+    const retryCount = config?.retries ?? this.maxRetries;
 
     try {
-      const response$ = this.httpService.post<T>(url, data, requestConfig).pipe(
+      const response$ = this.withRateLimit(
+        () => this.httpService.post<T>(url, data, requestConfig),
+        config?.rateLimit,
+      ).pipe(
         timeout(requestConfig.timeout),
         retry({
           count: retryCount,
-          delay: this.retryDelay,
+          delay: (error) => this.retryDelayFor(error),
         }),
         catchError((error: AxiosError) => {
+          if (error instanceof RateLimitWaitExceededError) {
+            return throwError(() => error);
+          }
           this.logger.error(
             `POST request failed: ${url} - ${error.message}`,
             error.stack,
@@ -101,6 +128,40 @@ export class CustomHttpService {
     }
   }
 
+  /**
+   * Wait for a rate limit slot before each attempt, and pause the upstream when it answers 429
+   */
+  private withRateLimit<T>(
+    request: () => Observable<AxiosResponse<T>>,
+    rateLimit?: OutboundRateLimit,
+  ): Observable<AxiosResponse<T>> {
+    return defer(() => this.rateLimiter.acquire(rateLimit)).pipe(
+      switchMap(() => request()),
+      tap({
+        error: (error: AxiosError) => {
+          if (rateLimit && error.response?.status === 429) {
+            const retryAfter: unknown = error.response.headers?.['retry-after'];
+            this.rateLimiter.backoff(
+              rateLimit.key,
+              typeof retryAfter === 'string' ? retryAfter : undefined,
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  /**
+   * Waiting longer for a local rate limit slot would only exceed the max wait again, so it is not retried
+   */
+  private retryDelayFor(error: unknown): Observable<number> {
+    if (error instanceof RateLimitWaitExceededError) {
+      return throwError(() => error);
+    }
+
+    return timer(this.retryDelay);
+  }
+
   /**
    * Handle Axios errors and convert to meaningful error messages
    */
@@ -111,9 +172,7 @@ export class CustomHttpService {
       const statusText = error.response.statusText;
       const data = error.response.data;
 
-      return new Error(
-        `HTTP ${status} ${statusText}: ${JSON.stringify(data)}`,
-      );
+      return new Error(`HTTP ${status} ${statusText}: ${JSON.stringify(data)}`);
     } else if (error.request) {
       // Request was made but no response received
       return new Error('No response received from server');
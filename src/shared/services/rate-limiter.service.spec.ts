@@ -0,0 +1,101 @@
+import {
+  OutboundRateLimiterService,
+  RateLimitWaitExceededError,
+} from './rate-limiter.service';
+
+describe('OutboundRateLimiterService', () => {
+  let limiter: OutboundRateLimiterService;
+  const limit = { key: '0x', requests: 2, perSeconds: 1 };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    limiter = new OutboundRateLimiterService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should queue calls over the rate and release them in order as tokens refill', async () => {
+    const released: number[] = [];
+    await limiter.acquire(limit);
+    await limiter.acquire(limit);
+    const third = limiter.acquire(limit).then(() => released.push(3));
+    const fourth = limiter.acquire(limit).then(() => released.push(4));
+
+    expect(limiter.getStats()[0]).toMatchObject({
+      key: '0x',
+      availableTokens: 0,
+      queued: 2,
+      granted: 2,
+    });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([3]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await Promise.all([third, fourth]);
+    expect(released).toEqual([3, 4]);
+    expect(limiter.getStats()[0]).toMatchObject({
+      queued: 0,
+      granted: 4,
+      delayed: 2,
+    });
+  });
+
+  it('should reject calls that would wait longer than the max wait', async () => {
+    const slow = { key: 'Odos', requests: 1, perSeconds: 10 };
+    await limiter.acquire(slow);
+
+    await expect(limiter.acquire(slow)).rejects.toBeInstanceOf(
+      RateLimitWaitExceededError,
+    );
+    expect(limiter.getStats()[0]).toMatchObject({
+      key: 'Odos',
+      rejected: 1,
+      queued: 0,
+    });
+  });
+
+  it('should pause the provider for the Retry-After of a 429', async () => {
+    let released = false;
+    await limiter.acquire(limit);
+
+    limiter.backoff('0x', '3');
+    const pending = limiter.acquire(limit).then(() => (released = true));
+
+    expect(limiter.getStats()[0].pausedUntil).toBeDefined();
+    await jest.advanceTimersByTimeAsync(2900);
+    expect(released).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(600);
+    await pending;
+    expect(released).toBe(true);
+    expect(limiter.getStats()[0]).toMatchObject({ backoffs: 1, delayed: 1 });
+  });
+
+  it('should reject queued calls that a later backoff pushes past the max wait', async () => {
+    await limiter.acquire(limit);
+    await limiter.acquire(limit);
+    const queued = limiter.acquire(limit);
+
+    limiter.backoff('0x', '1');
+    expect(limiter.getStats()[0]).toMatchObject({ queued: 1, rejected: 0 });
+
+    const expired = expect(queued).rejects.toBeInstanceOf(
+      RateLimitWaitExceededError,
+    );
+    limiter.backoff('0x', '10');
+    await expired;
+    expect(limiter.getStats()[0]).toMatchObject({
+      queued: 0,
+      rejected: 1,
+      backoffs: 2,
+    });
+  });
+
+  it('should not limit calls without a configured rate', async () => {
+    await expect(limiter.acquire(undefined)).resolves.toBeUndefined();
+    expect(limiter.getStats()).toEqual([]);
+  });
+});
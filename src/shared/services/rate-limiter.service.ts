@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * Outbound rate limit of one upstream (requests per perSeconds), keyed by provider name
+ */
+export interface OutboundRateLimit {
+  key: string;
+  requests: number;
+  perSeconds: number;
+}
+
+export interface RateLimiterStats {
+  key: string;
+  requests: number;
+  perSeconds: number;
+  availableTokens: number;
+  queued: number;
+  granted: number;
+  // Granted after waiting in the queue
+  delayed: number;
+  // Rejected because the wait would exceed the max wait
+  rejected: number;
+  // Upstream 429 responses that paused the bucket
+  backoffs: number;
+  maxWaitMs: number;
+  pausedUntil?: Date;
+}
+
+/**
+ * Thrown when a call would wait longer than the max wait for its rate limit
+ */
+export class RateLimitWaitExceededError extends Error {
+  constructor(key: string, waitMs: number, maxWaitMs: number) {
+    super(
+      `Outbound rate limit for ${key} reached: next slot in ${waitMs}ms exceeds the ${maxWaitMs}ms max wait`,
+    );
+    this.name = 'RateLimitWaitExceededError';
+  }
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: RateLimitWaitExceededError) => void;
+  enqueuedAt: number;
+}
+
+interface Bucket {
+  limit: OutboundRateLimit;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+  stats: Pick<
+    RateLimiterStats,
+    'granted' | 'delayed' | 'rejected' | 'backoffs' | 'maxWaitMs'
+  >;
+}
+
+/**
+ * Per-upstream outbound token bucket
+ * Calls beyond the rate wait in a FIFO queue up to a max wait; an upstream 429 with Retry-After
+ * pauses the bucket until the upstream accepts requests again
+ */
+@Injectable()
+export class OutboundRateLimiterService {
+  private readonly logger = new Logger(OutboundRateLimiterService.name);
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly maxWaitMs = Number(
+    process.env.OUTBOUND_RATE_LIMIT_MAX_WAIT_MS || 5000,
+  );
+  // Pause applied to a 429 without a usable Retry-After header
+  private readonly defaultBackoffMs = Number(
+    process.env.OUTBOUND_RATE_LIMIT_BACKOFF_MS || 1000,
+  );
+
+  /**
+   * Wait for a slot under the limit; resolves immediately for calls without a limit
+   */
+  acquire(limit?: OutboundRateLimit): Promise<void> {
+    if (!limit) {
+      return Promise.resolve();
+    }
+
+    const bucket = this.getBucket(limit);
+    const now = Date.now();
+    this.refill(bucket, now);
+
+    if (
+      bucket.queue.length === 0 &&
+      bucket.pausedUntil <= now &&
+      bucket.tokens >= 1
+    ) {
+      bucket.tokens -= 1;
+      bucket.stats.granted++;
+      return Promise.resolve();
+    }
+
+    const waitMs = this.estimateWaitMs(bucket, now);
+    if (waitMs > this.maxWaitMs) {
+      bucket.stats.rejected++;
+      return Promise.reject(
+        new RateLimitWaitExceededError(limit.key, waitMs, this.maxWaitMs),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      bucket.queue.push({ resolve, reject, enqueuedAt: now });
+      this.schedule(bucket);
+    });
+  }
+
+  /**
+   * Pause the upstream after a 429; Retry-After is either delay-seconds or an HTTP date
+   */
+  backoff(key: string, retryAfter?: string): void {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return;
+    }
+
+    const now = Date.now();
+    const pauseMs =
+      this.parseRetryAfter(retryAfter, now) ?? this.defaultBackoffMs;
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, now + pauseMs);
+    bucket.tokens = 0;
+    bucket.refilledAt = bucket.pausedUntil;
+    bucket.stats.backoffs++;
+
+    this.logger.warn(
+      `⏳ ${key} returned 429, pausing outbound calls for ${pauseMs}ms`,
+    );
+    this.expireWaiters(bucket, now);
+    this.schedule(bucket);
+  }
+
+  getStats(): RateLimiterStats[] {
+    const now = Date.now();
+    return Array.from(this.buckets.values()).map((bucket) => {
+      this.refill(bucket, now);
+      return {
+        key: bucket.limit.key,
+        requests: bucket.limit.requests,
+        perSeconds: bucket.limit.perSeconds,
+        availableTokens: Math.floor(bucket.tokens),
+        queued: bucket.queue.length,
+        ...bucket.stats,
+        pausedUntil:
+          bucket.pausedUntil > now ? new Date(bucket.pausedUntil) : undefined,
+      };
+    });
+  }
+
+  private getBucket(limit: OutboundRateLimit): Bucket {
+    let bucket = this.buckets.get(limit.key);
+    if (!bucket) {
+      bucket = {
+        limit,
+        tokens: limit.requests,
+        refilledAt: Date.now(),
+        pausedUntil: 0,
+        queue: [],
+        stats: {
+          granted: 0,
+          delayed: 0,
+          rejected: 0,
+          backoffs: 0,
+          maxWaitMs: 0,
+        },
+      };
+      this.buckets.set(limit.key, bucket);
+    } else if (
+      bucket.limit.requests !== limit.requests ||
+      bucket.limit.perSeconds !== limit.perSeconds
+    ) {
+      bucket.limit = limit;
+      bucket.tokens = Math.min(bucket.tokens, limit.requests);
+    }
+
+    return bucket;
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    if (now <= bucket.refilledAt) {
+      return;
+    }
+
+    const { requests, perSeconds } = bucket.limit;
+    bucket.tokens = Math.min(
+      requests,
+      bucket.tokens +
+        ((now - bucket.refilledAt) * requests) / (perSeconds * 1000),
+    );
+    bucket.refilledAt = now;
+  }
+
+  /**
+   * Time until the call at the queue position (the back of the queue by default) gets its token
+   */
+  private estimateWaitMs(
+    bucket: Bucket,
+    now: number,
+    position = bucket.queue.length,
+  ): number {
+    const { requests, perSeconds } = bucket.limit;
+    const start = Math.max(now, bucket.pausedUntil);
+    const missing = position + 1 - bucket.tokens;
+
+    return Math.ceil(
+      start - now + Math.max(0, (missing * perSeconds * 1000) / requests),
+    );
+  }
+
+  /**
+   * Reject queued calls whose total wait a backoff pushed past the max wait
+   */
+  private expireWaiters(bucket: Bucket, now: number): void {
+    const kept: Waiter[] = [];
+    for (const waiter of bucket.queue) {
+      const waitMs =
+        now - waiter.enqueuedAt + this.estimateWaitMs(bucket, now, kept.length);
+      if (waitMs > this.maxWaitMs) {
+        bucket.stats.rejected++;
+        waiter.reject(
+          new RateLimitWaitExceededError(
+            bucket.limit.key,
+            waitMs,
+            this.maxWaitMs,
+          ),
+        );
+      } else {
+        kept.push(waiter);
+      }
+    }
+    bucket.queue = kept;
+  }
+
+  /**
+   * Release queued calls in order as tokens become available
+   */
+  private schedule(bucket: Bucket): void {
+    if (bucket.timer || bucket.queue.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    this.refill(bucket, now);
+    const { requests, perSeconds } = bucket.limit;
+    const delayMs = Math.max(
+      bucket.pausedUntil - now,
+      Math.ceil(((1 - bucket.tokens) * perSeconds * 1000) / requests),
+      0,
+    );
+
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      const releasedAt = Date.now();
+      this.refill(bucket, releasedAt);
+
+      while (
+        bucket.queue.length > 0 &&
+        bucket.pausedUntil <= releasedAt &&
+        bucket.tokens >= 1
+      ) {
+        const waiter = bucket.queue.shift()!;
+        bucket.tokens -= 1;
+        bucket.stats.granted++;
+        bucket.stats.delayed++;
+        bucket.stats.maxWaitMs = Math.max(
+          bucket.stats.maxWaitMs,
+          releasedAt - waiter.enqueuedAt,
+        );
+        waiter.resolve();
+      }
+
+      this.schedule(bucket);
+    }, delayMs);
+    bucket.timer.unref?.();
+  }
+
+  private parseRetryAfter(
+    retryAfter: string | undefined,
+    now: number,
+  ): number | undefined {
+    if (!retryAfter) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+  }
+}
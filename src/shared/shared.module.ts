@@ -2,6 +2,7 @@ import { Global, Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { CustomHttpService } from './services/http.service';
 import { ChainListService } from './services/chainlist.service';
+import { OutboundRateLimiterService } from './services/rate-limiter.service';
 
 /**
  * Shared module that provides common utilities and services
@@ -14,7 +15,7 @@ import { ChainListService } from './services/chainlist.service';
       maxRedirects: 5,
     }),
   ],
-  providers: [CustomHttpService, ChainListService],
-  exports: [CustomHttpService, ChainListService],
+  providers: [CustomHttpService, ChainListService, OutboundRateLimiterService],
+  exports: [CustomHttpService, ChainListService, OutboundRateLimiterService],
 })
 export class SharedModule {}
@@ -16,6 +16,7 @@ export interface ChainConfig {
   chainId: number;
   name: string;
   rpcUrl: string;
+  mevRelayUrl?: string; // Private-orderflow relay for MEV-protected submission
   nativeCurrency: {
     name: string;
     symbol: string;
@@ -31,7 +32,11 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
   [SupportedChain.ETHEREUM]: {
     chainId: 1,
     name: 'Ethereum',
-    rpcUrl: process.env.ETHEREUM_RPC_URL || 'https://restless-ancient-mound.quiknode.pro/20fb2886d7e437de345ce39e98151180241816af/',
+    rpcUrl:
+      process.env.ETHEREUM_RPC_URL ||
+      'https://restless-ancient-mound.quiknode.pro/20fb2886d7e437de345ce39e98151180241816af/',
+    mevRelayUrl:
+      process.env.ETHEREUM_MEV_RELAY_URL || 'https://rpc.flashbots.net',
     nativeCurrency: {
       name: 'Ether',
       symbol: 'ETH',
@@ -43,6 +48,7 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 137,
     name: 'Polygon',
     rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon.llamarpc.com',
+    mevRelayUrl: process.env.POLYGON_MEV_RELAY_URL,
     nativeCurrency: {
       name: 'MATIC',
       symbol: 'MATIC',
@@ -54,6 +60,7 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 56,
     name: 'BNB Smart Chain',
     rpcUrl: process.env.BSC_RPC_URL || 'https://bsc.llamarpc.com',
+    mevRelayUrl: process.env.BSC_MEV_RELAY_URL,
     nativeCurrency: {
       name: 'BNB',
       symbol: 'BNB',
@@ -65,6 +72,7 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 42161,
     name: 'Arbitrum One',
     rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arbitrum.llamarpc.com',
+    mevRelayUrl: process.env.ARBITRUM_MEV_RELAY_URL,
     nativeCurrency: {
       name: 'Ether',
       symbol: 'ETH',
@@ -76,6 +84,7 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 10,
     name: 'Optimism',
     rpcUrl: process.env.OPTIMISM_RPC_URL || 'https://optimism.llamarpc.com',
+    mevRelayUrl: process.env.OPTIMISM_MEV_RELAY_URL,
     nativeCurrency: {
       name: 'Ether',
       symbol: 'ETH',
@@ -87,6 +96,7 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 8453,
     name: 'Base',
     rpcUrl: process.env.BASE_RPC_URL || 'https://base.llamarpc.com',
+    mevRelayUrl: process.env.BASE_MEV_RELAY_URL,
     nativeCurrency: {
       name: 'Ether',
       symbol: 'ETH',
@@ -98,6 +108,7 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 43114,
     name: 'Avalanche C-Chain',
     rpcUrl: process.env.AVALANCHE_RPC_URL || 'https://avalanche.llamarpc.com',
+    mevRelayUrl: process.env.AVALANCHE_MEV_RELAY_URL,
     nativeCurrency: {
       name: 'Avalanche',
       symbol: 'AVAX',
@@ -118,6 +129,27 @@ export function getChainConfig(chainId: number): ChainConfig {
   return config;
 }
 
+/**
+ * What to do when an MEV-protected transaction cannot go through a relay
+ * - 'reject': fail the submission (default, never leaks to the public mempool)
+ * - 'public': fall back to the chain's public RPC
+ */
+export type MevFallbackPolicy = 'reject' | 'public';
+
+/**
+ * Get MEV relay fallback policy from MEV_RELAY_FALLBACK
+ */
+export function getMevFallbackPolicy(): MevFallbackPolicy {
+  return process.env.MEV_RELAY_FALLBACK === 'public' ? 'public' : 'reject';
+}
+
+/**
+ * Check if a private-orderflow relay is configured for the chain
+ */
+export function isMevRelayConfigured(chainId: number): boolean {
+  return isChainSupported(chainId) && !!getChainConfig(chainId).mevRelayUrl;
+}
+
 /**
  * Check if chain ID is supported
  */
@@ -94,6 +94,27 @@ export function calculateMaxInput(
   return (expected * slippageMultiplier) / BigInt(10000);
 }
 
+/**
+ * Gas cost in wei: gas units x the most the transaction may pay per gas (maxFeePerGas, else gasPrice)
+ * Used for both quote ranking and the maxGasFee filter; undefined when a value is missing or not an integer
+ */
+export function calculateGasCostWei(
+  gasUnits?: string,
+  gasPrice?: string,
+  maxFeePerGas?: string,
+): bigint | undefined {
+  const pricePerGas = maxFeePerGas || gasPrice;
+  if (
+    !gasUnits ||
+    !pricePerGas ||
+    !/^\d+$/.test(gasUnits) ||
+    !/^\d+$/.test(pricePerGas)
+  ) {
+    return undefined;
+  }
+  return BigInt(gasUnits) * BigInt(pricePerGas);
+}
+
 /**
  * Get ERC-20 token ABI
  */
@@ -0,0 +1,55 @@
+import {
+  readProviderOverrides,
+  resolveProviderConfig,
+} from './providers.config';
+
+describe('providers config', () => {
+  const defaults = {
+    name: '0x',
+    baseUrl: 'https://api.0x.org',
+    enabled: true,
+    timeout: 15000,
+    retries: 3,
+    rateLimit: { requests: 10, perSeconds: 1 },
+  };
+
+  it('should read typed overrides from the environment', () => {
+    const overrides = readProviderOverrides('ZEROX', {
+      ZEROX_ENABLED: 'false',
+      ZEROX_BASE_URL: 'http://localhost:4010/',
+      ZEROX_TIMEOUT_MS: '2000',
+      ZEROX_RETRIES: '0',
+      ZEROX_RATE_LIMIT: '50/10',
+      ZEROX_CHAINS: '1, 8453',
+    });
+
+    expect(overrides).toEqual({
+      enabled: false,
+      baseUrl: 'http://localhost:4010',
+      timeout: 2000,
+      retries: 0,
+      rateLimit: { requests: 50, perSeconds: 10 },
+      chains: [1, 8453],
+    });
+  });
+
+  it('should keep the defaults for unset variables', () => {
+    const config = resolveProviderConfig(defaults, {
+      '0x': readProviderOverrides('ZEROX', { ZEROX_TIMEOUT_MS: '5000' }),
+    });
+
+    expect(config).toEqual({ ...defaults, timeout: 5000 });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() =>
+      readProviderOverrides('ODOS', { ODOS_RATE_LIMIT: '100' }),
+    ).toThrow('Invalid ODOS_RATE_LIMIT=100');
+    expect(() =>
+      readProviderOverrides('ODOS', { ODOS_CHAINS: '1,base' }),
+    ).toThrow('Invalid ODOS_CHAINS');
+    expect(() =>
+      readProviderOverrides('ODOS', { ODOS_ENABLED: 'yes' }),
+    ).toThrow('Invalid ODOS_ENABLED');
+  });
+});
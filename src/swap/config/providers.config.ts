@@ -0,0 +1,154 @@
+import { registerAs } from '@nestjs/config';
+import { ProviderConfig } from '@swap/models/ports';
+
+/**
+ * Provider settings that can be overridden through the environment
+ */
+export type ProviderOverrides = Partial<
+  Pick<
+    ProviderConfig,
+    'enabled' | 'baseUrl' | 'timeout' | 'retries' | 'rateLimit' | 'chains'
+  >
+>;
+
+/**
+ * Overrides by provider name (as returned by getProviderName)
+ */
+export type ProvidersConfig = Record<string, ProviderOverrides>;
+
+/**
+ * Environment variable prefix of each provider, e.g. ZEROX_ENABLED, ZEROX_BASE_URL
+ */
+export const PROVIDER_ENV_PREFIXES: Record<string, string> = {
+  '0x': 'ZEROX',
+  Odos: 'ODOS',
+  '1inch': 'ONEINCH',
+  ParaSwap: 'PARASWAP',
+  'LI.FI': 'LIFI',
+  Socket: 'SOCKET',
+  Rango: 'RANGO',
+  'Router Protocol': 'ROUTER',
+  Jupiter: 'JUPITER',
+  Orca: 'ORCA',
+  Raydium: 'RAYDIUM',
+  THORChain: 'THORCHAIN',
+  'Maya Protocol': 'MAYA',
+  'CoW Protocol': 'COW',
+};
+
+/**
+ * Per-provider configuration read from the environment:
+ * <PREFIX>_ENABLED, <PREFIX>_BASE_URL, <PREFIX>_TIMEOUT_MS, <PREFIX>_RETRIES,
+ * <PREFIX>_RATE_LIMIT (requests/seconds, e.g. 10/1) and <PREFIX>_CHAINS (chain ID allow-list, e.g. 1,8453)
+ * Invalid values fail at startup rather than silently falling back to the defaults
+ */
+export const providersConfig = registerAs('providers', (): ProvidersConfig => {
+  const config: ProvidersConfig = {};
+
+  for (const [provider, prefix] of Object.entries(PROVIDER_ENV_PREFIXES)) {
+    config[provider] = readProviderOverrides(prefix, process.env);
+  }
+
+  return config;
+});
+
+/**
+ * Apply a provider's overrides on top of the defaults it ships with
+ */
+export function resolveProviderConfig(
+  defaults: ProviderConfig,
+  providers?: ProvidersConfig,
+): ProviderConfig {
+  const overrides = providers?.[defaults.name] ?? {};
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined),
+  );
+
+  return { ...defaults, ...defined };
+}
+
+export function readProviderOverrides(
+  prefix: string,
+  env: NodeJS.ProcessEnv,
+): ProviderOverrides {
+  const value = (suffix: string) => {
+    const raw = env[`${prefix}_${suffix}`]?.trim();
+    return raw ? raw : undefined;
+  };
+  const invalid = (suffix: string, expected: string) =>
+    new Error(
+      `Invalid ${prefix}_${suffix}=${env[`${prefix}_${suffix}`]}: expected ${expected}`,
+    );
+
+  const overrides: ProviderOverrides = {};
+
+  const enabled = value('ENABLED');
+  if (enabled !== undefined) {
+    if (!['true', 'false', '1', '0'].includes(enabled.toLowerCase())) {
+      throw invalid('ENABLED', 'true or false');
+    }
+    overrides.enabled = enabled.toLowerCase() === 'true' || enabled === '1';
+  }
+
+  const baseUrl = value('BASE_URL');
+  if (baseUrl !== undefined) {
+    try {
+      new URL(baseUrl);
+    } catch {
+      throw invalid('BASE_URL', 'an absolute URL');
+    }
+    overrides.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  const timeout = value('TIMEOUT_MS');
+  if (timeout !== undefined) {
+    overrides.timeout = parseInteger(timeout, 1, () =>
+      invalid('TIMEOUT_MS', 'a positive number of milliseconds'),
+    );
+  }
+
+  const retries = value('RETRIES');
+  if (retries !== undefined) {
+    overrides.retries = parseInteger(retries, 0, () =>
+      invalid('RETRIES', 'a non-negative integer'),
+    );
+  }
+
+  const rateLimit = value('RATE_LIMIT');
+  if (rateLimit !== undefined) {
+    const [requests, perSeconds, ...rest] = rateLimit.split('/');
+    if (rest.length > 0 || perSeconds === undefined) {
+      throw invalid('RATE_LIMIT', 'requests/seconds, e.g. 10/1');
+    }
+    overrides.rateLimit = {
+      requests: parseInteger(requests, 1, () =>
+        invalid('RATE_LIMIT', 'requests/seconds, e.g. 10/1'),
+      ),
+      perSeconds: parseInteger(perSeconds, 1, () =>
+        invalid('RATE_LIMIT', 'requests/seconds, e.g. 10/1'),
+      ),
+    };
+  }
+
+  const chains = value('CHAINS');
+  if (chains !== undefined) {
+    overrides.chains = chains
+      .split(',')
+      .map((chainId) =>
+        parseInteger(chainId, 1, () =>
+          invalid('CHAINS', 'comma-separated chain IDs'),
+        ),
+      );
+  }
+
+  return overrides;
+}
+
+function parseInteger(raw: string, min: number, error: () => Error): number {
+  const parsed = Number(raw.trim());
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw error();
+  }
+
+  return parsed;
+}
@@ -162,7 +162,7 @@ export class SwapAnalysisController {
         nativeToken: 'ETH (varies by chain)',
         tokenStandards: ['ERC20', 'ERC721', 'ERC1155'],
         supportedSwapTypes: ['on-chain', 'cross-chain', 'l1-to-l2', 'l2-to-l1'],
-        primaryProviders: ['0x', 'odos'],
+        primaryProviders: ['0x', 'odos', '1inch', 'paraswap'],
         examples: ['Ethereum', 'Polygon', 'BSC', 'Arbitrum', 'Optimism'],
       },
       [BlockchainEcosystem.SOLANA]: {
@@ -0,0 +1,663 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  BlockchainEcosystem,
+  SwapType,
+  TokenInfo,
+  TokenStandard,
+  UniversalSwapRequestDto,
+} from '@swap/dto/universal-swap-request.dto';
+import { RouteQuote } from '@swap/models/ports';
+import { SplitQuote, SwapQuote } from '@swap/models/swap-request.model';
+import { SwapRoutingService } from '@swap/services/core/swap-routing.service';
+import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import { ApprovalService } from '@swap/services/blockchain/approval/approval.service';
+import { QuoteService } from '@swap/services/core/execution/quote.service';
+import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
+import { UniversalExecutionService } from '@swap/services/core/execution/universal-execution.service';
+import { ExecutionTrackerService } from '@swap/services/core/execution/execution-tracker.service';
+import { RouteStoreService } from '@swap/services/core/route-store.service';
+import { UniversalSwapController } from './universal-swap.controller';
+
+describe('UniversalSwapController quotes', () => {
+  const taker = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const arbitrumUsdc = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+  const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+  let swapRouting: {
+    validateChainCompatibility: jest.Mock;
+    determineSwapType: jest.Mock;
+    determineProviderCategory: jest.Mock;
+    estimateSwapComplexity: jest.Mock;
+    getProvidersForCategory: jest.Mock;
+    cacheSupportedQuote: jest.Mock;
+  };
+  let aggregatorManager: {
+    getCrossChainRoutes: jest.Mock;
+    getSolanaQuote: jest.Mock;
+    buildSolanaTransaction: jest.Mock;
+    getNativeQuote: jest.Mock;
+    getEvmQuote: jest.Mock;
+    getQuotesWithinDeadline: jest.Mock;
+    rankQuotes: jest.Mock;
+    qualifiesForSplitRouting: jest.Mock;
+    getSplitQuote: jest.Mock;
+  };
+  let controller: UniversalSwapController;
+
+  const token = (
+    address: string,
+    ecosystem: BlockchainEcosystem,
+    chainId?: number | string,
+    details: Partial<TokenInfo> = {},
+  ): TokenInfo => ({
+    address,
+    standard: TokenStandard.ERC20,
+    chain: { chainId, ecosystem },
+    ...details,
+  });
+
+  const quote = (request: Partial<UniversalSwapRequestDto>) =>
+    controller.getUniversalQuote({
+      sellToken: token(usdc, BlockchainEcosystem.EVM, 1),
+      buyToken: token(arbitrumUsdc, BlockchainEcosystem.EVM, 42161),
+      sellAmount: '1000000',
+      taker,
+      ...request,
+    });
+
+  const routeTo = (category: string, swapType: SwapType) => {
+    swapRouting.determineProviderCategory.mockReturnValue(category);
+    swapRouting.determineSwapType.mockReturnValue(swapType);
+  };
+
+  const metaRoute = (overrides: Partial<RouteQuote> = {}): RouteQuote => ({
+    provider: 'LI.FI',
+    routeId: 'lifi-route-1',
+    steps: [
+      {
+        kind: 'bridge',
+        chainId: 1,
+        protocol: 'stargate',
+        estimatedTime: 120,
+        details: {
+          action: {
+            fromToken: { address: usdc },
+            toToken: { address: arbitrumUsdc },
+            fromChainId: 1,
+            toChainId: 42161,
+          },
+        },
+      },
+    ],
+    totalEstimatedOut: '998000',
+    fees: { gas: '0', provider: '0' },
+    confidence: 0.9,
+    ...overrides,
+  });
+
+  const evmQuote = (overrides: Partial<SwapQuote> = {}): SwapQuote => ({
+    sellToken: usdc,
+    buyToken: weth,
+    sellAmount: '1000000',
+    buyAmount: '300000000000000',
+    minBuyAmount: '297000000000000',
+    gas: '200000',
+    to: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
+    data: '0x',
+    value: '0',
+    aggregator: 'odos',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    swapRouting = {
+      validateChainCompatibility: jest.fn().mockReturnValue(true),
+      determineSwapType: jest.fn(),
+      determineProviderCategory: jest.fn(),
+      estimateSwapComplexity: jest
+        .fn()
+        .mockReturnValue({ complexity: 'simple', estimatedSteps: 1 }),
+      getProvidersForCategory: jest.fn().mockReturnValue([]),
+      cacheSupportedQuote: jest.fn(),
+    };
+    aggregatorManager = {
+      getCrossChainRoutes: jest.fn(),
+      getSolanaQuote: jest.fn(),
+      buildSolanaTransaction: jest.fn(),
+      getNativeQuote: jest.fn(),
+      getEvmQuote: jest.fn(),
+      getQuotesWithinDeadline: jest.fn(),
+      rankQuotes: jest.fn((quotes: unknown) => quotes),
+      qualifiesForSplitRouting: jest.fn().mockResolvedValue(true),
+      getSplitQuote: jest.fn(),
+    };
+    controller = new UniversalSwapController(
+      swapRouting as unknown as SwapRoutingService,
+      aggregatorManager as unknown as AggregatorManagerService,
+      {} as ApprovalService,
+      {} as QuoteService,
+      {} as WalletService,
+      {} as UniversalExecutionService,
+      {} as ExecutionTrackerService,
+      new RouteStoreService(),
+    );
+  });
+
+  describe('meta aggregator routes', () => {
+    beforeEach(() => routeTo('meta', SwapType.L1_TO_L2));
+
+    it('should quote the cross-chain route request through the meta aggregators', async () => {
+      aggregatorManager.getCrossChainRoutes.mockResolvedValue([metaRoute()]);
+
+      await quote({
+        slippageToleranceBps: 100,
+        recipient: taker,
+        preferredBridges: ['stargate'],
+        excludedBridges: [],
+      });
+
+      expect(aggregatorManager.getCrossChainRoutes).toHaveBeenCalledWith(
+        {
+          fromChainId: 1,
+          toChainId: 42161,
+          fromToken: usdc,
+          toToken: arbitrumUsdc,
+          amount: '1000000',
+          slippageBps: 100,
+          userAddress: taker,
+          recipient: taker,
+          allowBridges: ['stargate'],
+          denyBridges: undefined,
+        },
+        undefined,
+      );
+    });
+
+    it('should map route quotes to routes with the LI.FI transaction request', async () => {
+      aggregatorManager.getCrossChainRoutes.mockResolvedValue([
+        metaRoute({
+          providerRef: {
+            lifiRoute: {
+              transactionRequest: {
+                to: '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE',
+                data: '0xabcdef',
+                value: '0',
+                gasLimit: '250000',
+              },
+              estimate: {
+                approvalAddress: '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE',
+              },
+            },
+          },
+        }),
+      ]);
+
+      const response = await quote({});
+
+      expect(response.routes).toHaveLength(1);
+      expect(response.routes[0]).toMatchObject({
+        provider: 'LI.FI',
+        providerRouteId: 'lifi-route-1',
+        outputAmount: '998000',
+        estimatedTime: 120,
+        qualityScore: 90,
+        steps: [
+          {
+            action: 'bridge',
+            provider: 'stargate',
+            fromToken: usdc,
+            toToken: arbitrumUsdc,
+            fromChain: '1',
+            toChain: '42161',
+            estimatedTime: 120,
+          },
+        ],
+        transactionData: {
+          to: '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE',
+          data: '0xabcdef',
+          gasLimit: '250000',
+          chainId: 1,
+        },
+        metadata: {
+          approvalAddress: '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE',
+        },
+      });
+      expect(response.routes[0]).not.toHaveProperty('providerRef');
+      expect(response.recommendedRoute).toBe(response.routes[0]);
+    });
+
+    it('should return a fallback route when the meta aggregators fail', async () => {
+      aggregatorManager.getCrossChainRoutes.mockRejectedValue(
+        new Error('LI.FI unavailable'),
+      );
+
+      const response = await quote({});
+
+      expect(response.routes).toEqual([
+        {
+          provider: 'meta-fallback',
+          outputAmount: '0',
+          estimatedGas: '0',
+          steps: [],
+          estimatedTime: 0,
+          qualityScore: 0,
+          error: 'LI.FI unavailable',
+        },
+      ]);
+    });
+
+    it('should surface the error of a preferred provider instead of a fallback route', async () => {
+      aggregatorManager.getCrossChainRoutes.mockRejectedValue(
+        new Error('Socket does not support chain 42161'),
+      );
+
+      await expect(quote({ preferredProvider: 'socket' })).rejects.toThrow(
+        new BadRequestException(
+          'Failed to get universal quote: Socket does not support chain 42161',
+        ),
+      );
+      expect(aggregatorManager.getCrossChainRoutes).toHaveBeenCalledWith(
+        expect.anything(),
+        'socket',
+      );
+    });
+  });
+
+  describe('Solana routes', () => {
+    const sol = 'So11111111111111111111111111111111111111112';
+    const solanaUsdc = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const solanaTaker = '7EYnhQoR9YM3N7UoaKRoA44Uy8JeaZV3qyouov87awMs';
+
+    const solanaRequest = {
+      sellToken: token(sol, BlockchainEcosystem.SOLANA, 'mainnet-beta'),
+      buyToken: token(solanaUsdc, BlockchainEcosystem.SOLANA, 'mainnet-beta'),
+      sellAmount: '1000000000',
+      slippageToleranceBps: 30,
+      taker: solanaTaker,
+    };
+
+    const jupiterRoute: RouteQuote = {
+      provider: 'Jupiter',
+      steps: [
+        {
+          kind: 'swap',
+          chainId: 0,
+          protocol: 'Whirlpool',
+          details: { swapInfo: { inputMint: sol, outputMint: solanaUsdc } },
+        },
+      ],
+      totalEstimatedOut: '150000000',
+      fees: { gas: '5000', provider: '0' },
+      confidence: 0.95,
+    };
+
+    beforeEach(() => routeTo('solana', SwapType.ON_CHAIN));
+
+    it('should quote the Solana routers with the mints, slippage and taker', async () => {
+      aggregatorManager.getSolanaQuote.mockResolvedValue([jupiterRoute]);
+      aggregatorManager.buildSolanaTransaction.mockResolvedValue({
+        rawTx: 'AQAB',
+      });
+
+      const response = await quote(solanaRequest);
+
+      expect(aggregatorManager.getSolanaQuote).toHaveBeenCalledWith(
+        {
+          fromMint: sol,
+          toMint: solanaUsdc,
+          amount: '1000000000',
+          swapMode: 'ExactIn',
+          slippageBps: 30,
+          userPublicKey: solanaTaker,
+        },
+        undefined,
+      );
+      expect(aggregatorManager.buildSolanaTransaction).toHaveBeenCalledWith(
+        jupiterRoute,
+        solanaTaker,
+      );
+      expect(response).toMatchObject({
+        routes: [
+          {
+            provider: 'Jupiter',
+            outputAmount: '150000000',
+            estimatedGas: '5000',
+            qualityScore: 95,
+            steps: [
+              {
+                action: 'swap',
+                provider: 'Whirlpool',
+                fromToken: sol,
+                toToken: solanaUsdc,
+              },
+            ],
+          },
+        ],
+        transactionData: { serializedTransaction: 'AQAB', encoding: 'base64' },
+      });
+    });
+
+    it('should keep a quote whose transaction cannot be built', async () => {
+      aggregatorManager.getSolanaQuote.mockResolvedValue([jupiterRoute]);
+      aggregatorManager.buildSolanaTransaction.mockRejectedValue(
+        new Error('Jupiter swap API unavailable'),
+      );
+
+      const response = await quote(solanaRequest);
+
+      expect(response.routes).toHaveLength(1);
+      expect(response.transactionData).toBeNull();
+    });
+  });
+
+  describe('native L1 routes', () => {
+    const nativeRoute: RouteQuote = {
+      provider: 'THORChain',
+      routeId: 'thorchain-route-1',
+      steps: [
+        { kind: 'native', chainId: 1, protocol: 'THORChain', details: {} },
+      ],
+      totalEstimatedOut: '4000000000000000000',
+      fees: { gas: '0', provider: '0' },
+      etaSeconds: 900,
+      confidence: 0.8,
+      providerRef: {
+        inboundAddress: 'bc1qinboundvault',
+        memo: `=:ETH.ETH:${taker}`,
+      },
+    };
+
+    const nativeQuoteRequest = () => {
+      const [nativeRequest] = aggregatorManager.getNativeQuote.mock
+        .calls[0] as [{ fromAsset: string; amountSats: string }];
+      return nativeRequest;
+    };
+
+    beforeEach(() => {
+      routeTo('native-l1', SwapType.NATIVE_SWAP);
+      aggregatorManager.getNativeQuote.mockResolvedValue([nativeRoute]);
+    });
+
+    it('should send asset notation and Bitcoin amounts as they are', async () => {
+      const response = await quote({
+        sellToken: token('BTC.BTC', BlockchainEcosystem.BITCOIN),
+        buyToken: token(
+          '0x0000000000000000000000000000000000000000',
+          BlockchainEcosystem.EVM,
+          1,
+        ),
+        sellAmount: '10000000',
+      });
+
+      expect(aggregatorManager.getNativeQuote).toHaveBeenCalledWith(
+        {
+          fromAsset: 'BTC.BTC',
+          toChainId: 1,
+          toToken: '0x0000000000000000000000000000000000000000',
+          amountSats: '10000000',
+          userAddress: taker,
+          memo: undefined,
+        },
+        undefined,
+      );
+      expect(response).toMatchObject({
+        transactionData: {
+          inboundAddress: 'bc1qinboundvault',
+          memo: `=:ETH.ETH:${taker}`,
+          amount: '10000000',
+          asset: 'BTC.BTC',
+        },
+      });
+    });
+
+    it('should derive the destination chain from the asset notation prefix', async () => {
+      await quote({
+        sellToken: token('BTC.BTC', BlockchainEcosystem.BITCOIN),
+        buyToken: token('AVAX.AVAX', BlockchainEcosystem.THORCHAIN),
+        sellAmount: '10000000',
+      });
+
+      expect(aggregatorManager.getNativeQuote).toHaveBeenCalledWith(
+        expect.objectContaining({ toChainId: 43114, toToken: 'AVAX.AVAX' }),
+        undefined,
+      );
+    });
+
+    it('should rescale an EVM gas asset from 18 decimals to 1e8 units', async () => {
+      await quote({
+        sellToken: token(
+          '0x0000000000000000000000000000000000000000',
+          BlockchainEcosystem.EVM,
+          56,
+        ),
+        buyToken: token(weth, BlockchainEcosystem.EVM, 1),
+        sellAmount: '1500000000000000000',
+      });
+
+      expect(nativeQuoteRequest()).toMatchObject({
+        fromAsset: 'BSC.BNB',
+        amountSats: '150000000',
+      });
+    });
+
+    it('should convert an EVM token to THORChain asset notation with its decimals', async () => {
+      await quote({
+        sellToken: token(usdc, BlockchainEcosystem.EVM, 1, {
+          symbol: 'usdc',
+          decimals: 6,
+        }),
+        buyToken: token(
+          '0x0000000000000000000000000000000000000000',
+          BlockchainEcosystem.EVM,
+          56,
+        ),
+        sellAmount: '2500000',
+      });
+
+      expect(nativeQuoteRequest()).toMatchObject({
+        fromAsset: `ETH.USDC-${usdc.toUpperCase()}`,
+        amountSats: '250000000',
+      });
+    });
+
+    it('should reject an EVM amount below the smallest THORChain unit', async () => {
+      await expect(
+        quote({
+          sellToken: token(
+            '0x0000000000000000000000000000000000000000',
+            BlockchainEcosystem.EVM,
+            1,
+          ),
+          buyToken: token('BTC.BTC', BlockchainEcosystem.BITCOIN),
+          sellAmount: '9999999999',
+        }),
+      ).rejects.toThrow('below the smallest THORChain unit of ETH.ETH');
+      expect(aggregatorManager.getNativeQuote).not.toHaveBeenCalled();
+    });
+
+    it('should reject EVM tokens without decimals and sell tokens outside EVM and Bitcoin', async () => {
+      await expect(
+        quote({
+          sellToken: token(usdc, BlockchainEcosystem.EVM, 1, {
+            symbol: 'USDC',
+          }),
+          buyToken: token('BTC.BTC', BlockchainEcosystem.BITCOIN),
+        }),
+      ).rejects.toThrow('sellToken.decimals is required');
+      await expect(
+        quote({
+          sellToken: token(
+            'So11111111111111111111111111111111111111112',
+            BlockchainEcosystem.SOLANA,
+          ),
+          buyToken: token('BTC.BTC', BlockchainEcosystem.BITCOIN),
+        }),
+      ).rejects.toThrow('use THORChain asset notation');
+    });
+  });
+
+  describe('route count', () => {
+    beforeEach(() => {
+      routeTo('meta', SwapType.L1_TO_L2);
+      aggregatorManager.getCrossChainRoutes.mockResolvedValue(
+        ['LI.FI', 'Socket', 'Rango', 'Router'].map((provider) =>
+          metaRoute({ provider }),
+        ),
+      );
+    });
+
+    it('should return every route when neither returnMultipleRoutes nor maxRoutes is set', async () => {
+      const response = await quote({});
+
+      expect(response.routes).toHaveLength(4);
+    });
+
+    it('should cap the routes at maxRoutes', async () => {
+      const response = await quote({ maxRoutes: 2 });
+
+      expect(response.routes.map((route) => route.provider)).toEqual([
+        'LI.FI',
+        'Socket',
+      ]);
+    });
+
+    it('should return a single route when returnMultipleRoutes is false', async () => {
+      const response = await quote({
+        returnMultipleRoutes: false,
+        maxRoutes: 3,
+      });
+
+      expect(response.routes).toHaveLength(1);
+    });
+
+    it('should query only the best-ranked EVM aggregator when returnMultipleRoutes is false', async () => {
+      routeTo('evm-aggregators', SwapType.ON_CHAIN);
+      aggregatorManager.getEvmQuote.mockResolvedValue(evmQuote());
+
+      const response = await quote({
+        buyToken: token(weth, BlockchainEcosystem.EVM, 1),
+        returnMultipleRoutes: false,
+      });
+
+      expect(aggregatorManager.getEvmQuote).toHaveBeenCalled();
+      expect(aggregatorManager.getQuotesWithinDeadline).not.toHaveBeenCalled();
+      expect(response.routes).toHaveLength(1);
+    });
+  });
+
+  describe('maxGasFee', () => {
+    const evmRequest = { buyToken: token(weth, BlockchainEcosystem.EVM, 1) };
+
+    beforeEach(() => {
+      routeTo('evm-aggregators', SwapType.ON_CHAIN);
+      aggregatorManager.getQuotesWithinDeadline.mockResolvedValue({
+        // 200000 x 4 gwei = 0.0008 ETH and 300000 x 5 gwei = 0.0015 ETH
+        quotes: [
+          {
+            aggregator: 'odos',
+            quote: evmQuote({ maxFeePerGas: '4000000000', gasPrice: '1' }),
+          },
+          {
+            aggregator: '0x',
+            quote: evmQuote({
+              aggregator: '0x',
+              gas: '300000',
+              gasPrice: '5000000000',
+            }),
+          },
+        ],
+        timedOut: [],
+        outliers: [],
+      });
+    });
+
+    it('should drop routes whose gas cost exceeds maxGasFee and say so', async () => {
+      const response = await quote({ ...evmRequest, maxGasFee: '0.001' });
+
+      expect(response.routes).toHaveLength(1);
+      expect(response.routes[0]).toMatchObject({
+        provider: 'odos',
+        metadata: { gasCost: '800000000000000' },
+      });
+      expect(response.warnings).toContain(
+        '0x route dropped: gas cost 0.0015 exceeds maxGasFee 0.001',
+      );
+    });
+
+    it('should keep a route whose gas cost equals maxGasFee', async () => {
+      const response = await quote({ ...evmRequest, maxGasFee: '0.0015' });
+
+      expect(response.routes.map((route) => route.provider)).toEqual([
+        'odos',
+        '0x',
+      ]);
+      expect(response.warnings.join('\n')).not.toContain('dropped');
+    });
+
+    it('should return every route flagged when all of them exceed maxGasFee', async () => {
+      const response = await quote({ ...evmRequest, maxGasFee: '0.0001' });
+
+      expect(response.routes).toHaveLength(2);
+      for (const route of response.routes) {
+        expect(route).toMatchObject({ metadata: { exceedsMaxGasFee: true } });
+      }
+      expect(response.warnings).toContain(
+        'All routes exceed maxGasFee 0.0001; returning them flagged with exceedsMaxGasFee',
+      );
+      expect(response.warnings.join('\n')).not.toContain('dropped');
+    });
+
+    it('should sum the gas cost of every split route leg', async () => {
+      const split: SplitQuote = {
+        legs: [
+          {
+            provider: 'odos',
+            shareBps: 6000,
+            quote: evmQuote({ gasPrice: '2000000000' }),
+          },
+          {
+            provider: '0x',
+            shareBps: 4000,
+            quote: evmQuote({ gas: '100000', gasPrice: '2000000000' }),
+          },
+        ],
+        sellAmount: '1000000',
+        buyAmount: '300000000000000',
+        minBuyAmount: '297000000000000',
+        netBuyAmount: '300000000000000',
+        improvementBps: 12,
+      };
+      aggregatorManager.getSplitQuote.mockResolvedValue(split);
+
+      const response = await quote({
+        ...evmRequest,
+        maxGasFee: '0.001',
+        includeSplitRoute: true,
+      });
+
+      // 200000 x 2 gwei + 100000 x 2 gwei = 0.0006 ETH
+      expect(
+        response.routes.find((route) => route.routeType === 'split'),
+      ).toMatchObject({ metadata: { gasCost: '600000000000000' } });
+    });
+
+    it('should use the meta aggregator fees.gas amount when a route has no transaction gas', async () => {
+      routeTo('meta', SwapType.L1_TO_L2);
+      aggregatorManager.getCrossChainRoutes.mockResolvedValue([
+        metaRoute({
+          provider: 'Socket',
+          fees: { gas: '2000000000000000', provider: '0' },
+        }),
+        metaRoute({ fees: { gas: '500000000000000', provider: '0' } }),
+      ]);
+
+      const response = await quote({ maxGasFee: '0.001' });
+
+      expect(response.routes.map((route) => route.provider)).toEqual(['LI.FI']);
+      expect(response.warnings).toContain(
+        'Socket route dropped: gas cost 0.002 exceeds maxGasFee 0.001',
+      );
+    });
+  });
+});
@@ -1,18 +1,121 @@
-import { Controller, Post, Get, Query, Body, HttpCode, HttpStatus, Logger, BadRequestException, InternalServerErrorException, ServiceUnavailableException, ParseIntPipe } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Query,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  BadRequestException,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+  ParseIntPipe,
+  HttpException,
+} from '@nestjs/common';
+import { parseEther, formatEther } from 'viem';
+import {
+  getMevFallbackPolicy,
+  isMevRelayConfigured,
+  isNativeToken,
+  NATIVE_TOKEN_ADDRESS,
+} from '@shared/utils/chain.utils';
+import { calculateGasCostWei } from '@shared/utils/ethereum.utils';
 import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiQuery } from '@nestjs/swagger';
-import { 
-  UniversalSwapRequestDto, 
-  UniversalSwapResponseDto, 
-  SwapType, 
-  BlockchainEcosystem 
+import {
+  UniversalSwapRequestDto,
+  UniversalSwapResponseDto,
+  SwapRoute,
+  SwapType,
+  BlockchainEcosystem,
 } from '@swap/dto/universal-swap-request.dto';
 import { SwapRoutingService } from '@swap/services/core/swap-routing.service';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
 import { ApprovalService } from '@swap/services/blockchain/approval/approval.service';
 import { QuoteService } from '@swap/services/core/execution/quote.service';
+import { UniversalExecutionService } from '@swap/services/core/execution/universal-execution.service';
+import { ExecutionTrackerService } from '@swap/services/core/execution/execution-tracker.service';
+import { RouteStoreService } from '@swap/services/core/route-store.service';
 import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
 import { ApprovalRequestDto, ApprovalStatusRequestDto } from '@swap/dto/approval-request.dto';
-import { AggregatorType } from '@swap/models/swap-request.model';
+import {
+  UniversalExecuteRequestDto,
+  UniversalSubmitRequestDto,
+} from '@swap/dto/universal-execute-request.dto';
+import {
+  ProviderId,
+  SwapRequest,
+  SwapQuote,
+  QuoteFanOutDiagnostics,
+  SplitQuote,
+} from '@swap/models/swap-request.model';
+import {
+  RouteRequest,
+  RouteQuote,
+  SolanaQuoteRequest,
+  NativeQuoteRequest,
+  CircuitBreakerSnapshot,
+  ProviderHealthReport,
+  IntentQuote,
+} from '@swap/models/ports';
+import {
+  QuotedRoute,
+  RouteTransactionData,
+} from '@swap/models/execution.model';
+import { RateLimiterStats } from '@shared/services/rate-limiter.service';
+
+// EVM chain IDs for THORChain asset notation chain prefixes
+const NATIVE_ASSET_CHAIN_IDS: Record<string, number> = {
+  ETH: 1,
+  BSC: 56,
+  AVAX: 43114,
+};
+
+// THORChain gas assets of the EVM chain prefixes above
+const NATIVE_ASSET_GAS_ASSETS: Record<string, string> = {
+  ETH: 'ETH.ETH',
+  BSC: 'BSC.BNB',
+  AVAX: 'AVAX.AVAX',
+};
+
+// THORChain quotes every asset in 1e8 base units regardless of its chain decimals
+const THORCHAIN_DECIMALS = 8;
+
+/**
+ * Route as built by the provider handlers; the route store assigns the public routeId and keeps providerRef server-side
+ */
+type UniversalRoute = SwapRoute &
+  QuotedRoute & {
+    metadata?: {
+      fees?: RouteQuote['fees'];
+      gasCost?: string;
+      exceedsMaxGasFee?: boolean;
+    };
+  };
+
+// Fields read from the LI.FI route a meta aggregator keeps in providerRef
+interface LifiRouteRef {
+  transactionRequest?: {
+    to?: string;
+    data?: string;
+    value?: string;
+    gasLimit?: string;
+    gasPrice?: string;
+    chainId?: number;
+  };
+  estimate?: { approvalAddress?: string };
+}
+
+// Fields read from the details of a meta aggregator or Jupiter route step
+interface RouteStepDetails {
+  action?: {
+    fromToken?: { address?: string };
+    toToken?: { address?: string };
+    fromChainId?: number;
+    toChainId?: number;
+  };
+  swapInfo?: { inputMint?: string; outputMint?: string };
+}
 
 /**
  * Universal Swap Controller
@@ -30,10 +133,9 @@ export class UniversalSwapController {
     private readonly approvalService: ApprovalService,
     private readonly quoteService: QuoteService,
     private readonly walletService: WalletService,
-    // TODO: Inject additional provider managers when implemented
-    // private readonly metaAggregatorManager: MetaAggregatorManager,
-    // private readonly nativeL1Manager: NativeL1Manager,
-    // private readonly solanaManager: SolanaManager,
+    private readonly universalExecutionService: UniversalExecutionService,
+    private readonly executionTracker: ExecutionTrackerService,
+    private readonly routeStore: RouteStoreService,
   ) {}
 
   /**
@@ -108,16 +210,54 @@ export class UniversalSwapController {
       const availableProviders = this.swapRoutingService.getProvidersForCategory(providerCategory, request);
       this.logger.debug(`Available providers: ${availableProviders.join(', ')}`);
 
-      // Step 6: Route to appropriate provider manager (TODO: Implement actual routing)
-      const routes = await this.routeToProviderManager(providerCategory, request, swapType);
+      // Step 6: Route to appropriate provider manager
+      const diagnostics: QuoteFanOutDiagnostics = {
+        timedOut: [],
+        outliers: [],
+        warnings: [],
+      };
+      const quotedRoutes = await this.routeToProviderManager(
+        providerCategory,
+        request,
+        swapType,
+        diagnostics,
+      );
+
+      // Step 7: Enforce maxGasFee, mark MEV protection, cap the route count and remember routes for execution
+      const routeWarnings: string[] = [];
+      const affordableRoutes = this.enforceMaxGasFee(
+        request,
+        quotedRoutes,
+        routeWarnings,
+      );
+      const protectedRoutes = this.markMevProtection(
+        request,
+        affordableRoutes,
+        routeWarnings,
+      );
+      const routeLimit =
+        request.returnMultipleRoutes === false ? 1 : request.maxRoutes;
+      const routes = this.routeStore.save(
+        request,
+        swapType,
+        routeLimit ? protectedRoutes.slice(0, routeLimit) : protectedRoutes,
+      );
 
-      // Step 7: Return structured response
+      // Step 8: Return structured response
       return {
         swapType,
         routes,
         recommendedRoute: routes[0], // Best route (highest quality score)
-        transactionData: (routes[0] as any)?.transactionData || null,
-        warnings: this.generateWarnings(request, swapType, complexity),
+        transactionData: routes[0]?.transactionData || null,
+        warnings: [
+          ...this.generateWarnings(request, swapType, complexity),
+          ...routeWarnings,
+          ...this.generateFanOutWarnings(diagnostics),
+        ],
+        timedOut:
+          diagnostics.timedOut.length > 0 ? diagnostics.timedOut : undefined,
+        outliers:
+          diagnostics.outliers.length > 0 ? diagnostics.outliers : undefined,
       };
 
     } catch (error) {
@@ -176,27 +316,24 @@ export class UniversalSwapController {
 
     // Liquidity check
     let liquidityAvailable: boolean | null = null;
+    // Exact-output requests spend what the best quote needs rather than their sellAmount budget
+    let requiredSellAmount = request.buyAmount ? undefined : request.sellAmount;
+    let quotedSpender: string | undefined;
     try {
       const providerCategory = this.swapRoutingService.determineProviderCategory(
         this.swapRoutingService.determineSwapType(request),
         request
       );
       if (providerCategory === 'evm-aggregators') {
-        const legacyParams = this.convertToLegacyParams(request);
-        const quotes = await this.aggregatorManager.getMultipleQuotes(
-          legacyParams.chainId,
-          legacyParams.sellToken,
-          legacyParams.buyToken,
-          legacyParams.sellAmount,
-          legacyParams.taker,
-          legacyParams.recipient,
-          legacyParams.slippagePercentage,
-          legacyParams.deadline
-        );
+        const legacyParams = await this.convertToLegacyParams(request);
+        const { quotes } =
+          await this.aggregatorManager.getQuotesWithinDeadline(legacyParams);
         liquidityAvailable = quotes.length > 0 && parseFloat(quotes[0].quote.buyAmount) > 0;
         if (!liquidityAvailable) {
           warnings.push('No liquidity available for requested swap');
         } else {
+          requiredSellAmount = quotes[0].quote.sellAmount;
+          quotedSpender = quotes[0].quote.allowanceTarget;
           // Cache successful quote for future chain/token support checks
           this.swapRoutingService.cacheSupportedQuote(
             legacyParams.chainId,
@@ -224,23 +361,38 @@ export class UniversalSwapController {
         if (isNativeEth) {
           approvalRequired = false;
           details.approvalNote = 'Native ETH does not require approval';
+        } else if (!requiredSellAmount) {
+          details.approvalNote =
+            'Sell amount unknown without an exact-output quote - approval check skipped';
+          warnings.push(
+            'Approval check skipped: no quote to determine the sell amount',
+          );
         } else {
-          const spender = await this.swapRoutingService.getSpenderForSwap(request, this.aggregatorManager);
+          const spender =
+            quotedSpender ||
+            (await this.swapRoutingService.getSpenderForSwap(
+              request,
+              this.aggregatorManager,
+            ));
           if (!spender) {
             // If we couldn't get spender, skip approval check (it will be checked during actual execution)
             approvalRequired = null;
-            details.approvalNote = 'Could not determine spender address - approval check skipped';
-            warnings.push('Approval check skipped: unable to determine spender address');
+            details.approvalNote =
+              'Could not determine spender address - approval check skipped';
+            warnings.push(
+              'Approval check skipped: unable to determine spender address',
+            );
           } else {
             const approvalStatus = await this.approvalService.getApprovalStatus(
               Number(request.sellToken.chain.chainId),
               request.sellToken.address,
               request.taker,
               spender,
-              request.sellAmount
+              requiredSellAmount,
             );
             approvalRequired = approvalStatus.isApprovalNeeded;
-            if (approvalRequired) warnings.push('Token approval required for swap');
+            if (approvalRequired)
+              warnings.push('Token approval required for swap');
           }
         }
       } else {
@@ -258,21 +410,29 @@ export class UniversalSwapController {
     let sufficientBalance: boolean | null = null;
     try {
       if (request.sellToken.chain.ecosystem === 'evm') {
-        const balanceInfo = await this.walletService.getBalance(
-          Number(request.sellToken.chain.chainId),
-          request.taker,
-          request.sellToken.address
-        );
-        const balanceBigInt = BigInt(balanceInfo.balance);
-        const requiredAmount = BigInt(request.sellAmount);
-        sufficientBalance = balanceBigInt >= requiredAmount;
-        if (!sufficientBalance) {
-          warnings.push('Insufficient wallet balance for swap');
-          details.balanceDetails = {
-            required: request.sellAmount,
-            available: balanceInfo.balance,
-            token: balanceInfo.symbol
-          };
+        if (!requiredSellAmount) {
+          details.balanceNote =
+            'Sell amount unknown without an exact-output quote - balance check skipped';
+          warnings.push(
+            'Wallet balance check skipped: no quote to determine the sell amount',
+          );
+        } else {
+          const balanceInfo = await this.walletService.getBalance(
+            Number(request.sellToken.chain.chainId),
+            request.taker,
+            request.sellToken.address,
+          );
+          const balanceBigInt = BigInt(balanceInfo.balance);
+          const requiredAmount = BigInt(requiredSellAmount);
+          sufficientBalance = balanceBigInt >= requiredAmount;
+          if (!sufficientBalance) {
+            warnings.push('Insufficient wallet balance for swap');
+            details.balanceDetails = {
+              required: requiredSellAmount,
+              available: balanceInfo.balance,
+              token: balanceInfo.symbol,
+            };
+          }
         }
       } else {
         // TODO: Implement wallet balance check for non-EVM
@@ -290,7 +450,9 @@ export class UniversalSwapController {
     try {
       if (request.sellToken.chain.ecosystem === 'evm') {
         const healthResults = await this.aggregatorManager.getProvidersHealth();
-        providerHealthy = healthResults.evm.every(h => h.status === 'healthy');
+        providerHealthy = healthResults.evm.every(
+          (h) => h.status !== 'unhealthy',
+        );
         if (!providerHealthy) warnings.push('Swap provider is currently unhealthy');
       } else {
         // TODO: Implement provider health check for non-EVM
@@ -320,42 +482,113 @@ export class UniversalSwapController {
   @Post('execute')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
-    summary: 'Execute universal swap',
-    description: 'Execute a previously quoted swap route across any supported ecosystem'
-  })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        routeId: { type: 'string', description: 'Route ID from quote response' },
-        userSignature: { type: 'string', description: 'User signature for transaction execution' },
-        slippageToleranceBps: { type: 'number', description: 'Final slippage tolerance' },
-      },
-      required: ['routeId'],
-    },
+    summary: 'Prepare universal swap execution',
+    description: `
+    Prepare a previously quoted route for non-custodial execution across any supported ecosystem.
+    Returns an executionId and the ordered steps the client must sign:
+    
+    - **approval**: Unsigned ERC-20 approve transaction (only when allowance is insufficient)
+    - **permit2-signature**: EIP-712 typed data to sign (Permit2 quotes)
+    - **order-signature**: EIP-712 order to sign (intent routes); solvers settle the signed order, no transaction is sent
+    - **swap** / **bridge**: Unsigned EVM transaction or serialized Solana transaction
+    - **deposit**: Native L1 vault address, amount and memo (BTC, THORChain, Maya)
+    
+    Submit the signed payloads to \`/universal-swap/execute/submit\` in step order.
+    `,
   })
+  @ApiBody({ type: UniversalExecuteRequestDto })
   @ApiResponse({
     status: 200,
-    description: 'Swap execution initiated successfully',
+    description: 'Execution prepared with the steps to sign',
     schema: {
       type: 'object',
       properties: {
-        executionId: { type: 'string', example: 'exec_12345' },
-        transactionHashes: { 
-          type: 'array', 
-          items: { type: 'string' },
-          example: ['0xabc...', '0xdef...'] 
+        executionId: {
+          type: 'string',
+          example: '5b0e9c1a-7d2f-4c8e-a3b6-9f41d2e7c058',
+        },
+        routeId: { type: 'string' },
+        provider: { type: 'string', example: '0x' },
+        status: {
+          type: 'string',
+          enum: ['PENDING', 'SUCCESS', 'FAILED', 'PARTIAL'],
         },
-        status: { type: 'string', enum: ['PENDING', 'SUCCESS', 'FAILED'] },
-        estimatedCompletion: { type: 'string', format: 'date-time' },
+        steps: { type: 'array', items: { type: 'object' } },
       },
     },
   })
-  async executeUniversalSwap(@Body() request: any) {
-    this.logger.log(`Executing universal swap route: ${request.routeId}`);
-    
-    // TODO: Implement swap execution
-    throw new BadRequestException('Universal swap execution not yet implemented');
+  @ApiResponse({ status: 404, description: 'Unknown routeId' })
+  @ApiResponse({
+    status: 410,
+    description: 'Quote expired, request a fresh quote',
+  })
+  async executeUniversalSwap(@Body() request: UniversalExecuteRequestDto) {
+    this.logger.log(
+      `Preparing universal swap execution for route: ${request.routeId}`,
+    );
+
+    try {
+      return await this.universalExecutionService.prepareExecution(
+        request.routeId,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Universal execution preparation failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      // Includes 404 for unknown routes and 410 for expired quotes
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new InternalServerErrorException(
+        `Failed to prepare execution: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Submit signed payloads for a prepared execution
+   */
+  @Post('execute/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit signed execution steps',
+    description:
+      'Submit signed transactions, Permit2 or order signatures, or client-broadcast transaction hashes for a prepared execution. Signed transactions are broadcast through the wallet provider of the step ecosystem; signed orders are posted to the intent provider once any approval is mined.',
+  })
+  @ApiBody({ type: UniversalSubmitRequestDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Signed steps accepted; execution with updated step status and transaction hashes',
+  })
+  async submitUniversalSwap(@Body() request: UniversalSubmitRequestDto) {
+    this.logger.log(
+      `Submitting ${request.steps.length} signed steps for execution: ${request.executionId}`,
+    );
+
+    try {
+      return await this.universalExecutionService.submitSignedSteps(
+        request.executionId,
+        request.steps,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Universal execution submit failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      // Includes 404 for unknown or evicted executions
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new InternalServerErrorException(
+        `Failed to submit execution steps: ${(error as Error).message}`,
+      );
+    }
   }
 
   /**
@@ -365,7 +598,8 @@ export class UniversalSwapController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: 'Check swap execution status',
-    description: 'Monitor the progress of a cross-chain or complex swap operation'
+    description:
+      'Monitor the progress of a cross-chain or complex swap operation. Submitted steps are polled on the source chain wallet provider, the meta aggregator (bridges), the native router (L1 deposits) or the intent provider (signed orders, until filled or expired) until the execution is final.',
   })
   @ApiBody({
     schema: {
@@ -376,11 +610,61 @@ export class UniversalSwapController {
       required: ['executionId'],
     },
   })
+  @ApiResponse({
+    status: 200,
+    description: 'Execution status with per-step status',
+    schema: {
+      type: 'object',
+      properties: {
+        executionId: {
+          type: 'string',
+          example: '5b0e9c1a-7d2f-4c8e-a3b6-9f41d2e7c058',
+        },
+        status: {
+          type: 'string',
+          enum: ['PENDING', 'SUCCESS', 'FAILED', 'PARTIAL'],
+        },
+        sourceTxHash: { type: 'string', example: '0xabc...' },
+        destinationTxHash: { type: 'string', example: '0xdef...' },
+        amountReceived: { type: 'string', example: '999500000' },
+        steps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'number' },
+              type: {
+                type: 'string',
+                enum: [
+                  'approval',
+                  'permit2-signature',
+                  'order-signature',
+                  'swap',
+                  'bridge',
+                  'deposit',
+                ],
+              },
+              status: {
+                type: 'string',
+                enum: ['PENDING', 'SUCCESS', 'FAILED', 'PARTIAL'],
+              },
+              txHash: { type: 'string' },
+              destinationTxHash: { type: 'string' },
+              orderId: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  })
   async getSwapStatus(@Body() request: { executionId: string }) {
     this.logger.log(`Checking swap status: ${request.executionId}`);
     
-    // TODO: Implement status checking
-    throw new BadRequestException('Status checking not yet implemented');
+    if (!request.executionId) {
+      throw new BadRequestException('executionId is required');
+    }
+
+    return await this.executionTracker.getStatusReport(request.executionId);
   }
 
   /**
@@ -389,39 +673,38 @@ export class UniversalSwapController {
   private async routeToProviderManager(
     category: 'evm-aggregators' | 'meta' | 'native-l1' | 'solana',
     request: UniversalSwapRequestDto,
-    swapType: SwapType
-  ) {
+    swapType: SwapType,
+    diagnostics: QuoteFanOutDiagnostics,
+  ): Promise<UniversalRoute[]> {
     this.logger.debug(`Routing to provider category: ${category}`);
+
+    if (
+      request.buyAmount &&
+      (category === 'meta' || category === 'native-l1')
+    ) {
+      throw new BadRequestException(
+        'Exact-output quotes (buyAmount) are supported for same-chain EVM and Solana swaps only',
+      );
+    }
     
     switch (category) {
       case 'evm-aggregators':
-        return await this.handleEvmAggregators(request, swapType);
+        return await this.handleEvmAggregators(request, swapType, diagnostics);
         
       case 'meta':
-        // TODO: Route to meta aggregator manager
-        this.logger.debug('Routing to meta aggregators');
-        break;
+        return await this.handleMetaAggregators(request, swapType);
         
       case 'native-l1':
-        // TODO: Route to native L1 router manager
-        this.logger.debug('Routing to native L1 routers');
-        break;
+        return await this.handleNativeRouters(request, swapType);
         
       case 'solana':
-        // TODO: Route to Solana router manager
-        this.logger.debug('Routing to Solana routers');
-        break;
-    }
+        return await this.handleSolanaRouters(request, swapType);
 
-    // Placeholder return for non-implemented categories
-    return [{
-      provider: 'placeholder',
-      outputAmount: '0',
-      estimatedGas: '0',
-      steps: [],
-      estimatedTime: 60,
-      qualityScore: 85,
-    }];
+      default:
+        throw new BadRequestException(
+          `Unsupported provider category: ${category as string}`,
+        );
+    }
   }
 
   /**
@@ -429,32 +712,45 @@ export class UniversalSwapController {
    */
   private async handleEvmAggregators(
     request: UniversalSwapRequestDto,
-    swapType: SwapType
-  ) {
+    swapType: SwapType,
+    diagnostics: QuoteFanOutDiagnostics,
+  ): Promise<UniversalRoute[]> {
     this.logger.debug('Processing EVM aggregator request');
 
     try {
       // Convert universal request to legacy format parameters
-      const legacyParams = this.convertToLegacyParams(request);
+      const legacyParams = await this.convertToLegacyParams(request);
       
-      this.logger.debug(`EVM params: Chain ${legacyParams.chainId}, ${legacyParams.sellToken} -> ${legacyParams.buyToken}, Amount: ${legacyParams.sellAmount}`);
+      this.logger.debug(
+        `EVM params: Chain ${legacyParams.chainId}, ${legacyParams.sellToken} -> ${legacyParams.buyToken}, Amount: ${legacyParams.buyAmount ? `exactly ${legacyParams.buyAmount} out for at most ${legacyParams.sellAmount}` : legacyParams.sellAmount}`,
+      );
       
-      // Get multiple quotes using the existing dynamic provider selection
-      const quotes = await this.aggregatorManager.getMultipleQuotes(
-        legacyParams.chainId,
-        legacyParams.sellToken,
-        legacyParams.buyToken,
-        legacyParams.sellAmount,
-        legacyParams.taker,
-        legacyParams.recipient,
-        legacyParams.slippagePercentage,
-        legacyParams.deadline
+      const quotes = await this.getEvmQuotes(
+        request,
+        legacyParams,
+        diagnostics,
       );
       
       this.logger.debug(`Received ${quotes.length} quotes from EVM aggregators`);
-      
-      // Convert quotes to universal route format
-      const routes = quotes.map((quoteResult, index) => {
+
+      // Opt-in split and intent routes; single routes are scored against them when they are better
+      const split = request.includeSplitRoute
+        ? await this.getSplitQuote(request, legacyParams, diagnostics)
+        : undefined;
+      const intent = request.includeIntentRoute
+        ? await this.getIntentQuote(request, legacyParams, diagnostics)
+        : undefined;
+      const bestQuote = this.selectBestQuote(
+        [
+          quotes[0]?.quote,
+          split,
+          intent && this.toScoredIntentQuote(intent, legacyParams),
+        ],
+        !!legacyParams.buyAmount,
+      );
+
+      // Convert quotes to universal route format (order is preserved: quotes are ranked by net output, or net input for exact-output)
+      const routes = quotes.map((quoteResult, index): UniversalRoute => {
         const { aggregator, quote } = quoteResult;
         
         this.logger.debug(`Processing quote ${index + 1} from ${aggregator}: ${quote.buyAmount} output, ${quote.gas} gas`);
@@ -462,18 +758,21 @@ export class UniversalSwapController {
         return {
           provider: aggregator,
           outputAmount: quote.buyAmount,
+          inputAmount: quote.sellAmount,
           estimatedGas: quote.estimatedGas || quote.gas,
-          steps: [{
-            action: 'swap' as const,
-            provider: aggregator,
-            fromToken: quote.sellToken,
-            toToken: quote.buyToken,
-            fromChain: legacyParams.chainId.toString(),
-            toChain: legacyParams.chainId.toString(), // Same chain for EVM aggregators
-            estimatedTime: 30, // Typical on-chain swap time
-          }],
+          steps: [
+            {
+              action: 'swap' as const,
+              provider: aggregator,
+              fromToken: quote.sellToken,
+              toToken: quote.buyToken,
+              fromChain: legacyParams.chainId.toString(),
+              toChain: legacyParams.chainId.toString(), // Same chain for EVM aggregators
+              estimatedTime: 30, // Typical on-chain swap time
+            },
+          ],
           estimatedTime: 30,
-          qualityScore: this.calculateRouteQualityScore(quote, index, aggregator),
+          qualityScore: this.calculateRouteQualityScore(quote, bestQuote),
           // Include transaction data for immediate execution
           transactionData: {
             to: quote.to,
@@ -493,12 +792,26 @@ export class UniversalSwapController {
             approvalStrategy: quote.approvalStrategy,
             permit2: quote.permit2,
             chainId: legacyParams.chainId,
+            gasCostInBuyToken: quote.gasCostInBuyToken,
+            netOutputAmount: quote.netBuyAmount,
+            gasCostInSellToken: quote.gasCostInSellToken,
+            netInputAmount: quote.netSellAmount,
+            outlier: quote.outlier,
           },
         };
       });
 
-      // Sort by quality score (highest first)
-      routes.sort((a, b) => b.qualityScore - a.qualityScore);
+      if (split) {
+        routes.push(this.buildSplitRoute(split, legacyParams, bestQuote));
+      }
+
+      if (intent) {
+        routes.push(this.buildIntentRoute(intent, legacyParams, bestQuote));
+      }
+
+      if (split || intent) {
+        routes.sort((a, b) => b.qualityScore - a.qualityScore);
+      }
 
       // Cache successful quotes for future chain/token support checks
       if (routes.length > 0 && routes[0].qualityScore > 0) {
@@ -515,6 +828,11 @@ export class UniversalSwapController {
 
     } catch (error) {
       this.logger.error(`EVM aggregator routing failed: ${error.message}`, error.stack);
+
+      // A pinned provider has no fallback; surface its error instead of an empty route
+      if (request.preferredProvider) {
+        throw error;
+      }
       
       // Return fallback route with error indication
       return [{
@@ -529,10 +847,965 @@ export class UniversalSwapController {
     }
   }
 
+  /**
+   * Get EVM quotes: pinned to the preferred provider, single best quote, or a deadline-bounded fan-out
+   * across all aggregators (timed out providers and quote outliers are collected in diagnostics)
+   */
+  private async getEvmQuotes(
+    request: UniversalSwapRequestDto,
+    legacyParams: SwapRequest,
+    diagnostics: QuoteFanOutDiagnostics,
+  ): Promise<Array<{ aggregator: ProviderId; quote: SwapQuote }>> {
+    if (request.preferredProvider) {
+      const quote = await this.aggregatorManager.getPinnedEvmQuote(
+        legacyParams,
+        request.preferredProvider,
+      );
+      return this.aggregatorManager.rankQuotes(
+        [{ aggregator: quote.aggregator, quote }],
+        legacyParams,
+      );
+    }
+
+    // Single-route mode uses dynamic provider selection without fanning out
+    if (request.returnMultipleRoutes === false) {
+      const quote = await this.aggregatorManager.getEvmQuote(legacyParams);
+      return this.aggregatorManager.rankQuotes(
+        [{ aggregator: quote.aggregator, quote }],
+        legacyParams,
+      );
+    }
+
+    // Fan-out quotes arrive ranked by net output after gas (net input for exact-output requests)
+    const fanOut = await this.aggregatorManager.getQuotesWithinDeadline(
+      legacyParams,
+      {
+        deadlineMs: request.quoteTimeoutMs,
+        hedge: request.hedgeSlowProviders,
+      },
+    );
+    diagnostics.timedOut.push(...fanOut.timedOut);
+    diagnostics.outliers.push(...fanOut.outliers);
+
+    return fanOut.quotes;
+  }
+
+  /**
+   * Split quote for an opted-in request; requests that cannot be split get a warning instead
+   */
+  private async getSplitQuote(
+    request: UniversalSwapRequestDto,
+    legacyParams: SwapRequest,
+    diagnostics: QuoteFanOutDiagnostics,
+  ): Promise<SplitQuote | undefined> {
+    if (legacyParams.buyAmount || request.preferredProvider) {
+      diagnostics.warnings.push(
+        'Split routing is not available for exact-output or provider-pinned requests',
+      );
+      return undefined;
+    }
+
+    if (
+      !(await this.aggregatorManager.qualifiesForSplitRouting(legacyParams))
+    ) {
+      diagnostics.warnings.push(
+        `Split routing applies to trades worth at least $${this.aggregatorManager.getSplitRouteMinUsd()}`,
+      );
+      return undefined;
+    }
+
+    try {
+      return await this.aggregatorManager.getSplitQuote(legacyParams, {
+        deadlineMs: request.quoteTimeoutMs,
+      });
+    } catch (error) {
+      this.logger.warn(`Split routing failed: ${(error as Error).message}`);
+      diagnostics.warnings.push(
+        `Split routing failed: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Intent quote for an opted-in request; when no intent provider can quote the trade a warning is added instead
+   */
+  private async getIntentQuote(
+    request: UniversalSwapRequestDto,
+    legacyParams: SwapRequest,
+    diagnostics: QuoteFanOutDiagnostics,
+  ): Promise<IntentQuote | undefined> {
+    if (request.preferredProvider) {
+      diagnostics.warnings.push(
+        'Intent routes are not available for provider-pinned requests',
+      );
+      return undefined;
+    }
+
+    try {
+      const [best] = await this.aggregatorManager.getIntentQuotes(legacyParams);
+      return best;
+    } catch (error) {
+      this.logger.warn(`Intent routing failed: ${(error as Error).message}`);
+      diagnostics.warnings.push(
+        `Intent routing failed: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Intent quote in the shape routes are scored by; the taker pays no gas, so net amounts are the quoted ones
+   */
+  private toScoredIntentQuote(
+    intent: IntentQuote,
+    legacyParams: SwapRequest,
+  ): Pick<SwapQuote, 'buyAmount' | 'netBuyAmount' | 'netSellAmount'> {
+    return {
+      buyAmount: intent.buyAmount,
+      netBuyAmount: intent.buyAmount,
+      netSellAmount: legacyParams.buyAmount ? intent.sellAmount : undefined,
+    };
+  }
+
+  /**
+   * Best quote to score routes against: highest net output, or lowest net input for exact-output requests
+   */
+  private selectBestQuote(
+    candidates: Array<
+      | Pick<SwapQuote, 'buyAmount' | 'netBuyAmount' | 'netSellAmount'>
+      | undefined
+    >,
+    exactOutput: boolean,
+  ):
+    | Pick<SwapQuote, 'buyAmount' | 'netBuyAmount' | 'netSellAmount'>
+    | undefined {
+    return candidates.reduce((best, candidate) => {
+      if (!candidate || !best) {
+        return best ?? candidate;
+      }
+
+      if (exactOutput) {
+        const netInput = this.parseAmount(candidate.netSellAmount);
+        const bestNetInput = this.parseAmount(best.netSellAmount);
+        return netInput !== undefined &&
+          (bestNetInput === undefined || netInput < bestNetInput)
+          ? candidate
+          : best;
+      }
+
+      return (this.parseNetOutput(candidate) ?? 0n) >
+        (this.parseNetOutput(best) ?? 0n)
+        ? candidate
+        : best;
+    }, undefined);
+  }
+
+  /**
+   * Gasless route for an intent quote: the client signs an order and solvers settle it off the public mempool
+   * The order stays server-side in providerRef until execution
+   */
+  private buildIntentRoute(
+    intent: IntentQuote,
+    legacyParams: SwapRequest,
+    bestQuote?: Pick<SwapQuote, 'buyAmount' | 'netBuyAmount' | 'netSellAmount'>,
+  ): UniversalRoute {
+    const chain = legacyParams.chainId.toString();
+
+    return {
+      provider: intent.provider,
+      routeType: 'intent' as const,
+      outputAmount: intent.buyAmount,
+      inputAmount: intent.sellAmount,
+      estimatedGas: '0',
+      steps: [
+        {
+          action: 'swap' as const,
+          provider: intent.provider,
+          fromToken: intent.sellToken,
+          toToken: intent.buyToken,
+          fromChain: chain,
+          toChain: chain,
+          estimatedTime: 60, // Batch auctions settle within a few blocks
+        },
+      ],
+      estimatedTime: 60,
+      qualityScore: this.calculateRouteQualityScore(
+        this.toScoredIntentQuote(intent, legacyParams),
+        bestQuote,
+      ),
+      gasless: true,
+      mevProtected: true,
+      // The client signs an order, not a transaction
+      transactionData: null,
+      providerRef: intent.order,
+      metadata: {
+        routeType: 'intent',
+        minBuyAmount: intent.minBuyAmount,
+        maxSellAmount: intent.maxSellAmount,
+        feeAmount: intent.feeAmount,
+        validTo: intent.validTo,
+        approvalAddress: intent.allowanceTarget,
+        chainId: legacyParams.chainId,
+      },
+    };
+  }
+
+  /**
+   * Composite route for a split quote; each leg carries its own transaction data
+   */
+  private buildSplitRoute(
+    split: SplitQuote,
+    legacyParams: SwapRequest,
+    bestQuote?: Pick<SwapQuote, 'buyAmount' | 'netBuyAmount'>,
+  ): UniversalRoute {
+    const chain = legacyParams.chainId.toString();
+
+    return {
+      provider: 'split',
+      routeType: 'split' as const,
+      outputAmount: split.buyAmount,
+      inputAmount: split.sellAmount,
+      estimatedGas: split.legs
+        .reduce(
+          (total, leg) =>
+            total +
+            (this.parseAmount(leg.quote.estimatedGas || leg.quote.gas) ?? 0n),
+          0n,
+        )
+        .toString(),
+      steps: split.legs.map((leg) => ({
+        action: 'swap' as const,
+        provider: leg.provider,
+        fromToken: leg.quote.sellToken,
+        toToken: leg.quote.buyToken,
+        fromChain: chain,
+        toChain: chain,
+        estimatedTime: 30,
+      })),
+      estimatedTime: 30,
+      qualityScore: this.calculateRouteQualityScore(split, bestQuote),
+      legs: split.legs.map((leg) => ({
+        provider: leg.provider,
+        shareBps: leg.shareBps,
+        inputAmount: leg.quote.sellAmount,
+        outputAmount: leg.quote.buyAmount,
+        minOutputAmount: leg.quote.minBuyAmount,
+        transactionData: {
+          to: leg.quote.to,
+          data: leg.quote.data,
+          value: leg.quote.value,
+          gasLimit: leg.quote.estimatedGas || leg.quote.gas,
+          gasPrice: leg.quote.gasPrice,
+          maxFeePerGas: leg.quote.maxFeePerGas,
+          maxPriorityFeePerGas: leg.quote.maxPriorityFeePerGas,
+          allowanceTarget: leg.quote.allowanceTarget,
+        },
+        permit2: leg.quote.permit2,
+      })),
+      // Legs are executed one by one; there is no single transaction for the whole route
+      transactionData: null,
+      metadata: {
+        routeType: 'split',
+        improvementBps: split.improvementBps,
+        minBuyAmount: split.minBuyAmount,
+        netOutputAmount: split.netBuyAmount,
+        chainId: legacyParams.chainId,
+      },
+    };
+  }
+
+  /**
+   * Handle cross-chain routing through the registered meta aggregators
+   */
+  private async handleMetaAggregators(
+    request: UniversalSwapRequestDto,
+    swapType: SwapType,
+  ): Promise<UniversalRoute[]> {
+    this.logger.debug('Processing meta aggregator request');
+
+    try {
+      const routeRequest = this.convertToRouteRequest(request);
+
+      this.logger.debug(
+        `Meta params: Chain ${routeRequest.fromChainId} -> ${routeRequest.toChainId}, ${routeRequest.fromToken} -> ${routeRequest.toToken}, Amount: ${routeRequest.amount}`,
+      );
+
+      const routeQuotes = await this.aggregatorManager.getCrossChainRoutes(
+        routeRequest,
+        request.preferredProvider,
+      );
+
+      this.logger.debug(
+        `Received ${routeQuotes.length} routes from meta aggregators`,
+      );
+
+      if (routeQuotes.length === 0) {
+        const bridgeFilters =
+          routeRequest.allowBridges || routeRequest.denyBridges
+            ? ' matching the bridge filters'
+            : '';
+        throw new Error(
+          `No cross-chain routes found${bridgeFilters} for ${swapType} swap`,
+        );
+      }
+
+      // Routes arrive sorted by confidence and output from the aggregator manager
+      const routes = routeQuotes.map((routeQuote, index) =>
+        this.mapRouteQuoteToSwapRoute(routeQuote, routeRequest, index),
+      );
+
+      routes.sort((a, b) => b.qualityScore - a.qualityScore);
+
+      this.logger.log(
+        `✅ Generated ${routes.length} cross-chain routes with quality scores: ${routes.map((r) => `${r.provider}:${r.qualityScore}`).join(', ')}`,
+      );
+
+      return routes;
+    } catch (error) {
+      this.logger.error(
+        `Meta aggregator routing failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      // A pinned provider has no fallback; surface its error instead of an empty route
+      if (request.preferredProvider) {
+        throw error;
+      }
+
+      // Return fallback route with error indication
+      return [
+        {
+          provider: 'meta-fallback',
+          outputAmount: '0',
+          estimatedGas: '0',
+          steps: [],
+          estimatedTime: 0,
+          qualityScore: 0,
+          error: (error as Error).message,
+        },
+      ];
+    }
+  }
+
+  /**
+   * Handle same-chain Solana swaps through the registered Solana routers
+   */
+  private async handleSolanaRouters(
+    request: UniversalSwapRequestDto,
+    swapType: SwapType,
+  ): Promise<UniversalRoute[]> {
+    this.logger.debug('Processing Solana router request');
+
+    try {
+      const solanaRequest = this.convertToSolanaQuoteRequest(request);
+
+      this.logger.debug(
+        `Solana params: ${solanaRequest.fromMint} -> ${solanaRequest.toMint}, Amount: ${solanaRequest.amount}`,
+      );
+
+      const routeQuotes = await this.aggregatorManager.getSolanaQuote(
+        solanaRequest,
+        request.preferredProvider,
+      );
+
+      this.logger.debug(
+        `Received ${routeQuotes.length} quotes from Solana routers`,
+      );
+
+      // Build the serialized swap transaction for each quote; a failed build keeps the quote without transaction data
+      const routes = await Promise.all(
+        routeQuotes.map(async (routeQuote, index): Promise<UniversalRoute> => {
+          let transactionData: RouteTransactionData | null = null;
+          try {
+            const transaction =
+              await this.aggregatorManager.buildSolanaTransaction(
+                routeQuote,
+                solanaRequest.userPublicKey!,
+              );
+            transactionData = {
+              serializedTransaction: transaction.rawTx,
+              encoding: 'base64',
+            };
+          } catch (error) {
+            this.logger.warn(
+              `Failed to build ${routeQuote.provider} transaction: ${(error as Error).message}`,
+            );
+          }
+
+          return {
+            provider: routeQuote.provider || 'unknown',
+            routeId: routeQuote.routeId,
+            providerRef: routeQuote.providerRef,
+            outputAmount: routeQuote.totalEstimatedOut,
+            inputAmount: routeQuote.totalEstimatedIn,
+            estimatedGas: routeQuote.fees.gas,
+            steps: routeQuote.steps.map((step) => {
+              const swapInfo = (step.details as RouteStepDetails | undefined)
+                ?.swapInfo;
+              return {
+                action: 'swap' as const,
+                provider: step.protocol || routeQuote.provider || 'unknown',
+                fromToken: swapInfo?.inputMint || solanaRequest.fromMint,
+                toToken: swapInfo?.outputMint || solanaRequest.toMint,
+                fromChain: String(request.sellToken.chain.chainId),
+                toChain: String(request.buyToken.chain.chainId),
+                estimatedTime: routeQuote.etaSeconds || 30,
+              };
+            }),
+            estimatedTime: routeQuote.etaSeconds || 30,
+            qualityScore: this.calculateRouteConfidenceScore(routeQuote, index),
+            transactionData,
+            metadata: {
+              routeId: routeQuote.routeId,
+              fees: routeQuote.fees,
+              priceImpact: routeQuote.priceImpact,
+              confidence: routeQuote.confidence,
+              swapType,
+            },
+          };
+        }),
+      );
+
+      routes.sort((a, b) => b.qualityScore - a.qualityScore);
+
+      this.logger.log(
+        `✅ Generated ${routes.length} Solana routes with quality scores: ${routes.map((r) => `${r.provider}:${r.qualityScore}`).join(', ')}`,
+      );
+
+      return routes;
+    } catch (error) {
+      this.logger.error(
+        `Solana routing failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      // A pinned provider has no fallback; surface its error instead of an empty route
+      if (request.preferredProvider) {
+        throw error;
+      }
+
+      // Return fallback route with error indication
+      return [
+        {
+          provider: 'solana-fallback',
+          outputAmount: '0',
+          estimatedGas: '0',
+          steps: [],
+          estimatedTime: 0,
+          qualityScore: 0,
+          error: (error as Error).message,
+        },
+      ];
+    }
+  }
+
+  /**
+   * Handle native L1 swaps (BTC, THORChain, Maya) through the registered native routers
+   */
+  private async handleNativeRouters(
+    request: UniversalSwapRequestDto,
+    swapType: SwapType,
+  ): Promise<UniversalRoute[]> {
+    this.logger.debug('Processing native L1 router request');
+
+    try {
+      const nativeRequest = this.convertToNativeQuoteRequest(request);
+
+      this.logger.debug(
+        `Native params: ${nativeRequest.fromAsset} -> chain ${nativeRequest.toChainId} ${nativeRequest.toToken}, Amount: ${nativeRequest.amountSats}`,
+      );
+
+      const routeQuotes = await this.aggregatorManager.getNativeQuote(
+        nativeRequest,
+        request.preferredProvider,
+      );
+
+      this.logger.debug(
+        `Received ${routeQuotes.length} quotes from native routers`,
+      );
+
+      const routes = routeQuotes.map((routeQuote, index): UniversalRoute => {
+        const provider = routeQuote.provider || 'unknown';
+        const inboundAddress = routeQuote.providerRef?.inboundAddress as
+          string | undefined;
+        const memo = routeQuote.providerRef?.memo as string | undefined;
+
+        return {
+          provider,
+          routeId: routeQuote.routeId,
+          providerRef: routeQuote.providerRef,
+          outputAmount: routeQuote.totalEstimatedOut,
+          estimatedGas: routeQuote.fees.gas,
+          steps: routeQuote.steps.map((step) => ({
+            action:
+              step.kind === 'native' ? ('bridge' as const) : ('swap' as const),
+            provider: step.protocol || provider,
+            fromToken:
+              step.kind === 'native'
+                ? nativeRequest.fromAsset!
+                : nativeRequest.toToken,
+            toToken: nativeRequest.toToken,
+            fromChain:
+              step.kind === 'native'
+                ? String(
+                    request.sellToken.chain.chainId ??
+                      request.sellToken.chain.ecosystem,
+                  )
+                : String(step.chainId),
+            toChain: String(nativeRequest.toChainId),
+            estimatedTime: step.estimatedTime || 0,
+          })),
+          estimatedTime: routeQuote.etaSeconds || 600,
+          qualityScore: this.calculateRouteConfidenceScore(routeQuote, index),
+          // Native L1 swaps are executed by sending the amount to the inbound vault with the memo attached
+          transactionData:
+            inboundAddress && memo
+              ? {
+                  inboundAddress,
+                  memo,
+                  amount: request.sellAmount!,
+                  asset: nativeRequest.fromAsset,
+                }
+              : null,
+          metadata: {
+            routeId: routeQuote.routeId,
+            fees: routeQuote.fees,
+            confidence: routeQuote.confidence,
+            swapType,
+          },
+        };
+      });
+
+      routes.sort((a, b) => b.qualityScore - a.qualityScore);
+
+      this.logger.log(
+        `✅ Generated ${routes.length} native L1 routes with quality scores: ${routes.map((r) => `${r.provider}:${r.qualityScore}`).join(', ')}`,
+      );
+
+      return routes;
+    } catch (error) {
+      this.logger.error(
+        `Native L1 routing failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+
+      // A pinned provider has no fallback, and an unsupported sell token is the caller's error
+      if (request.preferredProvider || error instanceof BadRequestException) {
+        throw error;
+      }
+
+      // Return fallback route with error indication
+      return [
+        {
+          provider: 'native-fallback',
+          outputAmount: '0',
+          estimatedGas: '0',
+          steps: [],
+          estimatedTime: 0,
+          qualityScore: 0,
+          error: (error as Error).message,
+        },
+      ];
+    }
+  }
+
+  /**
+   * Convert UniversalSwapRequestDto to a NativeQuoteRequest for native L1 routers
+   * Token addresses may be given in THORChain asset notation (e.g. BTC.BTC, ETH.ETH)
+   */
+  private convertToNativeQuoteRequest(
+    request: UniversalSwapRequestDto,
+  ): NativeQuoteRequest {
+    const { fromAsset, amountSats } = this.toNativeSellAsset(request);
+
+    let toChainId = Number(request.buyToken.chain.chainId);
+    if (!Number.isInteger(toChainId)) {
+      // Derive the destination chain from the asset notation chain prefix
+      const chainPrefix = request.buyToken.address.split('.')[0].toUpperCase();
+      toChainId = NATIVE_ASSET_CHAIN_IDS[chainPrefix];
+    }
+
+    if (!toChainId) {
+      throw new Error(
+        `Unable to determine destination chain for ${request.buyToken.address}`,
+      );
+    }
+
+    return {
+      fromAsset,
+      toChainId,
+      toToken: request.buyToken.address,
+      amountSats,
+      userAddress: request.recipient || request.taker,
+      memo: request.metadata?.memo as string | undefined,
+    };
+  }
+
+  /**
+   * Resolve the sell token of a native L1 swap to THORChain asset notation and its amount in 1e8 units
+   * Asset notation and Bitcoin amounts are already in 1e8 units; EVM amounts are rescaled from the token decimals
+   */
+  private toNativeSellAsset(request: UniversalSwapRequestDto): {
+    fromAsset: string;
+    amountSats: string;
+  } {
+    const { address, chain, symbol, decimals } = request.sellToken;
+    const sellAmount = request.sellAmount!;
+
+    if (address.includes('.')) {
+      return { fromAsset: address.toUpperCase(), amountSats: sellAmount };
+    }
+
+    if (chain.ecosystem === BlockchainEcosystem.BITCOIN) {
+      return { fromAsset: 'BTC.BTC', amountSats: sellAmount };
+    }
+
+    if (
+      chain.ecosystem !== BlockchainEcosystem.EVM &&
+      chain.ecosystem !== BlockchainEcosystem.AVALANCHE
+    ) {
+      throw new BadRequestException(
+        `Native L1 swaps cannot sell ${address} on ${chain.ecosystem}; use THORChain asset notation (e.g. BTC.BTC)`,
+      );
+    }
+
+    const chainPrefix = Object.keys(NATIVE_ASSET_CHAIN_IDS).find(
+      (prefix) => NATIVE_ASSET_CHAIN_IDS[prefix] === Number(chain.chainId),
+    );
+    if (!chainPrefix) {
+      throw new BadRequestException(
+        `Native L1 swaps do not support selling from EVM chain ${chain.chainId}`,
+      );
+    }
+
+    const isNative =
+      isNativeToken(address) || address.toLowerCase() === NATIVE_TOKEN_ADDRESS;
+    if (!isNative && !symbol) {
+      throw new BadRequestException(
+        `sellToken.symbol is required to sell ${address} through a native L1 router`,
+      );
+    }
+    if (!isNative && decimals === undefined) {
+      throw new BadRequestException(
+        `sellToken.decimals is required to sell ${address} through a native L1 router`,
+      );
+    }
+
+    const fromAsset = isNative
+      ? NATIVE_ASSET_GAS_ASSETS[chainPrefix]
+      : `${chainPrefix}.${symbol!.toUpperCase()}-${address.toUpperCase()}`;
+
+    // EVM gas assets use 18 decimals on every supported chain
+    const tokenDecimals = isNative ? 18 : decimals!;
+    const amount = BigInt(sellAmount);
+    const amountSats =
+      tokenDecimals >= THORCHAIN_DECIMALS
+        ? amount / 10n ** BigInt(tokenDecimals - THORCHAIN_DECIMALS)
+        : amount * 10n ** BigInt(THORCHAIN_DECIMALS - tokenDecimals);
+
+    if (amountSats === 0n) {
+      throw new BadRequestException(
+        `sellAmount ${sellAmount} is below the smallest THORChain unit of ${fromAsset}`,
+      );
+    }
+
+    return { fromAsset, amountSats: amountSats.toString() };
+  }
+
+  /**
+   * Convert UniversalSwapRequestDto to a SolanaQuoteRequest for Solana routers
+   */
+  private convertToSolanaQuoteRequest(
+    request: UniversalSwapRequestDto,
+  ): SolanaQuoteRequest {
+    return {
+      fromMint: request.sellToken.address,
+      toMint: request.buyToken.address,
+      amount: request.buyAmount ?? request.sellAmount!,
+      swapMode: request.buyAmount ? 'ExactOut' : 'ExactIn',
+      slippageBps: request.slippageToleranceBps ?? 50, // Default 0.5%
+      userPublicKey: request.taker,
+    };
+  }
+
+  /**
+   * Convert UniversalSwapRequestDto to a cross-chain RouteRequest for meta aggregators
+   */
+  private convertToRouteRequest(
+    request: UniversalSwapRequestDto,
+  ): RouteRequest {
+    const fromChainId = Number(request.sellToken.chain.chainId);
+    const toChainId = Number(request.buyToken.chain.chainId);
+
+    if (!Number.isInteger(fromChainId) || !Number.isInteger(toChainId)) {
+      throw new Error(
+        `Meta aggregators require numeric chain IDs (got ${request.sellToken.chain.chainId} -> ${request.buyToken.chain.chainId})`,
+      );
+    }
+
+    return {
+      fromChainId,
+      toChainId,
+      fromToken: request.sellToken.address,
+      toToken: request.buyToken.address,
+      amount: request.sellAmount!,
+      slippageBps: request.slippageToleranceBps ?? 50, // Default 0.5%
+      userAddress: request.taker,
+      recipient: request.recipient,
+      allowBridges: request.preferredBridges?.length
+        ? request.preferredBridges
+        : undefined,
+      denyBridges: request.excludedBridges?.length
+        ? request.excludedBridges
+        : undefined,
+    };
+  }
+
+  /**
+   * Convert a meta aggregator RouteQuote into the universal route format
+   */
+  private mapRouteQuoteToSwapRoute(
+    routeQuote: RouteQuote,
+    routeRequest: RouteRequest,
+    index: number,
+  ): UniversalRoute {
+    const provider = routeQuote.provider || 'unknown';
+
+    const steps = routeQuote.steps.map((step) => {
+      const action = (step.details as RouteStepDetails | undefined)?.action;
+      return {
+        action:
+          step.kind === 'bridge' ? ('bridge' as const) : ('swap' as const),
+        provider: step.protocol || provider,
+        fromToken: action?.fromToken?.address || routeRequest.fromToken,
+        toToken: action?.toToken?.address || routeRequest.toToken,
+        fromChain: String(action?.fromChainId ?? step.chainId),
+        toChain: String(action?.toChainId ?? step.chainId),
+        estimatedTime: step.estimatedTime || 0,
+      };
+    });
+
+    const estimatedTime =
+      routeQuote.etaSeconds ??
+      steps.reduce((total, step) => total + step.estimatedTime, 0);
+
+    // LI.FI returns a ready-to-sign transaction with its quote
+    const lifiRoute = routeQuote.providerRef?.lifiRoute as
+      LifiRouteRef | undefined;
+    const transactionRequest = lifiRoute?.transactionRequest;
+
+    return {
+      provider,
+      routeId: routeQuote.routeId,
+      providerRef: routeQuote.providerRef,
+      outputAmount: routeQuote.totalEstimatedOut,
+      estimatedGas: routeQuote.fees.gas,
+      steps,
+      estimatedTime,
+      qualityScore: this.calculateRouteConfidenceScore(routeQuote, index),
+      transactionData: transactionRequest
+        ? {
+            to: transactionRequest.to,
+            data: transactionRequest.data,
+            value: transactionRequest.value,
+            gasLimit: transactionRequest.gasLimit,
+            gasPrice: transactionRequest.gasPrice,
+            chainId: transactionRequest.chainId ?? routeRequest.fromChainId,
+          }
+        : null,
+      metadata: {
+        routeId: routeQuote.routeId,
+        fees: routeQuote.fees,
+        priceImpact: routeQuote.priceImpact,
+        confidence: routeQuote.confidence,
+        fromChainId: routeRequest.fromChainId,
+        toChainId: routeRequest.toChainId,
+        approvalAddress: lifiRoute?.estimate?.approvalAddress,
+      },
+    };
+  }
+
+  /**
+   * Calculate route quality score from provider confidence and position
+   */
+  private calculateRouteConfidenceScore(
+    routeQuote: RouteQuote,
+    index: number,
+  ): number {
+    let score = (routeQuote.confidence ?? 0.5) * 100;
+
+    // Penalize based on position (routes arrive ranked by the aggregator manager)
+    score -= index * 5;
+
+    // Penalize long-running routes (more than 10 minutes)
+    if (routeQuote.etaSeconds && routeQuote.etaSeconds > 600) {
+      score -= 5;
+    }
+
+    return Math.max(0, Math.min(100, Math.round(score)));
+  }
+
+  /**
+   * Drop routes whose gas cost exceeds maxGasFee (EVM source chains only)
+   * When every route exceeds the cap they are kept but flagged so the caller still sees the quotes
+   */
+  private enforceMaxGasFee(
+    request: UniversalSwapRequestDto,
+    routes: UniversalRoute[],
+    warnings: string[],
+  ): UniversalRoute[] {
+    const ecosystem = request.sellToken.chain.ecosystem;
+    if (
+      !request.maxGasFee ||
+      (ecosystem !== BlockchainEcosystem.EVM &&
+        ecosystem !== BlockchainEcosystem.AVALANCHE)
+    ) {
+      return routes;
+    }
+
+    let maxGasFeeWei: bigint;
+    try {
+      maxGasFeeWei = parseEther(request.maxGasFee);
+    } catch {
+      throw new BadRequestException(
+        `maxGasFee must be a decimal amount in native token units (got ${request.maxGasFee})`,
+      );
+    }
+
+    const affordableRoutes: UniversalRoute[] = [];
+    const expensiveRoutes: UniversalRoute[] = [];
+    const expensiveWarnings: string[] = [];
+
+    for (const route of routes) {
+      const gasCostWei = this.getRouteGasCostWei(route);
+      if (gasCostWei === null || route.error) {
+        affordableRoutes.push(route);
+        continue;
+      }
+
+      const gasCost = gasCostWei.toString();
+      if (gasCostWei > maxGasFeeWei) {
+        expensiveWarnings.push(
+          `${route.provider} route dropped: gas cost ${formatEther(gasCostWei)} exceeds maxGasFee ${request.maxGasFee}`,
+        );
+        expensiveRoutes.push({
+          ...route,
+          metadata: { ...route.metadata, gasCost, exceedsMaxGasFee: true },
+        });
+      } else {
+        affordableRoutes.push({
+          ...route,
+          metadata: { ...route.metadata, gasCost },
+        });
+      }
+    }
+
+    // Routes are only dropped when at least one route fits the cap
+    if (affordableRoutes.length === 0 && expensiveRoutes.length > 0) {
+      warnings.push(
+        `All routes exceed maxGasFee ${request.maxGasFee}; returning them flagged with exceedsMaxGasFee`,
+      );
+      return expensiveRoutes;
+    }
+
+    warnings.push(...expensiveWarnings);
+    return affordableRoutes;
+  }
+
+  /**
+   * Mark routes as MEV protected when the request asks for it and the source chain has a relay configured
+   */
+  private markMevProtection(
+    request: UniversalSwapRequestDto,
+    routes: UniversalRoute[],
+    warnings: string[],
+  ): UniversalRoute[] {
+    const ecosystem = request.sellToken.chain.ecosystem;
+    if (
+      !request.enableMevProtection ||
+      (ecosystem !== BlockchainEcosystem.EVM &&
+        ecosystem !== BlockchainEcosystem.AVALANCHE)
+    ) {
+      return routes;
+    }
+
+    const chainId = Number(request.sellToken.chain.chainId);
+    const mevProtected = isMevRelayConfigured(chainId);
+
+    if (!mevProtected) {
+      warnings.push(
+        getMevFallbackPolicy() === 'public'
+          ? `MEV protection requested but no relay is configured for chain ${chainId}; transactions will use the public RPC`
+          : `MEV protection requested but no relay is configured for chain ${chainId}; signed transactions will be rejected`,
+      );
+    }
+
+    // Intent routes never reach the mempool, relay or not
+    return routes.map((route) =>
+      route.error || route.routeType === 'intent'
+        ? route
+        : { ...route, mevProtected },
+    );
+  }
+
+  /**
+   * Gas cost in wei: estimated gas x the price per gas (same helper as quote ranking), or the meta aggregator's fees.gas amount
+   * Returns null when the cost cannot be determined
+   */
+  private getRouteGasCostWei(
+    route: Pick<
+      UniversalRoute,
+      'provider' | 'legs' | 'transactionData' | 'metadata'
+    >,
+  ): bigint | null {
+    // Split routes pay gas for every leg
+    if (route.legs?.length) {
+      let total = 0n;
+      for (const leg of route.legs) {
+        const legCost = this.getRouteGasCostWei({
+          provider: route.provider,
+          transactionData: leg.transactionData,
+        });
+        if (legCost === null) {
+          return null;
+        }
+        total += legCost;
+      }
+      return total;
+    }
+
+    try {
+      // transactionData.gasLimit carries the estimated gas units for both EVM and meta routes
+      const gasCost = calculateGasCostWei(
+        route.transactionData?.gasLimit,
+        route.transactionData?.gasPrice,
+        route.transactionData?.maxFeePerGas,
+      );
+      if (gasCost !== undefined) {
+        return gasCost;
+      }
+
+      // Meta aggregators report the gas cost itself (in wei) rather than gas units
+      if (route.metadata?.fees?.gas) {
+        return BigInt(route.metadata.fees.gas);
+      }
+    } catch {
+      this.logger.debug(
+        `Unable to compute gas cost for ${route.provider} route`,
+      );
+    }
+
+    return null;
+  }
+
   /**
    * Convert UniversalSwapRequestDto to legacy parameters format
+   * Exact-output requests without a sellAmount get a budget estimated from reference prices
    */
-  private convertToLegacyParams(request: UniversalSwapRequestDto) {
+  private async convertToLegacyParams(
+    request: UniversalSwapRequestDto,
+  ): Promise<SwapRequest> {
     // Validate that this is an EVM request
     if (request.sellToken.chain.ecosystem !== 'evm' || request.buyToken.chain.ecosystem !== 'evm') {
       throw new Error('EVM aggregators can only handle EVM ecosystem requests');
@@ -543,63 +1816,107 @@ export class UniversalSwapController {
     }
 
     const chainId = request.sellToken.chain.chainId as number;
+    const sellAmount =
+      request.sellAmount ??
+      (await this.aggregatorManager.estimateExactOutputBudget(
+        chainId,
+        request.sellToken.address,
+        request.buyToken.address,
+        request.buyAmount!,
+      ));
     
     return {
       chainId,
       sellToken: request.sellToken.address,
       buyToken: request.buyToken.address,
-      sellAmount: request.sellAmount,
+      sellAmount,
+      buyAmount: request.buyAmount,
       taker: request.taker,
       recipient: request.recipient,
-      slippagePercentage: request.slippageToleranceBps ? request.slippageToleranceBps / 100 : undefined,
+      slippagePercentage: request.slippageToleranceBps
+        ? request.slippageToleranceBps / 100
+        : undefined,
       deadline: request.deadline,
     };
   }
 
   /**
-   * Calculate route quality score based on quote characteristics
+   * Score an EVM route 0-100 by its net output after gas relative to the best-ranked quote
+   * Exact-output quotes deliver the same amount, so they are scored by net input (cheaper is better)
    */
-  private calculateRouteQualityScore(quote: any, index: number, aggregator: string): number {
-    let score = 100; // Base score
+  private calculateRouteQualityScore(
+    quote: Pick<SwapQuote, 'buyAmount' | 'netBuyAmount' | 'netSellAmount'>,
+    bestQuote?: Pick<SwapQuote, 'buyAmount' | 'netBuyAmount' | 'netSellAmount'>,
+  ): number {
+    if (quote.netSellAmount !== undefined) {
+      const netInput = this.parseAmount(quote.netSellAmount);
+      const bestNetInput = this.parseAmount(bestQuote?.netSellAmount);
+      if (
+        netInput === undefined ||
+        bestNetInput === undefined ||
+        netInput <= 0n ||
+        bestNetInput <= 0n
+      ) {
+        return 0;
+      }
 
-    // Penalize based on position (first quote is usually best)
-    score -= index * 5;
+      return Number((bestNetInput * 100n) / netInput);
+    }
 
-    // Bonus for higher output amount (better price)
-    const outputAmount = parseFloat(quote.buyAmount);
-    if (outputAmount > 0) {
-      score += Math.min(10, outputAmount / 1000000); // Small bonus for larger amounts
+    const netOutput = this.parseNetOutput(quote);
+    const bestNetOutput = this.parseNetOutput(bestQuote);
+    if (
+      netOutput === undefined ||
+      bestNetOutput === undefined ||
+      netOutput <= 0n ||
+      bestNetOutput <= 0n
+    ) {
+      return 0;
     }
 
-    // Bonus for lower gas costs
-    const gasAmount = parseFloat(quote.estimatedGas || quote.gas || '0');
-    if (gasAmount > 0) {
-      score -= Math.min(20, gasAmount / 100000); // Penalty for high gas
+    return Number((netOutput * 100n) / bestNetOutput);
+  }
+
+  /**
+   * Net output of a ranked quote (falls back to buyAmount when the quote was not ranked)
+   */
+  private parseNetOutput(
+    quote?: Pick<SwapQuote, 'buyAmount' | 'netBuyAmount'>,
+  ): bigint | undefined {
+    return this.parseAmount(quote?.netBuyAmount ?? quote?.buyAmount);
+  }
+
+  private parseAmount(amount?: string): bigint | undefined {
+    try {
+      return amount ? BigInt(amount) : undefined;
+    } catch {
+      return undefined;
     }
+  }
 
-    // Bonus for specific providers based on reliability
-    switch (aggregator) {
-      case '0x':
-        score += 10; // Reliable provider bonus
-        break;
-      case 'odos':
-        score += 8; // Good provider bonus
-        break;
-      default:
-        score += 5; // Default provider bonus
+  /**
+   * Warnings for providers that missed the quote deadline and for quote outliers
+   */
+  private generateFanOutWarnings(
+    diagnostics: QuoteFanOutDiagnostics,
+  ): string[] {
+    const warnings: string[] = [];
+
+    if (diagnostics.timedOut.length > 0) {
+      warnings.push(
+        `Quotes from ${diagnostics.timedOut.join(', ')} did not arrive before the quote deadline`,
+      );
     }
 
-    // Bonus for price impact if available
-    if (quote.priceImpact) {
-      const priceImpact = parseFloat(quote.priceImpact);
-      if (priceImpact < 1) {
-        score += 5; // Low price impact bonus
-      } else if (priceImpact > 5) {
-        score -= 10; // High price impact penalty
-      }
+    for (const outlier of diagnostics.outliers) {
+      warnings.push(
+        `${outlier.excluded ? 'Excluded' : 'Suspicious'} quote from ${outlier.aggregator}: ${outlier.detail}`,
+      );
     }
 
-    return Math.max(0, Math.min(100, Math.round(score)));
+    warnings.push(...diagnostics.warnings);
+
+    return warnings;
   }
 
   /**
@@ -631,10 +1948,6 @@ export class UniversalSwapController {
       warnings.push('Bitcoin transactions require network confirmations - allow extra time');
     }
 
-    if (!request.preferredProvider) {
-      warnings.push('Using automatic provider selection - specify preferredProvider for deterministic routing');
-    }
-
     return warnings;
   }
 
@@ -770,7 +2083,8 @@ export class UniversalSwapController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: 'Get supported chains with detailed information',
-    description: 'Retrieves detailed information about chains supported by all aggregators, including chain names, native currencies, and other metadata from ChainList API. This endpoint dynamically fetches supported chains from each aggregator API and enriches them with comprehensive chain data.'
+    description:
+      "Retrieves detailed information about chains supported by all aggregators, including chain names, native currencies, and other metadata from ChainList API. Chains come from the chain capability registry, which periodically refreshes each provider's chains from upstream and falls back to the last known good snapshot or bundled lists.",
   })
   @ApiResponse({
     status: 200,
@@ -857,7 +2171,7 @@ export class UniversalSwapController {
                 }
               },
               example: {
-                'ZeroX': [
+                '0x': [
                   {
                     chainId: 1,
                     name: 'Ethereum Mainnet',
@@ -874,8 +2188,27 @@ export class UniversalSwapController {
                   }
                 ]
               }
-            }
-          }
+            },
+            chainSources: {
+              type: 'object',
+              description:
+                "Where each provider's chain list came from: upstream discovery, the persisted snapshot, or the bundled list",
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  source: {
+                    type: 'string',
+                    enum: ['upstream', 'snapshot', 'static'],
+                  },
+                  updatedAt: { type: 'string', format: 'date-time' },
+                },
+              },
+              example: {
+                '0x': { source: 'upstream', updatedAt: '2024-01-15T10:00:00Z' },
+                Socket: { source: 'static', updatedAt: '2024-01-15T09:58:12Z' },
+              },
+            },
+          },
         },
         timestamp: { type: 'string', format: 'date-time', example: '2024-01-15T10:30:00Z' }
       }
@@ -897,7 +2230,7 @@ export class UniversalSwapController {
     try {
       this.logger.log('Fetching supported chains from all aggregators...');
       
-      // Get supported chains from quote service which will fetch from all aggregators
+      // Get supported chains from quote service, backed by the chain capability registry
       const result = await this.quoteService.getSupportedChains();
       
       this.logger.log(`Successfully retrieved ${result.supportedChains.length} unique supported chains`);
@@ -926,7 +2259,9 @@ export class UniversalSwapController {
     status: 200,
     description: 'Supported aggregators retrieved successfully',
   })
-  async getSupportedAggregators(@Query('chainId', ParseIntPipe) chainId: number): Promise<AggregatorType[]> {
+  getSupportedAggregators(
+    @Query('chainId', ParseIntPipe) chainId: number,
+  ): ProviderId[] {
     this.logger.log(`Getting supported aggregators for chain ${chainId}`);
 
     try {
@@ -959,12 +2294,40 @@ export class UniversalSwapController {
   @ApiOperation({ summary: 'Health check for universal swap service' })
   @ApiResponse({
     status: 200,
-    description: 'Service is healthy',
+    description:
+      'Service health from the provider health monitor (probes, live error rates and history per provider), ' +
+      'circuit breaker states and outbound rate limiter stats. Unhealthy when every provider is unhealthy, ' +
+      'degraded while any provider is degraded or unhealthy or any circuit is open',
   })
-  async healthCheck(): Promise<{ status: string; timestamp: string }> {
+  healthCheck(): {
+    status: string;
+    timestamp: string;
+    providers: ProviderHealthReport[];
+    circuitBreakers: CircuitBreakerSnapshot[];
+    rateLimits: RateLimiterStats[];
+  } {
+    const providers = this.aggregatorManager.getProviderHealthReport();
+    const circuitBreakers = this.aggregatorManager.getCircuitBreakerStates();
+
+    let status = 'healthy';
+    if (
+      providers.length > 0 &&
+      providers.every((provider) => provider.status === 'unhealthy')
+    ) {
+      status = 'unhealthy';
+    } else if (
+      providers.some((provider) => provider.status !== 'healthy') ||
+      circuitBreakers.some((circuit) => circuit.state !== 'CLOSED')
+    ) {
+      status = 'degraded';
+    }
+
     return {
-      status: 'healthy',
+      status,
       timestamp: new Date().toISOString(),
+      providers,
+      circuitBreakers,
+      rateLimits: this.aggregatorManager.getRateLimiterStats(),
     };
   }
 }
\ No newline at end of file
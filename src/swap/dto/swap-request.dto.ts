@@ -2,6 +2,7 @@ import { IsString, IsNumber, IsOptional, IsEnum, Min, Max, IsBoolean } from 'cla
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { AggregatorType, ApprovalStrategy } from '../models/swap-request.model';
+import type { ProviderId } from '../models/swap-request.model';
 
 /**
  * DTO for swap quote request
@@ -74,13 +75,13 @@ export class SwapQuoteRequestDto {
   deadline?: number;
 
   @ApiPropertyOptional({
-    description: 'Preferred aggregator to use (0x, velora, odos, kyberswap, jupiter)',
-    enum: AggregatorType,
+    description:
+      'Preferred aggregator: ID of a registered EVM aggregator (e.g. 0x, odos); see GET /universal-swap/aggregators',
     example: AggregatorType.ZEROX,
   })
   @IsOptional()
-  @IsEnum(AggregatorType)
-  aggregator?: AggregatorType;
+  @IsString()
+  aggregator?: ProviderId;
 
   @ApiPropertyOptional({
     description: 'Approval strategy for 0x Protocol v2 (AllowanceHolder recommended, Permit2 for advanced use)',
@@ -167,11 +168,11 @@ export class SwapExecutionRequestDto {
   deadline?: number;
 
   @ApiPropertyOptional({
-    description: 'Preferred aggregator to use (0x, velora, odos, kyberswap, jupiter)',
-    enum: AggregatorType,
+    description:
+      'Preferred aggregator: ID of a registered EVM aggregator (e.g. 0x, odos); see GET /universal-swap/aggregators',
     example: AggregatorType.ZEROX,
   })
   @IsOptional()
-  @IsEnum(AggregatorType)
-  aggregator?: AggregatorType;
+  @IsString()
+  aggregator?: ProviderId;
 }
@@ -0,0 +1,83 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for preparing execution of a previously quoted route
+ */
+export class UniversalExecuteRequestDto {
+  @ApiProperty({
+    description: 'Route ID from the universal quote response',
+    example: 'c2a4f7e1-3b8d-4f6a-9e05-1d7b3c6a8f92',
+  })
+  @IsString()
+  routeId: string;
+}
+
+/**
+ * Client-side result for a single execution step
+ */
+export class SignedExecutionStepDto {
+  @ApiProperty({
+    description: 'Index of the step in the prepared execution',
+    example: 0,
+  })
+  @IsNumber()
+  @Type(() => Number)
+  index: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Signed raw transaction to broadcast (hex for EVM, base64 for Solana)',
+    example: '0x02f8...',
+  })
+  @IsOptional()
+  @IsString()
+  signedTransaction?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'EIP-712 signature for signature steps (Permit2, intent orders)',
+    example: '0x1b2c...',
+  })
+  @IsOptional()
+  @IsString()
+  signature?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Transaction hash when the client broadcast the transaction itself',
+    example: '0xabc...',
+  })
+  @IsOptional()
+  @IsString()
+  txHash?: string;
+}
+
+/**
+ * DTO for submitting signed payloads for a prepared execution
+ */
+export class UniversalSubmitRequestDto {
+  @ApiProperty({
+    description: 'Execution ID from the execute response',
+    example: '5b0e9c1a-7d2f-4c8e-a3b6-9f41d2e7c058',
+  })
+  @IsString()
+  executionId: string;
+
+  @ApiProperty({
+    description:
+      'Signed payloads or transaction hashes for the execution steps',
+    type: [SignedExecutionStepDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SignedExecutionStepDto)
+  steps: SignedExecutionStepDto[];
+}
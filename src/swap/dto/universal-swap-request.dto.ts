@@ -1,6 +1,22 @@
-import { IsString, IsNumber, IsOptional, IsEnum, Min, Max, IsBoolean, ValidateNested, IsArray } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  Min,
+  Max,
+  IsBoolean,
+  ValidateNested,
+  IsArray,
+  ValidateIf,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type {
+  Permit2Data,
+  QuoteOutlier,
+} from '@swap/models/swap-request.model';
+import type { RouteTransactionData } from '@swap/models/execution.model';
 
 /**
  * Supported blockchain ecosystems
@@ -140,12 +156,23 @@ export class UniversalSwapRequestDto {
   @Type(() => TokenInfo)
   buyToken: TokenInfo;
 
-  @ApiProperty({
-    description: 'Amount to sell (in smallest unit, e.g., wei for ERC20)',
+  @ApiPropertyOptional({
+    description:
+      'Amount to sell (in smallest unit, e.g., wei for ERC20). Required unless buyAmount is set; with buyAmount it is the most the taker will spend (EVM aggregators estimate it from reference prices when omitted)',
     example: '1000000000000000000',
   })
+  @ValidateIf((o: UniversalSwapRequestDto) => o.buyAmount === undefined)
   @IsString()
-  sellAmount: string;
+  sellAmount?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Exact amount to receive (in smallest unit). Switches to exact-output quoting: routes sell as little as needed so the minimum output after slippage covers it (same-chain EVM and Solana swaps)',
+    example: '100000000',
+  })
+  @IsOptional()
+  @IsString()
+  buyAmount?: string;
 
   @ApiProperty({
     description: 'Wallet address that will execute the swap (format depends on ecosystem)',
@@ -203,7 +230,8 @@ export class UniversalSwapRequestDto {
   deadline?: number;
 
   @ApiPropertyOptional({
-    description: 'Preferred aggregator/router (leave empty for auto-selection)',
+    description:
+      'Pin routing to this aggregator/router, without fallback (leave empty for auto-selection)',
     examples: ['0x', 'odos', 'lifi', 'thorchain', 'jupiter'],
   })
   @IsOptional()
@@ -219,7 +247,8 @@ export class UniversalSwapRequestDto {
   enableMevProtection?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Bridge preferences for cross-chain swaps',
+    description:
+      'Bridge allow-list for cross-chain swaps (routes using any other bridge are dropped)',
     type: 'array',
     items: { type: 'string' },
     examples: [['stargate', 'across'], ['hop', 'cbridge']],
@@ -229,6 +258,18 @@ export class UniversalSwapRequestDto {
   @IsString({ each: true })
   preferredBridges?: string[];
 
+  @ApiPropertyOptional({
+    description:
+      'Bridge deny-list for cross-chain swaps (takes precedence over preferredBridges)',
+    type: 'array',
+    items: { type: 'string' },
+    example: ['multichain'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludedBridges?: string[];
+
   @ApiPropertyOptional({
     description: 'Additional metadata for specific ecosystems',
     example: { priorityFee: '0.001', memo: 'swap:BTC.BTC', computeUnits: 200000 },
@@ -245,16 +286,17 @@ export class UniversalSwapRequestDto {
   skipValidation?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Return multiple route options',
-    default: false,
+    description:
+      'Return multiple route options (when false, only the best-ranked provider is queried and a single route is returned)',
+    default: true,
   })
   @IsOptional()
   @IsBoolean()
   returnMultipleRoutes?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Maximum number of routes to return',
-    default: 3,
+    description:
+      'Maximum number of routes to return (every route when omitted)',
     minimum: 1,
     maximum: 10,
   })
@@ -263,6 +305,46 @@ export class UniversalSwapRequestDto {
   @Min(1)
   @Max(10)
   maxRoutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Quote deadline in milliseconds; quotes that have not arrived by then are left out (EVM aggregators)',
+    default: 2500,
+    minimum: 200,
+    maximum: 30000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(200)
+  @Max(30000)
+  quoteTimeoutMs?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Send a second quote request to providers that are slower than their p95 latency',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hedgeSlowProviders?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Also quote a split route that divides the order across several EVM aggregators (exact-input trades above SPLIT_ROUTE_MIN_USD only)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeSplitRoute?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Also quote a gasless intent route: a signed order settled by solvers such as CoW Protocol (same-chain EVM swaps selling an ERC-20 token)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeIntentRoute?: boolean;
 }
 
 /**
@@ -281,6 +363,13 @@ export class SwapRoute {
   })
   outputAmount: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Amount of the sell token the route spends (set when known, always for exact-output quotes)',
+    example: '334000000000000000',
+  })
+  inputAmount?: string;
+
   @ApiProperty({
     description: 'Estimated gas cost',
     example: '0.0045',
@@ -313,6 +402,43 @@ export class SwapRoute {
     example: 95,
   })
   qualityScore: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the swap avoids the public mempool: submitted through a private-orderflow relay (set when enableMevProtection is requested) or settled by solvers (intent routes)',
+    example: true,
+  })
+  mevProtected?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the taker pays no gas (intent routes: network fees are taken from the sell amount)',
+    example: true,
+  })
+  gasless?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Route type; split routes execute one transaction per leg, intent routes are a signed order settled by solvers',
+    enum: ['single', 'split', 'intent'],
+    example: 'split',
+  })
+  routeType?: 'single' | 'split' | 'intent';
+
+  @ApiPropertyOptional({
+    description: 'Legs of a split route, each with its own transaction data',
+    type: 'array',
+    items: { type: 'object' },
+  })
+  legs?: Array<{
+    provider: string;
+    shareBps: number; // Share of the order in basis points
+    inputAmount: string;
+    outputAmount: string;
+    minOutputAmount?: string;
+    transactionData: RouteTransactionData;
+    permit2?: Permit2Data;
+  }>;
 }
 
 /**
@@ -349,4 +475,31 @@ export class UniversalSwapResponseDto {
     items: { type: 'string' },
   })
   warnings: string[];
-}
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    description: 'Providers that did not answer before the quote deadline',
+    type: 'array',
+    items: { type: 'string' },
+    example: ['Odos'],
+  })
+  timedOut?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Quotes that deviated from the median of concurrent quotes or from the reference price, with the reason and whether they were excluded',
+    type: 'array',
+    items: { type: 'object' },
+    example: [
+      {
+        aggregator: 'odos',
+        buyAmount: '4100000000',
+        reason: 'above-consensus',
+        deviationBps: 3666,
+        excluded: true,
+        detail:
+          'buyAmount 4100000000 is 36.66% above the median of concurrent quotes (3000000000), outside the ±3% band',
+      },
+    ],
+  })
+  outliers?: QuoteOutlier[];
+}
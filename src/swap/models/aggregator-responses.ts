@@ -180,6 +180,165 @@ export interface ZeroXQuoteResponse {
   zid?: string;
 }
 
+// 1inch-specific response structures (Swap API v6.0)
+export interface OneInchTokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface OneInchQuoteResponse {
+  dstAmount: string;
+  srcToken?: OneInchTokenInfo;
+  dstToken?: OneInchTokenInfo;
+  protocols?: any[];
+  gas?: number;
+}
+
+export interface OneInchSwapResponse extends OneInchQuoteResponse {
+  tx: {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    gas: number;
+    gasPrice: string;
+  };
+}
+
+export interface OneInchSpenderResponse {
+  address: string;
+}
+
+export interface OneInchTokenListResponse {
+  tokens: Record<string, OneInchTokenInfo>;
+}
+
+export interface OneInchErrorResponse {
+  error: string;
+  description: string;
+  statusCode: number;
+  requestId?: string;
+  meta?: Array<{ type: string; value: string }>;
+}
+
+// ParaSwap-specific response structures (API v5 with Augustus v6.2 routes)
+export interface ParaSwapPriceRoute {
+  blockNumber: number;
+  network: number;
+  srcToken: string;
+  srcDecimals: number;
+  srcAmount: string;
+  destToken: string;
+  destDecimals: number;
+  destAmount: string;
+  bestRoute: any[];
+  gasCost: string;
+  gasCostUSD?: string;
+  side: 'SELL' | 'BUY';
+  contractMethod: string;
+  tokenTransferProxy: string;
+  contractAddress: string;
+  srcUSD?: string;
+  destUSD?: string;
+  maxImpactReached?: boolean;
+  hmac?: string;
+  version?: string;
+}
+
+export interface ParaSwapPriceResponse {
+  priceRoute: ParaSwapPriceRoute;
+}
+
+export interface ParaSwapTransactionResponse {
+  from: string;
+  to: string;
+  value: string;
+  data: string;
+  gasPrice?: string;
+  gas?: string;
+  chainId: number;
+}
+
+export interface ParaSwapTokenInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+  img?: string;
+  network: number;
+}
+
+export interface ParaSwapTokenListResponse {
+  tokens: ParaSwapTokenInfo[];
+}
+
+export interface ParaSwapErrorResponse {
+  error: string;
+}
+
+// CoW Protocol order book response structures (API v1)
+export interface CowOrderParameters {
+  sellToken: string;
+  buyToken: string;
+  receiver: string;
+  sellAmount: string;
+  buyAmount: string;
+  validTo: number;
+  appData: string;
+  appDataHash?: string;
+  feeAmount: string;
+  kind: 'sell' | 'buy';
+  partiallyFillable: boolean;
+  sellTokenBalance: 'erc20' | 'internal' | 'external';
+  buyTokenBalance: 'erc20' | 'internal';
+  signingScheme?: string;
+}
+
+export interface CowQuoteResponse {
+  quote: CowOrderParameters;
+  from: string;
+  expiration: string;
+  id?: number;
+  verified?: boolean;
+}
+
+export interface CowOrderResponse {
+  uid: string;
+  owner: string;
+  creationDate: string;
+  status:
+    'presignaturePending' | 'open' | 'fulfilled' | 'cancelled' | 'expired';
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  buyAmount: string;
+  validTo: number;
+  kind: 'sell' | 'buy';
+  executedSellAmount: string;
+  executedBuyAmount: string;
+  invalidated?: boolean;
+}
+
+export interface CowTrade {
+  blockNumber: number;
+  logIndex: number;
+  orderUid: string;
+  owner: string;
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  buyAmount: string;
+  txHash: string | null;
+}
+
+export interface CowErrorResponse {
+  errorType: string;
+  description: string;
+}
+
 // Generic swap quote response that normalizes both 0x and Odos
 export interface GenericSwapQuote {
   // Core swap data (present in both)
@@ -225,6 +384,34 @@ export function isZeroXResponse(response: any): response is ZeroXQuoteResponse {
   return response && typeof response.allowanceTarget === 'string' && response.transaction;
 }
 
+export function isOneInchErrorResponse(
+  response: unknown,
+): response is OneInchErrorResponse {
+  const body = response as Partial<OneInchErrorResponse> | null | undefined;
+  return (
+    typeof body?.description === 'string' && typeof body.statusCode === 'number'
+  );
+}
+
+export function isParaSwapErrorResponse(
+  response: unknown,
+): response is ParaSwapErrorResponse {
+  const body = response as
+    | (Partial<ParaSwapErrorResponse> & { priceRoute?: unknown })
+    | null
+    | undefined;
+  return typeof body?.error === 'string' && !body.priceRoute;
+}
+
+export function isCowErrorResponse(
+  response: unknown,
+): response is CowErrorResponse {
+  const body = response as Partial<CowErrorResponse> | null | undefined;
+  return (
+    typeof body?.errorType === 'string' && typeof body.description === 'string'
+  );
+}
+
 // Error type guard
 export function isApiErrorResponse(response: any): response is ApiErrorResponse {
   return response && Array.isArray(response.detail) && response.detail.length > 0;
@@ -0,0 +1,199 @@
+/**
+ * Models for non-custodial universal swap execution
+ */
+
+import type { UniversalSwapRequestDto } from '@swap/dto/universal-swap-request.dto';
+import {
+  EIP712TypedData,
+  ExecutionStatus,
+  IntentOrder,
+  Permit2Data,
+} from './ports';
+
+/**
+ * Kind of action the client performs for an execution step
+ */
+export type ExecutionStepType =
+  | 'approval'
+  | 'permit2-signature'
+  | 'order-signature'
+  | 'swap'
+  | 'bridge'
+  | 'deposit';
+
+/**
+ * Lifecycle of a single execution step
+ */
+export type ExecutionStepStatus =
+  | 'AWAITING_SIGNATURE'
+  | 'SIGNED'
+  | 'SUBMITTED'
+  | 'CONFIRMED'
+  | 'PARTIAL'
+  | 'FAILED';
+
+/**
+ * Unsigned EVM transaction handed to the client for signing
+ */
+export interface UnsignedEvmTransaction {
+  chainId: number;
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+/**
+ * Serialized (e.g. Solana) transaction handed to the client for signing
+ */
+export interface SerializedTransaction {
+  serializedTransaction: string;
+  encoding: 'base64';
+}
+
+/**
+ * Native L1 vault deposit the client builds and signs itself
+ */
+export interface NativeDeposit {
+  inboundAddress: string;
+  memo: string;
+  amount: string;
+  asset?: string;
+}
+
+export interface ExecutionStep {
+  index: number;
+  type: ExecutionStepType;
+  ecosystem: string;
+  chainId: number | string;
+  description: string;
+  status: ExecutionStepStatus;
+  transaction?: UnsignedEvmTransaction | SerializedTransaction | NativeDeposit;
+  typedData?: EIP712TypedData;
+  signature?: string;
+  // Intent order the signature is submitted with, and the provider's order ID once accepted
+  order?: IntentOrder;
+  orderId?: string;
+  // Submitted through the chain's private-orderflow relay
+  mevProtected?: boolean;
+  txHash?: string;
+  // Set once a bridge or native deposit lands on the destination chain
+  destinationTxHash?: string;
+  amountReceived?: string;
+  error?: string;
+}
+
+export interface UniversalExecution {
+  executionId: string;
+  routeId: string;
+  provider: string;
+  status: ExecutionStatus;
+  steps: ExecutionStep[];
+  buyToken: string;
+  recipient: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Execution status as reported by the status endpoint
+ */
+export interface ExecutionStatusReport {
+  executionId: string;
+  routeId: string;
+  provider: string;
+  status: ExecutionStatus;
+  sourceTxHash?: string;
+  destinationTxHash?: string;
+  amountReceived?: string;
+  steps: Array<{
+    index: number;
+    type: ExecutionStepType;
+    status: ExecutionStatus;
+    txHash?: string;
+    destinationTxHash?: string;
+    orderId?: string;
+    error?: string;
+  }>;
+  updatedAt: Date;
+}
+
+/**
+ * Transaction data of a quoted route: an EVM call, a serialized transaction or a native deposit,
+ * depending on the router
+ */
+export interface RouteTransactionData {
+  chainId?: number;
+  to?: string;
+  data?: string;
+  value?: string;
+  gasLimit?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  allowanceTarget?: string;
+  serializedTransaction?: string;
+  encoding?: 'base64';
+  inboundAddress?: string;
+  memo?: string;
+  amount?: string;
+  asset?: string;
+}
+
+/**
+ * One aggregator's share of a split route, executed as its own transaction
+ */
+export interface QuotedRouteLeg {
+  provider: string;
+  shareBps: number;
+  inputAmount?: string;
+  transactionData?: RouteTransactionData;
+  permit2?: Permit2Data;
+}
+
+/**
+ * Fields of a quoted route that the route store and execution rely on
+ */
+export interface QuotedRoute {
+  provider: string;
+  // Set by the route store; the provider's own route ID is kept as providerRouteId
+  routeId?: string;
+  providerRouteId?: string;
+  expiresAt?: string;
+  // Raw provider payloads needed for execution, never returned to the client
+  providerRef?: unknown;
+  // Set on fallback routes, which are not stored
+  error?: string;
+  routeType?: string;
+  inputAmount?: string;
+  steps?: Array<{ action: string }>;
+  legs?: QuotedRouteLeg[];
+  transactionData?: RouteTransactionData | null;
+  metadata?: {
+    approvalAddress?: string;
+    permit2?: Permit2Data;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Route remembered at quote time so it can be executed by routeId
+ */
+export interface StoredRoute {
+  routeId: string;
+  // Route ID the provider returned, when it has one
+  providerRouteId?: string;
+  provider: string;
+  swapType: string;
+  request: UniversalSwapRequestDto;
+  providerRef?: unknown;
+  transactionData?: RouteTransactionData | null;
+  route: QuotedRoute;
+  createdAt: Date;
+  expiresAt: Date;
+}
@@ -40,6 +40,8 @@ export interface SwapRequest {
   sellToken: string;
   buyToken: string;
   sellAmount: string;
+  // Exact-output mode: the taker must receive at least buyAmount after slippage and sellAmount is the most they will spend
+  buyAmount?: string;
   taker: string;
   recipient?: string;
   slippagePercentage?: number;
@@ -54,12 +56,17 @@ export interface SwapRequest {
 export interface Permit2Data {
   type: string;
   hash: string;
-  eip712: {
-    types: Record<string, any>;
-    domain: Record<string, any>;
-    message: Record<string, any>;
-    primaryType: string;
-  };
+  eip712: EIP712TypedData;
+}
+
+/**
+ * EIP-712 typed data handed to the client for signing (Permit2 transfers, intent orders)
+ */
+export interface EIP712TypedData {
+  types: Record<string, any>;
+  domain: Record<string, any>;
+  message: Record<string, any>;
+  primaryType: string;
 }
 
 /**
@@ -75,6 +82,9 @@ export interface RouteRequest {
   userAddress?: string;
   recipient?: string;
   referrer?: string;
+  // Bridge filters; providers that cannot filter natively are post-filtered by the aggregator manager
+  allowBridges?: string[];
+  denyBridges?: string[];
 }
 
 /**
@@ -94,6 +104,8 @@ export type Step = {
 export interface RouteQuote {
   steps: Step[];
   totalEstimatedOut: string;
+  // Input amount the route needs (set by exact-output quotes)
+  totalEstimatedIn?: string;
   fees: {
     gas: string;
     provider: string;
@@ -105,6 +117,8 @@ export interface RouteQuote {
   routeId?: string;
   priceImpact?: string;
   confidence?: number;
+  // Name of the provider that produced the route (set by the aggregator manager)
+  provider?: string;
 }
 
 /**
@@ -125,12 +139,25 @@ export interface TransactionBuild {
  */
 export type ExecutionStatus = 'PENDING' | 'SUCCESS' | 'FAILED' | 'PARTIAL';
 
+/**
+ * Execution status with destination-side details (cross-chain and native L1)
+ */
+export interface ExecutionStatusDetails {
+  status: ExecutionStatus;
+  destinationTxHash?: string;
+  amountReceived?: string;
+  // Why the provider reports a failure (e.g. an intent order that expired unfilled)
+  error?: string;
+}
+
 /**
  * Port for on-chain aggregators (0x, Odos, etc.)
  */
 export interface IOnchainAggregator extends IProvider {
   /**
    * Get a swap quote for same-chain swaps
+   * When req.buyAmount is set the quote is exact-output: its minBuyAmount covers req.buyAmount and its
+   * sellAmount does not exceed req.sellAmount (natively, or by searching over sell amounts)
    * @param req - The swap request
    * @param strictValidation - Whether to use strict validation (default: true)
    *                          Set to false for quote comparison to relax validations
@@ -143,14 +170,34 @@ export interface IOnchainAggregator extends IProvider {
   buildTx(req: SwapRequest): Promise<TransactionBuild>;
 
   /**
-   * Check if provider supports the given chain
+   * Check if provider supports the given chain (bundled list; the aggregator manager consults the
+   * chain capability registry instead)
    */
   supportsChain(chainId: number): boolean;
 
   /**
-   * Get all supported chains dynamically from the aggregator's API
+   * Get all supported chains dynamically from the aggregator's API (throws when the API is unavailable)
    */
   getSupportedChains(): Promise<number[]>;
+
+  /**
+   * Bundled chain list, used until upstream discovery succeeds
+   */
+  getStaticSupportedChains(): number[];
+
+  /**
+   * Fixed approval target on the chain, for aggregators that have one (others return it with each quote)
+   * Aggregators with several settlement contracts (e.g. 0x) pick the one for the approval strategy
+   */
+  getSpenderAddress?(
+    chainId: number,
+    strategy?: ApprovalStrategy,
+  ): Promise<string>;
+
+  /**
+   * Tokens tradable on the chain, for aggregators that publish a list
+   */
+  getTokenList?(chainId: number): Promise<any[]>;
 }
 
 /**
@@ -172,10 +219,20 @@ export interface IMetaAggregator extends IProvider {
    */
   status(routeId: string): Promise<ExecutionStatus>;
 
+  /**
+   * Get execution status with destination tx hash and received amount (optional)
+   */
+  getStatusDetails?(txHash: string): Promise<ExecutionStatusDetails>;
+
   /**
    * Get supported chain pairs
    */
   getSupportedChains(): { from: number[]; to: number[] };
+
+  /**
+   * Fetch supported chains from the upstream API (optional; the static lists are used otherwise)
+   */
+  fetchSupportedChains?(): Promise<number[]>;
 }
 
 /**
@@ -184,7 +241,9 @@ export interface IMetaAggregator extends IProvider {
 export interface SolanaQuoteRequest {
   fromMint: string;
   toMint: string;
+  // Input amount, or the output amount to receive when swapMode is ExactOut
   amount: string;
+  swapMode?: 'ExactIn' | 'ExactOut';
   slippageBps: number;
   userPublicKey?: string;
   platformFeeBps?: number;
@@ -204,7 +263,7 @@ export interface SolanaTransactionResult {
  */
 export interface ISolanaRouter extends IProvider {
   /**
-   * Get swap quote for Solana tokens
+   * Get swap quote for Solana tokens (routers without exact-output support reject ExactOut requests)
    */
   quote(req: SolanaQuoteRequest): Promise<RouteQuote>;
 
@@ -223,6 +282,8 @@ export interface ISolanaRouter extends IProvider {
  * Native L1 quote request (Bitcoin, etc.)
  */
 export interface NativeQuoteRequest {
+  // Source asset in THORChain notation (e.g. BTC.BTC); routers default to BTC.BTC
+  fromAsset?: string;
   toChainId: number;
   toToken: string;
   amountSats: string;
@@ -244,10 +305,88 @@ export interface INativeRouter extends IProvider {
    */
   depositAndTrack(depositTx: string, memo: string): Promise<ExecutionStatus>;
 
+  /**
+   * Get deposit status with outbound tx hash and received amount (optional)
+   */
+  getStatusDetails?(depositTx: string): Promise<ExecutionStatusDetails>;
+
   /**
    * Get supported destination chains
    */
   getSupportedDestinations(): number[];
+
+  /**
+   * Fetch supported destination chains from the upstream API (optional; the static list is used otherwise)
+   */
+  fetchSupportedDestinations?(): Promise<number[]>;
+}
+
+/**
+ * Signed order an intent provider settles off-chain once the client signs its typed data
+ */
+export interface IntentOrder {
+  chainId: number;
+  owner: string;
+  typedData: EIP712TypedData;
+  // Provider quote the order was built from, and the app data document its hash commits to
+  quoteId?: string | number;
+  appData?: string;
+}
+
+/**
+ * Intent quote: expected amounts and the order to sign
+ * Sell orders sign minBuyAmount as their limit, buy orders maxSellAmount; network fees are included
+ * in the sell amount, so the taker pays no gas
+ */
+export interface IntentQuote {
+  provider: string;
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  buyAmount: string;
+  minBuyAmount: string;
+  maxSellAmount: string;
+  feeAmount: string;
+  kind: 'sell' | 'buy';
+  // Unix timestamp after which solvers no longer settle the order
+  validTo: number;
+  // Contract the taker approves to pull the sell token at settlement
+  allowanceTarget: string;
+  order: IntentOrder;
+}
+
+/**
+ * Port for intent providers (CoW Protocol, etc.): the client signs an order instead of a
+ * transaction and solvers settle it, so the swap is gasless and not exposed to the public mempool
+ */
+export interface IIntentProvider extends IProvider {
+  /**
+   * Quote an order and build its typed data for the taker to sign
+   */
+  quoteOrder(request: SwapRequest): Promise<IntentQuote>;
+
+  /**
+   * Submit a signed order, returning the provider's order ID
+   */
+  submitOrder(order: IntentOrder, signature: string): Promise<string>;
+
+  /**
+   * Get order status; SUCCESS once filled, with the settlement tx hash and amount bought
+   */
+  getOrderStatus(
+    chainId: number,
+    orderId: string,
+  ): Promise<ExecutionStatusDetails>;
+
+  /**
+   * Check if provider supports the given chain
+   */
+  supportsChain(chainId: number): boolean;
+
+  /**
+   * Get supported chain IDs
+   */
+  getSupportedChains(): number[];
 }
 
 /**
@@ -264,6 +403,8 @@ export interface ProviderConfig {
   };
   timeout?: number;
   retries?: number;
+  // Chain ID allow-list; every supported chain when unset
+  chains?: number[];
 }
 
 /**
@@ -275,6 +416,107 @@ export interface ProviderHealth {
   latency?: number;
   lastCheck: Date;
   errorRate?: number;
+  circuitState?: CircuitState;
+}
+
+/**
+ * Health of a provider at one point in time, kept as history by the health monitor
+ */
+export interface ProviderHealthSample {
+  at: Date;
+  status: ProviderHealth['status'];
+  latency?: number;
+  errorRate?: number;
+}
+
+/**
+ * Health monitor view of a provider: latest background probe, error rate of real traffic,
+ * the status graded against the SLO thresholds (with the reasons when not healthy) and recent history
+ */
+export interface ProviderHealthReport extends ProviderHealth {
+  category: 'evm' | 'meta' | 'solana' | 'native' | 'intent';
+  probe?: {
+    at: Date;
+    ok: boolean;
+    latency: number;
+    error?: string;
+  };
+  traffic: {
+    windowMinutes: number;
+    calls: number;
+    failures: number;
+    p95LatencyMs?: number;
+  };
+  reasons: string[];
+  history: ProviderHealthSample[];
+}
+
+/**
+ * Circuit breaker state of a provider: OPEN fails fast, HALF_OPEN lets a single probe through
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerSnapshot {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure?: {
+    errorClass: QuoteErrorClass;
+    at: Date;
+  };
+  openedAt?: Date;
+  // When an open circuit lets the next probe through
+  retryAt?: Date;
+}
+
+/**
+ * Chain capability registry entry: the chains a provider supports and where that list came from
+ * (upstream discovery, the persisted last known good snapshot, or the provider's bundled list)
+ */
+export type ChainCapabilitySource = 'upstream' | 'snapshot' | 'static';
+
+export interface ChainCapability {
+  provider: string;
+  category: 'evm' | 'meta' | 'native' | 'intent';
+  chains: number[];
+  source: ChainCapabilitySource;
+  updatedAt: Date;
+  // Last discovery failure, kept while an older list is served
+  lastError?: string;
+}
+
+/**
+ * Coarse classification of failed quote attempts
+ */
+export type QuoteErrorClass =
+  | 'timeout'
+  | 'rate-limit'
+  | 'no-route'
+  | 'invalid-request'
+  | 'server'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Observed quote performance of a provider on a chain over the rolling window, with its score breakdown
+ */
+export interface ProviderPerformanceBreakdown {
+  provider: string;
+  chainId: number;
+  windowMinutes: number;
+  attempts: number;
+  successRate: number;
+  medianLatencyMs?: number;
+  errors: Partial<Record<QuoteErrorClass, number>>;
+  priceComparisons: number;
+  priceWins: number;
+  // Score components; each rate is smoothed so providers without data start neutral
+  components: {
+    reliability: number;
+    latency: number;
+    price: number;
+  };
+  score: number;
 }
 
 /**
@@ -284,4 +526,32 @@ export interface IProvider {
   getProviderName(): string;
   healthCheck(): Promise<ProviderHealth>;
   getConfig(): ProviderConfig;
-}
\ No newline at end of file
+}
+/**
+ * Price source used to express native gas costs in a token and to build reference quotes
+ */
+export interface INativePriceSource {
+  /**
+   * Token base units worth one whole native coin (10^18 wei) on the chain, or undefined when unknown
+   */
+  getNativePrice(chainId: number, token: string): Promise<bigint | undefined>;
+
+  /**
+   * Buy token base units worth sellAmount of the sell token at reference prices, or undefined when unknown
+   */
+  getReferenceAmount?(
+    chainId: number,
+    sellToken: string,
+    buyToken: string,
+    sellAmount: bigint,
+  ): Promise<bigint | undefined>;
+
+  /**
+   * USD value of an amount of the token (in base units), or undefined when unknown
+   */
+  getUsdValue?(
+    chainId: number,
+    token: string,
+    amount: bigint,
+  ): Promise<number | undefined>;
+}
@@ -15,11 +15,13 @@ export interface SwapRequest {
   sellToken: string;
   buyToken: string;
   sellAmount: string;
+  // Exact-output mode: the taker must receive at least buyAmount after slippage and sellAmount is the most they will spend
+  buyAmount?: string;
   taker: string;
   recipient?: string;
   slippagePercentage?: number;
   deadline?: number;
-  aggregator?: AggregatorType;
+  aggregator?: ProviderId;
   approvalStrategy?: ApprovalStrategy; // Optional strategy for 0x v2
 }
 
@@ -35,7 +37,7 @@ export interface SwapQuote {
   data: string;
   value: string;
   allowanceTarget?: string;
-  aggregator: AggregatorType;
+  aggregator: ProviderId;
   priceImpact?: string;
   estimatedGas?: string;
   permit2?: Permit2Data; // Optional permit2 data for gasless approvals (Permit2 strategy only)
@@ -43,6 +45,83 @@ export interface SwapQuote {
   // EIP-1559 gas fields for improved gas handling
   maxFeePerGas?: string;
   maxPriorityFeePerGas?: string;
+  // Set by net-output ranking: gas cost converted into buy token units, and buyAmount minus that cost
+  gasCostInBuyToken?: string;
+  netBuyAmount?: string;
+  // Set by exact-output ranking: gas cost converted into sell token units, and sellAmount plus that cost
+  gasCostInSellToken?: string;
+  netSellAmount?: string;
+  // Set when the quote deviates from its peers or the reference price but was kept (no sane alternative)
+  outlier?: QuoteOutlier;
+}
+
+/**
+ * Options for a deadline-bounded quote fan-out
+ */
+export interface QuoteFanOutOptions {
+  deadlineMs?: number;
+  // Fire a second request to providers slower than their p95 latency
+  hedge?: boolean;
+}
+
+export interface QuoteFanOutResult {
+  quotes: Array<{ aggregator: ProviderId; quote: SwapQuote }>;
+  // Providers that had not answered when the deadline passed
+  timedOut: string[];
+  outliers: QuoteOutlier[];
+}
+
+/**
+ * Fan-out details surfaced alongside the quotes, with routing notes for the caller
+ */
+export interface QuoteFanOutDiagnostics extends Omit<
+  QuoteFanOutResult,
+  'quotes'
+> {
+  warnings: string[];
+}
+
+/**
+ * One aggregator's share of a split order; each leg is an independent exact-input swap
+ */
+export interface SplitQuoteLeg {
+  provider: string;
+  // Share of the order's sell amount, in basis points
+  shareBps: number;
+  quote: SwapQuote;
+}
+
+/**
+ * Order split across aggregators, allocated to maximize total net output after each leg's gas
+ */
+export interface SplitQuote {
+  legs: SplitQuoteLeg[];
+  // Totals over the legs (sellAmount may be a few wei below the request's from rounding the shares)
+  sellAmount: string;
+  buyAmount: string;
+  minBuyAmount: string;
+  netBuyAmount: string;
+  // Net output gain over the best single-aggregator quote for the full amount, in basis points
+  improvementBps: number;
+}
+
+/**
+ * Why a quote failed the consensus check: compared with the median of concurrent quotes or with the reference price
+ */
+export type QuoteOutlierReason =
+  'above-consensus' | 'below-consensus' | 'above-reference' | 'below-reference';
+
+export interface QuoteOutlier {
+  aggregator: ProviderId;
+  buyAmount: string;
+  // Set for exact-output requests, where the sell amount is compared instead of the buy amount
+  sellAmount?: string;
+  reason: QuoteOutlierReason;
+  // Signed deviation from the median or reference amount, in basis points
+  deviationBps: number;
+  // Excluded quotes are dropped from the results; kept ones are flagged on the quote
+  excluded: boolean;
+  detail: string;
 }
 
 export interface Permit2Data {
@@ -73,7 +152,7 @@ export interface SwapResult {
   buyAmount: string;
   gasUsed: string;
   gasPrice: string;
-  aggregator: AggregatorType;
+  aggregator: ProviderId;
   timestamp: number;
 }
 
@@ -93,14 +172,19 @@ export interface ApprovalResult {
 }
 
 /**
- * Supported aggregator types for multi-protocol swapping
+ * ID of a registered EVM aggregator in the aggregator registry: its provider name lowercased (e.g. '0x', 'odos')
+ * Any IOnchainAggregator that registers itself is addressable by its ID
+ */
+export type ProviderId = string;
+
+/**
+ * Legacy aggregator IDs, kept for existing callers; each value is the ProviderId of that aggregator
  * 
  * EVM Aggregators:
  * - ZEROX: 0x Protocol v2 (AllowanceHolder + Permit2 strategies)
  * - ODOS: Odos efficient pathfinding
  * 
- * Cross-Protocol:
- * - JUPITER: Jupiter (Solana ecosystem)
+ * @deprecated Use ProviderId; new aggregators get no enum member
  */
 export enum AggregatorType {
   ZEROX = '0x',          // 0x Protocol (existing - do not change)
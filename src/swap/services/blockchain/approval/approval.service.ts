@@ -2,7 +2,7 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
 import { Permit2Service } from './permit2.service';
-import { ApprovalResult, AggregatorType } from '@swap/models/swap-request.model';
+import { ApprovalResult, ProviderId } from '@swap/models/swap-request.model';
 import { isNativeToken } from '@shared/utils/chain.utils';
 import { validatePrivateKey, validateTokenAddress, validateWalletAddress } from '@shared/utils/validation.utils';
 
@@ -206,10 +206,13 @@ export class ApprovalService {
    */
   async getSpenderAddress(
     chainId: number,
-    aggregatorType: AggregatorType,
+    providerId: ProviderId,
   ): Promise<string> {
     try {
-      return await this.aggregatorManager.getSpenderAddress(chainId, aggregatorType);
+      return await this.aggregatorManager.getSpenderAddress(
+        chainId,
+        providerId,
+      );
     } catch (error) {
       this.logger.error(`Failed to get spender address: ${error.message}`, error.stack);
       throw new Error(`Failed to get spender address: ${error.message}`);
@@ -223,7 +226,7 @@ export class ApprovalService {
     chainId: number,
     tokenAddress: string,
     owner: string,
-    aggregatorType: AggregatorType,
+    providerId: ProviderId,
     amount: string,
   ): Promise<{
     isApprovalNeeded: boolean;
@@ -241,7 +244,7 @@ export class ApprovalService {
         };
       }
 
-      const spenderAddress = await this.getSpenderAddress(chainId, aggregatorType);
+      const spenderAddress = await this.getSpenderAddress(chainId, providerId);
       const currentAllowance = await this.walletService.getAllowance(
         chainId,
         tokenAddress,
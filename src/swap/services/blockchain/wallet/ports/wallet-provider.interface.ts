@@ -72,6 +72,16 @@ export interface IWalletProvider {
     gasLimit?: string,
   ): Promise<string>;
 
+  /**
+   * Broadcast a transaction signed by the client (if applicable for this chain)
+   * Optional method - used for non-custodial execution
+   */
+  broadcastTransaction?(
+    chainId: number | string,
+    signedTransaction: string,
+    options?: BroadcastOptions,
+  ): Promise<string>;
+
   /**
    * Wait for transaction confirmation
    */
@@ -99,6 +109,14 @@ export interface IWalletProvider {
   ): Array<{ from: string; to: string; amount: bigint }>;
 }
 
+/**
+ * Options for broadcasting client-signed transactions
+ */
+export interface BroadcastOptions {
+  // Submit through the chain's private-orderflow relay instead of the public RPC
+  mevProtection?: boolean;
+}
+
 /**
  * Wallet provider configuration
  */
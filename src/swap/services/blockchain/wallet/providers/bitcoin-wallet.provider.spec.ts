@@ -0,0 +1,43 @@
+import { Transaction } from 'bitcoinjs-lib';
+import { CustomHttpService } from '@shared/services/http.service';
+import { BitcoinWalletProvider } from './bitcoin-wallet.provider';
+
+describe('BitcoinWalletProvider broadcast', () => {
+  const signedTx = new Transaction();
+  signedTx.addInput(Buffer.alloc(32, 1), 0);
+  signedTx.addOutput(Buffer.from('0014' + '22'.repeat(20), 'hex'), 50000n);
+  const signedTransaction = signedTx.toHex();
+
+  let http: { post: jest.Mock };
+  let provider: BitcoinWalletProvider;
+
+  beforeEach(() => {
+    http = { post: jest.fn().mockResolvedValue(signedTx.getId()) };
+    provider = new BitcoinWalletProvider(http as unknown as CustomHttpService);
+  });
+
+  it('should post the raw transaction hex to the Esplora API of the network', async () => {
+    await expect(
+      provider.broadcastTransaction('bitcoin', signedTransaction),
+    ).resolves.toBe(signedTx.getId());
+    expect(http.post).toHaveBeenCalledWith(
+      'https://blockstream.info/api/tx',
+      signedTransaction,
+      expect.objectContaining({ retries: 0 }),
+    );
+
+    await provider.broadcastTransaction('bitcoin-testnet', signedTransaction);
+    expect(http.post).toHaveBeenLastCalledWith(
+      'https://blockstream.info/testnet/api/tx',
+      signedTransaction,
+      expect.anything(),
+    );
+  });
+
+  it('should reject malformed transactions without calling the network', async () => {
+    await expect(
+      provider.broadcastTransaction('bitcoin', 'not-a-transaction'),
+    ).rejects.toThrow('Failed to broadcast Bitcoin transaction');
+    expect(http.post).not.toHaveBeenCalled();
+  });
+});
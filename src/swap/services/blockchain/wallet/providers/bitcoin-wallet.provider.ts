@@ -1,4 +1,6 @@
 import { Injectable, Logger, OnModuleInit, Optional, Inject } from '@nestjs/common';
+import { Transaction } from 'bitcoinjs-lib';
+import { CustomHttpService } from '@shared/services/http.service';
 import { BalanceInfo, TokenInfo } from '@swap/models/swap-request.model';
 import { IWalletProvider, WalletProviderConfig } from '../ports/wallet-provider.interface';
 import type { IWalletProviderRegistry } from '../ports/wallet-provider-registry.interface';
@@ -7,13 +9,15 @@ import { WalletService } from '../wallet.service';
 /**
  * Bitcoin-specific wallet provider
  * NOW WITH SELF-REGISTRATION: Automatically registers itself with WalletService
- * TODO: Implement full Bitcoin wallet functionality
+ * Broadcasts client-signed transactions through an Esplora API
+ * TODO: Implement balances and custodial execution
  */
 @Injectable()
 export class BitcoinWalletProvider implements IWalletProvider, OnModuleInit {
   private readonly logger = new Logger(BitcoinWalletProvider.name);
 
   constructor(
+    private readonly httpService: CustomHttpService,
     @Optional() @Inject(WalletService) private readonly registry?: IWalletProviderRegistry
   ) {}
 
@@ -84,6 +88,38 @@ export class BitcoinWalletProvider implements IWalletProvider, OnModuleInit {
     throw new Error('Bitcoin wallet provider not yet implemented');
   }
 
+  async broadcastTransaction(
+    chainId: number | string,
+    signedTransaction: string,
+  ): Promise<string> {
+    try {
+      // Parse first so malformed hex fails here instead of at the node
+      const txid = Transaction.fromHex(signedTransaction).getId();
+
+      const broadcastTxid = await this.httpService.post<string>(
+        `${this.getEsploraUrl(chainId)}/tx`,
+        signedTransaction,
+        {
+          headers: { 'Content-Type': 'text/plain' },
+          retries: 0, // A rebroadcast of an accepted transaction only errors
+        },
+      );
+
+      this.logger.log(
+        `Bitcoin transaction broadcast: ${broadcastTxid || txid}`,
+      );
+      return broadcastTxid || txid;
+    } catch (error) {
+      this.logger.error(
+        `Failed to broadcast Bitcoin transaction: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      throw new Error(
+        `Failed to broadcast Bitcoin transaction: ${(error as Error).message}`,
+      );
+    }
+  }
+
   async waitForTransactionConfirmation(
     chainId: number | string,
     txHash: string,
@@ -99,6 +135,21 @@ export class BitcoinWalletProvider implements IWalletProvider, OnModuleInit {
     throw new Error('Bitcoin wallet provider not yet implemented');
   }
 
+  /**
+   * Esplora API base URL for mainnet or testnet
+   */
+  private getEsploraUrl(chainId: number | string): string {
+    const isTestnet =
+      chainId === 1 ||
+      (typeof chainId === 'string' &&
+        chainId.toLowerCase().endsWith('-testnet'));
+
+    return isTestnet
+      ? process.env.BITCOIN_TESTNET_ESPLORA_URL ||
+          'https://blockstream.info/testnet/api'
+      : process.env.BITCOIN_ESPLORA_URL || 'https://blockstream.info/api';
+  }
+
   getConfig(): WalletProviderConfig {
     return {
       name: 'Bitcoin Wallet Provider',
@@ -0,0 +1,124 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { EvmWalletProvider } from './evm-wallet.provider';
+import { CHAIN_CONFIGS, SupportedChain } from '@shared/utils/chain.utils';
+
+/**
+ * Minimal stand-in JSON-RPC endpoint that records eth_sendRawTransaction calls
+ */
+function startJsonRpcServer(
+  txHash: string,
+  failWith?: string,
+): Promise<{ server: Server; url: string; calls: string[] }> {
+  const calls: string[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const payload = JSON.parse(body) as { id: number; method: string };
+      calls.push(payload.method);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify(
+          failWith
+            ? {
+                jsonrpc: '2.0',
+                id: payload.id,
+                error: { code: -32000, message: failWith },
+              }
+            : { jsonrpc: '2.0', id: payload.id, result: txHash },
+        ),
+      );
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, calls });
+    });
+  });
+}
+
+describe('EvmWalletProvider MEV-protected broadcast', () => {
+  const relayHash = `0x${'aa'.repeat(32)}`;
+  const publicHash = `0x${'bb'.repeat(32)}`;
+  const signedTransaction =
+    '0x02f86b0180843b9aca00850df8475800825208940000000000000000000000000000000000000000808080c0';
+  const ethereum = CHAIN_CONFIGS[SupportedChain.ETHEREUM];
+  const originalConfig = {
+    rpcUrl: ethereum.rpcUrl,
+    mevRelayUrl: ethereum.mevRelayUrl,
+  };
+  const originalPolicy = process.env.MEV_RELAY_FALLBACK;
+  const servers: Server[] = [];
+
+  let provider: EvmWalletProvider;
+  let publicRpc: { url: string; calls: string[] };
+
+  beforeEach(async () => {
+    provider = new EvmWalletProvider();
+    const started = await startJsonRpcServer(publicHash);
+    servers.push(started.server);
+    publicRpc = started;
+    ethereum.rpcUrl = started.url;
+  });
+
+  afterEach(async () => {
+    ethereum.rpcUrl = originalConfig.rpcUrl;
+    ethereum.mevRelayUrl = originalConfig.mevRelayUrl;
+    process.env.MEV_RELAY_FALLBACK = originalPolicy;
+    await Promise.all(
+      servers
+        .splice(0)
+        .map((server) => new Promise((resolve) => server.close(resolve))),
+    );
+  });
+
+  it('should submit through the configured relay instead of the public RPC', async () => {
+    const relay = await startJsonRpcServer(relayHash);
+    servers.push(relay.server);
+    ethereum.mevRelayUrl = relay.url;
+
+    const hash = await provider.broadcastTransaction(1, signedTransaction, {
+      mevProtection: true,
+    });
+
+    expect(hash).toBe(relayHash);
+    expect(relay.calls).toEqual(['eth_sendRawTransaction']);
+    expect(publicRpc.calls).toEqual([]);
+  });
+
+  it('should reject when no relay is configured and the fallback policy is reject', async () => {
+    ethereum.mevRelayUrl = undefined;
+    process.env.MEV_RELAY_FALLBACK = 'reject';
+
+    await expect(
+      provider.broadcastTransaction(1, signedTransaction, {
+        mevProtection: true,
+      }),
+    ).rejects.toThrow('No MEV relay configured for Ethereum');
+    expect(publicRpc.calls).toEqual([]);
+  });
+
+  it('should fall back to the public RPC when the relay fails and the policy allows it', async () => {
+    const relay = await startJsonRpcServer(relayHash, 'relay unavailable');
+    servers.push(relay.server);
+    ethereum.mevRelayUrl = relay.url;
+    process.env.MEV_RELAY_FALLBACK = 'public';
+
+    const hash = await provider.broadcastTransaction(1, signedTransaction, {
+      mevProtection: true,
+    });
+
+    expect(hash).toBe(publicHash);
+    expect(relay.calls.length).toBeGreaterThan(0);
+    expect(publicRpc.calls).toEqual(['eth_sendRawTransaction']);
+  });
+
+  it('should use the public RPC without MEV protection', async () => {
+    const hash = await provider.broadcastTransaction(1, signedTransaction);
+
+    expect(hash).toBe(publicHash);
+  });
+});
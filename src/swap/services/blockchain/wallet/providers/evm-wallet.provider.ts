@@ -11,7 +11,12 @@ import {
   type TransactionReceipt
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { getChainConfig, isNativeToken } from '@shared/utils/chain.utils';
+import {
+  getChainConfig,
+  getMevFallbackPolicy,
+  isNativeToken,
+  type ChainConfig,
+} from '@shared/utils/chain.utils';
 import {
   createProvider,
   ERC20_ABI,
@@ -20,7 +25,11 @@ import {
 } from '@shared/utils/ethereum.utils';
 import { BalanceInfo, TokenInfo } from '@swap/models/swap-request.model';
 import { validateWalletAddress, validatePrivateKey } from '@shared/utils/validation.utils';
-import { IWalletProvider, WalletProviderConfig } from '../ports/wallet-provider.interface';
+import {
+  IWalletProvider,
+  WalletProviderConfig,
+  BroadcastOptions,
+} from '../ports/wallet-provider.interface';
 import type { IWalletProviderRegistry } from '../ports/wallet-provider-registry.interface';
 import { WalletService } from '../wallet.service';
 
@@ -285,6 +294,82 @@ export class EvmWalletProvider implements IWalletProvider, OnModuleInit {
     }
   }
 
+  async broadcastTransaction(
+    chainId: number | string,
+    signedTransaction: string,
+    options?: BroadcastOptions,
+  ): Promise<string> {
+    try {
+      const numericChainId =
+        typeof chainId === 'string' ? parseInt(chainId) : chainId;
+      const chainConfig = getChainConfig(numericChainId);
+
+      if (options?.mevProtection) {
+        return await this.broadcastViaMevRelay(chainConfig, signedTransaction);
+      }
+
+      const provider = createProvider(chainConfig.rpcUrl);
+      const hash = await provider.sendRawTransaction({
+        serializedTransaction: signedTransaction as Hex,
+      });
+
+      this.logger.log(`EVM transaction broadcast: ${hash}`);
+      return hash;
+    } catch (error) {
+      this.logger.error(
+        `Failed to broadcast EVM transaction: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      throw new Error(
+        `Failed to broadcast EVM transaction: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Submit through the chain's private-orderflow relay, applying MEV_RELAY_FALLBACK when it is unavailable
+   */
+  private async broadcastViaMevRelay(
+    chainConfig: ChainConfig,
+    signedTransaction: string,
+  ): Promise<Hex> {
+    const fallbackPolicy = getMevFallbackPolicy();
+
+    if (chainConfig.mevRelayUrl) {
+      try {
+        const relay = createProvider(chainConfig.mevRelayUrl);
+        const hash = await relay.sendRawTransaction({
+          serializedTransaction: signedTransaction as Hex,
+        });
+
+        this.logger.log(
+          `EVM transaction sent via MEV relay on ${chainConfig.name}: ${hash}`,
+        );
+        return hash;
+      } catch (error) {
+        if (fallbackPolicy !== 'public') {
+          throw new Error(
+            `MEV relay submission failed on ${chainConfig.name}: ${(error as Error).message}`,
+          );
+        }
+        this.logger.warn(
+          `MEV relay failed on ${chainConfig.name}, falling back to public RPC: ${(error as Error).message}`,
+        );
+      }
+    } else if (fallbackPolicy !== 'public') {
+      throw new Error(`No MEV relay configured for ${chainConfig.name}`);
+    } else {
+      this.logger.warn(
+        `No MEV relay configured for ${chainConfig.name}, falling back to public RPC`,
+      );
+    }
+
+    const provider = createProvider(chainConfig.rpcUrl);
+    return provider.sendRawTransaction({
+      serializedTransaction: signedTransaction as Hex,
+    });
+  }
+
   async waitForTransactionConfirmation(
     chainId: number | string,
     txHash: string,
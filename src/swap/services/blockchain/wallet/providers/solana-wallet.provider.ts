@@ -1,4 +1,5 @@
 import { Injectable, Logger, OnModuleInit, Optional, Inject } from '@nestjs/common';
+import { Connection, clusterApiUrl } from '@solana/web3.js';
 import { BalanceInfo, TokenInfo } from '@swap/models/swap-request.model';
 import { IWalletProvider, WalletProviderConfig } from '../ports/wallet-provider.interface';
 import type { IWalletProviderRegistry } from '../ports/wallet-provider-registry.interface';
@@ -7,7 +8,8 @@ import { WalletService } from '../wallet.service';
 /**
  * Solana-specific wallet provider
  * NOW WITH SELF-REGISTRATION: Automatically registers itself with WalletService
- * TODO: Implement full Solana wallet functionality
+ * Broadcasts client-signed transactions and reports their status
+ * TODO: Implement balances and custodial execution
  */
 @Injectable()
 export class SolanaWalletProvider implements IWalletProvider, OnModuleInit {
@@ -84,6 +86,29 @@ export class SolanaWalletProvider implements IWalletProvider, OnModuleInit {
     throw new Error('Solana wallet provider not yet implemented');
   }
 
+  async broadcastTransaction(
+    chainId: number | string,
+    signedTransaction: string,
+  ): Promise<string> {
+    try {
+      // Routers serialize transactions as base64; preflight simulation rejects ones that would fail
+      const signature = await this.getConnection(chainId).sendRawTransaction(
+        Buffer.from(signedTransaction, 'base64'),
+      );
+
+      this.logger.log(`Solana transaction broadcast: ${signature}`);
+      return signature;
+    } catch (error) {
+      this.logger.error(
+        `Failed to broadcast Solana transaction: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      throw new Error(
+        `Failed to broadcast Solana transaction: ${(error as Error).message}`,
+      );
+    }
+  }
+
   async waitForTransactionConfirmation(
     chainId: number | string,
     txHash: string,
@@ -96,7 +121,43 @@ export class SolanaWalletProvider implements IWalletProvider, OnModuleInit {
     status: 'pending' | 'confirmed' | 'failed';
     receipt?: any;
   }> {
-    throw new Error('Solana wallet provider not yet implemented');
+    const { value } = await this.getConnection(chainId).getSignatureStatus(
+      txHash,
+      { searchTransactionHistory: true },
+    );
+
+    if (!value || value.confirmationStatus === 'processed') {
+      return { status: 'pending' };
+    }
+
+    return { status: value.err ? 'failed' : 'confirmed' };
+  }
+
+  /**
+   * RPC connection for the cluster behind a Solana chain identifier
+   */
+  private getConnection(chainId: number | string): Connection {
+    const cluster =
+      typeof chainId === 'number'
+        ? chainId === 901
+          ? 'devnet'
+          : 'mainnet-beta'
+        : chainId.toLowerCase();
+
+    switch (cluster) {
+      case 'devnet':
+        return new Connection(
+          process.env.SOLANA_DEVNET_RPC_URL || clusterApiUrl('devnet'),
+          'confirmed',
+        );
+      case 'testnet':
+        return new Connection(clusterApiUrl('testnet'), 'confirmed');
+      default:
+        return new Connection(
+          process.env.SOLANA_RPC_URL || clusterApiUrl('mainnet-beta'),
+          'confirmed',
+        );
+    }
   }
 
   getConfig(): WalletProviderConfig {
@@ -1,6 +1,9 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { BalanceInfo, TokenInfo } from '@swap/models/swap-request.model';
-import { IWalletProvider } from './ports/wallet-provider.interface';
+import {
+  IWalletProvider,
+  BroadcastOptions,
+} from './ports/wallet-provider.interface';
 import { IWalletProviderRegistry } from './ports/wallet-provider-registry.interface';
 import { TransactionReceipt } from 'viem';
 
@@ -208,6 +211,39 @@ export class WalletService implements IWalletProviderRegistry {
     }
   }
 
+  /**
+   * Broadcast a client-signed transaction (multi-chain support)
+   */
+  async broadcastTransaction(
+    chainId: number | string,
+    signedTransaction: string,
+    ecosystem?: string,
+    options?: BroadcastOptions,
+  ): Promise<string> {
+    try {
+      const provider = this.getProviderForChain(chainId, ecosystem);
+
+      // Check if provider supports broadcasting (optional method)
+      if (!provider.broadcastTransaction) {
+        throw new BadRequestException(
+          `Transaction broadcast not supported for chain: ${chainId}`,
+        );
+      }
+
+      return await provider.broadcastTransaction(
+        chainId,
+        signedTransaction,
+        options,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to broadcast transaction on chain ${chainId}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Wait for transaction confirmation (multi-chain support)
    */
@@ -0,0 +1,616 @@
+import { AggregatorManagerService } from './aggregator-manager.service';
+import {
+  IMetaAggregator,
+  IOnchainAggregator,
+  RouteQuote,
+  RouteRequest,
+} from '@swap/models/ports';
+import {
+  AggregatorType,
+  ApprovalStrategy,
+  SwapQuote,
+  SwapRequest,
+} from '@swap/models/swap-request.model';
+import { ProviderPerformanceService } from './provider-performance.service';
+import { QuoteConsensusService } from './quote-consensus.service';
+
+describe('AggregatorManagerService', () => {
+  let manager: AggregatorManagerService;
+
+  const request: RouteRequest = {
+    fromChainId: 1,
+    toChainId: 42161,
+    fromToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    toToken: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    amount: '1000000',
+    slippageBps: 50,
+  };
+
+  const bridgeRoute = (
+    protocol: string,
+    totalEstimatedOut: string,
+  ): RouteQuote => ({
+    steps: [
+      { kind: 'swap', chainId: 1, details: {}, protocol: 'uniswap' },
+      { kind: 'bridge', chainId: 1, details: {}, protocol },
+    ],
+    totalEstimatedOut,
+    fees: { gas: '0', provider: '0' },
+  });
+
+  const metaAggregator = (
+    name: string,
+    routes: RouteQuote[],
+  ): IMetaAggregator =>
+    ({
+      getProviderName: () => name,
+      healthCheck: () =>
+        Promise.resolve({
+          name,
+          status: 'healthy',
+          latency: 10,
+          lastCheck: new Date(),
+          errorRate: 0,
+        }),
+      getConfig: () => ({
+        name,
+        baseUrl: 'http://localhost',
+        enabled: true,
+        timeout: 1000,
+        retries: 0,
+      }),
+      getRoutes: jest.fn().mockResolvedValue(routes),
+      execute: jest.fn(),
+      status: jest.fn(),
+      getSupportedChains: jest.fn().mockResolvedValue([]),
+    }) as unknown as IMetaAggregator;
+
+  beforeEach(() => {
+    manager = new AggregatorManagerService();
+    manager.registerMetaAggregator(
+      metaAggregator('LI.FI', [
+        bridgeRoute('stargate', '990'),
+        bridgeRoute('across', '995'),
+      ]),
+    );
+    manager.registerMetaAggregator(
+      metaAggregator('Socket', [bridgeRoute('Hop', '998')]),
+    );
+  });
+
+  describe('getCrossChainRoutes bridge filters', () => {
+    it('should return every route without bridge filters', async () => {
+      const routes = await manager.getCrossChainRoutes(request);
+
+      expect(routes.map((route) => route.steps[1].protocol)).toEqual([
+        'Hop',
+        'across',
+        'stargate',
+      ]);
+    });
+
+    it('should keep only routes whose bridges are in the allow-list', async () => {
+      const routes = await manager.getCrossChainRoutes({
+        ...request,
+        allowBridges: ['Stargate', 'hop'],
+      });
+
+      expect(routes.map((route) => route.steps[1].protocol)).toEqual([
+        'Hop',
+        'stargate',
+      ]);
+    });
+
+    it('should drop routes using a denied bridge, even when allow-listed', async () => {
+      const routes = await manager.getCrossChainRoutes({
+        ...request,
+        allowBridges: ['stargate', 'hop'],
+        denyBridges: ['hop'],
+      });
+
+      expect(routes.map((route) => route.steps[1].protocol)).toEqual([
+        'stargate',
+      ]);
+    });
+
+    it('should apply filters to a pinned provider', async () => {
+      const routes = await manager.getCrossChainRoutes(
+        { ...request, denyBridges: ['across'] },
+        'lifi',
+      );
+
+      expect(routes.map((route) => route.steps[1].protocol)).toEqual([
+        'stargate',
+      ]);
+    });
+  });
+
+  describe('rankQuotesByNetOutput', () => {
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const quote = (
+      aggregator: string,
+      buyAmount: string,
+      gas: string,
+    ): { aggregator: AggregatorType; quote: SwapQuote } => ({
+      aggregator: aggregator as AggregatorType,
+      quote: {
+        sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+        buyToken: usdc,
+        sellAmount: '1000000000000000000',
+        buyAmount,
+        minBuyAmount: buyAmount,
+        gas,
+        gasPrice: '20000000000', // 20 gwei
+        to: '0x0000000000000000000000000000000000000001',
+        data: '0x',
+        value: '0',
+        aggregator,
+      },
+    });
+
+    it('should rank by buy amount minus gas cost in the buy token', async () => {
+      // 1 ETH = 3000 USDC (6 decimals)
+      manager = new AggregatorManagerService({
+        getNativePrice: () => Promise.resolve(3000_000000n),
+      });
+
+      const ranked = await manager.rankQuotesByNetOutput(
+        [
+          quote('0x', '1000000000', '500000'), // 0.01 ETH gas = 30 USDC -> 970 USDC net
+          quote('odos', '995000000', '150000'), // 0.003 ETH gas = 9 USDC -> 986 USDC net
+        ],
+        1,
+        usdc,
+      );
+
+      expect(ranked.map((r) => r.aggregator)).toEqual(['odos', '0x']);
+      expect(ranked[0].quote.gasCostInBuyToken).toBe('9000000');
+      expect(ranked[0].quote.netBuyAmount).toBe('986000000');
+      expect(ranked[1].quote.netBuyAmount).toBe('970000000');
+    });
+
+    it('should price gas at maxFeePerGas when the quote reports one, like the maxGasFee filter', async () => {
+      manager = new AggregatorManagerService({
+        getNativePrice: () => Promise.resolve(3000_000000n),
+      });
+      const eip1559 = quote('0x', '1000000000', '500000');
+      eip1559.quote.maxFeePerGas = '40000000000'; // 40 gwei
+
+      const [ranked] = await manager.rankQuotesByNetOutput([eip1559], 1, usdc);
+
+      expect(ranked.quote.gasCostInBuyToken).toBe('60000000'); // 0.02 ETH
+    });
+
+    it('should rank by raw buy amount when no price is available', async () => {
+      manager = new AggregatorManagerService({
+        getNativePrice: () => Promise.resolve(undefined),
+      });
+
+      const ranked = await manager.rankQuotesByNetOutput(
+        [
+          quote('odos', '995000000', '150000'),
+          quote('0x', '1000000000', '500000'),
+        ],
+        1,
+        usdc,
+      );
+
+      expect(ranked.map((r) => r.aggregator)).toEqual(['0x', 'odos']);
+      expect(ranked[0].quote.gasCostInBuyToken).toBeUndefined();
+      expect(ranked[0].quote.netBuyAmount).toBe('1000000000');
+    });
+
+    it('should rank exact-output quotes by sell amount plus gas cost in the sell token', async () => {
+      // Selling USDC for exactly 1 ETH: 1 ETH = 3000 USDC (6 decimals)
+      manager = new AggregatorManagerService({
+        getNativePrice: () => Promise.resolve(3000_000000n),
+      });
+      const exactOut = (
+        aggregator: string,
+        sellAmount: string,
+        gas: string,
+      ) => {
+        const result = quote(aggregator, '1000000000000000000', gas);
+        return {
+          ...result,
+          quote: {
+            ...result.quote,
+            sellToken: usdc,
+            buyToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+            sellAmount,
+          },
+        };
+      };
+
+      const ranked = await manager.rankQuotes(
+        [
+          exactOut('0x', '3000000000', '500000'), // 3000 USDC + 30 USDC gas
+          exactOut('odos', '3010000000', '150000'), // 3010 USDC + 9 USDC gas
+        ],
+        {
+          chainId: 1,
+          sellToken: usdc,
+          buyToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+          sellAmount: '3500000000',
+          buyAmount: '1000000000000000000',
+          taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        },
+      );
+
+      expect(ranked.map((r) => r.aggregator)).toEqual(['odos', '0x']);
+      expect(ranked[0].quote.gasCostInSellToken).toBe('9000000');
+      expect(ranked[0].quote.netSellAmount).toBe('3019000000');
+      expect(ranked[1].quote.netSellAmount).toBe('3030000000');
+    });
+  });
+
+  describe('getQuotesWithinDeadline', () => {
+    const swapRequest: SwapRequest = {
+      chainId: 1,
+      sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+      buyToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      sellAmount: '1000000000000000000',
+      taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    };
+
+    const delayedQuote = (buyAmount: string, delayMs: number) => () =>
+      new Promise((resolve) =>
+        setTimeout(
+          () =>
+            resolve({
+              sellToken: swapRequest.sellToken,
+              buyToken: swapRequest.buyToken,
+              sellAmount: swapRequest.sellAmount,
+              buyAmount,
+              minBuyAmount: buyAmount,
+              gas: '150000',
+              to: '0x0000000000000000000000000000000000000001',
+              data: '0x',
+              value: '0',
+            }),
+          delayMs,
+        ),
+      );
+
+    const evmAggregator = (
+      name: string,
+      getQuote: jest.Mock,
+    ): IOnchainAggregator =>
+      ({
+        getProviderName: () => name,
+        healthCheck: () =>
+          Promise.resolve({
+            name,
+            status: 'healthy',
+            lastCheck: new Date(),
+          }),
+        getConfig: () => ({
+          name,
+          baseUrl: 'http://localhost',
+          enabled: true,
+          timeout: 1000,
+          retries: 0,
+        }),
+        getQuote,
+        buildTx: jest.fn(),
+        supportsChain: () => true,
+        getStaticSupportedChains: () => [1],
+        getSupportedChains: jest.fn().mockResolvedValue([1]),
+      }) as unknown as IOnchainAggregator;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should return quotes that arrived before the deadline and flag the rest as timed out', async () => {
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(
+        evmAggregator('0x', jest.fn(delayedQuote('3000000000', 100))),
+      );
+      manager.registerEvmAggregator(
+        evmAggregator('Odos', jest.fn(delayedQuote('3100000000', 5000))),
+      );
+
+      const result = manager.getQuotesWithinDeadline(swapRequest, {
+        deadlineMs: 500,
+      });
+      await jest.advanceTimersByTimeAsync(500);
+
+      const { quotes, timedOut } = await result;
+      expect(quotes.map((q) => q.quote.buyAmount)).toEqual(['3000000000']);
+      expect(timedOut).toEqual(['Odos']);
+    });
+
+    it('should skip providers disabled by configuration and honor chain allow-lists', async () => {
+      const disabledQuote = jest.fn(delayedQuote('3100000000', 100));
+      const disabled = evmAggregator('Odos', disabledQuote);
+      disabled.getConfig = () => ({
+        name: 'Odos',
+        baseUrl: 'http://localhost',
+        enabled: false,
+      });
+      const baseOnlyQuote = jest.fn(delayedQuote('3200000000', 100));
+      const baseOnly = evmAggregator('LI.FI', baseOnlyQuote);
+      baseOnly.getConfig = () => ({
+        name: 'LI.FI',
+        baseUrl: 'http://localhost',
+        enabled: true,
+        chains: [8453],
+      });
+
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(
+        evmAggregator('0x', jest.fn(delayedQuote('3000000000', 100))),
+      );
+      manager.registerEvmAggregator(disabled);
+      manager.registerEvmAggregator(baseOnly);
+
+      const result = manager.getQuotesWithinDeadline(swapRequest, {
+        deadlineMs: 500,
+      });
+      await jest.advanceTimersByTimeAsync(500);
+
+      const { quotes } = await result;
+      expect(quotes.map((q) => q.quote.buyAmount)).toEqual(['3000000000']);
+      expect(disabledQuote).not.toHaveBeenCalled();
+      expect(baseOnlyQuote).not.toHaveBeenCalled();
+    });
+
+    it('should address every registered aggregator by provider ID', async () => {
+      const oneInch = evmAggregator(
+        '1inch',
+        jest.fn(delayedQuote('3050000000', 100)),
+      );
+      oneInch.getSpenderAddress = jest
+        .fn()
+        .mockResolvedValue('0x111111125421cA6dc452d289314280a0f8842A65');
+
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(
+        evmAggregator('0x', jest.fn(delayedQuote('3000000000', 100))),
+      );
+      manager.registerEvmAggregator(
+        evmAggregator('Odos', jest.fn(delayedQuote('3100000000', 100))),
+      );
+      manager.registerEvmAggregator(oneInch);
+
+      const result = manager.getMultipleQuotes(
+        1,
+        swapRequest.sellToken,
+        swapRequest.buyToken,
+        swapRequest.sellAmount,
+        swapRequest.taker,
+      );
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect((await result).map((q) => q.aggregator)).toEqual([
+        'odos',
+        '1inch',
+        '0x',
+      ]);
+      expect(manager.getEnhancedSupportedAggregators(1)).toEqual([
+        '0x',
+        'odos',
+        '1inch',
+      ]);
+      expect(manager.isAggregatorSupported(1, AggregatorType.ODOS)).toBe(true);
+      await expect(manager.getSpenderAddress(1, '1inch')).resolves.toBe(
+        '0x111111125421cA6dc452d289314280a0f8842A65',
+      );
+      await expect(manager.getSpenderAddress(1, 'paraswap')).rejects.toThrow(
+        'Unsupported aggregator: paraswap',
+      );
+    });
+
+    it('should resolve the approval spender through the aggregator port', async () => {
+      const zeroX = evmAggregator('0x', jest.fn());
+      const oneInch = evmAggregator('1inch', jest.fn());
+      oneInch.getSpenderAddress = jest
+        .fn()
+        .mockResolvedValue('0x111111125421cA6dc452d289314280a0f8842A65');
+
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(zeroX);
+      manager.registerEvmAggregator(oneInch);
+
+      await expect(
+        manager.getEnhancedSpenderAddress(1, ApprovalStrategy.PERMIT2, '1inch'),
+      ).resolves.toBe('0x111111125421cA6dc452d289314280a0f8842A65');
+
+      // 0x has a spender per approval strategy and takes precedence
+      const zeroXSpender = jest
+        .fn()
+        .mockResolvedValue('0x000000000022D473030F116dDEE9F6B43aC78BA3');
+      zeroX.getSpenderAddress = zeroXSpender;
+
+      await expect(
+        manager.getEnhancedSpenderAddress(1, ApprovalStrategy.PERMIT2, '1inch'),
+      ).resolves.toBe('0x000000000022D473030F116dDEE9F6B43aC78BA3');
+      expect(zeroXSpender).toHaveBeenCalledWith(1, ApprovalStrategy.PERMIT2);
+    });
+
+    it('should fail when no quote arrives before the deadline', async () => {
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(
+        evmAggregator('Odos', jest.fn(delayedQuote('3100000000', 5000))),
+      );
+
+      const result = manager.getQuotesWithinDeadline(swapRequest, {
+        deadlineMs: 500,
+      });
+      const assertion = expect(result).rejects.toThrow(
+        'no quote arrived within 500ms',
+      );
+      await jest.advanceTimersByTimeAsync(500);
+      await assertion;
+    });
+
+    it('should hedge a provider that is slower than its p95 latency', async () => {
+      const tracker = new ProviderPerformanceService();
+      for (let i = 0; i < 10; i++) {
+        tracker.recordAttempt('0x', 1, 200);
+      }
+
+      // First request hangs, the hedged second request answers quickly
+      const getQuote = jest
+        .fn()
+        .mockImplementationOnce(delayedQuote('3000000000', 10000))
+        .mockImplementationOnce(delayedQuote('3000000000', 100));
+
+      manager = new AggregatorManagerService(undefined, tracker);
+      manager.registerEvmAggregator(evmAggregator('0x', getQuote));
+
+      const result = manager.getQuotesWithinDeadline(swapRequest, {
+        deadlineMs: 1000,
+        hedge: true,
+      });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const { quotes, timedOut } = await result;
+      expect(getQuote).toHaveBeenCalledTimes(2);
+      expect(quotes).toHaveLength(1);
+      expect(timedOut).toEqual([]);
+    });
+  });
+
+  describe('getSplitQuote', () => {
+    const swapRequest: SwapRequest = {
+      chainId: 1,
+      sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+      buyToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      sellAmount: '4000000000000000000',
+      taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    };
+
+    // Output grows slower than the input (price impact), scaled by the provider's liquidity depth
+    const concaveAggregator = (
+      name: string,
+      depth: bigint,
+    ): IOnchainAggregator =>
+      ({
+        getProviderName: () => name,
+        healthCheck: () =>
+          Promise.resolve({
+            name,
+            status: 'healthy',
+            lastCheck: new Date(),
+          }),
+        getConfig: () => ({
+          name,
+          baseUrl: 'http://localhost',
+          enabled: true,
+          timeout: 1000,
+          retries: 0,
+        }),
+        getQuote: jest.fn(({ sellAmount }: SwapRequest) => {
+          const amountIn = BigInt(sellAmount);
+          const buyAmount = (
+            (amountIn * depth) /
+            (amountIn + depth) /
+            10n ** 9n
+          ).toString();
+          return Promise.resolve({
+            sellToken: swapRequest.sellToken,
+            buyToken: swapRequest.buyToken,
+            sellAmount,
+            buyAmount,
+            minBuyAmount: buyAmount,
+            gas: '150000',
+            to: '0x0000000000000000000000000000000000000001',
+            data: '0x',
+            value: '0',
+          });
+        }),
+        buildTx: jest.fn(),
+        supportsChain: () => true,
+        getStaticSupportedChains: () => [1],
+        getSupportedChains: jest.fn().mockResolvedValue([1]),
+      }) as unknown as IOnchainAggregator;
+
+    it('should split the order when it beats the best single aggregator', async () => {
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(
+        concaveAggregator('0x', 4000000000000000000n),
+      );
+      manager.registerEvmAggregator(
+        concaveAggregator('Odos', 4000000000000000000n),
+      );
+
+      const split = await manager.getSplitQuote(swapRequest);
+
+      expect(split?.legs.map((leg) => [leg.provider, leg.shareBps])).toEqual([
+        ['0x', 5000],
+        ['Odos', 5000],
+      ]);
+      expect(split?.sellAmount).toBe(swapRequest.sellAmount);
+      expect(split?.buyAmount).toBe('2666666666');
+      expect(split?.improvementBps).toBe(3333);
+    });
+
+    it('should leave out only the aggregator flagged as an outlier, even when others quote the same amount', async () => {
+      const consensus = {
+        check: jest.fn(
+          (quotes: Array<{ aggregator: string; quote: SwapQuote }>) =>
+            Promise.resolve({
+              quotes,
+              outliers: quotes
+                .filter(({ aggregator }) => aggregator.toLowerCase() === 'odos')
+                .map(({ aggregator, quote }) => ({
+                  aggregator,
+                  buyAmount: quote.buyAmount,
+                  reason: 'below-consensus',
+                  deviationBps: -900,
+                  excluded: true,
+                  detail: 'below consensus',
+                })),
+            }),
+        ),
+      };
+      manager = new AggregatorManagerService(
+        undefined,
+        undefined,
+        undefined,
+        consensus as unknown as QuoteConsensusService,
+      );
+      manager.registerEvmAggregator(
+        concaveAggregator('0x', 4000000000000000000n),
+      );
+      manager.registerEvmAggregator(
+        concaveAggregator('Odos', 4000000000000000000n),
+      );
+      manager.registerEvmAggregator(
+        concaveAggregator('ParaSwap', 4000000000000000000n),
+      );
+
+      const split = await manager.getSplitQuote(swapRequest);
+
+      expect(split?.legs.map((leg) => [leg.provider, leg.shareBps])).toEqual([
+        ['0x', 5000],
+        ['ParaSwap', 5000],
+      ]);
+      expect(split?.buyAmount).toBe('2666666666');
+    });
+
+    it('should return undefined when one aggregator should fill the whole order', async () => {
+      manager = new AggregatorManagerService();
+      manager.registerEvmAggregator(
+        concaveAggregator('0x', 400000000000000000000n),
+      );
+      manager.registerEvmAggregator(
+        concaveAggregator('Odos', 4000000000000000n),
+      );
+
+      await expect(manager.getSplitQuote(swapRequest)).resolves.toBeUndefined();
+    });
+
+    it('should reject exact-output requests', async () => {
+      await expect(
+        manager.getSplitQuote({ ...swapRequest, buyAmount: '1000' }),
+      ).rejects.toThrow('exact-input requests only');
+    });
+  });
+});
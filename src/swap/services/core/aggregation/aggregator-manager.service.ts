@@ -1,23 +1,56 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { SwapRequest, SwapQuote, AggregatorType, ApprovalStrategy } from '@swap/models/swap-request.model';
-import { 
-  IOnchainAggregator, 
-  IMetaAggregator, 
-  ISolanaRouter, 
+import { Injectable, Logger, Optional, Inject } from '@nestjs/common';
+import {
+  SwapRequest,
+  SwapQuote,
+  ProviderId,
+  ApprovalStrategy,
+  QuoteFanOutOptions,
+  QuoteFanOutResult,
+  QuoteOutlier,
+  SplitQuote,
+  SplitQuoteLeg,
+} from '@swap/models/swap-request.model';
+import {
+  IOnchainAggregator,
+  IMetaAggregator,
+  ISolanaRouter,
   INativeRouter,
+  IIntentProvider,
+  IntentOrder,
+  IntentQuote,
   RouteRequest,
   RouteQuote,
+  SolanaQuoteRequest,
+  SolanaTransactionResult,
+  NativeQuoteRequest,
+  ExecutionStatusDetails,
   TransactionBuild,
   ProviderHealth,
-  IProvider
+  IProvider,
+  ProviderPerformanceBreakdown,
+  CircuitBreakerSnapshot,
+  ChainCapability,
+  ProviderHealthReport,
 } from '@swap/models/ports';
+import type { INativePriceSource } from '@swap/models/ports';
 import { SwapQuote as PortsSwapQuote, SwapRequest as PortsSwapRequest } from '@swap/models/ports';
 import { IAggregatorRegistry, ProviderCategory } from './aggregator-registry.interface';
+import { NativePriceService } from './native-price.service';
+import { ProviderPerformanceService } from './provider-performance.service';
+import { ProviderCircuitBreakerService } from './circuit-breaker.service';
+import { QuoteConsensusService } from './quote-consensus.service';
+import { ChainCapabilityService } from './chain-capability.service';
+import { ProviderHealthMonitorService } from './provider-health-monitor.service';
+import {
+  OutboundRateLimiterService,
+  RateLimiterStats,
+} from '@shared/services/rate-limiter.service';
+import { calculateGasCostWei } from '@shared/utils/ethereum.utils';
 
 /**
  * Unified aggregator manager service that coordinates with multiple provider types
- * Supports legacy EVM aggregators (0x Protocol, Odos) with backward compatibility
- * Enhanced with multi-provider architecture: Meta aggregators, Solana routers, Native L1 routers
+ * EVM aggregators are addressed by ProviderId; legacy AggregatorType values are valid IDs
+ * Enhanced with multi-provider architecture: Meta aggregators, Solana routers, Native L1 routers, Intent providers
  * Uses provider ports pattern for loose coupling while maintaining legacy API compatibility
  * 
  * NOW WITH SELF-REGISTRATION: Providers register themselves automatically via IAggregatorRegistry
@@ -26,23 +59,54 @@ import { IAggregatorRegistry, ProviderCategory } from './aggregator-registry.int
 export class AggregatorManagerService implements IAggregatorRegistry {
   private readonly logger = new Logger(AggregatorManagerService.name);
   
-  // Legacy aggregator registry for backward compatibility
-  private readonly aggregators: Map<AggregatorType, any> = new Map();
-  
   // Enhanced provider registries by type
   private readonly evmAggregators: Map<string, IOnchainAggregator> = new Map();
   private readonly metaAggregators: Map<string, IMetaAggregator> = new Map();
   private readonly solanaRouters: Map<string, ISolanaRouter> = new Map();
   private readonly nativeRouters: Map<string, INativeRouter> = new Map();
+  private readonly intentProviders: Map<string, IIntentProvider> = new Map();
   
-  // Provider health cache
-  private readonly healthCache: Map<string, ProviderHealth> = new Map();
-  private readonly healthCacheTimeout = 5 * 60 * 1000; // 5 minutes
+  // Default time budget for EVM quote fan-out
+  private readonly quoteDeadlineMs = Number(
+    process.env.QUOTE_DEADLINE_MS || 2500,
+  );
+
+  // Split routing: the order is divided into this many equal shares, for orders worth at least the USD minimum
+  private readonly splitRouteShares = Math.max(
+    2,
+    Number(process.env.SPLIT_ROUTE_SHARES || 4),
+  );
+  private readonly splitRouteMinUsd = Number(
+    process.env.SPLIT_ROUTE_MIN_USD || 50000,
+  );
+
+  // Headroom over the reference sell amount when an exact-output request does not set its own budget
+  private readonly exactOutputBudgetBps = Number(
+    process.env.EXACT_OUTPUT_BUDGET_BPS || 1000,
+  ); // Default 10%
   
   // Track registration stats
   private registrationComplete = false;
 
-  constructor() {
+  constructor(
+    @Optional()
+    @Inject(NativePriceService)
+    private readonly nativePriceSource?: INativePriceSource,
+    @Optional()
+    private readonly performanceTracker: ProviderPerformanceService = new ProviderPerformanceService(),
+    @Optional()
+    private readonly circuitBreaker: ProviderCircuitBreakerService = new ProviderCircuitBreakerService(),
+    @Optional()
+    private readonly quoteConsensus: QuoteConsensusService = new QuoteConsensusService(
+      nativePriceSource,
+    ),
+    @Optional()
+    private readonly chainCapabilities: ChainCapabilityService = new ChainCapabilityService(),
+    @Optional()
+    private readonly rateLimiter: OutboundRateLimiterService = new OutboundRateLimiterService(),
+    @Optional()
+    private readonly healthMonitor: ProviderHealthMonitorService = new ProviderHealthMonitorService(),
+  ) {
     this.logger.log('🚀 AggregatorManagerService initialized - awaiting provider self-registration');
   }
 
@@ -60,13 +124,24 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       this.logger.warn(`⚠️ EVM aggregator '${name}' already registered, skipping duplicate`);
       return;
     }
+
+    if (this.isDisabledByConfig(provider, 'EVM aggregator')) {
+      return;
+    }
     
     this.evmAggregators.set(name, provider);
+    this.healthMonitor.register(provider, 'evm');
+    this.chainCapabilities.register({
+      provider: name,
+      category: 'evm',
+      discover: () => provider.getSupportedChains(),
+      fallback: provider.getStaticSupportedChains(),
+      allowedChains: provider.getConfig().chains,
+    });
     
-    // Also register in legacy map if it's 0x or Odos
-    this.registerInLegacyMap(name, provider);
-    
-    this.logger.log(`✅ Self-registered EVM aggregator: ${name}`);
+    this.logger.log(
+      `✅ Self-registered EVM aggregator: ${name} (id: ${this.toProviderId(name)})`,
+    );
   }
 
   /**
@@ -79,8 +154,23 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       this.logger.warn(`⚠️ Meta aggregator '${name}' already registered, skipping duplicate`);
       return;
     }
+
+    if (this.isDisabledByConfig(provider, 'Meta aggregator')) {
+      return;
+    }
     
     this.metaAggregators.set(name, provider);
+    this.healthMonitor.register(provider, 'meta');
+    const { from = [], to = [] } = provider.getSupportedChains();
+    this.chainCapabilities.register({
+      provider: name,
+      category: 'meta',
+      discover: provider.fetchSupportedChains
+        ? () => provider.fetchSupportedChains!()
+        : undefined,
+      fallback: [...from, ...to],
+      allowedChains: provider.getConfig().chains,
+    });
     this.logger.log(`✅ Self-registered Meta aggregator: ${name}`);
   }
 
@@ -94,8 +184,13 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       this.logger.warn(`⚠️ Solana router '${name}' already registered, skipping duplicate`);
       return;
     }
+
+    if (this.isDisabledByConfig(provider, 'Solana router')) {
+      return;
+    }
     
     this.solanaRouters.set(name, provider);
+    this.healthMonitor.register(provider, 'solana');
     this.logger.log(`✅ Self-registered Solana router: ${name}`);
   }
 
@@ -109,11 +204,53 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       this.logger.warn(`⚠️ Native router '${name}' already registered, skipping duplicate`);
       return;
     }
+
+    if (this.isDisabledByConfig(provider, 'Native router')) {
+      return;
+    }
     
     this.nativeRouters.set(name, provider);
+    this.healthMonitor.register(provider, 'native');
+    this.chainCapabilities.register({
+      provider: name,
+      category: 'native',
+      discover: provider.fetchSupportedDestinations
+        ? () => provider.fetchSupportedDestinations!()
+        : undefined,
+      fallback: provider.getSupportedDestinations(),
+      allowedChains: provider.getConfig().chains,
+    });
     this.logger.log(`✅ Self-registered Native router: ${name}`);
   }
 
+  /**
+   * Register an intent provider (called by providers themselves)
+   */
+  registerIntentProvider(provider: IIntentProvider): void {
+    const name = provider.getProviderName();
+
+    if (this.intentProviders.has(name)) {
+      this.logger.warn(
+        `⚠️ Intent provider '${name}' already registered, skipping duplicate`,
+      );
+      return;
+    }
+
+    if (this.isDisabledByConfig(provider, 'Intent provider')) {
+      return;
+    }
+
+    this.intentProviders.set(name, provider);
+    this.healthMonitor.register(provider, 'intent');
+    this.chainCapabilities.register({
+      provider: name,
+      category: 'intent',
+      fallback: provider.getSupportedChains(),
+      allowedChains: provider.getConfig().chains,
+    });
+    this.logger.log(`✅ Self-registered Intent provider: ${name}`);
+  }
+
   /**
    * Generic registration method (auto-detects category)
    */
@@ -131,6 +268,9 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       case ProviderCategory.NATIVE_ROUTER:
         this.registerNativeRouter(provider);
         break;
+      case ProviderCategory.INTENT_PROVIDER:
+        this.registerIntentProvider(provider as IIntentProvider);
+        break;
       default:
         this.logger.error(`Unknown provider category: ${category}`);
     }
@@ -145,11 +285,11 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     this.registrationComplete = true;
     this.logger.log(
       `📊 Provider registration complete - ` +
-      `Legacy(${this.aggregators.size}), ` +
-      `EVM(${this.evmAggregators.size}), ` +
-      `Meta(${this.metaAggregators.size}), ` +
-      `Solana(${this.solanaRouters.size}), ` +
-      `Native(${this.nativeRouters.size})`
+        `EVM(${this.evmAggregators.size}), ` +
+        `Meta(${this.metaAggregators.size}), ` +
+        `Solana(${this.solanaRouters.size}), ` +
+        `Native(${this.nativeRouters.size}), ` +
+        `Intent(${this.intentProviders.size})`,
     );
     
     // Log registered providers
@@ -165,21 +305,25 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     if (this.nativeRouters.size > 0) {
       this.logger.log(`  ⛰️ Native Routers: ${Array.from(this.nativeRouters.keys()).join(', ')}`);
     }
-  }
-
-  /**
-   * Register provider in legacy map for backward compatibility
-   */
-  private registerInLegacyMap(name: string, provider: any): void {
-    const lowerName = name.toLowerCase();
-    
-    if (lowerName === '0x') {
-      this.aggregators.set(AggregatorType.ZEROX, provider);
-      this.logger.debug(`  ↳ Also registered in legacy map as ZEROX`);
-    } else if (lowerName === 'odos') {
-      this.aggregators.set(AggregatorType.ODOS, provider);
-      this.logger.debug(`  ↳ Also registered in legacy map as ODOS`);
-    }
+    if (this.intentProviders.size > 0) {
+      this.logger.log(
+        `  🐮 Intent Providers: ${Array.from(this.intentProviders.keys()).join(', ')}`,
+      );
+    }
+
+    // Discover chains in the background; bundled lists serve requests until it completes
+    this.chainCapabilities
+      .start()
+      .catch((error: Error) =>
+        this.logger.warn(`Chain capability discovery failed: ${error.message}`),
+      );
+    this.healthMonitor
+      .start()
+      .catch((error: Error) =>
+        this.logger.warn(
+          `Provider health monitor failed to start: ${error.message}`,
+        ),
+      );
   }
 
   // ============================================================================
@@ -200,39 +344,72 @@ export class AggregatorManagerService implements IAggregatorRegistry {
    * Convert ports SwapQuote to legacy SwapQuote
    */
   private convertToLegacyQuote(quote: PortsSwapQuote, providerName: string): SwapQuote {
-    // Map provider name to AggregatorType
-    let aggregatorType: AggregatorType;
-    switch (providerName.toLowerCase()) {
-      case '0x':
-        aggregatorType = AggregatorType.ZEROX;
-        break;
-      case 'odos':
-        aggregatorType = AggregatorType.ODOS;
-        break;
-      default:
-        aggregatorType = AggregatorType.ZEROX; // Default fallback
-    }
-
     return {
       ...quote,
-      aggregator: aggregatorType
+      aggregator: this.toProviderId(providerName),
     };
   }
 
   /**
-   * Get quote from specified aggregator (defaults to 0x for backward compatibility)
+   * Registry ID of a provider name; legacy AggregatorType values map to themselves
+   */
+  private toProviderId(providerName: string): ProviderId {
+    return providerName.toLowerCase();
+  }
+
+  /**
+   * Registered EVM aggregator by ID (or provider name)
+   */
+  private findEvmAggregator(
+    providerId: ProviderId,
+  ): IOnchainAggregator | undefined {
+    const id = this.toProviderId(providerId);
+    return Array.from(this.evmAggregators.values()).find(
+      (provider) => this.toProviderId(provider.getProviderName()) === id,
+    );
+  }
+
+  /**
+   * Registered EVM aggregator by ID that supports the chain
+   */
+  private requireEvmAggregator(
+    providerId: ProviderId,
+    chainId: number,
+  ): IOnchainAggregator {
+    const provider = this.findEvmAggregator(providerId);
+    if (!provider) {
+      throw new Error(
+        `Unsupported aggregator: ${providerId}. Registered: ${this.getRegisteredProviderIds().join(', ') || 'none'}`,
+      );
+    }
+
+    if (!this.supportsChain(provider, chainId)) {
+      throw new Error(
+        `${provider.getProviderName()} does not support chain ${chainId}`,
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Get quote, preferring the specified aggregator when given
    * Enhanced version with dynamic provider selection based on chain support and health
    */
-  async getQuote(request: SwapRequest, aggregatorType?: AggregatorType, strictValidation?: boolean): Promise<SwapQuote> {
-    // If aggregatorType is specified, try to honor the preference but fallback intelligently
-    if (aggregatorType) {
-      const providerName = this.mapAggregatorTypeToProviderName(aggregatorType);
-      
+  async getQuote(
+    request: SwapRequest,
+    providerId?: ProviderId,
+    strictValidation?: boolean,
+  ): Promise<SwapQuote> {
+    // If a provider is specified, try to honor the preference but fallback intelligently
+    if (providerId) {
       try {
         // Try preferred provider first (with health monitoring)
-        return await this.getEvmQuote(request, providerName);
+        return await this.getEvmQuote(request, providerId);
       } catch (enhancedError) {
-        this.logger.warn(`Preferred provider ${aggregatorType} failed, using dynamic selection: ${enhancedError.message}`);
+        this.logger.warn(
+          `Preferred provider ${providerId} failed, using dynamic selection: ${(enhancedError as Error).message}`,
+        );
         
         // Fallback to dynamic selection if preferred provider fails
         return await this.getDynamicQuote(request, strictValidation);
@@ -244,20 +421,20 @@ export class AggregatorManagerService implements IAggregatorRegistry {
   }
 
   /**
-   * Get price from specified aggregator (defaults to 0x for backward compatibility)
+   * Get price, preferring the specified aggregator when given
    * Enhanced version with dynamic provider selection
    */
-  async getPrice(request: SwapRequest, aggregatorType?: AggregatorType, approvalStrategy?: ApprovalStrategy): Promise<any> {
-    // If aggregatorType is specified, try to honor preference but fallback intelligently
-    if (aggregatorType) {
-      const providerName = this.mapAggregatorTypeToProviderName(aggregatorType);
-      
+  async getPrice(request: SwapRequest, providerId?: ProviderId): Promise<any> {
+    // If a provider is specified, try to honor preference but fallback intelligently
+    if (providerId) {
       try {
         // Try preferred provider first
-        const quote = await this.getEvmQuote(request, providerName);
+        const quote = await this.getEvmQuote(request, providerId);
         return this.convertQuoteToPrice(quote);
       } catch (enhancedError) {
-        this.logger.warn(`Preferred provider ${aggregatorType} failed for price, using dynamic selection: ${enhancedError.message}`);
+        this.logger.warn(
+          `Preferred provider ${providerId} failed for price, using dynamic selection: ${(enhancedError as Error).message}`,
+        );
         
         // Fallback to dynamic selection
         const quote = await this.getDynamicQuote(request);
@@ -274,8 +451,7 @@ export class AggregatorManagerService implements IAggregatorRegistry {
    * Dynamic quote selection - chooses best provider at runtime based on:
    * 1. Chain support
    * 2. Provider health
-   * 3. Historical performance (latency)
-   * 4. Provider-specific optimizations
+   * 3. Observed performance on the chain (success rate, latency, price wins)
    */
   private async getDynamicQuote(request: SwapRequest, strictValidation?: boolean): Promise<SwapQuote> {
     // Get all providers that support this chain
@@ -310,7 +486,7 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     const supportedProviders: IOnchainAggregator[] = [];
     
     for (const provider of this.evmAggregators.values()) {
-      if (provider.supportsChain(chainId)) {
+      if (this.supportsChain(provider, chainId)) {
         supportedProviders.push(provider);
       }
     }
@@ -326,10 +502,12 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     
     for (const provider of providers) {
       const health = await this.getProviderHealth(provider);
-      if (health.status === 'healthy') {
+      if (health.status !== 'unhealthy') {
         healthyProviders.push(provider);
       } else {
-        this.logger.debug(`Provider ${provider.getProviderName()} is unhealthy: ${health.status}`);
+        this.logger.debug(
+          `Provider ${provider.getProviderName()} is unhealthy: ${health.status}`,
+        );
       }
     }
 
@@ -363,79 +541,106 @@ export class AggregatorManagerService implements IAggregatorRegistry {
   }
 
   /**
-   * Calculate performance score for a provider
+   * Calculate performance score for a provider from its observed quote performance on the chain
    */
   private async calculateProviderScore(provider: IOnchainAggregator, request: SwapRequest): Promise<number> {
-    let score = 100; // Base score
-    
-    // Health bonus
     const health = await this.getProviderHealth(provider);
-    if (health.status === 'healthy') {
-      score += 50;
-      
-      // Latency bonus (lower latency = higher score)
-      if (health.latency) {
-        const latencyBonus = Math.max(0, 100 - health.latency); // 100ms = 0 bonus, 0ms = 100 bonus
-        score += latencyBonus;
-      }
-      
-      // Error rate penalty
-      if (health.errorRate !== undefined) {
-        const errorPenalty = health.errorRate * 100; // 0.1 error rate = 10 point penalty
-        score -= errorPenalty;
-      }
-    } else {
-      score -= 100; // Heavy penalty for unhealthy providers
+    if (health.status === 'unhealthy') {
+      return 0;
     }
 
-    // Provider-specific bonuses
-    const providerName = provider.getProviderName().toLowerCase();
-    
-    // Chain-specific optimizations
-    if (request.chainId === 1) { // Ethereum Mainnet
-      if (providerName === '0x') score += 20; // 0x is typically well-optimized for Ethereum
-    } else if (request.chainId === 137) { // Polygon
-      if (providerName === 'odos') score += 15; // Odos might have better Polygon support
-    }
-
-    // Trade size considerations
-    if (request.sellAmount) {
-      const amount = parseFloat(request.sellAmount);
-      if (amount > 1e21) { // Large trades (>1000 tokens assuming 18 decimals)
-        if (providerName === '0x') score += 10; // 0x might handle large trades better
-      }
+    return this.performanceTracker.getBreakdown(
+      provider.getProviderName(),
+      request.chainId,
+    ).score;
+  }
+
+  /**
+   * Get human-readable reason for provider score
+   */
+  private getProviderScoreReason(
+    provider: IOnchainAggregator,
+    request: SwapRequest,
+    score: number,
+  ): string {
+    const breakdown = this.performanceTracker.getBreakdown(
+      provider.getProviderName(),
+      request.chainId,
+    );
+
+    if (breakdown.attempts === 0) {
+      return `score ${score}: no quotes in the last ${breakdown.windowMinutes} minutes (neutral)`;
     }
 
-    // Feature-specific bonuses
-    if (request.approvalStrategy === ApprovalStrategy.PERMIT2) {
-      if (providerName === '0x') score += 25; // 0x has better permit2 support
+    const reasons = [
+      `${Math.round(breakdown.successRate * 100)}% of ${breakdown.attempts} quotes succeeded`,
+    ];
+    if (breakdown.medianLatencyMs !== undefined) {
+      reasons.push(`median latency ${breakdown.medianLatencyMs}ms`);
+    }
+    if (breakdown.priceComparisons > 0) {
+      reasons.push(
+        `best price in ${breakdown.priceWins}/${breakdown.priceComparisons} comparisons`,
+      );
     }
 
-    return Math.max(0, score); // Ensure non-negative score
+    return `score ${score}: ${reasons.join(', ')}`;
   }
 
   /**
-   * Get human-readable reason for provider score
+   * Request a quote from an EVM aggregator, recording latency and outcome for performance scoring
    */
-  private getProviderScoreReason(provider: IOnchainAggregator, request: SwapRequest, score: number): string {
-    const providerName = provider.getProviderName();
-    const reasons: string[] = [];
-    
-    if (score >= 150) reasons.push('excellent health & performance');
-    else if (score >= 120) reasons.push('good health & performance');
-    else if (score >= 100) reasons.push('healthy');
-    else if (score >= 50) reasons.push('degraded performance');
-    else reasons.push('poor health');
+  private async getTrackedQuote(
+    provider: IOnchainAggregator,
+    request: PortsSwapRequest,
+    strictValidation?: boolean,
+  ): Promise<PortsSwapQuote> {
+    return this.callWithCircuitBreaker(provider, async () => {
+      const startedAt = Date.now();
+      try {
+        const quote = await provider.getQuote(request, strictValidation);
+        this.performanceTracker.recordAttempt(
+          provider.getProviderName(),
+          request.chainId,
+          Date.now() - startedAt,
+        );
+        return quote;
+      } catch (error) {
+        this.performanceTracker.recordAttempt(
+          provider.getProviderName(),
+          request.chainId,
+          Date.now() - startedAt,
+          error,
+        );
+        throw error;
+      }
+    });
+  }
 
-    // Add specific reasons
-    if (request.chainId === 1 && providerName.toLowerCase() === '0x') {
-      reasons.push('optimized for Ethereum');
-    }
-    if (request.approvalStrategy === ApprovalStrategy.PERMIT2 && providerName.toLowerCase() === '0x') {
-      reasons.push('permit2 support');
+  /**
+   * Call a provider through its circuit breaker; an open circuit fails fast without calling the provider
+   */
+  private async callWithCircuitBreaker<T>(
+    provider: IProvider,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    const name = provider.getProviderName();
+    if (!this.circuitBreaker.tryAcquire(name)) {
+      throw new Error(`Circuit open for ${name}, skipping provider`);
     }
 
-    return reasons.join(', ');
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      this.circuitBreaker.recordSuccess(name);
+      this.healthMonitor.recordCall(name, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      const errorClass = this.performanceTracker.classifyError(error);
+      this.circuitBreaker.recordFailure(name, errorClass);
+      this.healthMonitor.recordCall(name, Date.now() - startedAt, errorClass);
+      throw error;
+    }
   }
 
   /**
@@ -452,7 +657,7 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     for (const provider of providers) {
       try {
         this.logger.debug(`Attempting dynamic quote from ${provider.getProviderName()}`);
-        const quote = await provider.getQuote(portsRequest);
+        const quote = await this.getTrackedQuote(provider, portsRequest);
         const legacyQuote = this.convertToLegacyQuote(quote, provider.getProviderName());
         
         this.logger.log(`✅ Dynamic selection chose ${provider.getProviderName()} for chain ${request.chainId}`);
@@ -481,7 +686,7 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     for (const provider of providers) {
       try {
         this.logger.debug(`Attempting fallback quote from ${provider.getProviderName()}`);
-        const quote = await provider.getQuote(portsRequest);
+        const quote = await this.getTrackedQuote(provider, portsRequest);
         const legacyQuote = this.convertToLegacyQuote(quote, provider.getProviderName());
         
         this.logger.log(`✅ Fallback selection chose ${provider.getProviderName()} for chain ${request.chainId}`);
@@ -500,59 +705,45 @@ export class AggregatorManagerService implements IAggregatorRegistry {
    * Get all supported chains across all providers
    */
   private getAllSupportedChains(): number[] {
-    const chains = new Set<number>();
-    
-    for (const provider of this.evmAggregators.values()) {
-      // Common chains to check (could be expanded)
-      const commonChains = [1, 10, 56, 137, 42161, 43114, 8453, 324, 59144, 100, 250, 1284, 1285];
-      commonChains.forEach(chainId => {
-        if (provider.supportsChain(chainId)) {
-          chains.add(chainId);
-        }
-      });
-    }
-
-    return Array.from(chains).sort();
+    return this.chainCapabilities.getAllChains('evm');
   }
 
   /**
-   * Legacy quote method (original implementation)
+   * Chain support from the chain capability registry (single source for supportsChain), gated by provider configuration
    */
-  private async getLegacyQuote(request: SwapRequest, aggregatorType: AggregatorType, strictValidation?: boolean): Promise<SwapQuote> {
-    // Validate aggregator is supported
-    if (!this.aggregators.has(aggregatorType)) {
-      throw new Error(`Unsupported aggregator: ${aggregatorType}`);
-    }
-
-    this.logger.debug(`Getting legacy quote from ${aggregatorType} for chain ${request.chainId}${strictValidation === false ? ' (relaxed validation)' : ''}`);
-    return this.getQuoteFromAggregator(request, aggregatorType, strictValidation);
+  private supportsChain(provider: IProvider, chainId: number): boolean {
+    return (
+      this.isAllowedByConfig(provider, chainId) &&
+      this.chainCapabilities.supports(provider.getProviderName(), chainId)
+    );
   }
 
   /**
-   * Legacy price method (original implementation)
+   * Provider configuration gate for routing: the provider is enabled and every chain is in its allow-list (when set)
    */
-  private async getLegacyPrice(request: SwapRequest, aggregatorType: AggregatorType, approvalStrategy?: ApprovalStrategy): Promise<any> {
-    // Validate aggregator is supported
-    if (!this.aggregators.has(aggregatorType)) {
-      throw new Error(`Unsupported aggregator: ${aggregatorType}`);
-    }
-
-    this.logger.debug(`Getting legacy price from ${aggregatorType} for chain ${request.chainId}`);
-    return this.getPriceFromAggregator(request, aggregatorType, approvalStrategy);
+  private isAllowedByConfig(
+    provider: IProvider,
+    ...chainIds: number[]
+  ): boolean {
+    const { enabled, chains } = provider.getConfig();
+    return (
+      enabled &&
+      (!chains || chainIds.every((chainId) => chains.includes(chainId)))
+    );
   }
 
   /**
-   * Map AggregatorType enum to provider name string
+   * Providers disabled by configuration are not registered
    */
-  private mapAggregatorTypeToProviderName(aggregatorType: AggregatorType): string {
-    switch (aggregatorType) {
-      case AggregatorType.ZEROX:
-        return '0x';
-      case AggregatorType.ODOS:
-        return 'odos';
-      default:
-        return '0x'; // Default fallback
+  private isDisabledByConfig(provider: IProvider, category: string): boolean {
+    if (provider.getConfig().enabled) {
+      return false;
     }
+
+    this.logger.log(
+      `⏸️ ${category} '${provider.getProviderName()}' disabled by configuration, not registering`,
+    );
+    return true;
   }
 
   /**
@@ -575,157 +766,82 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     };
   }
 
-  /**
-   * Get quote from specific aggregator
-   */
-  private async getQuoteFromAggregator(
-    request: SwapRequest,
-    aggregatorType: AggregatorType,
-    strictValidation?: boolean,
-  ): Promise<SwapQuote> {
-    const aggregator = this.aggregators.get(aggregatorType);
-    if (!aggregator) {
-      throw new Error(`Unsupported aggregator: ${aggregatorType}`);
-    }
-
-    if (!aggregator.supportsChain(request.chainId)) {
-      throw new Error(`Aggregator ${aggregatorType} does not support chain ${request.chainId}`);
-    }
-
-    // Handle 0x Protocol specific strategy methods
-    if (aggregatorType === AggregatorType.ZEROX) {
-      if (request.approvalStrategy === ApprovalStrategy.ALLOWANCE_HOLDER) {
-        return aggregator.getAllowanceHolderQuote(request);
-      } else if (request.approvalStrategy === ApprovalStrategy.PERMIT2) {
-        return aggregator.getPermit2Quote(request);
-      } else {
-        // Default to allowance holder for backwards compatibility, pass strictValidation
-        return aggregator.getQuote(request, strictValidation);
-      }
-    } else {
-      // For other aggregators (like Odos), use standard getQuote method with strictValidation
-      return aggregator.getQuote(request, strictValidation);
-    }
-  }
-
-  /**
-   * Get price from specific aggregator
-   */
-  private async getPriceFromAggregator(
-    request: SwapRequest,
-    aggregatorType: AggregatorType,
-    approvalStrategy?: ApprovalStrategy,
-  ): Promise<any> {
-    const aggregator = this.aggregators.get(aggregatorType);
-    if (!aggregator) {
-      throw new Error(`Unsupported aggregator: ${aggregatorType}`);
-    }
-
-    if (!aggregator.supportsChain(request.chainId)) {
-      throw new Error(`Aggregator ${aggregatorType} does not support chain ${request.chainId}`);
-    }
-
-    // Handle 0x Protocol specific strategy methods
-    if (aggregatorType === AggregatorType.ZEROX) {
-      if (approvalStrategy === ApprovalStrategy.ALLOWANCE_HOLDER) {
-        return aggregator.getAllowanceHolderPrice(request);
-      } else if (approvalStrategy === ApprovalStrategy.PERMIT2) {
-        return aggregator.getPermit2Price(request);
-      } else {
-        // Default to permit2 for backwards compatibility
-        return aggregator.getPrice(request);
-      }
-    } else {
-      // For other aggregators, return quote data as price (no separate price endpoint)
-      return aggregator.getQuote(request);
-    }
-  }
-
   /**
    * Get spender address for specified aggregator (defaults to 0x)
    */
-  async getSpenderAddress(chainId: number, aggregatorType?: AggregatorType): Promise<string> {
-    const selectedAggregator = aggregatorType || AggregatorType.ZEROX;
-    
-    if (!this.aggregators.has(selectedAggregator)) {
-      throw new Error(`Unsupported aggregator: ${selectedAggregator}`);
-    }
-
-    const aggregator = this.aggregators.get(selectedAggregator);
-    if (!aggregator) {
-      throw new Error(`${selectedAggregator} service not available`);
-    }
-
-    if (!aggregator.supportsChain(chainId)) {
-      throw new Error(`${selectedAggregator} does not support chain ${chainId}`);
-    }
+  async getSpenderAddress(
+    chainId: number,
+    providerId: ProviderId = '0x',
+  ): Promise<string> {
+    const aggregator = this.requireEvmAggregator(providerId, chainId);
 
-    // Only 0x Protocol has getSpenderAddress method
-    if (selectedAggregator === AggregatorType.ZEROX && aggregator.getSpenderAddress) {
+    // Aggregators with a fixed approval target expose it; for others the spender comes with the quote
+    if (aggregator.getSpenderAddress) {
       return aggregator.getSpenderAddress(chainId);
     }
     
-    // For other aggregators, spender is typically the router address
-    throw new Error(`Spender address not available for ${selectedAggregator}. Use router address from quote.`);
+    throw new Error(
+      `Spender address not available for ${aggregator.getProviderName()}. Use router address from quote.`,
+    );
   }
 
   /**
    * Get token list from specified aggregator (defaults to 0x)
    */
-  async getTokenList(chainId: number, aggregatorType?: AggregatorType): Promise<any[]> {
-    const selectedAggregator = aggregatorType || AggregatorType.ZEROX;
-    
-    if (!this.aggregators.has(selectedAggregator)) {
-      throw new Error(`Unsupported aggregator: ${selectedAggregator}`);
-    }
-
-    const aggregator = this.aggregators.get(selectedAggregator);
-    if (!aggregator) {
-      throw new Error(`${selectedAggregator} service not available`);
-    }
-
-    if (!aggregator.supportsChain(chainId)) {
-      throw new Error(`${selectedAggregator} does not support chain ${chainId}`);
-    }
+  async getTokenList(
+    chainId: number,
+    providerId: ProviderId = '0x',
+  ): Promise<any[]> {
+    const aggregator = this.requireEvmAggregator(providerId, chainId);
 
-    // Only 0x Protocol has getTokenList method
-    if (selectedAggregator === AggregatorType.ZEROX && aggregator.getTokenList) {
+    if (aggregator.getTokenList) {
       return aggregator.getTokenList(chainId);
     }
     
-    // For other aggregators, return empty array or fetch from external source
+    // For aggregators without a token list endpoint, return empty array
     return [];
   }
 
   /**
-   * Get supported aggregators for a chain
+   * Get IDs of the registered EVM aggregators supporting a chain
    */
-  getSupportedAggregators(chainId: number): AggregatorType[] {
-    const supported: AggregatorType[] = [];
+  getSupportedAggregators(chainId: number): ProviderId[] {
+    const supported: ProviderId[] = [];
     
-    for (const [aggregatorType, aggregator] of this.aggregators) {
-      if (aggregator && aggregator.supportsChain(chainId)) {
-        supported.push(aggregatorType);
-        this.logger.debug(`Aggregator ${aggregatorType} is supported for chain ${chainId}`);
+    for (const aggregator of this.evmAggregators.values()) {
+      if (this.supportsChain(aggregator, chainId)) {
+        supported.push(this.toProviderId(aggregator.getProviderName()));
       }
     }
 
+    this.logger.debug(
+      `Aggregators supported for chain ${chainId}: ${supported.join(', ') || 'none'}`,
+    );
     return supported;
   }
 
   /**
    * Check if aggregator supports a chain
    */
-  isAggregatorSupported(chainId: number, aggregatorType: AggregatorType): boolean {
-    const aggregator = this.aggregators.get(aggregatorType);
-    return aggregator ? aggregator.supportsChain(chainId) : false;
+  isAggregatorSupported(chainId: number, providerId: ProviderId): boolean {
+    const aggregator = this.findEvmAggregator(providerId);
+    return aggregator ? this.supportsChain(aggregator, chainId) : false;
+  }
+
+  /**
+   * Get all registered EVM aggregators
+   */
+  getAllAggregators(): IOnchainAggregator[] {
+    return Array.from(this.evmAggregators.values());
   }
 
   /**
-   * Get all registered aggregators
+   * Get IDs of all registered EVM aggregators
    */
-  getAllAggregators() {
-    return Array.from(this.aggregators.values());
+  getRegisteredProviderIds(): ProviderId[] {
+    return Array.from(this.evmAggregators.keys()).map((name) =>
+      this.toProviderId(name),
+    );
   }
 
   // ============================================================================
@@ -740,12 +856,18 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     // If preferred provider is specified, try it first but fallback to dynamic selection
     if (preferredProvider) {
       const providers = await this.getHealthyEvmProviders(request.chainId);
-      const preferredProviderInstance = providers.find(p => p.getProviderName() === preferredProvider);
+      const preferredId = this.toProviderId(preferredProvider);
+      const preferredProviderInstance = providers.find(
+        (p) => this.toProviderId(p.getProviderName()) === preferredId,
+      );
       
       if (preferredProviderInstance) {
         try {
           const portsRequest = this.convertToPortsRequest(request);
-          const quote = await preferredProviderInstance.getQuote(portsRequest);
+          const quote = await this.getTrackedQuote(
+            preferredProviderInstance,
+            portsRequest,
+          );
           this.logger.log(`✅ Preferred provider ${preferredProvider} succeeded for chain ${request.chainId}`);
           return this.convertToLegacyQuote(quote, preferredProvider);
         } catch (error) {
@@ -761,169 +883,480 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     return await this.getDynamicQuote(request);
   }
 
+  /**
+   * Get a quote pinned to a single EVM aggregator (no fallback to other providers)
+   */
+  async getPinnedEvmQuote(
+    request: SwapRequest,
+    providerName: string,
+  ): Promise<SwapQuote> {
+    const provider = this.resolvePreferredProvider(
+      Array.from(this.evmAggregators.values()),
+      providerName,
+      'EVM aggregator',
+    );
+
+    if (!this.supportsChain(provider, request.chainId)) {
+      throw new Error(
+        `Preferred provider ${provider.getProviderName()} does not support chain ${request.chainId}`,
+      );
+    }
+
+    const quote = await this.getTrackedQuote(
+      provider,
+      this.convertToPortsRequest(request),
+    );
+    this.logger.log(
+      `✅ Pinned provider ${provider.getProviderName()} quoted chain ${request.chainId}`,
+    );
+    return this.convertToLegacyQuote(quote, provider.getProviderName());
+  }
+
   /**
    * Get cross-chain routes using meta aggregators
    */
   async getCrossChainRoutes(request: RouteRequest, preferredProvider?: string): Promise<RouteQuote[]> {
-    const providers = await this.getHealthyMetaProviders();
+    const providers = await this.getHealthyMetaProviders(request);
     
     if (providers.length === 0) {
       throw new Error('No healthy meta aggregators available');
     }
 
-    // Use preferred provider if specified and healthy
-    if (preferredProvider && providers.some(p => p.getProviderName() === preferredProvider)) {
-      const provider = providers.find(p => p.getProviderName() === preferredProvider);
-      return provider!.getRoutes(request);
+    // Pin to preferred provider if specified
+    if (preferredProvider) {
+      const provider = this.resolvePreferredProvider(
+        providers,
+        preferredProvider,
+        'meta aggregator',
+      );
+      const routes = await this.callWithCircuitBreaker(provider, () =>
+        provider.getRoutes(request),
+      );
+      return this.filterRoutesByBridge(
+        routes.map((route) => ({
+          ...route,
+          provider: route.provider || provider.getProviderName(),
+        })),
+        request,
+      );
     }
 
     // Aggregate routes from all providers
     const allRoutes: RouteQuote[] = [];
     const results = await Promise.allSettled(
-      providers.map(provider => provider.getRoutes(request))
+      providers.map((provider) =>
+        this.callWithCircuitBreaker(provider, () =>
+          provider.getRoutes(request),
+        ),
+      ),
     );
 
     results.forEach((result, index) => {
+      const providerName = providers[index].getProviderName();
       if (result.status === 'fulfilled') {
-        allRoutes.push(...result.value);
+        allRoutes.push(
+          ...result.value.map((route) => ({
+            ...route,
+            provider: route.provider || providerName,
+          })),
+        );
       } else {
-        this.logger.warn(`Meta aggregator ${providers[index].getProviderName()} failed: ${result.reason.message}`);
+        this.logger.warn(
+          `Meta aggregator ${providerName} failed: ${(result.reason as Error).message}`,
+        );
       }
     });
 
     // Sort by confidence and estimated output
-    return allRoutes.sort((a, b) => {
+    return this.filterRoutesByBridge(allRoutes, request).sort((a, b) => {
       const confidenceDiff = (b.confidence || 0) - (a.confidence || 0);
       if (Math.abs(confidenceDiff) > 0.1) return confidenceDiff;
-      
+
       return parseFloat(b.totalEstimatedOut) - parseFloat(a.totalEstimatedOut);
     });
   }
 
   /**
-   * Get Solana swap quote
+   * Drop routes whose bridge steps use a bridge outside the allow-list or on the deny-list
+   * Applied to every provider, so the filter also holds for providers without native bridge filtering
+   */
+  private filterRoutesByBridge(
+    routes: RouteQuote[],
+    request: RouteRequest,
+  ): RouteQuote[] {
+    if (!request.allowBridges?.length && !request.denyBridges?.length) {
+      return routes;
+    }
+
+    const normalize = (bridge: string) => bridge.trim().toLowerCase();
+    const allowed = request.allowBridges?.length
+      ? new Set(request.allowBridges.map(normalize))
+      : undefined;
+    const denied = new Set((request.denyBridges || []).map(normalize));
+
+    const filtered = routes.filter((route) =>
+      route.steps
+        .filter((step) => step.kind === 'bridge')
+        .every((step) => {
+          // A bridge step without a protocol cannot be checked against the lists
+          if (!step.protocol) {
+            return !allowed;
+          }
+
+          const bridge = normalize(step.protocol);
+          return !denied.has(bridge) && (!allowed || allowed.has(bridge));
+        }),
+    );
+
+    if (filtered.length < routes.length) {
+      this.logger.debug(
+        `Bridge filters removed ${routes.length - filtered.length} of ${routes.length} cross-chain routes`,
+      );
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Get Solana swap quotes from all healthy routers, ranked by output amount
    */
-  async getSolanaQuote(request: any, preferredProvider?: string): Promise<RouteQuote> {
+  async getSolanaQuote(
+    request: SolanaQuoteRequest,
+    preferredProvider?: string,
+  ): Promise<RouteQuote[]> {
     const providers = await this.getHealthySolanaProviders();
     
     if (providers.length === 0) {
       throw new Error('No healthy Solana routers available');
     }
 
-    // Use preferred provider if specified and healthy
-    if (preferredProvider && providers.some(p => p.getProviderName() === preferredProvider)) {
-      const provider = providers.find(p => p.getProviderName() === preferredProvider);
-      return provider!.quote(request);
-    }
+    // Pin to preferred provider if specified
+    if (preferredProvider) {
+      const provider = this.resolvePreferredProvider(
+        providers,
+        preferredProvider,
+        'Solana router',
+      );
+      const route = await this.callWithCircuitBreaker(provider, () =>
+        provider.quote(request),
+      );
+      return [
+        { ...route, provider: route.provider || provider.getProviderName() },
+      ];
+    }
+
+    // Query all routers in parallel
+    const allRoutes: RouteQuote[] = [];
+    const results = await Promise.allSettled(
+      providers.map((provider) =>
+        this.callWithCircuitBreaker(provider, () => provider.quote(request)),
+      ),
+    );
 
-    // Try providers in order
-    let lastError: Error | null = null;
-    for (const provider of providers) {
-      try {
-        this.logger.debug(`Attempting Solana quote from ${provider.getProviderName()}`);
-        return await provider.quote(request);
-      } catch (error) {
-        this.logger.warn(`Solana provider ${provider.getProviderName()} failed: ${error.message}`);
-        lastError = error as Error;
-        continue;
+    const errors: string[] = [];
+    results.forEach((result, index) => {
+      const providerName = providers[index].getProviderName();
+      if (result.status === 'fulfilled') {
+        allRoutes.push({
+          ...result.value,
+          provider: result.value.provider || providerName,
+        });
+      } else {
+        this.logger.warn(
+          `Solana provider ${providerName} failed: ${(result.reason as Error).message}`,
+        );
+        errors.push(`${providerName}: ${(result.reason as Error).message}`);
       }
+    });
+
+    if (allRoutes.length === 0) {
+      throw new Error(
+        `All Solana routers failed. Errors: ${errors.join('; ')}`,
+      );
+    }
+
+    // Exact-output routes all deliver the requested amount, so the cheapest input wins
+    return allRoutes.sort((a, b) =>
+      request.swapMode === 'ExactOut'
+        ? this.compareEstimatedIn(a, b)
+        : this.compareEstimatedOut(a, b),
+    );
+  }
+
+  /**
+   * Build serialized Solana swap transaction for a quoted route
+   */
+  async buildSolanaTransaction(
+    route: RouteQuote,
+    userPublicKey: string,
+  ): Promise<SolanaTransactionResult> {
+    const provider = Array.from(this.solanaRouters.values()).find(
+      (p) => p.getProviderName() === route.provider,
+    );
+
+    if (!provider) {
+      throw new Error(`Solana router ${route.provider} not registered`);
     }
 
-    throw new Error(`All Solana routers failed. Last error: ${lastError?.message}`);
+    // Routers keep their raw quote payload in providerRef for the build step
+    const quoteResponse: unknown =
+      route.providerRef?.jupiterQuote ?? route.providerRef;
+    return provider.buildAndSign(quoteResponse, { publicKey: userPublicKey });
   }
 
   /**
-   * Get native L1 quote (e.g., Bitcoin to EVM)
+   * Get native L1 quotes (e.g., Bitcoin to EVM) from all healthy routers, ranked by output amount
    */
-  async getNativeQuote(request: any, preferredProvider?: string): Promise<RouteQuote> {
+  async getNativeQuote(
+    request: NativeQuoteRequest,
+    preferredProvider?: string,
+  ): Promise<RouteQuote[]> {
     const providers = await this.getHealthyNativeProviders(request.toChainId);
     
     if (providers.length === 0) {
       throw new Error(`No healthy native routers available for destination chain ${request.toChainId}`);
     }
 
-    // Use preferred provider if specified and healthy
-    if (preferredProvider && providers.some(p => p.getProviderName() === preferredProvider)) {
-      const provider = providers.find(p => p.getProviderName() === preferredProvider);
-      return provider!.quoteBtc(request);
-    }
+    // Pin to preferred provider if specified
+    if (preferredProvider) {
+      const provider = this.resolvePreferredProvider(
+        providers,
+        preferredProvider,
+        'native router',
+      );
+      const route = await this.callWithCircuitBreaker(provider, () =>
+        provider.quoteBtc(request),
+      );
+      return [
+        { ...route, provider: route.provider || provider.getProviderName() },
+      ];
+    }
+
+    // Query all routers in parallel
+    const allRoutes: RouteQuote[] = [];
+    const results = await Promise.allSettled(
+      providers.map((provider) =>
+        this.callWithCircuitBreaker(provider, () => provider.quoteBtc(request)),
+      ),
+    );
 
-    // Try providers in order
-    let lastError: Error | null = null;
-    for (const provider of providers) {
-      try {
-        this.logger.debug(`Attempting native quote from ${provider.getProviderName()}`);
-        return await provider.quoteBtc(request);
-      } catch (error) {
-        this.logger.warn(`Native provider ${provider.getProviderName()} failed: ${error.message}`);
-        lastError = error as Error;
-        continue;
+    const errors: string[] = [];
+    results.forEach((result, index) => {
+      const providerName = providers[index].getProviderName();
+      if (result.status === 'fulfilled') {
+        allRoutes.push({
+          ...result.value,
+          provider: result.value.provider || providerName,
+        });
+      } else {
+        this.logger.warn(
+          `Native provider ${providerName} failed: ${(result.reason as Error).message}`,
+        );
+        errors.push(`${providerName}: ${(result.reason as Error).message}`);
       }
+    });
+
+    if (allRoutes.length === 0) {
+      throw new Error(
+        `All native routers failed. Errors: ${errors.join('; ')}`,
+      );
     }
 
-    throw new Error(`All native routers failed. Last error: ${lastError?.message}`);
+    return allRoutes.sort((a, b) => this.compareEstimatedOut(a, b));
   }
 
   /**
-   * Build transaction for EVM swap
+   * Get cross-chain execution status from the meta aggregator that produced the route
    */
-  async buildEvmTransaction(request: SwapRequest, preferredProvider?: string): Promise<TransactionBuild> {
-    const providers = await this.getHealthyEvmProviders(request.chainId);
-    
-    if (providers.length === 0) {
-      throw new Error(`No healthy EVM aggregators available for chain ${request.chainId}`);
+  async getCrossChainStatus(
+    providerName: string,
+    txHash: string,
+  ): Promise<ExecutionStatusDetails> {
+    const provider = this.metaAggregators.get(providerName);
+    if (!provider) {
+      throw new Error(`Meta aggregator ${providerName} not registered`);
     }
 
-    const provider = preferredProvider 
-      ? providers.find(p => p.getProviderName() === preferredProvider) || providers[0]
-      : providers[0];
+    if (provider.getStatusDetails) {
+      return provider.getStatusDetails(txHash);
+    }
 
-    const portsRequest = this.convertToPortsRequest(request);
-    return provider.buildTx(portsRequest);
+    return { status: await provider.status(txHash) };
   }
 
   /**
-   * Get enhanced spender address for approvals (supports strategy-specific addresses)
+   * Get native L1 deposit status from the router that produced the route
    */
-  async getEnhancedSpenderAddress(chainId: number, strategy: ApprovalStrategy = ApprovalStrategy.ALLOWANCE_HOLDER, providerName?: string): Promise<string> {
-    const providers = await this.getHealthyEvmProviders(chainId);
-    
-    if (providers.length === 0) {
-      throw new Error(`No healthy EVM aggregators available for chain ${chainId}`);
-    }
-
-    // Prioritize 0x for strategy-specific spender addresses
-    const zeroXProvider = providers.find(p => p.getProviderName() === '0x');
-    if (zeroXProvider && 'getSpenderAddress' in zeroXProvider) {
-      return (zeroXProvider as any).getSpenderAddress(chainId, strategy);
+  async getNativeDepositStatus(
+    providerName: string,
+    depositTx: string,
+    memo: string,
+  ): Promise<ExecutionStatusDetails> {
+    const provider = this.nativeRouters.get(providerName);
+    if (!provider) {
+      throw new Error(`Native router ${providerName} not registered`);
     }
 
-    // Fallback to other providers
-    const provider = providerName 
-      ? providers.find(p => p.getProviderName() === providerName) || providers[0]
-      : providers[0];
-
-    if ('getSpenderAddress' in provider) {
-      return (provider as any).getSpenderAddress(chainId);
+    if (provider.getStatusDetails) {
+      return provider.getStatusDetails(depositTx);
     }
 
-    throw new Error('No provider supports spender address retrieval');
+    return { status: await provider.depositAndTrack(depositTx, memo) };
   }
 
   /**
-   * Enhanced multiple quotes from different aggregators with dynamic provider selection
+   * Get intent quotes (signed orders) from all healthy intent providers on the chain
+   * Ranked by output amount, or by sell amount for exact-output requests
    */
-  async getMultipleQuotes(
-    chainId: number,
-    sellToken: string,
+  async getIntentQuotes(request: SwapRequest): Promise<IntentQuote[]> {
+    const providers = await this.getHealthyIntentProviders(request.chainId);
+
+    if (providers.length === 0) {
+      throw new Error(
+        `No healthy intent providers available for chain ${request.chainId}`,
+      );
+    }
+
+    const portsRequest = this.convertToPortsRequest(request);
+    const quotes: IntentQuote[] = [];
+    const results = await Promise.allSettled(
+      providers.map((provider) =>
+        this.callWithCircuitBreaker(provider, () =>
+          provider.quoteOrder(portsRequest),
+        ),
+      ),
+    );
+
+    const errors: string[] = [];
+    results.forEach((result, index) => {
+      const providerName = providers[index].getProviderName();
+      if (result.status === 'fulfilled') {
+        quotes.push(result.value);
+      } else {
+        this.logger.warn(
+          `Intent provider ${providerName} failed: ${(result.reason as Error).message}`,
+        );
+        errors.push(`${providerName}: ${(result.reason as Error).message}`);
+      }
+    });
+
+    if (quotes.length === 0) {
+      throw new Error(
+        `All intent providers failed. Errors: ${errors.join('; ')}`,
+      );
+    }
+
+    return quotes.sort((a, b) => {
+      const [left, right] = request.buyAmount
+        ? [BigInt(a.sellAmount), BigInt(b.sellAmount)]
+        : [BigInt(b.buyAmount), BigInt(a.buyAmount)];
+      return left === right ? 0 : left < right ? -1 : 1;
+    });
+  }
+
+  /**
+   * Submit a signed order to the intent provider that quoted it, returning the order ID
+   */
+  async submitIntentOrder(
+    providerName: string,
+    order: IntentOrder,
+    signature: string,
+  ): Promise<string> {
+    const provider = this.intentProviders.get(providerName);
+    if (!provider) {
+      throw new Error(`Intent provider ${providerName} not registered`);
+    }
+
+    return provider.submitOrder(order, signature);
+  }
+
+  /**
+   * Get order status from the intent provider that accepted the order
+   */
+  async getIntentOrderStatus(
+    providerName: string,
+    chainId: number,
+    orderId: string,
+  ): Promise<ExecutionStatusDetails> {
+    const provider = this.intentProviders.get(providerName);
+    if (!provider) {
+      throw new Error(`Intent provider ${providerName} not registered`);
+    }
+
+    return provider.getOrderStatus(chainId, orderId);
+  }
+
+  /**
+   * Build transaction for EVM swap
+   */
+  async buildEvmTransaction(request: SwapRequest, preferredProvider?: string): Promise<TransactionBuild> {
+    const providers = await this.getHealthyEvmProviders(request.chainId);
+    
+    if (providers.length === 0) {
+      throw new Error(`No healthy EVM aggregators available for chain ${request.chainId}`);
+    }
+
+    const provider = preferredProvider 
+      ? providers.find(p => p.getProviderName() === preferredProvider) || providers[0]
+      : providers[0];
+
+    const portsRequest = this.convertToPortsRequest(request);
+    return provider.buildTx(portsRequest);
+  }
+
+  /**
+   * Get enhanced spender address for approvals (supports strategy-specific addresses)
+   */
+  async getEnhancedSpenderAddress(
+    chainId: number,
+    strategy: ApprovalStrategy = ApprovalStrategy.ALLOWANCE_HOLDER,
+    providerId?: ProviderId,
+  ): Promise<string> {
+    const providers = await this.getHealthyEvmProviders(chainId);
+
+    if (providers.length === 0) {
+      throw new Error(
+        `No healthy EVM aggregators available for chain ${chainId}`,
+      );
+    }
+
+    // Prioritize 0x for strategy-specific spender addresses
+    const zeroXProvider = providers.find(
+      (p) => this.toProviderId(p.getProviderName()) === '0x',
+    );
+    if (zeroXProvider?.getSpenderAddress) {
+      return zeroXProvider.getSpenderAddress(chainId, strategy);
+    }
+
+    // Fallback to other providers
+    const preferredId = providerId && this.toProviderId(providerId);
+    const provider =
+      providers.find(
+        (p) => this.toProviderId(p.getProviderName()) === preferredId,
+      ) || providers[0];
+
+    if (provider.getSpenderAddress) {
+      return provider.getSpenderAddress(chainId);
+    }
+
+    throw new Error('No provider supports spender address retrieval');
+  }
+
+  /**
+   * Enhanced multiple quotes from different aggregators with dynamic provider selection
+   * Bounded by the default quote deadline; providers that miss it are left out
+   */
+  async getMultipleQuotes(
+    chainId: number,
+    sellToken: string,
     buyToken: string,
     sellAmount: string,
     taker: string,
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-  ): Promise<Array<{ aggregator: AggregatorType; quote: SwapQuote }>> {
-    const request: SwapRequest = {
+  ): Promise<Array<{ aggregator: ProviderId; quote: SwapQuote }>> {
+    const { quotes } = await this.getQuotesWithinDeadline({
       chainId,
       sellToken,
       buyToken,
@@ -932,7 +1365,21 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       recipient,
       slippagePercentage,
       deadline,
-    };
+    });
+
+    return quotes;
+  }
+
+  /**
+   * Fan out to every EVM aggregator for the chain and return the quotes that arrive before the deadline,
+   * ranked by net output. Optionally hedges providers that are slower than their p95 latency.
+   */
+  async getQuotesWithinDeadline(
+    request: SwapRequest,
+    options: QuoteFanOutOptions = {},
+  ): Promise<QuoteFanOutResult> {
+    const chainId = request.chainId;
+    const deadlineMs = options.deadlineMs ?? this.quoteDeadlineMs;
 
     // Get all providers that support this chain (not just healthy ones for comparison)
     const supportedProviders = await this.getProvidersForChain(chainId);
@@ -941,43 +1388,471 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       throw new Error(`No providers support chain ${chainId}. Supported chains: ${this.getAllSupportedChains().join(', ')}`);
     }
 
-    this.logger.debug(`Getting multiple quotes from ${supportedProviders.length} providers for chain ${chainId}: ${supportedProviders.map(p => p.getProviderName()).join(', ')}`);
+    this.logger.debug(
+      `Getting multiple quotes from ${supportedProviders.length} providers for chain ${chainId} within ${deadlineMs}ms: ${supportedProviders.map((p) => p.getProviderName()).join(', ')}`,
+    );
 
-    const results: Array<{ aggregator: AggregatorType; quote: SwapQuote }> = [];
+    const results: Array<{ aggregator: ProviderId; quote: SwapQuote }> = [];
+    const settled = new Set<string>();
     const portsRequest = this.convertToPortsRequest(request);
 
-    // Try each provider in parallel
-    const quotes = await Promise.allSettled(
+    // Query each provider in parallel; late answers still feed performance tracking but not this response
+    const pending = Promise.allSettled(
       supportedProviders.map(async (provider) => {
+        const providerName = provider.getProviderName();
         try {
-          const quote = await provider.getQuote(portsRequest,false);
-          const legacyQuote = this.convertToLegacyQuote(quote, provider.getProviderName());
-          return {
+          const quote = await this.getHedgedQuote(
+            provider,
+            portsRequest,
+            deadlineMs,
+            options.hedge,
+          );
+          const legacyQuote = this.convertToLegacyQuote(quote, providerName);
+          results.push({
             aggregator: legacyQuote.aggregator,
             quote: legacyQuote,
-          };
+          });
+          this.logger.debug(
+            `✅ ${providerName} provided quote: ${legacyQuote.buyAmount} tokens`,
+          );
         } catch (error) {
-          this.logger.warn(`Provider ${provider.getProviderName()} failed for multiple quotes: ${error.message}`);
-          throw error;
+          this.logger.warn(
+            `❌ ${providerName} failed: ${(error as Error).message}`,
+          );
+        } finally {
+          settled.add(providerName);
         }
       })
     );
 
-    quotes.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        results.push(result.value);
-        this.logger.debug(`✅ ${supportedProviders[index].getProviderName()} provided quote: ${result.value.quote.buyAmount} tokens`);
-      } else {
-        this.logger.warn(`❌ ${supportedProviders[index].getProviderName()} failed: ${result.reason.message}`);
+    let deadlineTimer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      pending,
+      new Promise<void>((resolve) => {
+        deadlineTimer = setTimeout(resolve, deadlineMs);
+      }),
+    ]);
+    clearTimeout(deadlineTimer);
+
+    const arrived = [...results];
+    const timedOut = supportedProviders
+      .map((provider) => provider.getProviderName())
+      .filter((providerName) => !settled.has(providerName));
+
+    if (timedOut.length > 0) {
+      this.logger.warn(
+        `⏱️ Quote deadline of ${deadlineMs}ms passed without an answer from: ${timedOut.join(', ')}`,
+      );
+    }
+
+    if (arrived.length === 0) {
+      const reason =
+        timedOut.length > 0
+          ? `no quote arrived within ${deadlineMs}ms`
+          : 'all providers failed';
+      throw new Error(
+        `No quotes from ${supportedProviders.length} providers for chain ${chainId}: ${reason}`,
+      );
+    }
+
+    this.logger.log(
+      `✅ Got ${arrived.length}/${supportedProviders.length} quotes for chain ${chainId}`,
+    );
+
+    // Drop quotes far off from their peers or the reference price before they can win routing
+    const consensus = await this.quoteConsensus.check(arrived, request);
+    const ranked = await this.rankQuotes(consensus.quotes, request);
+
+    this.performanceTracker.recordPriceComparison(
+      chainId,
+      ranked.map((result) => result.aggregator),
+      ranked[0].aggregator,
+    );
+
+    return { quotes: ranked, timedOut, outliers: consensus.outliers };
+  }
+
+  /**
+   * Get a quote, firing a second identical request when the first is slower than the provider's p95
+   * latency on the chain; the first successful answer wins
+   */
+  private getHedgedQuote(
+    provider: IOnchainAggregator,
+    request: PortsSwapRequest,
+    deadlineMs: number,
+    hedge?: boolean,
+  ): Promise<PortsSwapQuote> {
+    const primary = this.getTrackedQuote(provider, request, false);
+    const p95 = hedge
+      ? this.performanceTracker.getLatencyPercentile(
+          provider.getProviderName(),
+          request.chainId,
+          0.95,
+        )
+      : undefined;
+
+    // Without latency history, or when a hedge could not land before the deadline, don't hedge
+    if (p95 === undefined || p95 >= deadlineMs) {
+      return primary;
+    }
+
+    return new Promise((resolve, reject) => {
+      let inFlight = 1;
+      let done = false;
+
+      const onSuccess = (quote: PortsSwapQuote) => {
+        if (!done) {
+          done = true;
+          clearTimeout(hedgeTimer);
+          resolve(quote);
+        }
+      };
+      const onFailure = (error: Error) => {
+        inFlight--;
+        if (inFlight === 0 && !done) {
+          done = true;
+          clearTimeout(hedgeTimer);
+          reject(error);
+        }
+      };
+
+      const hedgeTimer = setTimeout(() => {
+        if (done) {
+          return;
+        }
+        inFlight++;
+        this.logger.debug(
+          `Hedging ${provider.getProviderName()} quote after ${p95}ms (p95)`,
+        );
+        this.getTrackedQuote(provider, request, false).then(
+          onSuccess,
+          onFailure,
+        );
+      }, p95);
+
+      primary.then(onSuccess, onFailure);
+    });
+  }
+
+  /**
+   * Sell budget for an exact-output request without one: the reference sell amount for buyAmount plus headroom
+   */
+  async estimateExactOutputBudget(
+    chainId: number,
+    sellToken: string,
+    buyToken: string,
+    buyAmount: string,
+  ): Promise<string> {
+    let reference: bigint | undefined;
+    try {
+      reference = await this.nativePriceSource?.getReferenceAmount?.(
+        chainId,
+        buyToken,
+        sellToken,
+        BigInt(buyAmount),
+      );
+    } catch (error) {
+      this.logger.debug(
+        `Reference price lookup failed for chain ${chainId}: ${(error as Error).message}`,
+      );
+    }
+
+    if (!reference) {
+      throw new Error(
+        `No reference price for ${sellToken} -> ${buyToken} on chain ${chainId}; set sellAmount as the most to spend`,
+      );
+    }
+
+    return (
+      (reference * BigInt(10000 + this.exactOutputBudgetBps)) /
+      10000n
+    ).toString();
+  }
+
+  /**
+   * Rank EVM quotes for a request: exact-output requests by net input, all others by net output
+   */
+  async rankQuotes(
+    quotes: Array<{ aggregator: ProviderId; quote: SwapQuote }>,
+    request: SwapRequest,
+  ): Promise<Array<{ aggregator: ProviderId; quote: SwapQuote }>> {
+    return request.buyAmount
+      ? this.rankQuotesByNetInput(quotes, request.chainId, request.sellToken)
+      : this.rankQuotesByNetOutput(quotes, request.chainId, request.buyToken);
+  }
+
+  /**
+   * Rank exact-output EVM quotes by net input: sell amount plus the route's gas cost converted into the sell token
+   * Annotates each quote with gasCostInSellToken/netSellAmount; without a price, quotes rank by raw sell amount
+   */
+  async rankQuotesByNetInput(
+    quotes: Array<{ aggregator: ProviderId; quote: SwapQuote }>,
+    chainId: number,
+    sellToken: string,
+  ): Promise<Array<{ aggregator: ProviderId; quote: SwapQuote }>> {
+    const nativePrice = await this.lookupNativePrice(chainId, sellToken);
+
+    const ranked = quotes.map(({ aggregator, quote }) => {
+      const sellAmount = this.parseAmount(quote.sellAmount);
+      const gasCostWei = this.getQuoteGasCostWei(quote);
+      const gasCost =
+        nativePrice !== undefined && gasCostWei !== undefined
+          ? (gasCostWei * nativePrice) / 10n ** 18n
+          : undefined;
+
+      return {
+        aggregator,
+        quote: {
+          ...quote,
+          gasCostInSellToken: gasCost?.toString(),
+          netSellAmount:
+            sellAmount !== undefined
+              ? (sellAmount + (gasCost ?? 0n)).toString()
+              : undefined,
+        },
+      };
+    });
+
+    // Cheapest first; quotes with unparseable amounts rank last
+    return ranked.sort((a, b) => {
+      const netA = this.parseAmount(a.quote.netSellAmount);
+      const netB = this.parseAmount(b.quote.netSellAmount);
+      if (netA === undefined || netB === undefined) {
+        return netA === undefined ? (netB === undefined ? 0 : 1) : -1;
+      }
+      return netA > netB ? 1 : netA < netB ? -1 : 0;
+    });
+  }
+
+  /**
+   * Rank EVM quotes by net output: buy amount minus the route's gas cost converted into the buy token
+   * Annotates each quote with gasCostInBuyToken/netBuyAmount; without a price, quotes rank by raw buy amount
+   */
+  async rankQuotesByNetOutput(
+    quotes: Array<{ aggregator: ProviderId; quote: SwapQuote }>,
+    chainId: number,
+    buyToken: string,
+  ): Promise<Array<{ aggregator: ProviderId; quote: SwapQuote }>> {
+    const nativePrice = await this.lookupNativePrice(chainId, buyToken);
+    if (nativePrice === undefined) {
+      this.logger.debug(
+        `No native price for ${buyToken} on chain ${chainId}, ranking quotes by buy amount`,
+      );
+    }
+
+    const ranked = quotes.map(({ aggregator, quote }) => ({
+      aggregator,
+      quote: this.withNetOutput(quote, nativePrice),
+    }));
+
+    // Quotes with unparseable amounts rank last
+    return ranked.sort((a, b) => {
+      const netA = this.parseAmount(a.quote.netBuyAmount);
+      const netB = this.parseAmount(b.quote.netBuyAmount);
+      if (netA === undefined || netB === undefined) {
+        return netA === undefined ? (netB === undefined ? 0 : 1) : -1;
+      }
+      return netB > netA ? 1 : netB < netA ? -1 : 0;
+    });
+  }
+
+  /**
+   * Split the order across EVM aggregators: quotes 1/N .. N/N of sellAmount from every aggregator within
+   * the deadline and allocates the N shares to maximize total net output after each leg's gas
+   * Returns undefined when no split beats sending the whole order to a single aggregator
+   */
+  async getSplitQuote(
+    request: SwapRequest,
+    options: QuoteFanOutOptions = {},
+  ): Promise<SplitQuote | undefined> {
+    if (request.buyAmount) {
+      throw new Error('Split routing supports exact-input requests only');
+    }
+
+    const chainId = request.chainId;
+    const deadlineMs = options.deadlineMs ?? this.quoteDeadlineMs;
+    const shares = this.splitRouteShares;
+    const totalSell = BigInt(request.sellAmount);
+    const providers = await this.getProvidersForChain(chainId);
+
+    if (providers.length < 2) {
+      this.logger.debug(
+        `Split routing skipped on chain ${chainId}: ${providers.length} aggregator(s) available`,
+      );
+      return undefined;
+    }
+
+    // table[p][k]: provider p's quote for k shares of the order (k = 0 is the empty leg)
+    const table: Array<Array<SwapQuote | undefined>> = providers.map(() =>
+      new Array<SwapQuote | undefined>(shares + 1).fill(undefined),
+    );
+    const portsRequest = this.convertToPortsRequest(request);
+
+    this.logger.debug(
+      `Quoting ${shares} order shares from ${providers.length} aggregators for a split on chain ${chainId}`,
+    );
+
+    const pending = Promise.allSettled(
+      providers.flatMap((provider, p) =>
+        Array.from({ length: shares }, (_, index) => index + 1).map(
+          async (k) => {
+            const sellAmount = (
+              (totalSell * BigInt(k)) /
+              BigInt(shares)
+            ).toString();
+            const quote = await this.getTrackedQuote(
+              provider,
+              { ...portsRequest, sellAmount },
+              false,
+            );
+            table[p][k] = this.convertToLegacyQuote(
+              quote,
+              provider.getProviderName(),
+            );
+          },
+        ),
+      ),
+    );
+
+    let deadlineTimer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      pending,
+      new Promise<void>((resolve) => {
+        deadlineTimer = setTimeout(resolve, deadlineMs);
+      }),
+    ]);
+    clearTimeout(deadlineTimer);
+
+    // Providers whose full-order quote is an outlier are left out of the split as well
+    const fullOrder = providers
+      .map((_, p) => table[p][shares])
+      .filter((quote): quote is SwapQuote => !!quote)
+      .map((quote) => ({ aggregator: quote.aggregator, quote }));
+    const { outliers } = await this.quoteConsensus.check(fullOrder, request);
+    const excluded = new Set(
+      outliers
+        .filter((outlier) => outlier.excluded)
+        .map((outlier) => outlier.aggregator),
+    );
+
+    // net[p][k]: net output of provider p's quote for k shares, after that leg's gas
+    const nativePrice = await this.lookupNativePrice(chainId, request.buyToken);
+    const net: Array<Array<bigint | undefined>> = table.map((row) => {
+      if (row[shares] && excluded.has(row[shares].aggregator)) {
+        return row.map(() => undefined);
       }
+      return row.map((quote, k) => {
+        if (!quote) {
+          return undefined;
+        }
+        row[k] = this.withNetOutput(quote, nativePrice);
+        return this.parseAmount(row[k].netBuyAmount);
+      });
     });
 
-    if (results.length === 0) {
-      throw new Error(`All ${supportedProviders.length} providers failed to provide quotes for chain ${chainId}`);
+    // best[p][u]: highest net output placing u shares with providers 0..p-1; choice[p][u]: shares given to provider p-1
+    const best: Array<Array<bigint | undefined>> = [
+      new Array<bigint | undefined>(shares + 1).fill(undefined),
+    ];
+    const choice: number[][] = [new Array<number>(shares + 1).fill(0)];
+    best[0][0] = 0n;
+    for (let p = 1; p <= providers.length; p++) {
+      best[p] = new Array<bigint | undefined>(shares + 1).fill(undefined);
+      choice[p] = new Array<number>(shares + 1).fill(0);
+      for (let u = 0; u <= shares; u++) {
+        for (let k = 0; k <= u; k++) {
+          const previous = best[p - 1][u - k];
+          const leg = k === 0 ? 0n : net[p - 1][k];
+          if (previous === undefined || leg === undefined) {
+            continue;
+          }
+          if (best[p][u] === undefined || previous + leg > best[p][u]!) {
+            best[p][u] = previous + leg;
+            choice[p][u] = k;
+          }
+        }
+      }
+    }
+
+    const splitNet = best[providers.length][shares];
+    if (splitNet === undefined) {
+      return undefined;
+    }
+
+    const legs: SplitQuoteLeg[] = [];
+    for (let p = providers.length, u = shares; p > 0; p--) {
+      const k = choice[p][u];
+      if (k > 0) {
+        legs.unshift({
+          provider: providers[p - 1].getProviderName(),
+          shareBps: Math.round((k * 10000) / shares),
+          quote: table[p - 1][k]!,
+        });
+      }
+      u -= k;
+    }
+
+    if (legs.length < 2) {
+      this.logger.debug(
+        `Split routing on chain ${chainId}: a single aggregator gives the best net output`,
+      );
+      return undefined;
+    }
+
+    const bestSingle = net.reduce<bigint | undefined>((max, row) => {
+      const full = row[shares];
+      return full !== undefined && (max === undefined || full > max)
+        ? full
+        : max;
+    }, undefined);
+    const sum = (field: 'sellAmount' | 'buyAmount' | 'minBuyAmount') =>
+      legs
+        .reduce(
+          (total, leg) => total + (this.parseAmount(leg.quote[field]) ?? 0n),
+          0n,
+        )
+        .toString();
+
+    const split: SplitQuote = {
+      legs,
+      sellAmount: sum('sellAmount'),
+      buyAmount: sum('buyAmount'),
+      minBuyAmount: sum('minBuyAmount'),
+      netBuyAmount: splitNet.toString(),
+      improvementBps:
+        bestSingle !== undefined && bestSingle > 0n
+          ? Number(((splitNet - bestSingle) * 10000n) / bestSingle)
+          : 0,
+    };
+
+    this.logger.log(
+      `✅ Split order on chain ${chainId}: ${legs.map((leg) => `${leg.provider} ${leg.shareBps / 100}%`).join(', ')} (+${split.improvementBps} bps net)`,
+    );
+    return split;
+  }
+
+  /**
+   * Whether the order is large enough for split routing, by its USD value; unknown values do not qualify
+   */
+  async qualifiesForSplitRouting(request: SwapRequest): Promise<boolean> {
+    let usdValue: number | undefined;
+    try {
+      usdValue = await this.nativePriceSource?.getUsdValue?.(
+        request.chainId,
+        request.sellToken,
+        BigInt(request.sellAmount),
+      );
+    } catch (error) {
+      this.logger.debug(
+        `USD value lookup failed for chain ${request.chainId}: ${(error as Error).message}`,
+      );
     }
 
-    this.logger.log(`✅ Got ${results.length}/${supportedProviders.length} quotes for chain ${chainId}`);
-    return results;
+    return usdValue !== undefined && usdValue >= this.splitRouteMinUsd;
+  }
+
+  getSplitRouteMinUsd(): number {
+    return this.splitRouteMinUsd;
   }
 
   /**
@@ -992,7 +1867,7 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-  ): Promise<{ aggregator: AggregatorType; quote: SwapQuote }> {
+  ): Promise<{ aggregator: ProviderId; quote: SwapQuote }> {
     const multipleQuotes = await this.getMultipleQuotes(
       chainId,
       sellToken,
@@ -1004,14 +1879,8 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       deadline,
     );
 
-    // Find the quote with the highest buyAmount
-    const bestQuote = multipleQuotes.reduce((best, current) => {
-      const bestBuyAmount = parseFloat(best.quote.buyAmount);
-      const currentBuyAmount = parseFloat(current.quote.buyAmount);
-      return currentBuyAmount > bestBuyAmount ? current : best;
-    });
-
-    return bestQuote;
+    // Quotes arrive ranked by net output after gas
+    return multipleQuotes[0];
   }
 
   /**
@@ -1027,11 +1896,12 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     slippagePercentage?: number,
     deadline?: number,
   ): Promise<{
-    quotes: Array<{ aggregator: AggregatorType; quote: SwapQuote }>;
-    bestAggregator: AggregatorType;
+    quotes: Array<{ aggregator: ProviderId; quote: SwapQuote }>;
+    bestAggregator: ProviderId;
     priceDifference: string;
+    outliers: QuoteOutlier[];
   }> {
-    const quotes = await this.getMultipleQuotes(
+    const { quotes, outliers } = await this.getQuotesWithinDeadline({
       chainId,
       sellToken,
       buyToken,
@@ -1040,67 +1910,36 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       recipient,
       slippagePercentage,
       deadline,
-    );
+    });
 
     if (quotes.length === 0) {
       throw new Error('No quotes available for comparison');
     }
 
-    // Find best and calculate price difference
-    const bestQuote = quotes.reduce((best, current) => {
-      const bestBuyAmount = parseFloat(best.quote.buyAmount);
-      const currentBuyAmount = parseFloat(current.quote.buyAmount);
-      return currentBuyAmount > bestBuyAmount ? current : best;
-    });
-
-    const worstQuote = quotes.reduce((worst, current) => {
-      const worstBuyAmount = parseFloat(worst.quote.buyAmount);
-      const currentBuyAmount = parseFloat(current.quote.buyAmount);
-      return currentBuyAmount < worstBuyAmount ? current : worst;
-    });
-
-    const bestAmount = parseFloat(bestQuote.quote.buyAmount);
-    const worstAmount = parseFloat(worstQuote.quote.buyAmount);
-    const priceDifference = ((bestAmount - worstAmount) / worstAmount * 100).toFixed(2);
+    // Quotes arrive ranked by net output after gas, outliers already excluded; compare best and worst net amounts
+    const bestQuote = quotes[0];
+    const bestAmount = this.parseAmount(bestQuote.quote.netBuyAmount) ?? 0n;
+    const worstAmount =
+      this.parseAmount(quotes[quotes.length - 1].quote.netBuyAmount) ?? 0n;
+    const differenceBps =
+      worstAmount > 0n
+        ? ((bestAmount - worstAmount) * 10000n) / worstAmount
+        : 0n;
+    const priceDifference = (Number(differenceBps) / 100).toFixed(2);
 
     return {
       quotes,
       bestAggregator: bestQuote.aggregator,
       priceDifference: `${priceDifference}%`,
+      outliers,
     };
   }
 
   /**
    * Enhanced supported aggregators with dynamic chain-based discovery
    */
-  getEnhancedSupportedAggregators(chainId: number): AggregatorType[] {
-    const supported: AggregatorType[] = [];
-    
-    this.logger.debug(`Discovering supported aggregators for chain ${chainId}...`);
-    
-    // Dynamic discovery from enhanced registry
-    for (const [providerName, provider] of this.evmAggregators) {
-      if (provider && provider.supportsChain(chainId)) {
-        const aggregatorType = this.mapProviderNameToAggregatorType(providerName);
-        if (aggregatorType && !supported.includes(aggregatorType)) {
-          supported.push(aggregatorType);
-          this.logger.debug(`✅ Dynamic discovery: ${aggregatorType} (${providerName}) supports chain ${chainId}`);
-        }
-      } else {
-        this.logger.debug(`❌ ${providerName} does not support chain ${chainId}`);
-      }
-    }
-
-    // If no providers found in enhanced registry, check legacy (should not happen after merge)
-    if (supported.length === 0) {
-      this.logger.warn(`No enhanced providers found for chain ${chainId}, checking legacy registry...`);
-      for (const [aggregatorType, aggregator] of this.aggregators) {
-        if (aggregator && aggregator.supportsChain(chainId)) {
-          supported.push(aggregatorType);
-          this.logger.debug(`✅ Legacy fallback: ${aggregatorType} supports chain ${chainId}`);
-        }
-      }
-    }
+  getEnhancedSupportedAggregators(chainId: number): ProviderId[] {
+    const supported = this.getSupportedAggregators(chainId);
 
     if (supported.length === 0) {
       this.logger.warn(`No aggregators support chain ${chainId}. Supported chains: ${this.getAllSupportedChains().join(', ')}`);
@@ -1114,30 +1953,35 @@ export class AggregatorManagerService implements IAggregatorRegistry {
   /**
    * Get runtime provider recommendations for a specific request
    */
-  async getProviderRecommendations(request: SwapRequest): Promise<Array<{
-    provider: string;
-    score: number;
-    reason: string;
-    supported: boolean;
-    healthy: boolean;
-  }>> {
+  async getProviderRecommendations(request: SwapRequest): Promise<
+    Array<{
+      provider: string;
+      score: number;
+      reason: string;
+      supported: boolean;
+      healthy: boolean;
+      performance?: ProviderPerformanceBreakdown;
+    }>
+  > {
     const recommendations: Array<{
       provider: string;
       score: number;
       reason: string;
       supported: boolean;
       healthy: boolean;
+      performance?: ProviderPerformanceBreakdown;
     }> = [];
 
     for (const [providerName, provider] of this.evmAggregators) {
-      const supported = provider.supportsChain(request.chainId);
+      const supported = this.supportsChain(provider, request.chainId);
       let healthy = false;
       let score = 0;
       let reason = '';
 
       if (supported) {
         const health = await this.getProviderHealth(provider);
-        healthy = health.status === 'healthy';
+        // Degraded providers stay routable; only unhealthy ones are skipped
+        healthy = health.status !== 'unhealthy';
         
         if (healthy) {
           score = await this.calculateProviderScore(provider, request);
@@ -1155,6 +1999,9 @@ export class AggregatorManagerService implements IAggregatorRegistry {
         reason,
         supported,
         healthy,
+        performance: supported
+          ? this.performanceTracker.getBreakdown(providerName, request.chainId)
+          : undefined,
       });
     }
 
@@ -1164,20 +2011,6 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     return recommendations;
   }
 
-  /**
-   * Map provider name to AggregatorType enum
-   */
-  private mapProviderNameToAggregatorType(providerName: string): AggregatorType | null {
-    switch (providerName.toLowerCase()) {
-      case '0x':
-        return AggregatorType.ZEROX;
-      case 'odos':
-        return AggregatorType.ODOS;
-      default:
-        return null;
-    }
-  }
-
   /**
    * Get comprehensive health status of all providers
    */
@@ -1187,6 +2020,7 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       meta: [],
       solana: [],
       native: [],
+      intent: [],
     };
 
     // Check EVM providers
@@ -1209,26 +2043,47 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       health.native.push(await this.getProviderHealth(provider));
     }
 
+    // Check intent providers
+    for (const provider of this.intentProviders.values()) {
+      health.intent.push(await this.getProviderHealth(provider));
+    }
+
     return health;
   }
 
+  /**
+   * Get health monitor report of every registered provider
+   */
+  getProviderHealthReport(): ProviderHealthReport[] {
+    return this.healthMonitor.getReport();
+  }
+
+  /**
+   * Get circuit breaker state of every provider that has been called
+   */
+  getCircuitBreakerStates(): CircuitBreakerSnapshot[] {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  /**
+   * Get outbound rate limiter stats of every provider that has been called
+   */
+  getRateLimiterStats(): RateLimiterStats[] {
+    return this.rateLimiter.getStats();
+  }
+
   /**
    * Get supported chains for EVM aggregators
    */
   getSupportedChains(): number[] {
-    const chains = new Set<number>();
-    
-    for (const provider of this.evmAggregators.values()) {
-      // Common chains to check
-      const commonChains = [1, 10, 56, 137, 42161, 43114, 8453, 324, 59144];
-      commonChains.forEach(chainId => {
-        if (provider.supportsChain(chainId)) {
-          chains.add(chainId);
-        }
-      });
-    }
+    return this.chainCapabilities.getAllChains('evm');
+  }
 
-    return Array.from(chains).sort();
+  /**
+   * Get every provider's chains with where each list came from (upstream, snapshot or bundled)
+   */
+  getChainCapabilities(): ChainCapability[] {
+    return this.chainCapabilities.getSnapshot();
   }
 
   /**
@@ -1253,6 +2108,10 @@ export class AggregatorManagerService implements IAggregatorRegistry {
       configs[`native_${provider.getProviderName()}`] = provider.getConfig();
     }
 
+    for (const provider of this.intentProviders.values()) {
+      configs[`intent_${provider.getProviderName()}`] = provider.getConfig();
+    }
+
     return configs;
   }
 
@@ -1267,9 +2126,9 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     const healthyProviders: IOnchainAggregator[] = [];
     
     for (const provider of this.evmAggregators.values()) {
-      if (provider.supportsChain(chainId)) {
+      if (this.supportsChain(provider, chainId)) {
         const health = await this.getProviderHealth(provider);
-        if (health.status === 'healthy') {
+        if (health.status !== 'unhealthy') {
           healthyProviders.push(provider);
         }
       }
@@ -1277,8 +2136,8 @@ export class AggregatorManagerService implements IAggregatorRegistry {
 
     // Sort by latency (ascending)
     return healthyProviders.sort((a, b) => {
-      const healthA = this.healthCache.get(a.getProviderName());
-      const healthB = this.healthCache.get(b.getProviderName());
+      const healthA = this.healthMonitor.getLatest(a.getProviderName());
+      const healthB = this.healthMonitor.getLatest(b.getProviderName());
       return (healthA?.latency || 1000) - (healthB?.latency || 1000);
     });
   }
@@ -1286,12 +2145,24 @@ export class AggregatorManagerService implements IAggregatorRegistry {
   /**
    * Get healthy meta aggregators
    */
-  private async getHealthyMetaProviders(): Promise<IMetaAggregator[]> {
+  private async getHealthyMetaProviders(
+    request: RouteRequest,
+  ): Promise<IMetaAggregator[]> {
     const healthyProviders: IMetaAggregator[] = [];
     
     for (const provider of this.metaAggregators.values()) {
+      if (
+        !this.isAllowedByConfig(
+          provider,
+          request.fromChainId,
+          request.toChainId,
+        )
+      ) {
+        continue;
+      }
+
       const health = await this.getProviderHealth(provider);
-      if (health.status === 'healthy') {
+      if (health.status !== 'unhealthy') {
         healthyProviders.push(provider);
       }
     }
@@ -1306,8 +2177,12 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     const healthyProviders: ISolanaRouter[] = [];
     
     for (const provider of this.solanaRouters.values()) {
+      if (!this.isAllowedByConfig(provider)) {
+        continue;
+      }
+
       const health = await this.getProviderHealth(provider);
-      if (health.status === 'healthy') {
+      if (health.status !== 'unhealthy') {
         healthyProviders.push(provider);
       }
     }
@@ -1315,6 +2190,122 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     return healthyProviders;
   }
 
+  /**
+   * Find the preferred provider by name (ignoring case and punctuation, so 'lifi' matches 'LI.FI')
+   * or fail with the available alternatives
+   */
+  private resolvePreferredProvider<T extends IProvider>(
+    providers: T[],
+    preferredProvider: string,
+    category: string,
+  ): T {
+    const normalize = (name: string) =>
+      name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const provider = providers.find(
+      (p) => normalize(p.getProviderName()) === normalize(preferredProvider),
+    );
+
+    if (!provider) {
+      const available =
+        providers.map((p) => p.getProviderName()).join(', ') || 'none';
+      throw new Error(
+        `Preferred provider '${preferredProvider}' is not an available ${category}. Available: ${available}`,
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Native coin price in token base units, undefined when unavailable
+   */
+  private async lookupNativePrice(
+    chainId: number,
+    token: string,
+  ): Promise<bigint | undefined> {
+    try {
+      return await this.nativePriceSource?.getNativePrice(chainId, token);
+    } catch (error) {
+      this.logger.debug(
+        `Native price lookup failed for chain ${chainId}: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Annotate a quote with its gas cost in the buy token and its net output (raw buy amount without a price)
+   */
+  private withNetOutput(quote: SwapQuote, nativePrice?: bigint): SwapQuote {
+    const buyAmount = this.parseAmount(quote.buyAmount);
+    const gasCostWei = this.getQuoteGasCostWei(quote);
+    const gasCost =
+      nativePrice !== undefined && gasCostWei !== undefined
+        ? (gasCostWei * nativePrice) / 10n ** 18n
+        : undefined;
+
+    return {
+      ...quote,
+      gasCostInBuyToken: gasCost?.toString(),
+      netBuyAmount:
+        buyAmount !== undefined
+          ? (buyAmount - (gasCost ?? 0n)).toString()
+          : undefined,
+    };
+  }
+
+  /**
+   * Gas cost of an EVM quote in wei, undefined when the quote lacks gas units or a gas price
+   */
+  private getQuoteGasCostWei(quote: SwapQuote): bigint | undefined {
+    return calculateGasCostWei(
+      quote.estimatedGas || quote.gas,
+      quote.gasPrice,
+      quote.maxFeePerGas,
+    );
+  }
+
+  /**
+   * Parse an integer base-unit amount, undefined for missing or non-integer values
+   */
+  private parseAmount(value?: string): bigint | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      return BigInt(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Order routes by estimated output, highest first (amounts are integer base units)
+   */
+  private compareEstimatedOut(a: RouteQuote, b: RouteQuote): number {
+    try {
+      const diff =
+        BigInt(b.totalEstimatedOut || '0') - BigInt(a.totalEstimatedOut || '0');
+      return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    } catch {
+      // Fall back to float comparison for providers returning decimal amounts
+      return parseFloat(b.totalEstimatedOut) - parseFloat(a.totalEstimatedOut);
+    }
+  }
+
+  /**
+   * Sort comparator for exact-output routes: smaller input first, routes without an input amount last
+   */
+  private compareEstimatedIn(a: RouteQuote, b: RouteQuote): number {
+    const inA = this.parseAmount(a.totalEstimatedIn);
+    const inB = this.parseAmount(b.totalEstimatedIn);
+    if (inA === undefined || inB === undefined) {
+      return inA === undefined ? (inB === undefined ? 0 : 1) : -1;
+    }
+    return inA > inB ? 1 : inA < inB ? -1 : 0;
+  }
+
   /**
    * Get healthy native L1 routers for a destination chain
    */
@@ -1322,9 +2313,13 @@ export class AggregatorManagerService implements IAggregatorRegistry {
     const healthyProviders: INativeRouter[] = [];
     
     for (const provider of this.nativeRouters.values()) {
-      if (!destinationChainId || provider.getSupportedDestinations().includes(destinationChainId)) {
+      if (
+        destinationChainId
+          ? this.supportsChain(provider, destinationChainId)
+          : this.isAllowedByConfig(provider)
+      ) {
         const health = await this.getProviderHealth(provider);
-        if (health.status === 'healthy') {
+        if (health.status !== 'unhealthy') {
           healthyProviders.push(provider);
         }
       }
@@ -1334,29 +2329,38 @@ export class AggregatorManagerService implements IAggregatorRegistry {
   }
 
   /**
-   * Get provider health with caching
+   * Get healthy intent providers for a chain
+   */
+  private async getHealthyIntentProviders(
+    chainId: number,
+  ): Promise<IIntentProvider[]> {
+    const healthyProviders: IIntentProvider[] = [];
+
+    for (const provider of this.intentProviders.values()) {
+      if (this.supportsChain(provider, chainId)) {
+        const health = await this.getProviderHealth(provider);
+        if (health.status !== 'unhealthy') {
+          healthyProviders.push(provider);
+        }
+      }
+    }
+
+    return healthyProviders;
+  }
+
+  /**
+   * Get provider health from the health monitor (background probes merged with real traffic)
    */
   private async getProviderHealth(provider: IProvider): Promise<ProviderHealth> {
     const name = provider.getProviderName();
-    const cached = this.healthCache.get(name);
-    
-    if (cached && (Date.now() - cached.lastCheck.getTime()) < this.healthCacheTimeout) {
-      return cached;
-    }
+    const health = await this.healthMonitor.getHealth(provider);
 
-    try {
-      const health = await provider.healthCheck();
-      this.healthCache.set(name, health);
-      return health;
-    } catch (error) {
-      const failedHealth: ProviderHealth = {
-        name,
-        status: 'unhealthy',
-        lastCheck: new Date(),
-        errorRate: 1,
-      };
-      this.healthCache.set(name, failedHealth);
-      return failedHealth;
+    // Real quote failures override the probe: an open circuit is unhealthy until its probe succeeds
+    const circuitState = this.circuitBreaker.getState(name);
+    if (this.circuitBreaker.isOpen(name)) {
+      return { ...health, status: 'unhealthy', circuitState };
     }
+
+    return { ...health, circuitState };
   }
 }
@@ -3,7 +3,13 @@
  * Enables loose coupling and automatic discovery of swap providers
  */
 
-import type { IOnchainAggregator, IMetaAggregator, ISolanaRouter, INativeRouter } from '@swap/models/ports';
+import type {
+  IOnchainAggregator,
+  IMetaAggregator,
+  ISolanaRouter,
+  INativeRouter,
+  IIntentProvider,
+} from '@swap/models/ports';
 
 /**
  * Provider categories for registration
@@ -13,12 +19,18 @@ export enum ProviderCategory {
   META_AGGREGATOR = 'meta',
   SOLANA_ROUTER = 'solana',
   NATIVE_ROUTER = 'native',
+  INTENT_PROVIDER = 'intent',
 }
 
 /**
  * Provider types union
  */
-export type AnyProvider = IOnchainAggregator | IMetaAggregator | ISolanaRouter | INativeRouter;
+export type AnyProvider =
+  | IOnchainAggregator
+  | IMetaAggregator
+  | ISolanaRouter
+  | INativeRouter
+  | IIntentProvider;
 
 /**
  * Registry interface that providers use to register themselves
@@ -44,6 +56,11 @@ export interface IAggregatorRegistry {
    */
   registerNativeRouter(provider: INativeRouter): void;
 
+  /**
+   * Register an intent provider (signed orders settled by solvers)
+   */
+  registerIntentProvider(provider: IIntentProvider): void;
+
   /**
    * Generic registration method (auto-detects category)
    */
@@ -0,0 +1,110 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChainCapabilityService } from './chain-capability.service';
+
+describe('ChainCapabilityService', () => {
+  let snapshotDir: string;
+  const originalPath = process.env.CHAIN_CAPABILITY_SNAPSHOT_PATH;
+
+  beforeEach(() => {
+    snapshotDir = mkdtempSync(join(tmpdir(), 'chain-capabilities-'));
+    process.env.CHAIN_CAPABILITY_SNAPSHOT_PATH = join(
+      snapshotDir,
+      'snapshot.json',
+    );
+  });
+
+  afterEach(() => {
+    rmSync(snapshotDir, { recursive: true, force: true });
+    if (originalPath === undefined) {
+      delete process.env.CHAIN_CAPABILITY_SNAPSHOT_PATH;
+    } else {
+      process.env.CHAIN_CAPABILITY_SNAPSHOT_PATH = originalPath;
+    }
+  });
+
+  it('should serve the bundled list until discovery succeeds', async () => {
+    const registry = new ChainCapabilityService();
+    registry.register({
+      provider: '0x',
+      category: 'evm',
+      discover: () => Promise.resolve([1, 8453, 42161]),
+      fallback: [1, 10],
+    });
+
+    expect(registry.supports('0x', 10)).toBe(true);
+    expect(registry.supports('0x', 8453)).toBe(false);
+
+    await registry.refresh();
+
+    expect(registry.supports('0x', 10)).toBe(false);
+    expect(registry.supports('0x', 8453)).toBe(true);
+    expect(registry.getSnapshot()[0].source).toBe('upstream');
+  });
+
+  it('should keep the last known good list when discovery fails', async () => {
+    const discover = jest
+      .fn()
+      .mockResolvedValueOnce([1, 8453])
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    const registry = new ChainCapabilityService();
+    registry.register({
+      provider: 'Odos',
+      category: 'evm',
+      discover,
+      fallback: [1],
+    });
+
+    await registry.refresh();
+    await registry.refresh();
+
+    const [capability] = registry.getSnapshot();
+    expect(capability.chains).toEqual([1, 8453]);
+    expect(capability.source).toBe('upstream');
+    expect(capability.lastError).toBe('503 Service Unavailable');
+  });
+
+  it('should restore the persisted snapshot when upstream is down after a restart', async () => {
+    const first = new ChainCapabilityService();
+    first.register({
+      provider: 'LI.FI',
+      category: 'meta',
+      discover: () => Promise.resolve([1, 10, 324, 81457]),
+      fallback: [1, 10],
+    });
+    await first.refresh();
+
+    const restarted = new ChainCapabilityService();
+    restarted.register({
+      provider: 'LI.FI',
+      category: 'meta',
+      discover: () => Promise.reject(new Error('timeout')),
+      fallback: [1, 10],
+    });
+    await restarted.start();
+    restarted.onModuleDestroy();
+
+    const [capability] = restarted.getSnapshot();
+    expect(capability.chains).toEqual([1, 10, 324, 81457]);
+    expect(capability.source).toBe('snapshot');
+  });
+
+  it('should union chains by provider category', () => {
+    const registry = new ChainCapabilityService();
+    registry.register({ provider: '0x', category: 'evm', fallback: [137, 1] });
+    registry.register({
+      provider: 'Odos',
+      category: 'evm',
+      fallback: [1, 250],
+    });
+    registry.register({
+      provider: 'THORChain',
+      category: 'native',
+      fallback: [56],
+    });
+
+    expect(registry.getAllChains('evm')).toEqual([1, 137, 250]);
+    expect(registry.getAllChains()).toEqual([1, 56, 137, 250]);
+  });
+});
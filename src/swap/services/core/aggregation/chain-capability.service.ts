@@ -0,0 +1,271 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { ChainCapability } from '@swap/models/ports';
+
+/**
+ * How a provider's chains are discovered: an optional upstream lookup, and the bundled list used
+ * until the lookup (or a persisted snapshot) provides one
+ */
+export interface ChainDiscoverySource {
+  provider: string;
+  category: ChainCapability['category'];
+  discover?: () => Promise<number[]>;
+  fallback: number[];
+  // Configured allow-list; discovered chains outside it are dropped
+  allowedChains?: number[];
+}
+
+/**
+ * Persisted last known good list of a provider, as written to the snapshot file
+ */
+type ChainCapabilitySnapshotEntry = Pick<
+  ChainCapability,
+  'provider' | 'category' | 'chains' | 'source'
+> & {
+  updatedAt: string;
+};
+
+/**
+ * Chain capability registry
+ * Single source of chain support for registered providers: refreshes each provider's chains from
+ * upstream periodically, falls back to the bundled lists, and persists the last known good snapshot
+ * so a restart during an upstream outage keeps the discovered chains
+ */
+@Injectable()
+export class ChainCapabilityService implements OnModuleDestroy {
+  private readonly logger = new Logger(ChainCapabilityService.name);
+  private readonly sources = new Map<string, ChainDiscoverySource>();
+  private readonly capabilities = new Map<string, ChainCapability>();
+  private readonly refreshIntervalMs =
+    Number(process.env.CHAIN_CAPABILITY_REFRESH_MINUTES || 360) * 60 * 1000; // Default 6 hours
+  // An empty path disables persistence
+  private readonly snapshotPath =
+    process.env.CHAIN_CAPABILITY_SNAPSHOT_PATH ??
+    '.cache/chain-capabilities.json';
+  private refreshTimer?: NodeJS.Timeout;
+
+  /**
+   * Register a provider; it is served from its bundled list until discovery succeeds
+   */
+  register(source: ChainDiscoverySource): void {
+    const key = this.key(source.provider);
+    this.sources.set(key, source);
+
+    if (!this.capabilities.has(key)) {
+      this.capabilities.set(key, {
+        provider: source.provider,
+        category: source.category,
+        chains: this.normalize(source.fallback, source.allowedChains),
+        source: 'static',
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Load the persisted snapshot, run a first refresh, then refresh periodically
+   */
+  async start(): Promise<void> {
+    await this.loadSnapshot();
+    await this.refresh();
+
+    if (!this.refreshTimer && this.refreshIntervalMs > 0) {
+      this.refreshTimer = setInterval(() => {
+        this.refresh().catch((error: Error) =>
+          this.logger.warn(`Chain capability refresh failed: ${error.message}`),
+        );
+      }, this.refreshIntervalMs);
+      this.refreshTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+    }
+  }
+
+  /**
+   * Discover every provider's chains; failed lookups keep serving the previous list
+   */
+  async refresh(): Promise<void> {
+    const sources = Array.from(this.sources.values()).filter(
+      (source) => source.discover,
+    );
+    const results = await Promise.all(
+      sources.map((source) => this.refreshSource(source)),
+    );
+
+    if (results.some(Boolean)) {
+      await this.saveSnapshot();
+    }
+
+    this.logger.log(
+      `🔗 Chain capabilities refreshed: ${results.filter(Boolean).length}/${sources.length} providers discovered upstream, ${this.getAllChains().length} chains total`,
+    );
+  }
+
+  supports(provider: string, chainId: number): boolean {
+    return (
+      this.capabilities.get(this.key(provider))?.chains.includes(chainId) ??
+      false
+    );
+  }
+
+  getChains(provider: string): number[] {
+    return this.capabilities.get(this.key(provider))?.chains ?? [];
+  }
+
+  /**
+   * Union of all providers' chains, optionally for one provider category
+   */
+  getAllChains(category?: ChainCapability['category']): number[] {
+    const chains = new Set<number>();
+    for (const capability of this.capabilities.values()) {
+      if (!category || capability.category === category) {
+        capability.chains.forEach((chainId) => chains.add(chainId));
+      }
+    }
+
+    return Array.from(chains).sort((a, b) => a - b);
+  }
+
+  getSnapshot(): ChainCapability[] {
+    return Array.from(this.capabilities.values()).map((capability) => ({
+      ...capability,
+      chains: [...capability.chains],
+    }));
+  }
+
+  private async refreshSource(source: ChainDiscoverySource): Promise<boolean> {
+    const key = this.key(source.provider);
+
+    try {
+      const chains = this.normalize(
+        await source.discover!(),
+        source.allowedChains,
+      );
+      if (chains.length === 0) {
+        throw new Error('upstream returned no chains');
+      }
+
+      this.capabilities.set(key, {
+        provider: source.provider,
+        category: source.category,
+        chains,
+        source: 'upstream',
+        updatedAt: new Date(),
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const current = this.capabilities.get(key)!;
+      this.capabilities.set(key, { ...current, lastError: message });
+      this.logger.warn(
+        `⚠️ Chain discovery for ${source.provider} failed: ${message}, keeping ${current.source} list (${current.chains.length} chains)`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Replace bundled lists with the persisted last known good lists of registered providers
+   */
+  private async loadSnapshot(): Promise<void> {
+    if (!this.snapshotPath) {
+      return;
+    }
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(await fs.readFile(this.snapshotPath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(
+          `Unable to read chain capability snapshot ${this.snapshotPath}: ${(error as Error).message}`,
+        );
+      }
+      return;
+    }
+
+    for (const entry of Array.isArray(entries)
+      ? entries.filter(isSnapshotEntry)
+      : []) {
+      const key = this.key(entry.provider);
+      const current = this.capabilities.get(key);
+      const chains = this.normalize(
+        entry.chains,
+        this.sources.get(key)?.allowedChains,
+      );
+      if (current?.source === 'static' && chains.length > 0) {
+        this.capabilities.set(key, {
+          ...current,
+          chains,
+          source: 'snapshot',
+          updatedAt: new Date(entry.updatedAt),
+        });
+      }
+    }
+
+    this.logger.debug(
+      `Loaded chain capability snapshot from ${this.snapshotPath}`,
+    );
+  }
+
+  /**
+   * Persist the discovered lists (bundled lists are never persisted)
+   */
+  private async saveSnapshot(): Promise<void> {
+    if (!this.snapshotPath) {
+      return;
+    }
+
+    const entries: ChainCapabilitySnapshotEntry[] = this.getSnapshot()
+      .filter((capability) => capability.source !== 'static')
+      .map(({ provider, category, chains, source, updatedAt }) => ({
+        provider,
+        category,
+        chains,
+        source,
+        updatedAt: updatedAt.toISOString(),
+      }));
+
+    try {
+      await fs.mkdir(dirname(this.snapshotPath), { recursive: true });
+      await fs.writeFile(this.snapshotPath, JSON.stringify(entries, null, 2));
+    } catch (error) {
+      this.logger.warn(
+        `Unable to write chain capability snapshot ${this.snapshotPath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private normalize(chains: number[], allowedChains?: number[]): number[] {
+    return Array.from(new Set(chains.map(Number)))
+      .filter(
+        (chainId) =>
+          Number.isInteger(chainId) &&
+          chainId > 0 &&
+          (!allowedChains || allowedChains.includes(chainId)),
+      )
+      .sort((a, b) => a - b);
+  }
+
+  private key(provider: string): string {
+    return provider.toLowerCase();
+  }
+}
+
+function isSnapshotEntry(
+  entry: unknown,
+): entry is ChainCapabilitySnapshotEntry {
+  const candidate = entry as Partial<
+    Record<keyof ChainCapabilitySnapshotEntry, unknown>
+  > | null;
+  return (
+    typeof candidate?.provider === 'string' &&
+    Array.isArray(candidate.chains) &&
+    typeof candidate.updatedAt === 'string'
+  );
+}
@@ -0,0 +1,70 @@
+import { ProviderCircuitBreakerService } from './circuit-breaker.service';
+
+describe('ProviderCircuitBreakerService', () => {
+  let breaker: ProviderCircuitBreakerService;
+
+  const trip = (provider: string) => {
+    for (let i = 0; i < 5; i++) {
+      breaker.recordFailure(provider, 'timeout');
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new ProviderCircuitBreakerService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures and fail fast', () => {
+    breaker.recordFailure('0x', 'timeout');
+    breaker.recordFailure('0x', 'server');
+    expect(breaker.getState('0x')).toBe('CLOSED');
+
+    trip('0x');
+
+    expect(breaker.getState('0x')).toBe('OPEN');
+    expect(breaker.isOpen('0x')).toBe(true);
+    expect(breaker.tryAcquire('0x')).toBe(false);
+    expect(breaker.getSnapshot()[0]).toMatchObject({
+      provider: '0x',
+      state: 'OPEN',
+      lastFailure: { errorClass: 'timeout' },
+    });
+  });
+
+  it('should not trip on request-specific errors', () => {
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure('Odos', 'no-route');
+    }
+
+    expect(breaker.getState('Odos')).toBe('CLOSED');
+  });
+
+  it('should let a single probe through after the cooldown and close on success', () => {
+    trip('0x');
+    jest.advanceTimersByTime(30 * 1000);
+
+    expect(breaker.tryAcquire('0x')).toBe(true);
+    expect(breaker.getState('0x')).toBe('HALF_OPEN');
+    expect(breaker.tryAcquire('0x')).toBe(false);
+
+    breaker.recordSuccess('0x');
+
+    expect(breaker.getState('0x')).toBe('CLOSED');
+    expect(breaker.tryAcquire('0x')).toBe(true);
+  });
+
+  it('should reopen when the probe fails', () => {
+    trip('0x');
+    jest.advanceTimersByTime(30 * 1000);
+    breaker.tryAcquire('0x');
+
+    breaker.recordFailure('0x', 'timeout');
+
+    expect(breaker.getState('0x')).toBe('OPEN');
+    expect(breaker.tryAcquire('0x')).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  CircuitBreakerSnapshot,
+  CircuitState,
+  QuoteErrorClass,
+} from '@swap/models/ports';
+
+interface CircuitBreakerEntry {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure?: { errorClass: QuoteErrorClass; at: Date };
+  openedAt?: number;
+  probeStartedAt?: number;
+}
+
+// Request-specific errors show the provider is up, so they never trip the breaker
+export const REQUEST_ERRORS: QuoteErrorClass[] = [
+  'invalid-request',
+  'no-route',
+];
+
+/**
+ * Per-provider circuit breaker
+ * Trips after consecutive quote failures, fails fast while open, and lets one probe through
+ * after the cooldown before closing again
+ */
+@Injectable()
+export class ProviderCircuitBreakerService {
+  private readonly logger = new Logger(ProviderCircuitBreakerService.name);
+  private readonly circuits = new Map<string, CircuitBreakerEntry>();
+  private readonly failureThreshold = Number(
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || 5,
+  );
+  private readonly openDurationMs =
+    Number(process.env.CIRCUIT_BREAKER_OPEN_SECONDS || 30) * 1000; // Default 30 seconds
+
+  /**
+   * Whether a call may go to the provider; reserves the probe when an open circuit's cooldown has elapsed
+   */
+  tryAcquire(provider: string): boolean {
+    const circuit = this.getCircuit(provider);
+    const now = Date.now();
+
+    switch (circuit.state) {
+      case 'CLOSED':
+        return true;
+      case 'OPEN':
+        if (now - circuit.openedAt! < this.openDurationMs) {
+          return false;
+        }
+        circuit.state = 'HALF_OPEN';
+        circuit.probeStartedAt = now;
+        this.logger.log(`🔄 Circuit for ${provider} half-open, probing`);
+        return true;
+      case 'HALF_OPEN':
+        // One probe at a time; a probe that never settles is replaced after the cooldown
+        if (
+          circuit.probeStartedAt &&
+          now - circuit.probeStartedAt < this.openDurationMs
+        ) {
+          return false;
+        }
+        circuit.probeStartedAt = now;
+        return true;
+    }
+  }
+
+  /**
+   * Whether the provider is currently failing fast (open and still cooling down)
+   */
+  isOpen(provider: string): boolean {
+    const circuit = this.circuits.get(this.key(provider));
+    return (
+      !!circuit &&
+      circuit.state === 'OPEN' &&
+      Date.now() - circuit.openedAt! < this.openDurationMs
+    );
+  }
+
+  recordSuccess(provider: string): void {
+    const circuit = this.getCircuit(provider);
+    if (circuit.state !== 'CLOSED') {
+      this.logger.log(`✅ Circuit for ${provider} closed`);
+    }
+
+    circuit.state = 'CLOSED';
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = undefined;
+    circuit.probeStartedAt = undefined;
+  }
+
+  recordFailure(provider: string, errorClass: QuoteErrorClass): void {
+    if (REQUEST_ERRORS.includes(errorClass)) {
+      this.recordSuccess(provider);
+      return;
+    }
+
+    const circuit = this.getCircuit(provider);
+    circuit.consecutiveFailures++;
+    circuit.lastFailure = { errorClass, at: new Date() };
+
+    if (
+      circuit.state === 'HALF_OPEN' ||
+      circuit.consecutiveFailures >= this.failureThreshold
+    ) {
+      if (circuit.state !== 'OPEN') {
+        this.logger.warn(
+          `⚠️ Circuit for ${provider} opened after ${circuit.consecutiveFailures} consecutive failures (last: ${errorClass})`,
+        );
+      }
+      circuit.state = 'OPEN';
+      circuit.openedAt = Date.now();
+      circuit.probeStartedAt = undefined;
+    }
+  }
+
+  getState(provider: string): CircuitState {
+    return this.circuits.get(this.key(provider))?.state ?? 'CLOSED';
+  }
+
+  /**
+   * State of every provider that has been called
+   */
+  getSnapshot(): CircuitBreakerSnapshot[] {
+    return Array.from(this.circuits.values()).map((circuit) => ({
+      provider: circuit.provider,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastFailure: circuit.lastFailure,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt) : undefined,
+      retryAt:
+        circuit.state === 'OPEN'
+          ? new Date(circuit.openedAt! + this.openDurationMs)
+          : undefined,
+    }));
+  }
+
+  private getCircuit(provider: string): CircuitBreakerEntry {
+    const key = this.key(provider);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { provider, state: 'CLOSED', consecutiveFailures: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private key(provider: string): string {
+    return provider.toLowerCase();
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { formatUnits, parseUnits } from 'viem';
+import { CustomHttpService } from '@shared/services/http.service';
+import { isNativeToken } from '@shared/utils/chain.utils';
+import { INativePriceSource } from '@swap/models/ports';
+
+const ONE_NATIVE = 10n ** 18n; // EVM native coins use 18 decimals
+const LIFI_NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+interface TokenPrice {
+  // USD price as 18-decimal fixed point, so conversions stay in bigint
+  usd: bigint;
+  decimals: number;
+}
+
+// Fields of the LI.FI /token response used for pricing
+interface LifiTokenResponse {
+  priceUSD?: string;
+  decimals?: number;
+}
+
+/**
+ * Token prices from LI.FI token USD prices
+ * Used to convert route gas costs into the buy token, to build reference quotes for outlier checks
+ * and to size trades for split routing
+ */
+@Injectable()
+export class NativePriceService implements INativePriceSource {
+  private readonly logger = new Logger(NativePriceService.name);
+  private readonly baseUrl = process.env.PRICE_API_URL || 'https://li.quest/v1';
+  private readonly cache = new Map<
+    string,
+    { price?: TokenPrice; expiresAt: number }
+  >();
+  private readonly cacheTtlMs = 60 * 1000; // 1 minute
+
+  constructor(private readonly httpService: CustomHttpService) {}
+
+  /**
+   * Token base units worth one native coin, or undefined when either price is unavailable
+   */
+  async getNativePrice(
+    chainId: number,
+    token: string,
+  ): Promise<bigint | undefined> {
+    if (isNativeToken(token)) {
+      return ONE_NATIVE;
+    }
+
+    return this.getReferenceAmount(
+      chainId,
+      LIFI_NATIVE_TOKEN,
+      token,
+      ONE_NATIVE,
+    );
+  }
+
+  /**
+   * Buy token base units worth sellAmount of the sell token at USD prices, or undefined when unknown
+   */
+  async getReferenceAmount(
+    chainId: number,
+    sellToken: string,
+    buyToken: string,
+    sellAmount: bigint,
+  ): Promise<bigint | undefined> {
+    const [sell, buy] = await Promise.all([
+      this.getTokenPrice(chainId, sellToken),
+      this.getTokenPrice(chainId, buyToken),
+    ]);
+
+    if (!sell || !buy || buy.usd === 0n) {
+      return undefined;
+    }
+
+    return (
+      (sellAmount * sell.usd * 10n ** BigInt(buy.decimals)) /
+      (buy.usd * 10n ** BigInt(sell.decimals))
+    );
+  }
+
+  /**
+   * USD value of amount (token base units), or undefined when the price is unavailable
+   */
+  async getUsdValue(
+    chainId: number,
+    token: string,
+    amount: bigint,
+  ): Promise<number | undefined> {
+    const price = await this.getTokenPrice(chainId, token);
+    if (!price) {
+      return undefined;
+    }
+
+    // amount × usd has decimals + 18 fractional digits
+    return Number(formatUnits(amount * price.usd, price.decimals + 18));
+  }
+
+  private async getTokenPrice(
+    chainId: number,
+    token: string,
+  ): Promise<TokenPrice | undefined> {
+    const address = isNativeToken(token) ? LIFI_NATIVE_TOKEN : token;
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.price;
+    }
+
+    let price: TokenPrice | undefined;
+    try {
+      const queryParams = new URLSearchParams({
+        chain: chainId.toString(),
+        token: address,
+      });
+      const response = await this.httpService.get<LifiTokenResponse>(
+        `${this.baseUrl}/token?${queryParams.toString()}`,
+        {
+          timeout: 5000,
+          retries: 1,
+        },
+      );
+
+      if (response?.priceUSD && response.decimals !== undefined) {
+        price = {
+          usd: parseUnits(response.priceUSD, 18),
+          decimals: Number(response.decimals),
+        };
+      }
+    } catch (error) {
+      this.logger.debug(
+        `Price unavailable for ${address} on chain ${chainId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    // Misses are cached too so a missing price does not add a lookup to every quote
+    this.cache.set(key, { price, expiresAt: Date.now() + this.cacheTtlMs });
+    return price;
+  }
+}
@@ -0,0 +1,103 @@
+import { IProvider, ProviderHealth } from '@swap/models/ports';
+import { ProviderHealthMonitorService } from './provider-health-monitor.service';
+
+describe('ProviderHealthMonitorService', () => {
+  let monitor: ProviderHealthMonitorService;
+
+  const provider = (
+    name: string,
+    healthCheck: () => Promise<ProviderHealth>,
+  ): IProvider => ({
+    getProviderName: () => name,
+    healthCheck: jest.fn(healthCheck),
+    getConfig: () => ({ name, baseUrl: 'http://localhost', enabled: true }),
+  });
+
+  const up =
+    (latency = 50) =>
+    (): Promise<ProviderHealth> =>
+      Promise.resolve({
+        name: 'test',
+        status: 'healthy',
+        latency,
+        lastCheck: new Date(),
+      });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    monitor = new ProviderHealthMonitorService();
+  });
+
+  afterEach(() => {
+    monitor.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should report a provider whose probe fails as unhealthy and keep the history', async () => {
+    monitor.register(
+      provider('Socket', () =>
+        Promise.reject(new Error('HTTP 503 Service Unavailable')),
+      ),
+      'meta',
+    );
+    monitor.register(provider('LI.FI', up()), 'meta');
+
+    await monitor.probeAll();
+
+    const [socket, lifi] = monitor.getReport();
+    expect(socket).toMatchObject({
+      name: 'Socket',
+      status: 'unhealthy',
+      probe: { ok: false, error: 'HTTP 503 Service Unavailable' },
+    });
+    expect(socket.history).toHaveLength(1);
+    expect(lifi).toMatchObject({
+      name: 'LI.FI',
+      status: 'healthy',
+      latency: 50,
+      reasons: [],
+    });
+  });
+
+  it('should grade the error rate of real traffic against the SLO', async () => {
+    const zeroX = provider('0x', up());
+    monitor.register(zeroX, 'evm');
+
+    for (let i = 0; i < 9; i++) {
+      monitor.recordCall('0x', 200);
+    }
+    monitor.recordCall('0x', 200, 'server');
+    // Request-specific errors show the provider is up
+    monitor.recordCall('0x', 200, 'no-route');
+
+    const degraded = await monitor.getHealth(zeroX);
+    expect(degraded.status).toBe('degraded');
+    expect(degraded.errorRate).toBeCloseTo(1 / 11, 3);
+
+    for (let i = 0; i < 12; i++) {
+      monitor.recordCall('0x', 200, 'timeout');
+    }
+    expect(monitor.getLatest('0x')?.status).toBe('unhealthy');
+  });
+
+  it('should mark a slow provider as degraded', async () => {
+    monitor.register(provider('Odos', up(4000)), 'evm');
+
+    await monitor.probeAll();
+
+    const [odos] = monitor.getReport();
+    expect(odos.status).toBe('degraded');
+    expect(odos.reasons).toEqual(['probe latency 4000ms above 2000ms SLO']);
+  });
+
+  it('should probe in the background once started', async () => {
+    const healthCheck = jest.fn(up());
+    monitor.register(provider('0x', healthCheck), 'evm');
+
+    await monitor.start();
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+
+    expect(healthCheck).toHaveBeenCalledTimes(3);
+    expect(monitor.getReport()[0].history).toHaveLength(3);
+  });
+});
@@ -0,0 +1,315 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  IProvider,
+  ProviderHealth,
+  ProviderHealthReport,
+  ProviderHealthSample,
+  QuoteErrorClass,
+} from '@swap/models/ports';
+import { REQUEST_ERRORS } from './circuit-breaker.service';
+
+interface TrafficSample {
+  timestamp: number;
+  latencyMs: number;
+  failed: boolean;
+}
+
+interface MonitoredProvider {
+  provider: IProvider;
+  category: ProviderHealthReport['category'];
+  probe?: ProviderHealthReport['probe'];
+  // Status the provider reported about itself on the last probe
+  reportedStatus?: ProviderHealth['status'];
+  traffic: TrafficSample[];
+  history: ProviderHealthSample[];
+}
+
+/**
+ * Provider health monitor
+ * Probes every registered provider in the background, merges in the error rate and latency of real
+ * traffic, and grades each provider against the SLO thresholds: degraded above the SLO, unhealthy
+ * when the probe fails or most real calls fail
+ */
+@Injectable()
+export class ProviderHealthMonitorService implements OnModuleDestroy {
+  private readonly logger = new Logger(ProviderHealthMonitorService.name);
+  private readonly providers = new Map<string, MonitoredProvider>();
+  private readonly probeIntervalMs =
+    Number(process.env.HEALTH_PROBE_INTERVAL_SECONDS || 60) * 1000;
+  private readonly probeTimeoutMs = Number(
+    process.env.HEALTH_PROBE_TIMEOUT_MS || 5000,
+  );
+  private readonly trafficWindowMs =
+    Number(process.env.HEALTH_TRAFFIC_WINDOW_MINUTES || 5) * 60 * 1000;
+  // Live error rate is only graded with enough calls in the window
+  private readonly minCalls = Number(process.env.HEALTH_MIN_CALLS || 5);
+  private readonly sloErrorRate = Number(
+    process.env.HEALTH_SLO_ERROR_RATE || 0.05,
+  );
+  private readonly sloLatencyMs = Number(
+    process.env.HEALTH_SLO_LATENCY_MS || 2000,
+  );
+  private readonly unhealthyErrorRate = Number(
+    process.env.HEALTH_UNHEALTHY_ERROR_RATE || 0.5,
+  );
+  private readonly historySize = Number(process.env.HEALTH_HISTORY_SIZE || 60);
+  private readonly maxTrafficSamples = 500;
+  private probeTimer?: NodeJS.Timeout;
+
+  register(
+    provider: IProvider,
+    category: ProviderHealthReport['category'],
+  ): void {
+    const key = this.key(provider.getProviderName());
+    if (!this.providers.has(key)) {
+      this.providers.set(key, { provider, category, traffic: [], history: [] });
+    }
+  }
+
+  /**
+   * Probe every provider now, then on the probe interval
+   */
+  async start(): Promise<void> {
+    await this.probeAll();
+
+    if (!this.probeTimer && this.probeIntervalMs > 0) {
+      this.probeTimer = setInterval(() => {
+        this.probeAll().catch((error: Error) =>
+          this.logger.warn(`Health probes failed: ${error.message}`),
+        );
+      }, this.probeIntervalMs);
+      this.probeTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+    }
+  }
+
+  async probeAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.providers.values()).map((entry) => this.probe(entry)),
+    );
+
+    const unhealthy = this.getReport().filter(
+      (report) => report.status !== 'healthy',
+    );
+    if (unhealthy.length > 0) {
+      this.logger.warn(
+        `🩺 Providers not healthy: ${unhealthy.map((report) => `${report.name} (${report.status}: ${report.reasons.join('; ')})`).join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Record a real call to a provider; request-specific errors show the provider is up and do not count as failures
+   */
+  recordCall(
+    provider: string,
+    latencyMs: number,
+    errorClass?: QuoteErrorClass,
+  ): void {
+    const entry = this.providers.get(this.key(provider));
+    if (!entry) {
+      return;
+    }
+
+    const traffic = this.getTraffic(entry);
+    traffic.push({
+      timestamp: Date.now(),
+      latencyMs,
+      failed: errorClass !== undefined && !REQUEST_ERRORS.includes(errorClass),
+    });
+    entry.traffic = traffic.slice(-this.maxTrafficSamples);
+  }
+
+  /**
+   * Current health of a provider; one without a recent probe (monitor not started yet) is probed first
+   */
+  async getHealth(provider: IProvider): Promise<ProviderHealth> {
+    const entry = this.providers.get(this.key(provider.getProviderName()));
+    if (!entry) {
+      return provider.healthCheck();
+    }
+
+    if (
+      !entry.probe ||
+      Date.now() - entry.probe.at.getTime() > 2 * this.probeIntervalMs
+    ) {
+      await this.probe(entry);
+    }
+
+    const { name, status, latency, lastCheck, errorRate } = this.assess(entry);
+    return { name, status, latency, lastCheck, errorRate };
+  }
+
+  /**
+   * Latest assessment of a provider without probing, undefined until its first probe
+   */
+  getLatest(provider: string): ProviderHealth | undefined {
+    const entry = this.providers.get(this.key(provider));
+    return entry?.probe ? this.assess(entry) : undefined;
+  }
+
+  getReport(): ProviderHealthReport[] {
+    return Array.from(this.providers.values()).map((entry) =>
+      this.assess(entry),
+    );
+  }
+
+  private async probe(entry: MonitoredProvider): Promise<void> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const health = await Promise.race([
+        entry.provider.healthCheck(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(`probe timed out after ${this.probeTimeoutMs}ms`),
+              ),
+            this.probeTimeoutMs,
+          );
+        }),
+      ]);
+      const latency = health.latency ?? Date.now() - startedAt;
+
+      entry.reportedStatus = health.status;
+      entry.probe =
+        health.status === 'unhealthy'
+          ? {
+              at: new Date(),
+              ok: false,
+              latency,
+              error: 'provider reported unhealthy',
+            }
+          : { at: new Date(), ok: true, latency };
+    } catch (error) {
+      entry.reportedStatus = 'unhealthy';
+      entry.probe = {
+        at: new Date(),
+        ok: false,
+        latency: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const { status, latency, errorRate } = this.assess(entry);
+    entry.history = [
+      ...entry.history,
+      { at: entry.probe.at, status, latency, errorRate },
+    ].slice(-this.historySize);
+  }
+
+  /**
+   * Grade the latest probe and the real traffic in the window against the SLO thresholds
+   */
+  private assess(entry: MonitoredProvider): ProviderHealthReport {
+    const traffic = this.getTraffic(entry);
+    const failures = traffic.filter((sample) => sample.failed).length;
+    const errorRate =
+      traffic.length > 0 ? failures / traffic.length : undefined;
+    const p95LatencyMs = this.percentile(
+      traffic
+        .filter((sample) => !sample.failed)
+        .map((sample) => sample.latencyMs),
+      0.95,
+    );
+    const graded = traffic.length >= this.minCalls && errorRate !== undefined;
+
+    const unhealthy: string[] = [];
+    const degraded: string[] = [];
+
+    if (entry.probe && !entry.probe.ok) {
+      unhealthy.push(`probe failed: ${entry.probe.error}`);
+    }
+    if (graded && errorRate >= this.unhealthyErrorRate) {
+      unhealthy.push(
+        `${this.percent(errorRate)} of ${traffic.length} calls failed`,
+      );
+    } else if (graded && errorRate > this.sloErrorRate) {
+      degraded.push(
+        `error rate ${this.percent(errorRate)} above ${this.percent(this.sloErrorRate)} SLO`,
+      );
+    }
+    if (entry.probe?.ok && entry.probe.latency > this.sloLatencyMs) {
+      degraded.push(
+        `probe latency ${entry.probe.latency}ms above ${this.sloLatencyMs}ms SLO`,
+      );
+    }
+    if (
+      p95LatencyMs !== undefined &&
+      traffic.length >= this.minCalls &&
+      p95LatencyMs > this.sloLatencyMs
+    ) {
+      degraded.push(
+        `p95 latency ${p95LatencyMs}ms above ${this.sloLatencyMs}ms SLO`,
+      );
+    }
+    if (entry.reportedStatus === 'degraded') {
+      degraded.push('provider reported degraded');
+    }
+
+    const status: ProviderHealth['status'] =
+      unhealthy.length > 0
+        ? 'unhealthy'
+        : degraded.length > 0
+          ? 'degraded'
+          : 'healthy';
+
+    return {
+      name: entry.provider.getProviderName(),
+      category: entry.category,
+      status,
+      latency: entry.probe?.latency,
+      lastCheck: entry.probe?.at ?? new Date(),
+      errorRate:
+        errorRate !== undefined
+          ? Math.round(errorRate * 1000) / 1000
+          : undefined,
+      probe: entry.probe,
+      traffic: {
+        windowMinutes: this.trafficWindowMs / 60000,
+        calls: traffic.length,
+        failures,
+        p95LatencyMs,
+      },
+      reasons: [...unhealthy, ...degraded],
+      history: [...entry.history],
+    };
+  }
+
+  /**
+   * Traffic samples inside the window (older samples are dropped)
+   */
+  private getTraffic(entry: MonitoredProvider): TrafficSample[] {
+    const cutoff = Date.now() - this.trafficWindowMs;
+    entry.traffic = entry.traffic.filter((sample) => sample.timestamp > cutoff);
+    return entry.traffic;
+  }
+
+  private percentile(values: number[], percentile: number): number | undefined {
+    if (values.length === 0) {
+      return undefined;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[
+      Math.min(sorted.length - 1, Math.ceil(percentile * sorted.length) - 1)
+    ];
+  }
+
+  private percent(rate: number): string {
+    return `${Math.round(rate * 1000) / 10}%`;
+  }
+
+  private key(provider: string): string {
+    return provider.toLowerCase();
+  }
+}
@@ -0,0 +1,83 @@
+import { ProviderPerformanceService } from './provider-performance.service';
+
+describe('ProviderPerformanceService', () => {
+  let tracker: ProviderPerformanceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tracker = new ProviderPerformanceService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should score providers without data as neutral', () => {
+    const breakdown = tracker.getBreakdown('0x', 1);
+
+    expect(breakdown.attempts).toBe(0);
+    expect(breakdown.components).toEqual({
+      reliability: 25,
+      latency: 12.5,
+      price: 12.5,
+    });
+    expect(breakdown.score).toBe(50);
+  });
+
+  it('should score per provider and chain from attempts and price wins', () => {
+    tracker.recordAttempt('0x', 1, 400);
+    tracker.recordAttempt('0x', 1, 600);
+    tracker.recordAttempt('Odos', 1, 1500);
+    tracker.recordAttempt('Odos', 1, 5000, {
+      response: { status: 429 },
+      message: 'Request failed',
+    });
+    tracker.recordPriceComparison(1, ['0x', 'odos'], 'odos');
+
+    const zeroX = tracker.getBreakdown('0x', 1);
+    const odos = tracker.getBreakdown('odos', 1);
+
+    expect(zeroX.successRate).toBe(1);
+    expect(zeroX.medianLatencyMs).toBe(500);
+    expect(zeroX.priceWins).toBe(0);
+    expect(odos.successRate).toBe(0.5);
+    expect(odos.errors).toEqual({ 'rate-limit': 1 });
+    expect(odos.priceWins).toBe(1);
+    expect(zeroX.score).toBeGreaterThan(odos.score);
+
+    // Other chains keep their own history
+    expect(tracker.getBreakdown('0x', 137).attempts).toBe(0);
+  });
+
+  it('should forget samples outside the rolling window', () => {
+    tracker.recordAttempt(
+      '0x',
+      1,
+      500,
+      new Error('timeout of 20000ms exceeded'),
+    );
+
+    jest.advanceTimersByTime(61 * 60 * 1000);
+
+    expect(tracker.getBreakdown('0x', 1).attempts).toBe(0);
+  });
+
+  it('should classify provider errors', () => {
+    expect(
+      tracker.classifyError(new Error('timeout of 20000ms exceeded')),
+    ).toBe('timeout');
+    expect(tracker.classifyError(new Error('No route found'))).toBe('no-route');
+    expect(
+      tracker.classifyError({
+        response: { status: 503 },
+        message: 'Request failed',
+      }),
+    ).toBe('server');
+    expect(
+      tracker.classifyError({ status: 400, message: 'Request failed' }),
+    ).toBe('invalid-request');
+    expect(
+      tracker.classifyError(new Error('getaddrinfo ENOTFOUND api.0x.org')),
+    ).toBe('network');
+  });
+});
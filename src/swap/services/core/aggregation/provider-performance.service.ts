@@ -0,0 +1,242 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ProviderPerformanceBreakdown,
+  QuoteErrorClass,
+} from '@swap/models/ports';
+
+interface QuoteAttemptSample {
+  timestamp: number;
+  latencyMs: number;
+  success: boolean;
+  errorClass?: QuoteErrorClass;
+}
+
+interface PriceComparisonSample {
+  timestamp: number;
+  won: boolean;
+}
+
+// Score weights (sum to 100)
+const RELIABILITY_WEIGHT = 50;
+const LATENCY_WEIGHT = 25;
+const PRICE_WEIGHT = 25;
+
+/**
+ * Provider performance tracker
+ * Records every quote attempt per (provider, chainId) and how often the provider won on price,
+ * and scores providers from rolling windows of that data
+ */
+@Injectable()
+export class ProviderPerformanceService {
+  private readonly attempts = new Map<string, QuoteAttemptSample[]>();
+  private readonly comparisons = new Map<string, PriceComparisonSample[]>();
+  private readonly windowMs =
+    Number(process.env.PROVIDER_PERFORMANCE_WINDOW_MINUTES || 60) * 60 * 1000; // Default 1 hour
+  private readonly maxSamples = 500; // Per (provider, chainId), bounds memory on busy pairs
+  private readonly latencyBudgetMs = 3000; // Median latency at which the latency component reaches zero
+  private readonly minPercentileSamples = 10;
+
+  /**
+   * Record a quote attempt; pass the error for failed attempts
+   */
+  recordAttempt(
+    provider: string,
+    chainId: number,
+    latencyMs: number,
+    error?: any,
+  ): void {
+    this.append(this.attempts, this.key(provider, chainId), {
+      timestamp: Date.now(),
+      latencyMs,
+      success: !error,
+      errorClass: error ? this.classifyError(error) : undefined,
+    });
+  }
+
+  /**
+   * Record a price comparison between providers that returned quotes for the same request
+   */
+  recordPriceComparison(
+    chainId: number,
+    participants: string[],
+    winner: string,
+  ): void {
+    if (participants.length < 2) {
+      return; // Nothing was compared
+    }
+
+    const timestamp = Date.now();
+    for (const provider of participants) {
+      this.append(this.comparisons, this.key(provider, chainId), {
+        timestamp,
+        won: provider.toLowerCase() === winner.toLowerCase(),
+      });
+    }
+  }
+
+  /**
+   * Score a provider on a chain (0-100) from the rolling window, with the breakdown behind it
+   */
+  getBreakdown(
+    provider: string,
+    chainId: number,
+  ): ProviderPerformanceBreakdown {
+    const key = this.key(provider, chainId);
+    const attempts = this.getWindow(this.attempts, key);
+    const comparisons = this.getWindow(this.comparisons, key);
+
+    const successes = attempts.filter((sample) => sample.success);
+    const priceWins = comparisons.filter((sample) => sample.won).length;
+
+    const errors: Partial<Record<QuoteErrorClass, number>> = {};
+    for (const sample of attempts) {
+      if (sample.errorClass) {
+        errors[sample.errorClass] = (errors[sample.errorClass] || 0) + 1;
+      }
+    }
+
+    // Laplace smoothing: a provider without data scores 0.5 on each rate instead of 0 or 1
+    const smoothedSuccessRate = (successes.length + 1) / (attempts.length + 2);
+    const smoothedWinRate = (priceWins + 1) / (comparisons.length + 2);
+
+    const medianLatencyMs = this.median(
+      successes.map((sample) => sample.latencyMs),
+    );
+    const latencyFactor =
+      medianLatencyMs === undefined
+        ? 0.5
+        : Math.max(0, 1 - medianLatencyMs / this.latencyBudgetMs);
+
+    const components = {
+      reliability: round(RELIABILITY_WEIGHT * smoothedSuccessRate),
+      latency: round(LATENCY_WEIGHT * latencyFactor),
+      price: round(PRICE_WEIGHT * smoothedWinRate),
+    };
+
+    return {
+      provider,
+      chainId,
+      windowMinutes: this.windowMs / 60000,
+      attempts: attempts.length,
+      successRate: attempts.length
+        ? round(successes.length / attempts.length)
+        : 0,
+      medianLatencyMs,
+      errors,
+      priceComparisons: comparisons.length,
+      priceWins,
+      components,
+      score: round(
+        components.reliability + components.latency + components.price,
+      ),
+    };
+  }
+
+  /**
+   * Latency percentile (0-1) of successful quotes in the window, undefined until there is enough history
+   */
+  getLatencyPercentile(
+    provider: string,
+    chainId: number,
+    percentile: number,
+  ): number | undefined {
+    const latencies = this.getWindow(this.attempts, this.key(provider, chainId))
+      .filter((sample) => sample.success)
+      .map((sample) => sample.latencyMs)
+      .sort((a, b) => a - b);
+
+    if (latencies.length < this.minPercentileSamples) {
+      return undefined;
+    }
+
+    return latencies[
+      Math.min(
+        latencies.length - 1,
+        Math.ceil(percentile * latencies.length) - 1,
+      )
+    ];
+  }
+
+  /**
+   * Map a provider error to a coarse class
+   */
+  classifyError(error: unknown): QuoteErrorClass {
+    const details = (error ?? {}) as {
+      response?: { status?: number };
+      status?: number;
+      message?: string;
+    };
+    const status = details.response?.status ?? details.status;
+    const message = String(details.message || '').toLowerCase();
+
+    if (status === 429 || /rate limit|too many requests/.test(message))
+      return 'rate-limit';
+    if (/timeout|timed out|etimedout|econnaborted/.test(message))
+      return 'timeout';
+    if (
+      /no route|no liquidity|insufficient liquidity|no path|no swap/.test(
+        message,
+      )
+    )
+      return 'no-route';
+    if (
+      status === 400 ||
+      status === 422 ||
+      /invalid|bad request|validation/.test(message)
+    )
+      return 'invalid-request';
+    if (
+      (status !== undefined && status >= 500) ||
+      /internal server|service unavailable|bad gateway/.test(message)
+    )
+      return 'server';
+    if (/econnrefused|enotfound|econnreset|network/.test(message))
+      return 'network';
+    return 'unknown';
+  }
+
+  private key(provider: string, chainId: number): string {
+    return `${provider.toLowerCase()}:${chainId}`;
+  }
+
+  private append<T extends { timestamp: number }>(
+    store: Map<string, T[]>,
+    key: string,
+    sample: T,
+  ): void {
+    const samples = this.getWindow(store, key);
+    samples.push(sample);
+    store.set(key, samples.slice(-this.maxSamples));
+  }
+
+  /**
+   * Samples inside the rolling window (older samples are dropped from the store)
+   */
+  private getWindow<T extends { timestamp: number }>(
+    store: Map<string, T[]>,
+    key: string,
+  ): T[] {
+    const cutoff = Date.now() - this.windowMs;
+    const samples = (store.get(key) || []).filter(
+      (sample) => sample.timestamp > cutoff,
+    );
+    store.set(key, samples);
+    return samples;
+  }
+
+  private median(values: number[]): number | undefined {
+    if (values.length === 0) {
+      return undefined;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]
+      : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
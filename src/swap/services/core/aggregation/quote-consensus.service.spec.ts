@@ -0,0 +1,122 @@
+import { QuoteConsensusService } from './quote-consensus.service';
+import {
+  AggregatorType,
+  SwapQuote,
+  SwapRequest,
+} from '@swap/models/swap-request.model';
+
+describe('QuoteConsensusService', () => {
+  const request: SwapRequest = {
+    chainId: 1,
+    sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+    buyToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    sellAmount: '1000000000000000000',
+    taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  };
+
+  const quote = (aggregator: string, buyAmount: string) => ({
+    aggregator: aggregator as AggregatorType,
+    quote: { buyAmount, aggregator } as unknown as SwapQuote,
+  });
+
+  it('should exclude a quote far above the median of its peers', async () => {
+    const service = new QuoteConsensusService();
+
+    const result = await service.check(
+      [
+        quote('0x', '3000000000'),
+        quote('odos', '4100000000'),
+        quote('1inch', '2990000000'),
+      ],
+      request,
+    );
+
+    expect(result.quotes.map((q) => q.aggregator)).toEqual(['0x', '1inch']);
+    expect(result.outliers).toEqual([
+      expect.objectContaining({
+        aggregator: 'odos',
+        reason: 'above-consensus',
+        deviationBps: 3666,
+        excluded: true,
+      }),
+    ]);
+  });
+
+  it('should not run the median check with fewer than three quotes', async () => {
+    const service = new QuoteConsensusService();
+
+    const result = await service.check(
+      [quote('0x', '3000000000'), quote('odos', '4100000000')],
+      request,
+    );
+
+    expect(result.quotes).toHaveLength(2);
+    expect(result.outliers).toEqual([]);
+  });
+
+  it('should compare quotes with the reference price when available', async () => {
+    // 1 ETH = 3000 USDC at reference prices
+    const service = new QuoteConsensusService({
+      getNativePrice: () => Promise.resolve(3000_000000n),
+      getReferenceAmount: () => Promise.resolve(3000_000000n),
+    });
+
+    const result = await service.check(
+      [quote('0x', '2990000000'), quote('odos', '2400000000')],
+      request,
+    );
+
+    expect(result.quotes.map((q) => q.aggregator)).toEqual(['0x']);
+    expect(result.outliers[0]).toMatchObject({
+      aggregator: 'odos',
+      reason: 'below-reference',
+      deviationBps: -2000,
+      excluded: true,
+    });
+  });
+
+  it('should compare sell amounts for exact-output requests', async () => {
+    const service = new QuoteConsensusService();
+    const exactOut = (aggregator: string, sellAmount: string) => {
+      const result = quote(aggregator, '3000000000');
+      return { ...result, quote: { ...result.quote, sellAmount } };
+    };
+
+    const result = await service.check(
+      [
+        exactOut('0x', '1000000000000000000'),
+        exactOut('odos', '600000000000000000'),
+        exactOut('1inch', '1005000000000000000'),
+      ],
+      {
+        ...request,
+        sellAmount: '1200000000000000000',
+        buyAmount: '3000000000',
+      },
+    );
+
+    expect(result.quotes.map((q) => q.aggregator)).toEqual(['0x', '1inch']);
+    expect(result.outliers[0]).toMatchObject({
+      aggregator: 'odos',
+      sellAmount: '600000000000000000',
+      reason: 'below-consensus',
+      excluded: true,
+    });
+  });
+
+  it('should keep and flag outliers when no sane quote is left', async () => {
+    const service = new QuoteConsensusService({
+      getNativePrice: () => Promise.resolve(3000_000000n),
+      getReferenceAmount: () => Promise.resolve(3000_000000n),
+    });
+
+    const result = await service.check([quote('0x', '2400000000')], request);
+
+    expect(result.quotes).toHaveLength(1);
+    expect(result.quotes[0].quote.outlier).toMatchObject({
+      reason: 'below-reference',
+      excluded: false,
+    });
+    expect(result.outliers[0].excluded).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+import { Injectable, Logger, Optional, Inject } from '@nestjs/common';
+import type { INativePriceSource } from '@swap/models/ports';
+import {
+  ProviderId,
+  QuoteOutlier,
+  QuoteOutlierReason,
+  SwapQuote,
+  SwapRequest,
+} from '@swap/models/swap-request.model';
+import { NativePriceService } from './native-price.service';
+
+type AggregatorQuote = { aggregator: ProviderId; quote: SwapQuote };
+
+/**
+ * Consensus check over concurrent EVM quotes
+ * Compares each buyAmount (sellAmount for exact-output requests) with the median of its peers and with
+ * a reference price, and drops outliers so a broken adapter response or a manipulated pool cannot win routing
+ */
+@Injectable()
+export class QuoteConsensusService {
+  private readonly logger = new Logger(QuoteConsensusService.name);
+  private readonly consensusBandBps = Number(
+    process.env.QUOTE_CONSENSUS_BAND_BPS || 300,
+  ); // Default 3% around the median
+  private readonly referenceBandBps = Number(
+    process.env.QUOTE_REFERENCE_BAND_BPS || 1000,
+  ); // Default 10% around the reference price
+  private readonly minConsensusQuotes = 3; // With two quotes there is no majority to tell which one is off
+
+  constructor(
+    @Optional()
+    @Inject(NativePriceService)
+    private readonly priceSource?: INativePriceSource,
+  ) {}
+
+  /**
+   * Split quotes into those that pass the consensus check and outliers with their reasons
+   * Outliers are excluded while at least one sane quote remains; otherwise they are kept and flagged
+   */
+  async check(
+    quotes: AggregatorQuote[],
+    request: SwapRequest,
+  ): Promise<{ quotes: AggregatorQuote[]; outliers: QuoteOutlier[] }> {
+    const exactOutput = !!request.buyAmount;
+    const amounts = quotes.map(({ quote }) =>
+      this.parseAmount(exactOutput ? quote.sellAmount : quote.buyAmount),
+    );
+    const findings = new Map<number, Omit<QuoteOutlier, 'excluded'>>();
+
+    const median = this.median(
+      amounts.filter((amount): amount is bigint => amount !== undefined),
+    );
+    if (
+      median !== undefined &&
+      median > 0n &&
+      quotes.length >= this.minConsensusQuotes
+    ) {
+      quotes.forEach(({ aggregator, quote }, index) => {
+        const finding = this.compare(
+          aggregator,
+          quote,
+          exactOutput,
+          amounts[index],
+          median,
+          this.consensusBandBps,
+          'consensus',
+          'median of concurrent quotes',
+        );
+        if (finding) findings.set(index, finding);
+      });
+    }
+
+    const reference = await this.getReferenceAmount(request);
+    if (reference !== undefined && reference > 0n) {
+      quotes.forEach(({ aggregator, quote }, index) => {
+        if (findings.has(index)) return;
+        const finding = this.compare(
+          aggregator,
+          quote,
+          exactOutput,
+          amounts[index],
+          reference,
+          this.referenceBandBps,
+          'reference',
+          'reference price',
+        );
+        if (finding) findings.set(index, finding);
+      });
+    }
+
+    if (findings.size === 0) {
+      return { quotes, outliers: [] };
+    }
+
+    // Never exclude every quote: when nothing sane is left, keep them all but flag the outliers
+    const exclude = findings.size < quotes.length;
+    const outliers = Array.from(findings.values()).map((finding) => ({
+      ...finding,
+      excluded: exclude,
+    }));
+    outliers.forEach((outlier) =>
+      this.logger.warn(
+        `⚠️ Quote outlier from ${outlier.aggregator} (${exclude ? 'excluded' : 'kept'}): ${outlier.detail}`,
+      ),
+    );
+
+    const kept = exclude
+      ? quotes.filter((_, index) => !findings.has(index))
+      : quotes.map((result, index) => {
+          const finding = findings.get(index);
+          return finding
+            ? {
+                ...result,
+                quote: {
+                  ...result.quote,
+                  outlier: { ...finding, excluded: false },
+                },
+              }
+            : result;
+        });
+
+    return { quotes: kept, outliers };
+  }
+
+  private compare(
+    aggregator: ProviderId,
+    quote: SwapQuote,
+    exactOutput: boolean,
+    amount: bigint | undefined,
+    anchor: bigint,
+    bandBps: number,
+    kind: 'consensus' | 'reference',
+    anchorLabel: string,
+  ): Omit<QuoteOutlier, 'excluded'> | undefined {
+    if (amount === undefined) {
+      return undefined;
+    }
+
+    const deviationBps = Number(((amount - anchor) * 10000n) / anchor);
+    if (Math.abs(deviationBps) <= bandBps) {
+      return undefined;
+    }
+
+    const reason: QuoteOutlierReason = `${deviationBps > 0 ? 'above' : 'below'}-${kind}`;
+    return {
+      aggregator,
+      buyAmount: quote.buyAmount,
+      sellAmount: exactOutput ? quote.sellAmount : undefined,
+      reason,
+      deviationBps,
+      detail: `${exactOutput ? 'sellAmount' : 'buyAmount'} ${amount.toString()} is ${(Math.abs(deviationBps) / 100).toFixed(2)}% ${deviationBps > 0 ? 'above' : 'below'} the ${anchorLabel} (${anchor.toString()}), outside the ±${bandBps / 100}% band`,
+    };
+  }
+
+  /**
+   * Reference buy amount for the sell amount, or for exact-output requests the reference sell amount for the buy amount
+   */
+  private async getReferenceAmount(
+    request: SwapRequest,
+  ): Promise<bigint | undefined> {
+    const exactOutput = !!request.buyAmount;
+    const amount = this.parseAmount(
+      exactOutput ? request.buyAmount : request.sellAmount,
+    );
+    if (!this.priceSource?.getReferenceAmount || amount === undefined) {
+      return undefined;
+    }
+
+    try {
+      return exactOutput
+        ? await this.priceSource.getReferenceAmount(
+            request.chainId,
+            request.buyToken,
+            request.sellToken,
+            amount,
+          )
+        : await this.priceSource.getReferenceAmount(
+            request.chainId,
+            request.sellToken,
+            request.buyToken,
+            amount,
+          );
+    } catch (error) {
+      this.logger.debug(
+        `Reference price unavailable for chain ${request.chainId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return undefined;
+    }
+  }
+
+  private median(values: bigint[]): bigint | undefined {
+    if (values.length === 0) {
+      return undefined;
+    }
+
+    const sorted = [...values].sort((a, b) => (a > b ? 1 : a < b ? -1 : 0));
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2n;
+  }
+
+  private parseAmount(value?: string): bigint | undefined {
+    try {
+      return value ? BigInt(value) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
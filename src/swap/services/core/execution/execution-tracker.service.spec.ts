@@ -0,0 +1,65 @@
+import { NotFoundException } from '@nestjs/common';
+import { UniversalExecution } from '@swap/models/execution.model';
+import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
+import { AggregatorManagerService } from '../aggregation/aggregator-manager.service';
+import { ExecutionTrackerService } from './execution-tracker.service';
+
+describe('ExecutionTrackerService', () => {
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  let tracker: ExecutionTrackerService;
+
+  const execution = (
+    executionId: string,
+    status: UniversalExecution['status'],
+    updatedAt: Date,
+  ): UniversalExecution => ({
+    executionId,
+    routeId: `route-${executionId}`,
+    provider: 'lifi',
+    status,
+    steps: [],
+    buyToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    recipient: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    createdAt: updatedAt,
+    updatedAt,
+  });
+
+  beforeEach(() => {
+    tracker = new ExecutionTrackerService(
+      {} as WalletService,
+      {} as AggregatorManagerService,
+    );
+  });
+
+  afterEach(() => {
+    tracker.onModuleDestroy();
+  });
+
+  it('should report unknown executions as not found', () => {
+    expect(() => tracker.get('missing')).toThrow(NotFoundException);
+  });
+
+  it('should evict executions untouched for the retention period and keep recent ones', () => {
+    tracker.register(
+      execution('finished', 'SUCCESS', new Date(Date.now() - dayMs - 1000)),
+    );
+    tracker.register(
+      execution('recent', 'SUCCESS', new Date(Date.now() - 1000)),
+    );
+    tracker.register(execution('fresh', 'PENDING', new Date()));
+
+    expect(() => tracker.get('finished')).toThrow(NotFoundException);
+    expect(tracker.get('recent').status).toBe('SUCCESS');
+  });
+
+  it('should keep executions that are still being polled past the retention period', () => {
+    tracker.register(
+      execution('polled', 'PENDING', new Date(Date.now() - dayMs - 1000)),
+    );
+    tracker.startTracking('polled');
+    tracker.register(execution('fresh', 'PENDING', new Date()));
+
+    expect(tracker.get('polled').status).toBe('PENDING');
+  });
+});
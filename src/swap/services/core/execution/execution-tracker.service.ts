@@ -0,0 +1,356 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ExecutionStatus, ExecutionStatusDetails } from '@swap/models/ports';
+import {
+  ExecutionStep,
+  ExecutionStatusReport,
+  NativeDeposit,
+  UniversalExecution,
+} from '@swap/models/execution.model';
+import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
+import { AggregatorManagerService } from '../aggregation/aggregator-manager.service';
+
+/**
+ * Execution registry keyed by executionId
+ * Polls wallet providers, meta aggregators, native routers and intent providers until each execution is final
+ */
+@Injectable()
+export class ExecutionTrackerService implements OnModuleDestroy {
+  private readonly logger = new Logger(ExecutionTrackerService.name);
+  private readonly executions = new Map<string, UniversalExecution>();
+  private readonly pollTimers = new Map<string, NodeJS.Timeout>();
+  private readonly pollIntervalMs = 15 * 1000; // 15 seconds
+  private readonly maxPollDurationMs = 2 * 60 * 60 * 1000; // 2 hours (native L1 swaps can take a while)
+  private readonly retentionMs =
+    Number(process.env.EXECUTION_RETENTION_SECONDS || 24 * 60 * 60) * 1000; // Default 24 hours
+
+  constructor(
+    private readonly walletService: WalletService,
+    private readonly aggregatorManager: AggregatorManagerService,
+  ) {}
+
+  onModuleDestroy() {
+    for (const timer of this.pollTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.pollTimers.clear();
+  }
+
+  /**
+   * Register a prepared execution
+   */
+  register(execution: UniversalExecution): void {
+    this.pruneExpired();
+    this.executions.set(execution.executionId, execution);
+  }
+
+  /**
+   * Get execution by ID
+   */
+  get(executionId: string): UniversalExecution {
+    const execution = this.executions.get(executionId);
+    if (!execution) {
+      throw new NotFoundException(`Unknown executionId: ${executionId}`);
+    }
+    return execution;
+  }
+
+  /**
+   * Start background polling for submitted steps of an execution
+   */
+  startTracking(executionId: string): void {
+    const execution = this.get(executionId);
+    if (this.pollTimers.has(executionId) || this.isFinal(execution.status)) {
+      return;
+    }
+
+    this.schedulePoll(executionId, Date.now());
+  }
+
+  /**
+   * Refresh an execution from its ports and build the status report
+   */
+  async getStatusReport(executionId: string): Promise<ExecutionStatusReport> {
+    const execution = this.get(executionId);
+    await this.refresh(execution);
+
+    const steps = execution.steps.map((step) => ({
+      index: step.index,
+      type: step.type,
+      status: this.toExecutionStatus(step),
+      txHash: step.txHash,
+      destinationTxHash: step.destinationTxHash,
+      orderId: step.orderId,
+      error: step.error,
+    }));
+
+    // The last transaction step carries the user's funds; earlier ones are approvals
+    const mainStep = [...execution.steps]
+      .reverse()
+      .find(
+        (step) => step.type !== 'approval' && step.type !== 'permit2-signature',
+      );
+
+    return {
+      executionId: execution.executionId,
+      routeId: execution.routeId,
+      provider: execution.provider,
+      status: execution.status,
+      sourceTxHash: mainStep?.txHash,
+      destinationTxHash: mainStep?.destinationTxHash,
+      amountReceived: mainStep?.amountReceived,
+      steps,
+      updatedAt: execution.updatedAt,
+    };
+  }
+
+  /**
+   * Poll the status of every submitted step and recompute the execution status
+   */
+  async refresh(execution: UniversalExecution): Promise<void> {
+    if (this.isFinal(execution.status)) {
+      return;
+    }
+
+    for (const step of execution.steps) {
+      if (step.status !== 'SUBMITTED' || !(step.txHash || step.orderId)) {
+        continue;
+      }
+
+      try {
+        await this.refreshStep(execution, step);
+      } catch (error) {
+        // Status lookups are best effort; the next poll will retry
+        this.logger.debug(
+          `Status check for step ${step.index} of execution ${execution.executionId} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    execution.status = this.computeExecutionStatus(execution);
+    execution.updatedAt = new Date();
+  }
+
+  /**
+   * Poll the port responsible for a single step
+   */
+  private async refreshStep(
+    execution: UniversalExecution,
+    step: ExecutionStep,
+  ): Promise<void> {
+    if (step.type === 'order-signature') {
+      // Solvers settle the order; its settlement transaction is the step's transaction
+      const details = await this.aggregatorManager.getIntentOrderStatus(
+        execution.provider,
+        Number(step.chainId),
+        step.orderId!,
+      );
+      step.txHash = details.destinationTxHash || step.txHash;
+      this.applyStatusDetails(step, details);
+      return;
+    }
+
+    const txHash = step.txHash!;
+
+    if (step.type === 'deposit') {
+      const deposit = step.transaction as NativeDeposit;
+      const details = await this.aggregatorManager.getNativeDepositStatus(
+        execution.provider,
+        txHash,
+        deposit.memo,
+      );
+      this.applyStatusDetails(step, details);
+      return;
+    }
+
+    const sourceStatus = await this.walletService.getTransactionStatus(
+      step.chainId,
+      txHash,
+      step.ecosystem,
+    );
+    if (sourceStatus.status === 'failed') {
+      step.status = 'FAILED';
+      step.error = 'Transaction reverted on source chain';
+      return;
+    }
+
+    if (sourceStatus.status === 'pending') {
+      return;
+    }
+
+    if (step.type === 'bridge') {
+      // Source leg confirmed; the bridge provider reports the destination leg
+      const details = await this.aggregatorManager.getCrossChainStatus(
+        execution.provider,
+        txHash,
+      );
+      this.applyStatusDetails(step, details);
+      return;
+    }
+
+    step.status = 'CONFIRMED';
+
+    if (step.type === 'swap' && sourceStatus.receipt) {
+      step.destinationTxHash = txHash;
+      step.amountReceived = this.getAmountReceived(
+        execution,
+        step,
+        sourceStatus.receipt,
+      );
+    }
+  }
+
+  /**
+   * Apply destination-side status details from a meta aggregator, native router or intent provider
+   */
+  private applyStatusDetails(
+    step: ExecutionStep,
+    details: ExecutionStatusDetails,
+  ): void {
+    step.destinationTxHash =
+      details.destinationTxHash || step.destinationTxHash;
+    step.amountReceived = details.amountReceived || step.amountReceived;
+
+    switch (details.status) {
+      case 'SUCCESS':
+        step.status = 'CONFIRMED';
+        break;
+      case 'PARTIAL':
+        step.status = 'PARTIAL';
+        break;
+      case 'FAILED':
+        step.status = 'FAILED';
+        step.error =
+          details.error || 'Provider reported the transfer as failed';
+        break;
+      default:
+        // Still pending on the destination chain
+        break;
+    }
+  }
+
+  /**
+   * Sum buy token transfers to the recipient from a confirmed swap receipt
+   */
+  private getAmountReceived(
+    execution: UniversalExecution,
+    step: ExecutionStep,
+    receipt: any,
+  ): string | undefined {
+    const transfers = this.walletService.parseTransactionReceipt(
+      receipt,
+      execution.buyToken,
+      step.chainId,
+      step.ecosystem,
+    );
+    const received = transfers
+      .filter(
+        (transfer) =>
+          transfer.to.toLowerCase() === execution.recipient.toLowerCase(),
+      )
+      .reduce((total, transfer) => total + transfer.amount, 0n);
+
+    return received > 0n ? received.toString() : undefined;
+  }
+
+  /**
+   * Derive the overall execution status from its steps
+   */
+  private computeExecutionStatus(
+    execution: UniversalExecution,
+  ): ExecutionStatus {
+    const statuses = execution.steps.map((step) =>
+      this.toExecutionStatus(step),
+    );
+
+    if (statuses.includes('FAILED')) {
+      return 'FAILED';
+    }
+
+    if (statuses.includes('PENDING')) {
+      return 'PENDING';
+    }
+
+    return statuses.includes('PARTIAL') ? 'PARTIAL' : 'SUCCESS';
+  }
+
+  /**
+   * Map the step lifecycle to the execution status reported to clients
+   */
+  private toExecutionStatus(step: ExecutionStep): ExecutionStatus {
+    switch (step.status) {
+      case 'CONFIRMED':
+      case 'SIGNED':
+        return 'SUCCESS';
+      case 'PARTIAL':
+        return 'PARTIAL';
+      case 'FAILED':
+        return 'FAILED';
+      default:
+        return 'PENDING';
+    }
+  }
+
+  private isFinal(status: ExecutionStatus): boolean {
+    return status !== 'PENDING';
+  }
+
+  /**
+   * Schedule the next poll until the execution is final or the poll window expires
+   */
+  private schedulePoll(executionId: string, startedAt: number): void {
+    const timer = setTimeout(() => {
+      this.pollTimers.delete(executionId);
+      const execution = this.executions.get(executionId);
+      if (!execution) {
+        return;
+      }
+
+      void this.refresh(execution).then(() => {
+        if (this.isFinal(execution.status)) {
+          this.logger.log(
+            `🏁 Execution ${executionId} finished with status ${execution.status}`,
+          );
+          return;
+        }
+
+        if (Date.now() - startedAt > this.maxPollDurationMs) {
+          this.logger.warn(
+            `⚠️ Stopped polling execution ${executionId} after ${this.maxPollDurationMs / 60000} minutes`,
+          );
+          return;
+        }
+
+        this.schedulePoll(executionId, startedAt);
+      });
+    }, this.pollIntervalMs);
+
+    this.pollTimers.set(executionId, timer);
+  }
+
+  /**
+   * Drop executions that are no longer polled and have not changed for the retention period
+   * Finished executions stay queryable until then; abandoned unsigned ones are dropped the same way
+   */
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    let pruned = 0;
+    for (const [executionId, execution] of this.executions.entries()) {
+      if (
+        !this.pollTimers.has(executionId) &&
+        execution.updatedAt.getTime() <= cutoff
+      ) {
+        this.executions.delete(executionId);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      this.logger.debug(`Pruned ${pruned} expired executions`);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { QuoteService } from './quote.service';
 import { AggregatorManagerService } from '../aggregation/aggregator-manager.service';
 import { AggregatorType } from '@swap/models/swap-request.model';
+import { ChainListService } from '@shared/services/chainlist.service';
 
 describe('QuoteService', () => {
   let service: QuoteService;
@@ -14,6 +15,10 @@ describe('QuoteService', () => {
     isAggregatorSupported: jest.fn(),
   };
 
+  const mockChainListService = {
+    getChainInfo: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -22,6 +27,10 @@ describe('QuoteService', () => {
           provide: AggregatorManagerService,
           useValue: mockAggregatorManager,
         },
+        {
+          provide: ChainListService,
+          useValue: mockChainListService,
+        },
       ],
     }).compile();
 
@@ -40,17 +49,17 @@ describe('QuoteService', () => {
   describe('getQuote', () => {
     it('should get quote from aggregator manager', async () => {
       const mockQuote = {
-        sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         sellAmount: '1000000000000000000',
         buyAmount: '2000000000000000000',
         minBuyAmount: '1900000000000000000',
         gas: '200000',
         gasPrice: '20000000000',
-        to: '0xC0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        to: '0xc0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         data: '0x1234567890abcdef',
         value: '0',
-        allowanceTarget: '0xD0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        allowanceTarget: '0xd0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         aggregator: AggregatorType.ZEROX,
         priceImpact: '0.1',
         estimatedGas: '200000',
@@ -60,23 +69,24 @@ describe('QuoteService', () => {
 
       const result = await service.getQuote(
         1,
-        '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         '1000000000000000000',
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       );
 
       expect(result).toEqual(mockQuote);
       expect(mockAggregatorManager.getQuote).toHaveBeenCalledWith(
         expect.objectContaining({
           chainId: 1,
-          sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-          buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+          sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+          buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
           sellAmount: '1000000000000000000',
-          taker: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
-          recipient: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+          taker: '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
+          recipient: '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
         }),
         undefined,
+        undefined,
       );
     });
 
@@ -85,9 +95,9 @@ describe('QuoteService', () => {
         service.getQuote(
           1,
           'invalid-address',
-          '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+          '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
           '1000000000000000000',
-          '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+          '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
         ),
       ).rejects.toThrow('Invalid token address format');
     });
@@ -96,10 +106,10 @@ describe('QuoteService', () => {
       await expect(
         service.getQuote(
           1,
-          '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-          '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+          '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+          '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
           '1000000000000000000',
-          '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+          '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
         ),
       ).rejects.toThrow('Sell token and buy token cannot be the same');
     });
@@ -131,17 +141,17 @@ describe('QuoteService', () => {
   describe('getMultipleQuotes', () => {
     it('should get quotes from all supported aggregators', async () => {
       const mockQuote0x = {
-        sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         sellAmount: '1000000000000000000',
         buyAmount: '2000000000000000000',
         minBuyAmount: '1900000000000000000',
         gas: '200000',
         gasPrice: '20000000000',
-        to: '0xC0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        to: '0xc0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         data: '0x1234567890abcdef',
         value: '0',
-        allowanceTarget: '0xD0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        allowanceTarget: '0xd0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         aggregator: AggregatorType.ZEROX,
         priceImpact: '0.1',
         estimatedGas: '200000',
@@ -168,10 +178,10 @@ describe('QuoteService', () => {
 
       const result = await service.getMultipleQuotes(
         1,
-        '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         '1000000000000000000',
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       );
 
       expect(result).toHaveLength(2);
@@ -181,17 +191,17 @@ describe('QuoteService', () => {
 
     it('should handle partial failures and return successful quotes', async () => {
       const mockQuote0x = {
-        sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         sellAmount: '1000000000000000000',
         buyAmount: '2000000000000000000',
         minBuyAmount: '1900000000000000000',
         gas: '200000',
         gasPrice: '20000000000',
-        to: '0xC0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        to: '0xc0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         data: '0x1234567890abcdef',
         value: '0',
-        allowanceTarget: '0xD0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        allowanceTarget: '0xd0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         aggregator: AggregatorType.ZEROX,
         priceImpact: '0.1',
         estimatedGas: '200000',
@@ -207,10 +217,10 @@ describe('QuoteService', () => {
 
       const result = await service.getMultipleQuotes(
         1,
-        '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         '1000000000000000000',
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       );
 
       expect(result).toHaveLength(1);
@@ -228,10 +238,10 @@ describe('QuoteService', () => {
       await expect(
         service.getMultipleQuotes(
           1,
-          '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-          '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+          '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+          '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
           '1000000000000000000',
-          '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+          '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
         ),
       ).rejects.toThrow('Failed to get quotes from any aggregator');
     });
@@ -240,17 +250,17 @@ describe('QuoteService', () => {
   describe('getBestQuote', () => {
     it('should return quote with highest buyAmount', async () => {
       const mockQuote0x = {
-        sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         sellAmount: '1000000000000000000',
         buyAmount: '2000000000000000000',
         minBuyAmount: '1900000000000000000',
         gas: '200000',
         gasPrice: '20000000000',
-        to: '0xC0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        to: '0xc0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         data: '0x1234567890abcdef',
         value: '0',
-        allowanceTarget: '0xD0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        allowanceTarget: '0xd0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         aggregator: AggregatorType.ZEROX,
         priceImpact: '0.1',
         estimatedGas: '200000',
@@ -271,10 +281,10 @@ describe('QuoteService', () => {
 
       const result = await service.getBestQuote(
         1,
-        '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         '1000000000000000000',
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       );
 
       expect(result).toEqual({ aggregator: AggregatorType.ODOS, quote: mockQuoteOdos });
@@ -284,17 +294,17 @@ describe('QuoteService', () => {
   describe('compareQuotes', () => {
     it('should compare quotes and return price difference', async () => {
       const mockQuote0x = {
-        sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         sellAmount: '1000000000000000000',
         buyAmount: '2000000000000000000',
         minBuyAmount: '1900000000000000000',
         gas: '200000',
         gasPrice: '20000000000',
-        to: '0xC0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        to: '0xc0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         data: '0x1234567890abcdef',
         value: '0',
-        allowanceTarget: '0xD0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        allowanceTarget: '0xd0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         aggregator: AggregatorType.ZEROX,
         priceImpact: '0.1',
         estimatedGas: '200000',
@@ -315,10 +325,10 @@ describe('QuoteService', () => {
 
       const result = await service.compareQuotes(
         1,
-        '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         '1000000000000000000',
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       );
 
       expect(result.quotes).toEqual(mockQuotes);
@@ -328,17 +338,17 @@ describe('QuoteService', () => {
 
     it('should handle single quote comparison', async () => {
       const mockQuote0x = {
-        sellToken: '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        buyToken: '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        sellToken: '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        buyToken: '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         sellAmount: '1000000000000000000',
         buyAmount: '2000000000000000000',
         minBuyAmount: '1900000000000000000',
         gas: '200000',
         gasPrice: '20000000000',
-        to: '0xC0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        to: '0xc0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         data: '0x1234567890abcdef',
         value: '0',
-        allowanceTarget: '0xD0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        allowanceTarget: '0xd0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         aggregator: AggregatorType.ZEROX,
         priceImpact: '0.1',
         estimatedGas: '200000',
@@ -352,10 +362,10 @@ describe('QuoteService', () => {
 
       const result = await service.compareQuotes(
         1,
-        '0xA0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
-        '0xB0b86a33E6441b8c4C8C0e1c7B4b4b4b4b4b4b4b',
+        '0xa0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
+        '0xb0b86a33e6441b8c4c8c0e1c7b4b4b4b4b4b4b4b',
         '1000000000000000000',
-        '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        '0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6',
       );
 
       expect(result.quotes).toEqual(mockQuotes);
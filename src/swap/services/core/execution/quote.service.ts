@@ -1,7 +1,13 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { AggregatorManagerService } from '../aggregation/aggregator-manager.service';
-import { SwapRequest, SwapQuote, AggregatorType, ApprovalStrategy } from '@swap/models/swap-request.model';
+import {
+  SwapRequest,
+  SwapQuote,
+  ProviderId,
+  ApprovalStrategy,
+} from '@swap/models/swap-request.model';
 import { ChainListService, EnhancedChainInfo } from '@shared/services/chainlist.service';
+import { ChainCapabilitySource } from '@swap/models/ports';
 import {
   validateChainId,
   validateTokenAddress,
@@ -35,7 +41,7 @@ export class QuoteService {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-    aggregatorType?: AggregatorType,
+    providerId?: ProviderId,
     approvalStrategy?: ApprovalStrategy,
     strictValidation?: boolean,
   ): Promise<SwapQuote> {
@@ -61,12 +67,16 @@ export class QuoteService {
         recipient: recipient || taker, // Ensure funds go back to same wallet
         slippagePercentage,
         deadline,
-        aggregator: aggregatorType,
+        aggregator: providerId,
         approvalStrategy, // Include approval strategy
       };
 
       // Get quote from aggregator
-      const quote = await this.aggregatorManager.getQuote(swapRequest, aggregatorType, strictValidation);
+      const quote = await this.aggregatorManager.getQuote(
+        swapRequest,
+        providerId,
+        strictValidation,
+      );
 
       this.logger.log(
         `Quote obtained: ${quote.sellAmount} ${quote.sellToken} -> ${quote.buyAmount} ${quote.buyToken}${strictValidation === false ? ' (relaxed validation)' : ''}`,
@@ -98,7 +108,7 @@ export class QuoteService {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-  ): Promise<Array<{ aggregator: AggregatorType; quote: SwapQuote }>> {
+  ): Promise<Array<{ aggregator: ProviderId; quote: SwapQuote }>> {
     try {
       // Validate inputs
       this.validateQuoteInputs(
@@ -121,7 +131,7 @@ export class QuoteService {
       this.logger.log(`Fetching quotes from ${supportedAggregators.length} aggregators: ${supportedAggregators.join(', ')}`);
 
       // Fetch quotes from all supported aggregators in parallel
-      const quotePromises = supportedAggregators.map(async (aggregatorType) => {
+      const quotePromises = supportedAggregators.map(async (providerId) => {
         try {
           const quote = await this.getQuote(
             chainId,
@@ -132,16 +142,20 @@ export class QuoteService {
             recipient,
             slippagePercentage,
             deadline,
-            aggregatorType,
+            providerId,
             undefined, // Use default approval strategy
             false, // Use relaxed validation for quote comparison
           );
 
-          this.logger.debug(`Successfully got quote from ${aggregatorType}: ${quote.buyAmount} ${quote.buyToken}`);
-          
-          return { aggregator: aggregatorType, quote };
+          this.logger.debug(
+            `Successfully got quote from ${providerId}: ${quote.buyAmount} ${quote.buyToken}`,
+          );
+
+          return { aggregator: providerId, quote };
         } catch (error) {
-          this.logger.warn(`Failed to get quote from ${aggregatorType}: ${error.message}`);
+          this.logger.warn(
+            `Failed to get quote from ${providerId}: ${(error as Error).message}`,
+          );
           // Return null for failed quotes, we'll filter them out
           return null;
         }
@@ -149,8 +163,9 @@ export class QuoteService {
 
       // Wait for all quotes and filter out failed ones
       const results = await Promise.all(quotePromises);
-      const successfulQuotes = results.filter((result): result is { aggregator: AggregatorType; quote: SwapQuote } => 
-        result !== null
+      const successfulQuotes = results.filter(
+        (result): result is { aggregator: ProviderId; quote: SwapQuote } =>
+          result !== null,
       );
 
       if (successfulQuotes.length === 0) {
@@ -184,7 +199,7 @@ export class QuoteService {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-  ): Promise<{ aggregator: AggregatorType; quote: SwapQuote }> {
+  ): Promise<{ aggregator: ProviderId; quote: SwapQuote }> {
     try {
       const quotes = await this.getMultipleQuotes(
         chainId,
@@ -239,8 +254,8 @@ export class QuoteService {
     slippagePercentage?: number,
     deadline?: number,
   ): Promise<{
-    quotes: Array<{ aggregator: AggregatorType; quote: SwapQuote }>;
-    bestAggregator: AggregatorType;
+    quotes: Array<{ aggregator: ProviderId; quote: SwapQuote }>;
+    bestAggregator: ProviderId;
     priceDifference: string;
   }> {
     try {
@@ -344,15 +359,15 @@ export class QuoteService {
   /**
    * Get supported aggregators for a chain
    */
-  getSupportedAggregators(chainId: number): AggregatorType[] {
+  getSupportedAggregators(chainId: number): ProviderId[] {
     return this.aggregatorManager.getSupportedAggregators(chainId);
   }
 
   /**
    * Check if aggregator supports a chain
    */
-  isAggregatorSupported(chainId: number, aggregatorType: AggregatorType): boolean {
-    return this.aggregatorManager.isAggregatorSupported(chainId, aggregatorType);
+  isAggregatorSupported(chainId: number, providerId: ProviderId): boolean {
+    return this.aggregatorManager.isAggregatorSupported(chainId, providerId);
   }
 
   /**
@@ -367,7 +382,7 @@ export class QuoteService {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-    aggregatorType?: AggregatorType,
+    providerId?: ProviderId,
     approvalStrategy?: ApprovalStrategy,
   ): Promise<any> {
     try {
@@ -392,12 +407,15 @@ export class QuoteService {
         recipient: recipient || taker,
         slippagePercentage,
         deadline,
-        aggregator: aggregatorType,
+        aggregator: providerId,
         approvalStrategy,
       };
 
       // Get price from aggregator
-      const price = await this.aggregatorManager.getPrice(swapRequest, aggregatorType, approvalStrategy);
+      const price = await this.aggregatorManager.getPrice(
+        swapRequest,
+        providerId,
+      );
 
       this.logger.log(
         `Price obtained: ${price.sellAmount} ${price.sellToken} -> ${price.buyAmount} ${price.buyToken}`,
@@ -436,53 +454,46 @@ export class QuoteService {
   }
 
   /**
-   * Get supported chains from all aggregators
+   * Get supported chains from the chain capability registry (upstream-discovered, last snapshot or bundled lists)
    */
   async getSupportedChains(): Promise<{
     supportedChains: EnhancedChainInfo[];
     aggregatorChains: Record<string, EnhancedChainInfo[]>;
+    chainSources: Record<
+      string,
+      { source: ChainCapabilitySource; updatedAt: Date }
+    >;
   }> {
     try {
-      this.logger.log('Fetching supported chains from all aggregators...');
-      
-      // Get all aggregators
-      const aggregators = this.aggregatorManager.getAllAggregators();
-      
-      // Fetch supported chains from each aggregator
-      const aggregatorResults = await Promise.allSettled(
-        aggregators.map(async (aggregator) => {
-          try {
-            const chains = await aggregator.getSupportedChains();
-            return {
-              name: aggregator.constructor.name.replace('Service', ''),
-              chains: chains.sort((a, b) => a - b) // Sort numerically
-            };
-          } catch (error) {
-            this.logger.warn(`Failed to get supported chains from ${aggregator.constructor.name}: ${error.message}`);
-            return {
-              name: aggregator.constructor.name.replace('Service', ''),
-              chains: [] as number[]
-            };
-          }
-        })
+      this.logger.log(
+        'Fetching supported chains from the chain capability registry...',
       );
+
+      const capabilities = this.aggregatorManager.getChainCapabilities();
       
-      // Process results and collect all unique chain IDs
+      // Collect every provider's chains and where each list came from
       const aggregatorChainIds: Record<string, number[]> = {};
+      const chainSources: Record<
+        string,
+        { source: ChainCapabilitySource; updatedAt: Date }
+      > = {};
       const allChains = new Set<number>();
       
-      aggregatorResults.forEach((result) => {
-        if (result.status === 'fulfilled') {
-          const { name, chains } = result.value;
-          aggregatorChainIds[name] = chains;
-          chains.forEach(chainId => allChains.add(chainId));
-        }
-      });
+      for (const capability of capabilities) {
+        aggregatorChainIds[capability.provider] = capability.chains;
+        chainSources[capability.provider] = {
+          source: capability.source,
+          updatedAt: capability.updatedAt,
+        };
+        capability.chains.forEach((chainId) => allChains.add(chainId));
+      }
       
       // Convert set to sorted array
       const supportedChainIds = Array.from(allChains).sort((a, b) => a - b);
       
-      this.logger.log(`Successfully retrieved ${supportedChainIds.length} unique supported chains from ${Object.keys(aggregatorChainIds).length} aggregators`);
+      this.logger.log(
+        `Successfully retrieved ${supportedChainIds.length} unique supported chains from ${Object.keys(aggregatorChainIds).length} providers`,
+      );
       this.logger.debug(`Supported chain IDs: ${supportedChainIds.join(', ')}`);
       
       // Fetch enhanced chain information from ChainList API
@@ -499,7 +510,8 @@ export class QuoteService {
       
       return {
         supportedChains,
-        aggregatorChains
+        aggregatorChains,
+        chainSources,
       };
     } catch (error) {
       this.logger.error(`Failed to get supported chains from aggregators: ${error.message}`, error.stack);
@@ -4,7 +4,7 @@ import {
   SwapRequest,
   SwapQuote,
   SwapResult,
-  AggregatorType,
+  ProviderId,
 } from '@swap/models/swap-request.model';
 import { TransactionDataDto } from '@swap/dto/allowance-holder-execute-request.dto';
 import { isNativeToken, getChainConfig } from '@shared/utils/chain.utils';
@@ -49,7 +49,7 @@ export class SwapExecutionService {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-    aggregatorType?: AggregatorType,
+    providerId?: ProviderId,
   ): Promise<SwapResult> {
     try {
       console.log('Executing swap with parameters:');
@@ -75,7 +75,7 @@ export class SwapExecutionService {
         recipient: finalRecipient,
         slippagePercentage,
         deadline,
-        aggregator: aggregatorType,
+        aggregator: providerId,
       };
 
       this.logger.log(`Starting swap execution: ${sellToken} -> ${buyToken}, amount: ${sellAmount}`);
@@ -90,7 +90,10 @@ export class SwapExecutionService {
 
       while (retryCount < maxRetries) {
         try {
-          quote = await this.aggregatorManager.getQuote(swapRequest, aggregatorType);
+          quote = await this.aggregatorManager.getQuote(
+            swapRequest,
+            providerId,
+          );
           break;
         } catch (error) {
           retryCount++;
@@ -108,7 +111,7 @@ export class SwapExecutionService {
 
       // Handle approval if needed
       if (!isNativeToken(sellToken)) {
-        await this.handleApproval(chainId, privateKey, sellToken, quote, aggregatorType);
+        await this.handleApproval(chainId, privateKey, sellToken, quote);
       }
 
       // Execute swap with retry logic
@@ -297,7 +300,6 @@ export class SwapExecutionService {
     privateKey: string,
     sellToken: string,
     quote: SwapQuote,
-    aggregatorType?: AggregatorType,
   ): Promise<void> {
     if (!quote.allowanceTarget) {
       throw new Error('Allowance target not provided in quote');
@@ -395,7 +397,7 @@ export class SwapExecutionService {
     recipient?: string,
     slippagePercentage?: number,
     deadline?: number,
-    aggregatorType?: AggregatorType,
+    providerId?: ProviderId,
   ): Promise<SwapQuote> {
     try {
       this.validateSwapInputs(chainId, '0x0000000000000000000000000000000000000000000000000000000000000001', sellToken, buyToken, sellAmount, slippagePercentage, deadline);
@@ -409,10 +411,10 @@ export class SwapExecutionService {
         recipient: recipient || taker,
         slippagePercentage,
         deadline,
-        aggregator: aggregatorType,
+        aggregator: providerId,
       };
 
-      return await this.aggregatorManager.getQuote(swapRequest, aggregatorType);
+      return await this.aggregatorManager.getQuote(swapRequest, providerId);
     } catch (error) {
       this.logger.error(`Failed to get swap quote: ${error.message}`, error.stack);
       throw new Error(`Failed to get swap quote: ${error.message}`);
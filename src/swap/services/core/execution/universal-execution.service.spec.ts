@@ -0,0 +1,293 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  BlockchainEcosystem,
+  TokenStandard,
+  UniversalSwapRequestDto,
+} from '@swap/dto/universal-swap-request.dto';
+import {
+  ExecutionStep,
+  QuotedRoute,
+  UniversalExecution,
+} from '@swap/models/execution.model';
+import { IntentOrder } from '@swap/models/ports';
+import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
+import { ApprovalService } from '@swap/services/blockchain/approval/approval.service';
+import { Permit2Service } from '@swap/services/blockchain/approval/permit2.service';
+import { AggregatorManagerService } from '../aggregation/aggregator-manager.service';
+import { RouteStoreService } from '../route-store.service';
+import { ExecutionTrackerService } from './execution-tracker.service';
+import { UniversalExecutionService } from './universal-execution.service';
+
+describe('UniversalExecutionService', () => {
+  const taker = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const router = '0xDef1C0ded9bec7F1a1670819833240f027b25EfF';
+  const txHash = `0x${'bb'.repeat(32)}`;
+
+  let walletService: { broadcastTransaction: jest.Mock };
+  let approvalService: { isApprovalNeeded: jest.Mock };
+  let routeStore: RouteStoreService;
+  let tracker: ExecutionTrackerService;
+  let service: UniversalExecutionService;
+
+  const request = (sellToken = usdc): UniversalSwapRequestDto => ({
+    sellToken: {
+      address: sellToken,
+      standard: TokenStandard.ERC20,
+      chain: { chainId: 1, ecosystem: BlockchainEcosystem.EVM },
+    },
+    buyToken: {
+      address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      standard: TokenStandard.ERC20,
+      chain: { chainId: 1, ecosystem: BlockchainEcosystem.EVM },
+    },
+    sellAmount: '1000000',
+    taker,
+  });
+
+  const storeRoute = (
+    route: Partial<QuotedRoute> = {},
+    swapRequest = request(),
+  ): string => {
+    const [stored] = routeStore.save(swapRequest, 'same-chain', [
+      {
+        provider: '0x',
+        transactionData: {
+          to: router,
+          data: '0x1234',
+          value: '0',
+          allowanceTarget: router,
+        },
+        ...route,
+      },
+    ]);
+    return stored.routeId!;
+  };
+
+  beforeEach(() => {
+    walletService = {
+      broadcastTransaction: jest.fn(() => Promise.resolve(txHash)),
+    };
+    approvalService = {
+      isApprovalNeeded: jest.fn(() => Promise.resolve(true)),
+    };
+    routeStore = new RouteStoreService();
+    tracker = new ExecutionTrackerService(
+      walletService as unknown as WalletService,
+      {} as AggregatorManagerService,
+    );
+    service = new UniversalExecutionService(
+      walletService as unknown as WalletService,
+      approvalService as unknown as ApprovalService,
+      {} as Permit2Service,
+      tracker,
+      routeStore,
+      {} as AggregatorManagerService,
+    );
+  });
+
+  afterEach(() => {
+    tracker.onModuleDestroy();
+  });
+
+  it('should prepare an approval followed by the swap for an ERC20 sell', async () => {
+    const routeId = storeRoute();
+
+    const execution = await service.prepareExecution(routeId);
+
+    expect(execution.executionId).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/,
+    );
+    expect(execution.steps.map((step) => step.type)).toEqual([
+      'approval',
+      'swap',
+    ]);
+    expect(execution.steps[0].transaction).toMatchObject({ to: usdc });
+    expect(execution.steps[1].transaction).toMatchObject({
+      from: taker,
+      to: router,
+      data: '0x1234',
+    });
+    expect(approvalService.isApprovalNeeded).toHaveBeenCalledWith(
+      1,
+      usdc,
+      taker,
+      router,
+      '1000000',
+    );
+    expect(tracker.get(execution.executionId)).toBe(execution);
+  });
+
+  it('should skip the approval when selling the native token', async () => {
+    const routeId = storeRoute(
+      {},
+      request('0x0000000000000000000000000000000000000000'),
+    );
+
+    const execution = await service.prepareExecution(routeId);
+
+    expect(execution.steps.map((step) => step.type)).toEqual(['swap']);
+    expect(approvalService.isApprovalNeeded).not.toHaveBeenCalled();
+  });
+
+  it('should reject routes without transaction data', async () => {
+    const routeId = storeRoute({ transactionData: null });
+
+    await expect(service.prepareExecution(routeId)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should broadcast signed steps in order', async () => {
+    const execution = await service.prepareExecution(storeRoute());
+
+    await service.submitSignedSteps(execution.executionId, [
+      { index: 1, signedTransaction: '0xswap' },
+      { index: 0, signedTransaction: '0xapproval' },
+    ]);
+
+    expect(
+      walletService.broadcastTransaction.mock.calls.map((call: unknown[]) =>
+        call.slice(0, 3),
+      ),
+    ).toEqual([
+      [1, '0xapproval', 'evm'],
+      [1, '0xswap', 'evm'],
+    ]);
+    expect(execution.steps.map((step) => step.status)).toEqual([
+      'SUBMITTED',
+      'SUBMITTED',
+    ]);
+    expect(execution.steps[1].txHash).toBe(txHash);
+  });
+
+  it('should not accept a step before the previous one', async () => {
+    const execution = await service.prepareExecution(storeRoute());
+
+    await expect(
+      service.submitSignedSteps(execution.executionId, [
+        { index: 1, signedTransaction: '0xswap' },
+      ]),
+    ).rejects.toThrow('Step 0 (approval) must be completed before step 1');
+    expect(walletService.broadcastTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should fail the execution when a broadcast fails', async () => {
+    walletService.broadcastTransaction.mockRejectedValue(
+      new Error('nonce too low'),
+    );
+    const execution = await service.prepareExecution(storeRoute());
+
+    await service.submitSignedSteps(execution.executionId, [
+      { index: 0, signedTransaction: '0xapproval' },
+    ]);
+
+    expect(execution.status).toBe('FAILED');
+    expect(execution.steps[0]).toMatchObject({
+      status: 'FAILED',
+      error: 'nonce too low',
+    });
+  });
+});
+
+describe('UniversalExecutionService intent orders', () => {
+  const signature = `0x${'11'.repeat(65)}`;
+
+  let execution: UniversalExecution;
+  let tracker: { get: jest.Mock; refresh: jest.Mock; startTracking: jest.Mock };
+  let aggregatorManager: { submitIntentOrder: jest.Mock };
+  let service: UniversalExecutionService;
+
+  const step = (
+    index: number,
+    type: ExecutionStep['type'],
+    status: ExecutionStep['status'],
+  ): ExecutionStep => ({
+    index,
+    type,
+    ecosystem: 'evm',
+    chainId: 1,
+    description: type,
+    status,
+    txHash:
+      type === 'approval' && status !== 'AWAITING_SIGNATURE'
+        ? `0x${'aa'.repeat(32)}`
+        : undefined,
+    order:
+      type === 'order-signature' ? ({ chainId: 1 } as IntentOrder) : undefined,
+  });
+
+  beforeEach(() => {
+    execution = {
+      executionId: 'exec-1',
+      routeId: 'route-1',
+      provider: 'cow',
+      status: 'PENDING',
+      steps: [
+        step(0, 'approval', 'SUBMITTED'),
+        step(1, 'order-signature', 'AWAITING_SIGNATURE'),
+      ],
+      buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      recipient: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    tracker = {
+      get: jest.fn(() => execution),
+      refresh: jest.fn(),
+      startTracking: jest.fn(),
+    };
+    aggregatorManager = {
+      submitIntentOrder: jest.fn().mockResolvedValue('order-uid'),
+    };
+    service = new UniversalExecutionService(
+      {} as WalletService,
+      {} as ApprovalService,
+      {} as Permit2Service,
+      tracker as unknown as ExecutionTrackerService,
+      {} as RouteStoreService,
+      aggregatorManager as unknown as AggregatorManagerService,
+    );
+  });
+
+  it('should post the order once the approval is confirmed', async () => {
+    tracker.refresh.mockImplementation(() => {
+      execution.steps[0].status = 'CONFIRMED';
+    });
+
+    await service.submitSignedSteps('exec-1', [{ index: 1, signature }]);
+
+    expect(aggregatorManager.submitIntentOrder).toHaveBeenCalledWith(
+      'cow',
+      execution.steps[1].order,
+      signature,
+    );
+    expect(execution.steps[1]).toMatchObject({
+      status: 'SUBMITTED',
+      orderId: 'order-uid',
+    });
+  });
+
+  it('should not post the order while the approval is pending', async () => {
+    await expect(
+      service.submitSignedSteps('exec-1', [{ index: 1, signature }]),
+    ).rejects.toThrow('not confirmed yet');
+
+    expect(tracker.startTracking).toHaveBeenCalledWith('exec-1');
+    expect(aggregatorManager.submitIntentOrder).not.toHaveBeenCalled();
+  });
+
+  it('should not post the order when the approval reverted', async () => {
+    tracker.refresh.mockImplementation(() => {
+      execution.steps[0].status = 'FAILED';
+      execution.steps[0].error = 'Transaction reverted on source chain';
+    });
+
+    await expect(
+      service.submitSignedSteps('exec-1', [{ index: 1, signature }]),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(aggregatorManager.submitIntentOrder).not.toHaveBeenCalled();
+    expect(execution.steps[1].status).toBe('AWAITING_SIGNATURE');
+  });
+});
@@ -0,0 +1,580 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { encodeFunctionData, type Address } from 'viem';
+import { ERC20_ABI } from '@shared/utils/ethereum.utils';
+import { isNativeToken } from '@shared/utils/chain.utils';
+import { SignedExecutionStepDto } from '@swap/dto/universal-execute-request.dto';
+import { IntentOrder } from '@swap/models/ports';
+import {
+  ExecutionStep,
+  StoredRoute,
+  UniversalExecution,
+  UnsignedEvmTransaction,
+} from '@swap/models/execution.model';
+import { WalletService } from '@swap/services/blockchain/wallet/wallet.service';
+import { ApprovalService } from '@swap/services/blockchain/approval/approval.service';
+import { Permit2Service } from '@swap/services/blockchain/approval/permit2.service';
+import { AggregatorManagerService } from '../aggregation/aggregator-manager.service';
+import { RouteStoreService } from '../route-store.service';
+import { ExecutionTrackerService } from './execution-tracker.service';
+
+/**
+ * Non-custodial execution orchestrator for universal swap routes
+ * Hands the client the ordered steps to sign and broadcasts what it signed (or posts signed intent orders)
+ */
+@Injectable()
+export class UniversalExecutionService {
+  private readonly logger = new Logger(UniversalExecutionService.name);
+
+  constructor(
+    private readonly walletService: WalletService,
+    private readonly approvalService: ApprovalService,
+    private readonly permit2Service: Permit2Service,
+    private readonly executionTracker: ExecutionTrackerService,
+    private readonly routeStore: RouteStoreService,
+    private readonly aggregatorManager: AggregatorManagerService,
+  ) {}
+
+  /**
+   * Prepare the ordered steps the client has to sign for a quoted route
+   */
+  async prepareExecution(routeId: string): Promise<UniversalExecution> {
+    // Rejects unknown and expired routes so stale calldata is never handed out
+    const storedRoute = this.routeStore.get(routeId);
+
+    const steps = await this.buildSteps(storedRoute);
+    const now = new Date();
+    const execution: UniversalExecution = {
+      executionId: randomUUID(),
+      routeId,
+      provider: storedRoute.provider,
+      status: 'PENDING',
+      steps,
+      buyToken: storedRoute.request.buyToken.address,
+      recipient: storedRoute.request.recipient || storedRoute.request.taker,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.executionTracker.register(execution);
+    this.logger.log(
+      `✅ Prepared execution ${execution.executionId} for route ${routeId}: ${steps.map((s) => s.type).join(' -> ')}`,
+    );
+
+    return execution;
+  }
+
+  /**
+   * Accept signed payloads for an execution and broadcast them in step order
+   */
+  async submitSignedSteps(
+    executionId: string,
+    signedSteps: SignedExecutionStepDto[],
+  ): Promise<UniversalExecution> {
+    const execution = this.executionTracker.get(executionId);
+
+    for (const signedStep of [...signedSteps].sort(
+      (a, b) => a.index - b.index,
+    )) {
+      const step = execution.steps[signedStep.index];
+      if (!step) {
+        throw new BadRequestException(
+          `Execution ${executionId} has no step ${signedStep.index}`,
+        );
+      }
+
+      if (step.status !== 'AWAITING_SIGNATURE') {
+        throw new BadRequestException(
+          `Step ${step.index} of execution ${executionId} was already submitted`,
+        );
+      }
+
+      const pendingPrevious = execution.steps.find(
+        (s) =>
+          s.index < step.index &&
+          (s.status === 'AWAITING_SIGNATURE' || s.status === 'FAILED'),
+      );
+      if (pendingPrevious) {
+        throw new BadRequestException(
+          `Step ${pendingPrevious.index} (${pendingPrevious.type}) must be completed before step ${step.index}`,
+        );
+      }
+
+      try {
+        await this.applySignedStep(execution, step, signedStep);
+      } catch (error) {
+        if (error instanceof BadRequestException) {
+          throw error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        step.status = 'FAILED';
+        step.error = message;
+        execution.status = 'FAILED';
+        this.logger.error(
+          `❌ Step ${step.index} of execution ${executionId} failed: ${message}`,
+        );
+        break;
+      } finally {
+        execution.updatedAt = new Date();
+      }
+    }
+
+    if (execution.steps.some((step) => step.status === 'SUBMITTED')) {
+      this.executionTracker.startTracking(executionId);
+    }
+
+    return execution;
+  }
+
+  /**
+   * Record a single client-signed step, broadcasting signed transactions
+   */
+  private async applySignedStep(
+    execution: UniversalExecution,
+    step: ExecutionStep,
+    signedStep: SignedExecutionStepDto,
+  ): Promise<void> {
+    if (step.type === 'permit2-signature') {
+      if (!signedStep.signature) {
+        throw new BadRequestException(
+          `Step ${step.index} requires a Permit2 signature`,
+        );
+      }
+
+      step.signature = signedStep.signature;
+      step.status = 'SIGNED';
+
+      // The swap calldata must carry the Permit2 signature before the client signs it
+      const swapStep = execution.steps.find(
+        (s) =>
+          s.index > step.index && (s.type === 'swap' || s.type === 'bridge'),
+      );
+      const transaction = swapStep?.transaction as
+        UnsignedEvmTransaction | undefined;
+      if (transaction?.data) {
+        transaction.data = await this.permit2Service.appendSignatureToTxData(
+          transaction.data,
+          signedStep.signature,
+        );
+      }
+      return;
+    }
+
+    if (step.type === 'order-signature') {
+      await this.submitIntentOrder(execution, step, signedStep);
+      return;
+    }
+
+    if (signedStep.signedTransaction) {
+      step.txHash = await this.walletService.broadcastTransaction(
+        step.chainId,
+        signedStep.signedTransaction,
+        step.ecosystem,
+        {
+          mevProtection: step.mevProtected,
+        },
+      );
+    } else if (signedStep.txHash) {
+      step.txHash = signedStep.txHash;
+    } else {
+      throw new BadRequestException(
+        `Step ${step.index} requires a signed transaction or transaction hash`,
+      );
+    }
+
+    step.status = 'SUBMITTED';
+    this.logger.log(
+      `📤 Step ${step.index} (${step.type}) of execution ${execution.executionId} submitted: ${step.txHash}`,
+    );
+  }
+
+  /**
+   * Post a signed intent order to the provider that quoted it; solvers settle it without a transaction
+   * The order book rejects orders whose allowance is not in place, so every approval must be mined first
+   */
+  private async submitIntentOrder(
+    execution: UniversalExecution,
+    step: ExecutionStep,
+    signedStep: SignedExecutionStepDto,
+  ): Promise<void> {
+    if (!signedStep.signature) {
+      throw new BadRequestException(
+        `Step ${step.index} requires an order signature`,
+      );
+    }
+
+    const approvals = execution.steps.filter((s) => s.type === 'approval');
+    if (approvals.some((s) => s.status === 'SUBMITTED')) {
+      await this.executionTracker.refresh(execution);
+    }
+
+    // Only a mined approval puts the allowance in place; a reverted one means the order could never settle
+    const unconfirmed = approvals.find((s) => s.status !== 'CONFIRMED');
+    if (unconfirmed?.status === 'SUBMITTED') {
+      this.executionTracker.startTracking(execution.executionId);
+      throw new BadRequestException(
+        `Approval for execution ${execution.executionId} is not confirmed yet; submit the order signature once it is mined`,
+      );
+    }
+
+    if (unconfirmed) {
+      throw new BadRequestException(
+        `Approval step ${unconfirmed.index} of execution ${execution.executionId} is ${unconfirmed.status}${unconfirmed.error ? ` (${unconfirmed.error})` : ''}; the order was not posted`,
+      );
+    }
+
+    step.signature = signedStep.signature;
+    step.orderId = await this.aggregatorManager.submitIntentOrder(
+      execution.provider,
+      step.order!,
+      signedStep.signature,
+    );
+    step.status = 'SUBMITTED';
+    this.logger.log(
+      `📤 Step ${step.index} (${step.type}) of execution ${execution.executionId} submitted: order ${step.orderId}`,
+    );
+  }
+
+  /**
+   * Build ordered execution steps from the route's transaction data
+   */
+  private async buildSteps(storedRoute: StoredRoute): Promise<ExecutionStep[]> {
+    const { transactionData } = storedRoute;
+    const sellChain = storedRoute.request.sellToken.chain;
+    const ecosystem = this.getWalletEcosystem(sellChain.ecosystem);
+    const chainId = sellChain.chainId ?? sellChain.ecosystem;
+
+    // Split routes carry one transaction per leg instead of a route-level transaction
+    if (storedRoute.route.legs?.length) {
+      return this.buildSplitEvmSteps(storedRoute, ecosystem, Number(chainId));
+    }
+
+    // Intent routes carry an order to sign instead of a transaction
+    if (storedRoute.route.routeType === 'intent') {
+      return this.buildIntentSteps(storedRoute, ecosystem, Number(chainId));
+    }
+
+    if (!transactionData) {
+      throw new BadRequestException(
+        `Route ${storedRoute.routeId} has no executable transaction data`,
+      );
+    }
+
+    // Native L1: client sends the amount to the inbound vault with the memo attached
+    if (
+      transactionData.inboundAddress &&
+      transactionData.memo &&
+      transactionData.amount
+    ) {
+      return [
+        {
+          index: 0,
+          type: 'deposit',
+          ecosystem,
+          chainId,
+          description: `Send ${transactionData.amount}${transactionData.asset ? ` ${transactionData.asset}` : ''} to ${transactionData.inboundAddress} with memo ${transactionData.memo}`,
+          status: 'AWAITING_SIGNATURE',
+          transaction: {
+            inboundAddress: transactionData.inboundAddress,
+            memo: transactionData.memo,
+            amount: transactionData.amount,
+            asset: transactionData.asset,
+          },
+        },
+      ];
+    }
+
+    // Solana: router already serialized the transaction, client only signs it
+    if (transactionData.serializedTransaction) {
+      return [
+        {
+          index: 0,
+          type: 'swap',
+          ecosystem,
+          chainId,
+          description: `Sign and send ${storedRoute.provider} swap transaction`,
+          status: 'AWAITING_SIGNATURE',
+          transaction: {
+            serializedTransaction: transactionData.serializedTransaction,
+            encoding: 'base64',
+          },
+        },
+      ];
+    }
+
+    return this.buildEvmSteps(storedRoute, ecosystem, Number(chainId));
+  }
+
+  /**
+   * Build EVM steps: optional approval, optional Permit2 signature, then swap or bridge
+   */
+  private async buildEvmSteps(
+    storedRoute: StoredRoute,
+    ecosystem: string,
+    chainId: number,
+  ): Promise<ExecutionStep[]> {
+    const { route } = storedRoute;
+    const transactionData = storedRoute.transactionData ?? {};
+    const { taker } = storedRoute.request;
+    // Exact-output routes spend the quoted input, not the request's sellAmount budget
+    const sellAmount: string | undefined =
+      route.inputAmount ?? storedRoute.request.sellAmount;
+    const sellToken = storedRoute.request.sellToken.address;
+    const spender: string | undefined =
+      transactionData.allowanceTarget || route.metadata?.approvalAddress;
+    const steps: ExecutionStep[] = [];
+
+    if (!transactionData.to || !transactionData.data) {
+      throw new BadRequestException(
+        `Route ${storedRoute.routeId} has no executable transaction data`,
+      );
+    }
+
+    if (!sellAmount) {
+      throw new BadRequestException(
+        `Route ${storedRoute.routeId} has no sell amount to approve`,
+      );
+    }
+
+    if (spender && !isNativeToken(sellToken)) {
+      await this.addApprovalStep(
+        steps,
+        storedRoute,
+        ecosystem,
+        chainId,
+        spender,
+        sellAmount,
+      );
+    }
+
+    const permit2 = route.metadata?.permit2;
+    if (permit2?.eip712) {
+      steps.push({
+        index: steps.length,
+        type: 'permit2-signature',
+        ecosystem,
+        chainId,
+        description: 'Sign Permit2 typed data authorizing the token transfer',
+        status: 'AWAITING_SIGNATURE',
+        typedData: permit2.eip712,
+      });
+    }
+
+    const isBridge = (route.steps || []).some(
+      (step: { action: string }) => step.action === 'bridge',
+    );
+    steps.push({
+      index: steps.length,
+      type: isBridge ? 'bridge' : 'swap',
+      ecosystem,
+      chainId,
+      description: `Sign and send ${storedRoute.provider} ${isBridge ? 'bridge' : 'swap'} transaction`,
+      status: 'AWAITING_SIGNATURE',
+      mevProtected: !!storedRoute.request.enableMevProtection,
+      transaction: {
+        chainId: transactionData.chainId ?? chainId,
+        from: taker,
+        to: transactionData.to,
+        data: transactionData.data,
+        value: transactionData.value || '0',
+        gasLimit: transactionData.gasLimit,
+        gasPrice: transactionData.gasPrice,
+        maxFeePerGas: transactionData.maxFeePerGas,
+        maxPriorityFeePerGas: transactionData.maxPriorityFeePerGas,
+      },
+    });
+
+    return steps;
+  }
+
+  /**
+   * Build intent steps: optional approval of the provider's spender for the signed sell amount, then the order signature
+   */
+  private async buildIntentSteps(
+    storedRoute: StoredRoute,
+    ecosystem: string,
+    chainId: number,
+  ): Promise<ExecutionStep[]> {
+    const order = storedRoute.providerRef as IntentOrder | undefined;
+    const spender: string | undefined =
+      storedRoute.route.metadata?.approvalAddress;
+    const steps: ExecutionStep[] = [];
+
+    if (!order?.typedData) {
+      throw new BadRequestException(
+        `Route ${storedRoute.routeId} has no order to sign`,
+      );
+    }
+
+    if (spender) {
+      await this.addApprovalStep(
+        steps,
+        storedRoute,
+        ecosystem,
+        chainId,
+        spender,
+        String(order.typedData.message.sellAmount),
+      );
+    }
+
+    steps.push({
+      index: steps.length,
+      type: 'order-signature',
+      ecosystem,
+      chainId,
+      description: `Sign ${storedRoute.provider} order typed data; solvers settle it without a transaction`,
+      status: 'AWAITING_SIGNATURE',
+      typedData: order.typedData,
+      order,
+    });
+
+    return steps;
+  }
+
+  /**
+   * Build split route steps: approvals summed per spender first, then each leg's Permit2 signature and swap
+   */
+  private async buildSplitEvmSteps(
+    storedRoute: StoredRoute,
+    ecosystem: string,
+    chainId: number,
+  ): Promise<ExecutionStep[]> {
+    const legs = (storedRoute.route.legs ?? []).map((leg) => {
+      const { transactionData, inputAmount } = leg;
+      if (!transactionData?.to || !transactionData.data || !inputAmount) {
+        throw new BadRequestException(
+          `Route ${storedRoute.routeId} has a ${leg.provider} leg without executable transaction data`,
+        );
+      }
+
+      return {
+        ...leg,
+        inputAmount,
+        transactionData: {
+          ...transactionData,
+          to: transactionData.to,
+          data: transactionData.data,
+        },
+      };
+    });
+    const sellToken = storedRoute.request.sellToken.address;
+    const steps: ExecutionStep[] = [];
+
+    if (!isNativeToken(sellToken)) {
+      const allowances = new Map<string, bigint>();
+      for (const leg of legs) {
+        const spender = leg.transactionData.allowanceTarget;
+        if (spender) {
+          const key = spender.toLowerCase();
+          allowances.set(
+            key,
+            (allowances.get(key) ?? 0n) + BigInt(leg.inputAmount),
+          );
+        }
+      }
+
+      for (const [spender, amount] of allowances) {
+        await this.addApprovalStep(
+          steps,
+          storedRoute,
+          ecosystem,
+          chainId,
+          spender,
+          amount.toString(),
+        );
+      }
+    }
+
+    for (const leg of legs) {
+      if (leg.permit2?.eip712) {
+        steps.push({
+          index: steps.length,
+          type: 'permit2-signature',
+          ecosystem,
+          chainId,
+          description: `Sign Permit2 typed data authorizing the ${leg.provider} leg's token transfer`,
+          status: 'AWAITING_SIGNATURE',
+          typedData: leg.permit2.eip712,
+        });
+      }
+
+      steps.push({
+        index: steps.length,
+        type: 'swap',
+        ecosystem,
+        chainId,
+        description: `Sign and send ${leg.provider} swap transaction for ${leg.shareBps / 100}% of the order`,
+        status: 'AWAITING_SIGNATURE',
+        mevProtected: !!storedRoute.request.enableMevProtection,
+        transaction: {
+          chainId,
+          from: storedRoute.request.taker,
+          to: leg.transactionData.to,
+          data: leg.transactionData.data,
+          value: leg.transactionData.value || '0',
+          gasLimit: leg.transactionData.gasLimit,
+          gasPrice: leg.transactionData.gasPrice,
+          maxFeePerGas: leg.transactionData.maxFeePerGas,
+          maxPriorityFeePerGas: leg.transactionData.maxPriorityFeePerGas,
+        },
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Append an ERC20 approval step when the taker's allowance for the spender is short of the amount
+   */
+  private async addApprovalStep(
+    steps: ExecutionStep[],
+    storedRoute: StoredRoute,
+    ecosystem: string,
+    chainId: number,
+    spender: string,
+    amount: string,
+  ): Promise<void> {
+    const { taker } = storedRoute.request;
+    const sellToken = storedRoute.request.sellToken.address;
+
+    const isApprovalNeeded = await this.approvalService.isApprovalNeeded(
+      chainId,
+      sellToken,
+      taker,
+      spender,
+      amount,
+    );
+    if (!isApprovalNeeded) {
+      return;
+    }
+
+    steps.push({
+      index: steps.length,
+      type: 'approval',
+      ecosystem,
+      chainId,
+      description: `Approve ${spender} to spend ${amount} of ${sellToken}`,
+      status: 'AWAITING_SIGNATURE',
+      transaction: {
+        chainId,
+        from: taker,
+        to: sellToken,
+        data: encodeFunctionData({
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [spender as Address, BigInt(amount)],
+        }),
+        value: '0',
+      },
+    });
+  }
+
+  /**
+   * Map request ecosystem to the wallet provider ecosystem
+   */
+  private getWalletEcosystem(ecosystem: string): string {
+    // Avalanche C-Chain is served by the EVM wallet provider
+    return ecosystem === 'avalanche' ? 'evm' : ecosystem;
+  }
+}
@@ -0,0 +1,106 @@
+import { GoneException, NotFoundException } from '@nestjs/common';
+import { QuotedRoute } from '@swap/models/execution.model';
+import { RouteStoreService } from './route-store.service';
+import {
+  BlockchainEcosystem,
+  UniversalSwapRequestDto,
+} from '@swap/dto/universal-swap-request.dto';
+
+describe('RouteStoreService', () => {
+  let service: RouteStoreService;
+
+  const request = {
+    sellToken: {
+      address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      chain: { chainId: 1, ecosystem: BlockchainEcosystem.EVM },
+    },
+    buyToken: {
+      address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      chain: { chainId: 1, ecosystem: BlockchainEcosystem.EVM },
+    },
+    sellAmount: '1000000',
+    taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  } as UniversalSwapRequestDto;
+
+  const route: QuotedRoute = {
+    provider: 'lifi',
+    routeId: 'lifi-route-1',
+    outputAmount: '999',
+    providerRef: { lifiRoute: { id: 'lifi-route-1' } },
+    transactionData: {
+      to: '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE',
+      data: '0x',
+      value: '0',
+    },
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    service = new RouteStoreService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep request, provider, providerRef and transaction server-side', () => {
+    const [saved] = service.save(request, 'on-chain', [route]);
+
+    expect(saved.expiresAt).toBeDefined();
+    expect(saved.providerRef).toBeUndefined();
+
+    const stored = service.get(saved.routeId!);
+    expect(stored.provider).toBe('lifi');
+    expect(stored.request).toBe(request);
+    expect(stored.providerRef).toEqual(route.providerRef);
+    expect(stored.transactionData).toEqual(route.transactionData);
+  });
+
+  it('should key routes by a random UUID and keep the provider route ID as metadata', () => {
+    const [saved] = service.save(request, 'on-chain', [route]);
+
+    expect(saved.routeId).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+    expect(saved.providerRouteId).toBe('lifi-route-1');
+    expect(service.get(saved.routeId!).providerRouteId).toBe('lifi-route-1');
+    expect(() => service.get('lifi-route-1')).toThrow(NotFoundException);
+  });
+
+  it('should not let routes quoted in the same millisecond overwrite each other', () => {
+    const otherRequest: UniversalSwapRequestDto = {
+      ...request,
+      taker: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    };
+    const sameRoute: QuotedRoute = { provider: '0x', outputAmount: '1' };
+    const [first] = service.save(request, 'on-chain', [sameRoute]);
+    const [second] = service.save(otherRequest, 'on-chain', [sameRoute]);
+
+    expect(first.routeId).not.toBe(second.routeId);
+    expect(service.get(first.routeId!).request.taker).toBe(request.taker);
+    expect(service.get(second.routeId!).request.taker).toBe(otherRequest.taker);
+  });
+
+  it('should not store fallback routes', () => {
+    const fallbackRoute: QuotedRoute = {
+      provider: 'evm-fallback',
+      outputAmount: '0',
+      error: 'boom',
+    };
+    const [saved] = service.save(request, 'on-chain', [fallbackRoute]);
+
+    expect(saved.routeId).toBeUndefined();
+  });
+
+  it('should reject unknown routes', () => {
+    expect(() => service.get('missing')).toThrow(NotFoundException);
+  });
+
+  it('should reject expired routes', () => {
+    const [saved] = service.save(request, 'on-chain', [route]);
+
+    jest.advanceTimersByTime(61 * 1000);
+
+    expect(() => service.get(saved.routeId!)).toThrow(GoneException);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  Injectable,
+  Logger,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { UniversalSwapRequestDto } from '@swap/dto/universal-swap-request.dto';
+import { QuotedRoute, StoredRoute } from '@swap/models/execution.model';
+
+/**
+ * RouteStoreService
+ * Remembers quoted routes by routeId for a limited time so they can be executed and tracked later.
+ */
+@Injectable()
+export class RouteStoreService {
+  private readonly logger = new Logger(RouteStoreService.name);
+  private readonly routes = new Map<string, StoredRoute>();
+  private readonly ttlMs = Number(process.env.ROUTE_TTL_SECONDS || 60) * 1000; // Default 60 seconds
+
+  /**
+   * Store quoted routes and return them with routeId and expiry
+   * The routeId is always a random UUID (provider route IDs are neither unique nor secret and are kept as
+   * providerRouteId); fallback routes are not stored
+   */
+  save<T extends QuotedRoute>(
+    request: UniversalSwapRequestDto,
+    swapType: string,
+    routes: T[],
+  ): T[] {
+    this.pruneExpired();
+
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + this.ttlMs);
+
+    return routes.map((route) => {
+      if (route.error) {
+        return route;
+      }
+
+      // providerRef holds raw provider payloads needed for execution; keep it server-side
+      const { providerRef, routeId: providerRouteId, ...publicRoute } = route;
+      const routeId = randomUUID();
+
+      this.routes.set(routeId, {
+        routeId,
+        providerRouteId,
+        provider: route.provider,
+        swapType,
+        request,
+        providerRef,
+        transactionData: route.transactionData,
+        route: { ...publicRoute, provider: route.provider, providerRouteId },
+        createdAt,
+        expiresAt,
+      });
+
+      return {
+        ...publicRoute,
+        routeId,
+        providerRouteId,
+        expiresAt: expiresAt.toISOString(),
+      } as T;
+    });
+  }
+
+  /**
+   * Get a stored route, rejecting unknown and expired routes
+   */
+  get(routeId: string): StoredRoute {
+    const storedRoute = this.routes.get(routeId);
+    if (!storedRoute) {
+      throw new NotFoundException(
+        `Unknown routeId: ${routeId}`,
+        'RouteNotFound',
+      );
+    }
+
+    if (storedRoute.expiresAt.getTime() <= Date.now()) {
+      throw new GoneException(
+        `Quote for route ${routeId} expired, refresh the quote`,
+        'RouteExpired',
+      );
+    }
+
+    return storedRoute;
+  }
+
+  /**
+   * Drop routes that expired more than one TTL ago (recently expired ones still report as expired)
+   */
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    let pruned = 0;
+    for (const [routeId, storedRoute] of this.routes.entries()) {
+      if (storedRoute.expiresAt.getTime() <= cutoff) {
+        this.routes.delete(routeId);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      this.logger.debug(`Pruned ${pruned} expired routes`);
+    }
+  }
+}
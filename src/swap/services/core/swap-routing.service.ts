@@ -1,10 +1,16 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  Optional,
+} from '@nestjs/common';
 import { SwapCacheService } from './swap-cache.service';
-import { 
-  UniversalSwapRequestDto, 
-  SwapType, 
-  BlockchainEcosystem, 
-  TokenStandard 
+import { ChainCapabilityService } from './aggregation/chain-capability.service';
+import {
+  UniversalSwapRequestDto,
+  SwapType,
+  BlockchainEcosystem,
+  ChainInfo,
 } from '@swap/dto/universal-swap-request.dto';
 
 /**
@@ -16,7 +22,10 @@ export class SwapRoutingService {
   private providerRegistry: any[] = [];
 
   
-  constructor(private readonly swapCacheService: SwapCacheService) {}
+  constructor(
+    private readonly swapCacheService: SwapCacheService,
+    @Optional() private readonly chainCapabilities?: ChainCapabilityService,
+  ) {}
 
   /**
    * Set the provider registry (array of all provider instances)
@@ -281,17 +290,17 @@ export class SwapRoutingService {
     const chainId = request.sellToken.chain.chainId as number;
     
     // Return available providers based on chain
-    const baseProviders = ['0x', 'odos']; // Currently implemented
+    const baseProviders = ['0x', 'odos', '1inch', 'paraswap']; // Currently implemented
     const plannedProviders = ['uniswap']; // Placeholder for future
 
     // Chain-specific optimizations
     switch (chainId) {
       case 1: // Ethereum
-        return ['0x', 'odos', ...plannedProviders];
+        return ['0x', 'odos', '1inch', 'paraswap', ...plannedProviders];
       case 137: // Polygon
-        return ['odos', '0x', ...plannedProviders];
+        return ['odos', '0x', '1inch', 'paraswap', ...plannedProviders];
       case 56: // BSC
-        return ['0x', 'odos', ...plannedProviders];
+        return ['0x', 'odos', '1inch', 'paraswap', ...plannedProviders];
       default:
         return baseProviders;
     }
@@ -325,16 +334,33 @@ export class SwapRoutingService {
     return supportedEcosystems.includes(ecosystem);
   }
 
-  private isChainSupported(chain: any): boolean {
+  private isChainSupported(chain: ChainInfo | undefined): boolean {
     // Generalized: check cache first, then fallback to provider's supportsChain
-    if (!chain || !chain.chainId) return false;
+    if (!chain) return false;
+
+    // Non-EVM ecosystems use string chain identifiers (e.g. 'solana') or none at all; EVM providers cannot vouch for them
+    if (
+      chain.ecosystem !== BlockchainEcosystem.EVM &&
+      chain.ecosystem !== BlockchainEcosystem.AVALANCHE
+    ) {
+      return this.isSupportedEcosystem(chain.ecosystem);
+    }
+
+    if (!chain.chainId) return false;
+
     const chainId = Number(chain.chainId);
 
     // 1. For validation, we check if the chain itself is supported
     // Cache check is done per token, so we check if any token on this chain is cached
     // This is a lightweight check - if cache has any tokens for this chain, chain is supported
     
-    // 2. Fallback: check all known providers for supportsChain
+    // 2. Chain capability registry: every registered provider's discovered (or bundled) chains
+    const registeredChains = this.chainCapabilities?.getAllChains() ?? [];
+    if (registeredChains.length > 0) {
+      return registeredChains.includes(chainId);
+    }
+
+    // 3. Fallback: check all known providers for supportsChain
     if (this.providerRegistry && Array.isArray(this.providerRegistry) && this.providerRegistry.length > 0) {
       for (const provider of this.providerRegistry) {
         if (provider && typeof provider.supportsChain === 'function') {
@@ -348,7 +374,7 @@ export class SwapRoutingService {
       return false;
     }
 
-    // 3. Default fallback: if no providers registered yet, return true to allow bootstrapping
+    // 4. Default fallback: if no providers registered yet, return true to allow bootstrapping
     // This allows initial requests to go through and populate the cache
     return true;
   }
@@ -0,0 +1,46 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Test helpers shared by the provider specs that replay JSON fixtures through a mocked CustomHttpService
+ */
+
+export type FixtureLoader = (name: string) => any;
+
+/**
+ * Loader for <specDir>/__fixtures__/<provider>/<name>.json
+ */
+export function fixtureLoader(
+  specDir: string,
+  provider: string,
+): FixtureLoader {
+  return (name: string): any =>
+    JSON.parse(
+      readFileSync(
+        join(specDir, '__fixtures__', provider, `${name}.json`),
+        'utf8',
+      ),
+    );
+}
+
+/**
+ * HTTP mock implementation serving the fixture that route() names for each request URL
+ */
+export function serveFixtures(
+  fixture: FixtureLoader,
+  route: (url: URL) => string | undefined,
+): (url: string) => Promise<any> {
+  return (url: string) => {
+    const name = route(new URL(url));
+    return name
+      ? Promise.resolve(fixture(name))
+      : Promise.reject(new Error(`No fixture for ${url}`));
+  };
+}
+
+/**
+ * Error as CustomHttpService raises it for an upstream error response
+ */
+export function httpError(status: string, body: unknown): Error {
+  return new Error(`HTTP ${status}: ${JSON.stringify(body)}`);
+}
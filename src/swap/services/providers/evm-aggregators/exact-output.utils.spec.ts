@@ -0,0 +1,89 @@
+import {
+  exactOutputProbeBudget,
+  quoteExactOutput,
+  searchExactOutputSellAmount,
+} from './exact-output.utils';
+import { SwapRequest } from '@swap/models/ports';
+
+describe('exact-output utils', () => {
+  const request: SwapRequest = {
+    chainId: 1,
+    sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+    buyToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    sellAmount: '1000000000000000000', // Spend at most 1 ETH
+    buyAmount: '100000000', // Receive 100 USDC
+    taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  };
+
+  // 1 ETH = 3000 USDC with price impact growing with size
+  const pool = (sellAmount: bigint) => {
+    const linear = (sellAmount * 3000_000000n) / 10n ** 18n;
+    return linear - (linear * sellAmount) / 10n ** 19n;
+  };
+
+  it('should find the smallest sell amount that covers the buy amount within tolerance', async () => {
+    const probe = jest.fn((sellAmount: bigint) =>
+      Promise.resolve(pool(sellAmount)),
+    );
+
+    const sellAmount = await searchExactOutputSellAmount(request, probe);
+    const out = pool(sellAmount);
+
+    expect(out).toBeGreaterThanOrEqual(100000000n);
+    expect(out * 10000n).toBeLessThanOrEqual(100000000n * 10010n);
+    expect(probe.mock.calls.length).toBeLessThanOrEqual(6);
+  });
+
+  it('should fail when the sell budget cannot cover the buy amount', async () => {
+    await expect(
+      searchExactOutputSellAmount(
+        { ...request, sellAmount: '10000000000000000' },
+        (sellAmount) => Promise.resolve(pool(sellAmount)),
+      ),
+    ).rejects.toThrow('below the requested buyAmount 100000000');
+  });
+
+  it('should scale the sell amount up when the final quote falls short', async () => {
+    let drift = 0n;
+    const quote = jest.fn((exactInput: SwapRequest) => {
+      const buyAmount =
+        (pool(BigInt(exactInput.sellAmount)) * (10000n - drift)) / 10000n;
+      drift = 0n;
+      return Promise.resolve({
+        buyAmount: buyAmount.toString(),
+        minBuyAmount: buyAmount.toString(),
+      });
+    });
+
+    const result = await quoteExactOutput(
+      request,
+      (sellAmount) => {
+        drift = 20n; // Prices move 0.2% against the taker between the search and the first quote
+        return Promise.resolve(pool(sellAmount));
+      },
+      quote,
+    );
+
+    expect(quote).toHaveBeenCalledTimes(2);
+    expect(quote.mock.calls[1][0].buyAmount).toBeUndefined();
+    expect(BigInt(result.minBuyAmount)).toBeGreaterThanOrEqual(100000000n);
+  });
+
+  it('should fit the probe budget of rate-limited upstreams into the quote deadline', async () => {
+    expect(exactOutputProbeBudget()).toBe(6);
+    expect(exactOutputProbeBudget({ requests: 10, perSeconds: 1 })).toBe(6);
+    // 2 burst + 5 refilled calls within 2.5s, minus the final quote and its retry
+    expect(exactOutputProbeBudget({ requests: 2, perSeconds: 1 })).toBe(5);
+    expect(exactOutputProbeBudget({ requests: 1, perSeconds: 1 })).toBe(1);
+
+    const probe = jest.fn((sellAmount: bigint) =>
+      Promise.resolve(pool(sellAmount)),
+    );
+    const quote = jest.fn();
+    await expect(quoteExactOutput(request, probe, quote, 1)).rejects.toThrow(
+      'exact-output search needs 2 probes',
+    );
+    expect(probe).not.toHaveBeenCalled();
+    expect(quote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { SwapQuote, SwapRequest } from '@swap/models/ports';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
+
+/**
+ * Exact-output emulation for aggregators whose APIs only quote exact-input swaps
+ */
+
+type AmountQuote = Pick<SwapQuote, 'buyAmount' | 'minBuyAmount'>;
+
+const MAX_PROBES = Number(process.env.EXACT_OUTPUT_MAX_PROBES || 6);
+const TOLERANCE_BPS = BigInt(process.env.EXACT_OUTPUT_TOLERANCE_BPS || 10); // Stop once at most 0.1% above the target
+// The budget check plus one narrowing probe; a single probe can only return the whole budget
+const MIN_PROBES = 2;
+// Same deadline the aggregator manager applies to the quote fan-out
+const QUOTE_DEADLINE_MS = Number(process.env.QUOTE_DEADLINE_MS || 2500);
+
+/**
+ * Min buy amount (after slippage) an exact-input swap of sellAmount yields
+ */
+export type ExactInputProbe = (sellAmount: bigint) => Promise<bigint>;
+
+/**
+ * Find the smallest sell amount, up to request.sellAmount, whose min buy amount covers request.buyAmount
+ * Probes interpolate between the bracket ends (aiming slightly above the target) and fall back to bisection
+ */
+export async function searchExactOutputSellAmount(
+  request: SwapRequest,
+  probe: ExactInputProbe,
+  maxProbes = MAX_PROBES,
+): Promise<bigint> {
+  const target = BigInt(request.buyAmount || '0');
+  const maxSell = BigInt(request.sellAmount || '0');
+
+  if (target <= 0n) {
+    throw new Error('buyAmount must be positive for exact-output quotes');
+  }
+  if (maxSell <= 0n) {
+    throw new Error(
+      'sellAmount (the most to spend) must be positive for exact-output quotes',
+    );
+  }
+
+  // The budget itself must cover the target, otherwise no sell amount within it does
+  let high = maxSell;
+  let highOut = await probe(high);
+  if (highOut < target) {
+    throw new Error(
+      `Selling the maximum ${maxSell} yields at least ${highOut}, below the requested buyAmount ${target}`,
+    );
+  }
+
+  let low = 0n;
+  let lowOut = 0n;
+  const aim = target + (target * TOLERANCE_BPS) / 20000n;
+
+  for (let probes = 1; probes < maxProbes; probes++) {
+    if (
+      highOut * 10000n <= target * (10000n + TOLERANCE_BPS) ||
+      high - low <= 1n
+    ) {
+      break;
+    }
+
+    let candidate =
+      low + ceilDiv((aim - lowOut) * (high - low), highOut - lowOut);
+    if (candidate <= low || candidate >= high) {
+      candidate = (low + high) / 2n;
+    }
+
+    const out = await probe(candidate);
+    if (out >= target) {
+      high = candidate;
+      highOut = out;
+    } else {
+      low = candidate;
+      lowOut = out;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Probes an upstream behind an outbound token bucket can answer within the quote deadline
+ * (its burst plus the refill), leaving room for the final quote and its one rescaled retry
+ */
+export function exactOutputProbeBudget(
+  rateLimit?: Pick<OutboundRateLimit, 'requests' | 'perSeconds'>,
+): number {
+  if (!rateLimit) {
+    return MAX_PROBES;
+  }
+
+  const calls =
+    rateLimit.requests +
+    Math.floor(
+      (QUOTE_DEADLINE_MS * rateLimit.requests) / (rateLimit.perSeconds * 1000),
+    );
+  return Math.min(MAX_PROBES, calls - 2);
+}
+
+/**
+ * Exact-output quote built from exact-input quotes: searches the sell amount with cheap probes, then
+ * quotes it; when prices moved in between, the sell amount is scaled up once within the budget
+ * Rate-limited upstreams pass their probe budget; below two probes the request is refused without calling them
+ */
+export async function quoteExactOutput<
+  R extends SwapRequest,
+  Q extends AmountQuote,
+>(
+  request: R,
+  probe: ExactInputProbe,
+  quote: (request: R) => Promise<Q>,
+  maxProbes = MAX_PROBES,
+): Promise<Q> {
+  if (maxProbes < MIN_PROBES) {
+    throw new Error(
+      `Invalid request: exact-output search needs ${MIN_PROBES} probes but the rate limit leaves room for ${Math.max(0, maxProbes)} within the ${QUOTE_DEADLINE_MS}ms quote deadline`,
+    );
+  }
+
+  const target = BigInt(request.buyAmount || '0');
+  const maxSell = BigInt(request.sellAmount || '0');
+  const exactInput = (sellAmount: bigint) =>
+    quote({
+      ...request,
+      sellAmount: sellAmount.toString(),
+      buyAmount: undefined,
+    });
+
+  const sellAmount = await searchExactOutputSellAmount(
+    request,
+    probe,
+    maxProbes,
+  );
+  const result = await exactInput(sellAmount);
+  const minBuyAmount = BigInt(result.minBuyAmount || result.buyAmount);
+  if (minBuyAmount >= target) {
+    return result;
+  }
+
+  const rescaled =
+    minBuyAmount > 0n ? ceilDiv(sellAmount * target, minBuyAmount) : maxSell;
+  const retry = await exactInput(rescaled < maxSell ? rescaled : maxSell);
+  if (BigInt(retry.minBuyAmount || retry.buyAmount) < target) {
+    throw new Error(
+      `Exact-output quote fell short of buyAmount ${target} within the sellAmount budget ${maxSell}`,
+    );
+  }
+
+  return retry;
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - 1n) / denominator;
+}
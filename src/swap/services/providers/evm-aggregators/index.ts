@@ -1,10 +1,9 @@
 // EVM Aggregators
 export { ZeroXService } from './zero-x.service';
 export { OdosService } from './odos.service';
+export { OneInchService } from './oneinch.service';
+export { ParaSwapService } from './paraswap.service';
 
 // Future EVM aggregators (to be implemented when needed):
-// export { ParaSwapService } from './paraswap.service';
-// export { OneInchService } from './oneinch.service';
 // export { UniswapService } from './uniswap.service';
-// export { CowSwapService } from './cowswap.service';
 // export { KyberSwapService } from './kyberswap.service';
\ No newline at end of file
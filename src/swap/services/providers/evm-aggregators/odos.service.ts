@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleInit, Optional, Inject } from '@nestjs/common';
 import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 import { SwapRequest, SwapQuote, AggregatorType } from '@swap/models/swap-request.model';
 import { IOnchainAggregator, TransactionBuild, ProviderConfig, ProviderHealth } from '@swap/models/ports';
 import { 
@@ -10,6 +11,12 @@ import {
 } from '@swap/models/aggregator-responses';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { exactOutputProbeBudget, quoteExactOutput } from './exact-output.utils';
 
 /**
  * Odos quote with timestamp for expiry tracking
@@ -29,7 +36,9 @@ interface OdosQuoteWithTimestamp {
 @Injectable()
 export class OdosService implements IOnchainAggregator, OnModuleInit {
   private readonly logger = new Logger(OdosService.name);
-  private readonly baseUrl = 'https://api.odos.xyz';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly referralCode = parseInt(process.env.ODOS_REFERRAL_CODE || '0', 10);
   private readonly quoteExpiryMs = 55000; // 55 seconds to allow for assembly time (Odos quotes expire in 60s)
   private readonly supportedChainsHardcoded = [
@@ -53,8 +62,31 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
 
   constructor(
     private readonly httpService: CustomHttpService,
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://api.odos.xyz',
+        enabled: true,
+        timeout: 15000,
+        retries: 2,
+        rateLimit: {
+          requests: 100,
+          perSeconds: 60,
+        },
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with aggregator manager on module initialization
@@ -72,6 +104,10 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
    * Get swap quote from Odos Smart Order Routing v2
    */
   async getQuote(request: SwapRequest, strictValidation: boolean = true): Promise<SwapQuote> {
+    if (request.buyAmount) {
+      return this.getExactOutputQuote(request, strictValidation);
+    }
+
     try {
       this.logger.debug(`Getting Odos SOR quote for chain ${request.chainId}`, {
         sellToken: request.sellToken,
@@ -112,6 +148,41 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
     }
   }
 
+  /**
+   * Exact-output quote: Odos SOR only routes input amounts, so the sell amount is searched with
+   * quote-only requests and just the final path is assembled
+   */
+  private async getExactOutputQuote(
+    request: SwapRequest,
+    strictValidation: boolean,
+  ): Promise<SwapQuote> {
+    this.logger.debug(
+      `Searching Odos sell amount for exact output ${request.buyAmount} on chain ${request.chainId}`,
+    );
+
+    return quoteExactOutput(
+      request,
+      async (sellAmount) => {
+        const { response } = await this.getOdosQuoteWithTimestamp(
+          {
+            ...request,
+            sellAmount: sellAmount.toString(),
+            buyAmount: undefined,
+          },
+          false,
+        );
+        return BigInt(
+          this.calculateMinOutput(
+            response.outAmounts[0],
+            request.slippagePercentage || 0.5,
+          ),
+        );
+      },
+      (exactInputRequest) => this.getQuote(exactInputRequest, strictValidation),
+      exactOutputProbeBudget(this.config.rateLimit),
+    );
+  }
+
   /**
    * Build transaction data for execution (uses assembled transaction from Odos)
    */
@@ -145,6 +216,13 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
     return this.supportedChainsHardcoded.includes(chainId);
   }
 
+  /**
+   * Bundled chain list, used by the chain capability registry until discovery succeeds
+   */
+  getStaticSupportedChains(): number[] {
+    return [...this.supportedChainsHardcoded];
+  }
+
   /**
    * Get all supported chains dynamically from Odos API
    */
@@ -156,6 +234,7 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
 
       const response = await this.httpService.get<{ chains: number[] }>(url, {
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       // Handle both array response and object with array response
@@ -166,10 +245,11 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
       
       return chainIds.filter(chainId => chainId > 0);
     } catch (error) {
-      this.logger.warn(`Failed to fetch supported chains from Odos API: ${error.message}, using hardcoded list`);
-      
-      // Fallback to hardcoded list
-      return this.supportedChainsHardcoded;
+      // The chain capability registry falls back to the last known good or hardcoded list
+      this.logger.warn(
+        `Failed to fetch supported chains from Odos API: ${(error as Error).message}`,
+      );
+      throw error;
     }
   }
 
@@ -190,6 +270,7 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
       // Simple health check - get supported tokens for Ethereum
       await this.httpService.get(`${this.baseUrl}/info/tokens/1`, {
         timeout: 5000,
+        rateLimit: this.rateLimit,
       });
       
       const latency = Date.now() - startTime;
@@ -218,17 +299,7 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
    * Get provider configuration
    */
   getConfig(): ProviderConfig {
-    return {
-      name: this.getProviderName(),
-      baseUrl: this.baseUrl,
-      enabled: true,
-      timeout: 15000,
-      retries: 2,
-      rateLimit: {
-        requests: 100,
-        perSeconds: 60
-      }
-    };
+    return { ...this.config };
   }
 
   /**
@@ -261,12 +332,18 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
     this.logger.debug('Requesting Odos quote', { url, requestBody });
 
     const timestamp = Date.now();
-    const response = await this.httpService.post<OdosQuoteResponse>(url, requestBody, {
-      headers: {
-        'Content-Type': 'application/json'
+    const response = await this.httpService.post<OdosQuoteResponse>(
+      url,
+      requestBody,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        rateLimit: this.rateLimit,
       },
-      timeout: 15000
-    });
+    );
 
     this.validateQuoteResponse(response, strictValidation);
     
@@ -334,12 +411,18 @@ export class OdosService implements IOnchainAggregator, OnModuleInit {
 
     this.logger.debug('Assembling Odos transaction', { url, pathId, userAddr });
 
-    const response = await this.httpService.post<OdosAssembleResponse>(url, requestBody, {
-      headers: {
-        'Content-Type': 'application/json'
+    const response = await this.httpService.post<OdosAssembleResponse>(
+      url,
+      requestBody,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        rateLimit: this.rateLimit,
       },
-      timeout: 15000
-    });
+    );
 
     this.validateAssembleResponse(response);
     return response;
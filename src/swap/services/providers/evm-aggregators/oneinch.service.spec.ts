@@ -0,0 +1,115 @@
+import { CustomHttpService } from '@shared/services/http.service';
+import { OneInchSwapResponse } from '@swap/models/aggregator-responses';
+import { SwapRequest } from '@swap/models/ports';
+import {
+  fixtureLoader,
+  httpError,
+  serveFixtures,
+} from '../__fixtures__/provider-fixtures';
+import { OneInchService } from './oneinch.service';
+
+// Hand-written responses shaped after the 1inch Swap API v6.0 docs (not captured from the live API)
+const fixture = fixtureLoader(__dirname, 'oneinch');
+
+describe('OneInchService', () => {
+  let http: { get: jest.Mock<Promise<unknown>, [string]> };
+  let oneInch: OneInchService;
+
+  const request: SwapRequest = {
+    chainId: 1,
+    sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+    buyToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    sellAmount: '1000000000000000000',
+    taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    slippagePercentage: 1,
+  };
+
+  // Serves the fixture written for each endpoint
+  const endpoints: Record<string, string> = {
+    swap: 'swap',
+    quote: 'quote',
+    'approve/spender': 'spender',
+    tokens: 'tokens',
+  };
+  const serveEndpoints = serveFixtures(
+    fixture,
+    ({ pathname }) => endpoints[pathname.split('/1/')[1]],
+  );
+
+  const queryOf = (call: number) =>
+    new URL(http.get.mock.calls[call][0]).searchParams;
+
+  beforeEach(() => {
+    http = { get: jest.fn(serveEndpoints) };
+    oneInch = new OneInchService(http as unknown as CustomHttpService);
+  });
+
+  it('should parse a swap response into a quote with calldata', async () => {
+    const quote = await oneInch.getQuote(request);
+
+    expect(quote).toMatchObject({
+      buyAmount: '3012456789',
+      minBuyAmount: '2982332221',
+      to: '0x111111125421ca6dc452d289314280a0f8842a65',
+      allowanceTarget: '0x111111125421ca6dc452d289314280a0f8842a65',
+      value: '1000000000000000000',
+      gas: '187654',
+      gasPrice: '12476519012',
+      aggregator: '1inch',
+    });
+    expect(quote.data).toMatch(/^0x07ed2379/);
+    expect(queryOf(0).get('slippage')).toBe('1');
+    expect(queryOf(0).get('from')).toBe(request.taker);
+    expect(queryOf(0).get('disableEstimate')).toBe('false');
+  });
+
+  it('should skip the balance and allowance simulation for relaxed quotes', async () => {
+    await oneInch.getQuote(request, false);
+
+    expect(queryOf(0).get('disableEstimate')).toBe('true');
+  });
+
+  it('should reject swaps built for another taker or without calldata', async () => {
+    const swap = fixture('swap') as OneInchSwapResponse;
+    http.get.mockResolvedValueOnce({
+      ...swap,
+      tx: { ...swap.tx, from: '0x0000000000000000000000000000000000000001' },
+    });
+    await expect(oneInch.getQuote(request)).rejects.toThrow(
+      'transaction built for 0x0000000000000000000000000000000000000001',
+    );
+
+    http.get.mockResolvedValueOnce({ ...swap, tx: { ...swap.tx, data: '' } });
+    await expect(oneInch.getQuote(request)).rejects.toThrow(
+      'missing transaction data',
+    );
+  });
+
+  it('should skip exact-output requests that its rate limit cannot search within the quote deadline', async () => {
+    await expect(
+      oneInch.getQuote({ ...request, buyAmount: '3000000000' }),
+    ).rejects.toThrow('exact-output search needs 2 probes');
+    expect(http.get).not.toHaveBeenCalled();
+  });
+
+  it('should surface the description of a 1inch error response', async () => {
+    http.get.mockRejectedValueOnce(
+      httpError('400 Bad Request', fixture('error-insufficient-liquidity')),
+    );
+
+    await expect(oneInch.getQuote(request)).rejects.toThrow(
+      '1inch quote failed: 1inch API error (400 Bad Request): insufficient liquidity',
+    );
+  });
+
+  it('should look up and cache the router as spender, and list tokens', async () => {
+    await expect(oneInch.getSpenderAddress(1)).resolves.toBe(
+      '0x111111125421ca6dc452d289314280a0f8842a65',
+    );
+    await oneInch.getSpenderAddress(1);
+    expect(http.get).toHaveBeenCalledTimes(1);
+
+    const tokens = await oneInch.getTokenList(1);
+    expect(tokens.map((token) => token.symbol)).toEqual(['ETH', 'USDC']);
+  });
+});
@@ -0,0 +1,510 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Inject,
+  Optional,
+} from '@nestjs/common';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
+import {
+  IOnchainAggregator,
+  SwapRequest,
+  SwapQuote,
+  TransactionBuild,
+  ProviderConfig,
+  ProviderHealth,
+} from '@swap/models/ports';
+import {
+  OneInchQuoteResponse,
+  OneInchSwapResponse,
+  OneInchSpenderResponse,
+  OneInchTokenInfo,
+  OneInchTokenListResponse,
+  isOneInchErrorResponse,
+} from '@swap/models/aggregator-responses';
+import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
+import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { describeProviderError } from './provider-error.utils';
+import { exactOutputProbeBudget, quoteExactOutput } from './exact-output.utils';
+
+/**
+ * 1inch Swap API v6.0 aggregator service implementing IOnchainAggregator port
+ * Quotes with /quote (price only) and /swap (calldata), approvals go to the chain's 1inch router
+ * Self-registers with AggregatorManagerService
+ *
+ * @see https://portal.1inch.dev/documentation/apis/swap/classic-swap/introduction
+ */
+@Injectable()
+export class OneInchService implements IOnchainAggregator, OnModuleInit {
+  private readonly logger = new Logger(OneInchService.name);
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
+  private readonly apiKey = process.env.ONEINCH_API_KEY;
+
+  // The router (spender) address only changes with a new router version
+  private readonly spenderCache = new Map<
+    number,
+    { address: string; timestamp: number }
+  >();
+  private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly supportedChains = [
+    1, 10, 56, 100, 130, 137, 146, 324, 8453, 42161, 43114, 59144,
+  ];
+
+  constructor(
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://api.1inch.dev/swap/v6.0',
+        enabled: true,
+        rateLimit: {
+          requests: 1,
+          perSeconds: 1,
+        },
+        timeout: 15000,
+        retries: 2,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
+
+  /**
+   * Self-register with aggregator manager on module initialization
+   */
+  onModuleInit() {
+    if (this.registry) {
+      this.registry.registerEvmAggregator(this);
+      this.logger.debug(
+        `${this.getProviderName()} self-registered with aggregator manager`,
+      );
+    } else {
+      this.logger.warn(
+        `${this.getProviderName()} could not find registry to self-register`,
+      );
+    }
+  }
+
+  /**
+   * Get provider name for identification
+   */
+  getProviderName(): string {
+    return '1inch';
+  }
+
+  /**
+   * Check if provider supports the given chain
+   */
+  supportsChain(chainId: number): boolean {
+    return this.supportedChains.includes(chainId);
+  }
+
+  /**
+   * Bundled chain list, used by the chain capability registry until discovery succeeds
+   */
+  getStaticSupportedChains(): number[] {
+    return [...this.supportedChains];
+  }
+
+  /**
+   * The Swap API has no chain listing endpoint, so the registry keeps serving the bundled list
+   */
+  getSupportedChains(): Promise<number[]> {
+    return Promise.reject(
+      new Error('1inch Swap API does not publish its supported chains'),
+    );
+  }
+
+  /**
+   * Get swap quote with calldata from /swap
+   * Relaxed validation (quote comparison) skips 1inch's balance and allowance simulation
+   */
+  async getQuote(
+    request: SwapRequest,
+    strictValidation: boolean = true,
+  ): Promise<SwapQuote> {
+    if (request.buyAmount) {
+      return this.getExactOutputQuote(request, strictValidation);
+    }
+
+    try {
+      const params = this.buildSwapParams(request, strictValidation);
+
+      this.logger.debug(
+        `Getting 1inch swap for chain ${request.chainId}`,
+        params,
+      );
+      const response = await this.httpService.get<OneInchSwapResponse>(
+        `${this.chainUrl(request.chainId)}/swap?${new URLSearchParams(params)}`,
+        {
+          headers: this.buildHeaders(),
+          timeout: this.config.timeout,
+          retries: this.config.retries,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      this.validateSwapResponse(response, request, strictValidation);
+
+      return this.parseSwapResponse(response, request);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get 1inch quote: ${(error as Error).message}`,
+      );
+      throw new Error(`1inch quote failed: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Exact-output quote: 1inch only quotes sell amounts, so the sell amount is searched with /quote requests
+   * At the default 1 request per second the search does not fit the quote deadline and 1inch is skipped
+   */
+  private async getExactOutputQuote(
+    request: SwapRequest,
+    strictValidation: boolean,
+  ): Promise<SwapQuote> {
+    this.logger.debug(
+      `Searching 1inch sell amount for exact output ${request.buyAmount} on chain ${request.chainId}`,
+    );
+
+    return quoteExactOutput(
+      request,
+      async (sellAmount) => {
+        const price = await this.getPrice({
+          ...request,
+          sellAmount: sellAmount.toString(),
+          buyAmount: undefined,
+        });
+        return BigInt(
+          this.calculateMinOutput(price.dstAmount, request.slippagePercentage),
+        );
+      },
+      (exactInputRequest) => this.getQuote(exactInputRequest, strictValidation),
+      exactOutputProbeBudget(this.config.rateLimit),
+    );
+  }
+
+  /**
+   * Get a price-only quote from /quote (no calldata, no taker checks)
+   */
+  async getPrice(request: SwapRequest): Promise<OneInchQuoteResponse> {
+    try {
+      const params = new URLSearchParams({
+        src: request.sellToken,
+        dst: request.buyToken,
+        amount: request.sellAmount,
+        includeGas: 'true',
+      });
+
+      const response = await this.httpService.get<OneInchQuoteResponse>(
+        `${this.chainUrl(request.chainId)}/quote?${params}`,
+        {
+          headers: this.buildHeaders(),
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      if (!response?.dstAmount) {
+        throw new Error('Invalid quote response: missing dstAmount');
+      }
+
+      return response;
+    } catch (error) {
+      this.logger.error(
+        `Failed to get 1inch price: ${(error as Error).message}`,
+      );
+      throw new Error(`1inch price failed: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Build transaction data - implements IOnchainAggregator interface
+   */
+  async buildTx(request: SwapRequest): Promise<TransactionBuild> {
+    const quote = await this.getQuote(request);
+    return {
+      to: quote.to,
+      data: quote.data,
+      value: quote.value,
+      gasLimit: quote.gas,
+      gasPrice: quote.gasPrice,
+    };
+  }
+
+  /**
+   * 1inch router the sell token must be approved to
+   */
+  async getSpenderAddress(chainId: number): Promise<string> {
+    const cached = this.spenderCache.get(chainId);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      return cached.address;
+    }
+
+    try {
+      const response = await this.httpService.get<OneInchSpenderResponse>(
+        `${this.chainUrl(chainId)}/approve/spender`,
+        {
+          headers: this.buildHeaders(),
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      if (!response?.address) {
+        throw new Error('Invalid spender response: missing address');
+      }
+
+      this.spenderCache.set(chainId, {
+        address: response.address,
+        timestamp: Date.now(),
+      });
+      return response.address;
+    } catch (error) {
+      this.logger.error(
+        `Failed to get 1inch spender address for chain ${chainId}: ${(error as Error).message}`,
+      );
+      throw new Error(
+        `Failed to get 1inch spender address: ${this.describeError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get token list for a chain
+   */
+  async getTokenList(chainId: number): Promise<OneInchTokenInfo[]> {
+    try {
+      const response = await this.httpService.get<OneInchTokenListResponse>(
+        `${this.chainUrl(chainId)}/tokens`,
+        {
+          headers: this.buildHeaders(),
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      return Object.values(response?.tokens || {});
+    } catch (error) {
+      this.logger.error(
+        `Failed to get 1inch token list: ${(error as Error).message}`,
+      );
+      throw new Error(
+        `Failed to get 1inch token list: ${this.describeError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Provider health check
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    try {
+      await this.httpService.get(`${this.chainUrl(1)}/approve/spender`, {
+        headers: this.buildHeaders(),
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
+      return {
+        name: this.getProviderName(),
+        status: 'healthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 0,
+      };
+    } catch (error) {
+      this.logger.debug(
+        `1inch health check failed: ${(error as Error).message}`,
+      );
+      return {
+        name: this.getProviderName(),
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 1,
+      };
+    }
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): ProviderConfig {
+    return {
+      ...this.config,
+      apiKey: this.apiKey ? '***' : undefined,
+    };
+  }
+
+  private chainUrl(chainId: number): string {
+    return `${this.baseUrl}/${chainId}`;
+  }
+
+  /**
+   * Build query parameters for the /swap request
+   */
+  private buildSwapParams(
+    request: SwapRequest,
+    strictValidation: boolean,
+  ): Record<string, string> {
+    const params: Record<string, string> = {
+      src: request.sellToken,
+      dst: request.buyToken,
+      amount: request.sellAmount,
+      from: request.taker,
+      origin: request.taker,
+      // 1inch takes slippage in percent
+      slippage: (request.slippagePercentage ?? 0.5).toString(),
+      includeGas: 'true',
+      disableEstimate: (!strictValidation).toString(),
+    };
+
+    if (request.recipient && request.recipient !== request.taker) {
+      params.receiver = request.recipient;
+    }
+
+    return params;
+  }
+
+  /**
+   * Build headers for 1inch API requests
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      accept: 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Parse 1inch /swap response
+   */
+  private parseSwapResponse(
+    response: OneInchSwapResponse,
+    request: SwapRequest,
+  ): SwapQuote {
+    const { tx } = response;
+    const gas = (tx.gas || response.gas || 0).toString();
+
+    return {
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      sellAmount: request.sellAmount,
+      buyAmount: response.dstAmount,
+      minBuyAmount: this.calculateMinOutput(
+        response.dstAmount,
+        request.slippagePercentage,
+      ),
+      gas,
+      gasPrice: tx.gasPrice,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value || '0',
+      // The router executing the swap is the approval target
+      allowanceTarget: tx.to,
+      aggregator: this.getProviderName(),
+      estimatedGas: gas,
+    };
+  }
+
+  /**
+   * Minimum output after slippage, in integer math
+   */
+  private calculateMinOutput(
+    outputAmount: string,
+    slippagePercentage: number = 0.5,
+  ): string {
+    const slippageBps = BigInt(Math.round(slippagePercentage * 100));
+    return (
+      (BigInt(outputAmount) * (10000n - slippageBps)) /
+      10000n
+    ).toString();
+  }
+
+  /**
+   * Validate swap response before parsing
+   */
+  private validateSwapResponse(
+    response: OneInchSwapResponse,
+    request: SwapRequest,
+    strictValidation: boolean = true,
+  ): void {
+    if (!response) {
+      throw new Error('Empty response from 1inch API');
+    }
+
+    if (isOneInchErrorResponse(response)) {
+      throw new Error(`1inch API error: ${response.description}`);
+    }
+
+    if (!response.dstAmount) {
+      throw new Error('Invalid swap response: missing dstAmount');
+    }
+
+    if (!response.tx?.to || !response.tx?.data) {
+      throw new Error('Invalid swap response: missing transaction data');
+    }
+
+    if (
+      response.tx.from &&
+      request.taker &&
+      response.tx.from.toLowerCase() !== request.taker.toLowerCase()
+    ) {
+      throw new Error(
+        `Invalid swap response: transaction built for ${response.tx.from} instead of ${request.taker}`,
+      );
+    }
+
+    if (BigInt(response.dstAmount) === 0n) {
+      if (strictValidation) {
+        throw new Error('Insufficient liquidity for this trade on 1inch');
+      } else {
+        this.logger.warn(
+          '1inch returned a zero output amount - quote may not be executable',
+        );
+      }
+    }
+
+    this.logger.debug(
+      `1inch swap validation passed for ${request.sellToken} -> ${request.buyToken}${strictValidation ? ' (strict)' : ' (relaxed)'}`,
+    );
+  }
+
+  /**
+   * 1inch error bodies ({ error, description, statusCode }) arrive JSON-encoded in the HTTP error message;
+   * the status text is kept so the error is still classified (bad request, no route, server error)
+   */
+  private describeError(error: unknown): string {
+    return describeProviderError(
+      error,
+      isOneInchErrorResponse,
+      (body) =>
+        `1inch API error (${body.statusCode} ${body.error}): ${body.description}`,
+    );
+  }
+}
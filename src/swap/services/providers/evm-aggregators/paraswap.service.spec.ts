@@ -0,0 +1,152 @@
+import { CustomHttpService } from '@shared/services/http.service';
+import { ParaSwapPriceResponse } from '@swap/models/aggregator-responses';
+import { SwapRequest } from '@swap/models/ports';
+import {
+  fixtureLoader,
+  httpError,
+  serveFixtures,
+} from '../__fixtures__/provider-fixtures';
+import { ParaSwapService } from './paraswap.service';
+
+// Hand-written responses shaped after the ParaSwap API docs for Ethereum mainnet (Augustus v6.2 routes, not captured from the live API)
+const fixture = fixtureLoader(__dirname, 'paraswap');
+
+describe('ParaSwapService', () => {
+  let http: {
+    get: jest.Mock<Promise<unknown>, [string]>;
+    post: jest.Mock<Promise<unknown>, [string, Record<string, any>]>;
+  };
+  let paraSwap: ParaSwapService;
+
+  const augustus = '0x6a000f20005980200259b80c5102003040001068';
+  const request: SwapRequest = {
+    chainId: 1,
+    sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    buyToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+    sellAmount: '1000000000',
+    taker: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    slippagePercentage: 1,
+  };
+
+  // Serves the fixture written for each endpoint
+  const serveEndpoints = serveFixtures(
+    fixture,
+    ({ pathname, searchParams }) => {
+      if (pathname === '/tokens/1') {
+        return 'tokens';
+      }
+      return searchParams.get('side') === 'BUY' ? 'prices-buy' : 'prices-sell';
+    },
+  );
+
+  const pricesQuery = () =>
+    new URL(http.get.mock.calls.find(([url]) => url.includes('/prices'))![0])
+      .searchParams;
+  const transactionCall = () => http.post.mock.calls[0];
+
+  beforeEach(() => {
+    http = {
+      get: jest.fn(serveEndpoints),
+      post: jest.fn<Promise<unknown>, [string, Record<string, any>]>(() =>
+        Promise.resolve(fixture('transaction')),
+      ),
+    };
+    paraSwap = new ParaSwapService(http as unknown as CustomHttpService);
+  });
+
+  it('should price a SELL and build its transaction with the tokenTransferProxy as allowance target', async () => {
+    const quote = await paraSwap.getQuote(request);
+
+    expect(quote).toMatchObject({
+      sellAmount: '1000000000',
+      buyAmount: '331926518765132712',
+      minBuyAmount: '328607253577481384',
+      to: augustus,
+      allowanceTarget: augustus,
+      value: '0',
+      gas: '131300',
+      aggregator: 'paraswap',
+    });
+    expect(pricesQuery().get('side')).toBe('SELL');
+    expect(pricesQuery().get('amount')).toBe('1000000000');
+    // USDC decimals from the token list, native coin decimals without a lookup
+    expect(pricesQuery().get('srcDecimals')).toBe('6');
+    expect(pricesQuery().get('destDecimals')).toBe('18');
+
+    const [url, body] = transactionCall();
+    expect(url).toBe(
+      'https://api.paraswap.io/transactions/1?ignoreChecks=false',
+    );
+    expect(body).toMatchObject({
+      srcAmount: '1000000000',
+      slippage: 100,
+      userAddress: request.taker,
+    });
+    expect(body.destAmount).toBeUndefined();
+    expect(body.priceRoute).toEqual(
+      (fixture('prices-sell') as ParaSwapPriceResponse).priceRoute,
+    );
+  });
+
+  it('should price exact-output requests on the BUY side and cap the spend with slippage', async () => {
+    const quote = await paraSwap.getQuote(
+      { ...request, sellAmount: '1600000000', buyAmount: '500000000000000000' },
+      false,
+    );
+
+    expect(quote).toMatchObject({
+      sellAmount: '1521415733',
+      buyAmount: '500000000000000000',
+      minBuyAmount: '500000000000000000',
+      allowanceTarget: augustus,
+    });
+    expect(pricesQuery().get('side')).toBe('BUY');
+    expect(pricesQuery().get('amount')).toBe('500000000000000000');
+
+    const [url, body] = transactionCall();
+    expect(url).toContain('ignoreChecks=true');
+    expect(body).toMatchObject({
+      destAmount: '500000000000000000',
+      slippage: 100,
+    });
+    expect(body.srcAmount).toBeUndefined();
+  });
+
+  it('should reject a BUY that needs more than the maximum sell amount', async () => {
+    await expect(
+      paraSwap.getQuote({
+        ...request,
+        sellAmount: '1500000000',
+        buyAmount: '500000000000000000',
+      }),
+    ).rejects.toThrow(
+      'needs up to 1521415733, above the maximum sellAmount 1500000000',
+    );
+  });
+
+  it('should normalize a ParaSwap error response', async () => {
+    http.get.mockImplementation((url: string) =>
+      url.includes('/prices')
+        ? Promise.reject(
+            httpError('400 Bad Request', fixture('error-no-route')),
+          )
+        : serveEndpoints(url),
+    );
+
+    await expect(paraSwap.getQuote(request)).rejects.toThrow(
+      'ParaSwap quote failed: ParaSwap API error (400 Bad Request): No routes found with enough liquidity',
+    );
+    expect(http.post).not.toHaveBeenCalled();
+  });
+
+  it('should reject transactions built for another taker', async () => {
+    http.post.mockResolvedValueOnce({
+      ...fixture('transaction'),
+      from: '0x0000000000000000000000000000000000000001',
+    });
+
+    await expect(paraSwap.getQuote(request)).rejects.toThrow(
+      'transaction built for 0x0000000000000000000000000000000000000001',
+    );
+  });
+});
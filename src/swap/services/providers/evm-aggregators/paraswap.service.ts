@@ -0,0 +1,589 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Inject,
+  Optional,
+} from '@nestjs/common';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
+import { NATIVE_TOKEN_ADDRESS, USDT_ADDRESS } from '@shared/utils/chain.utils';
+import { ERC20_ABI } from '@shared/utils/ethereum.utils';
+import { createViemPublicClient } from '@shared/utils/viem.utils';
+import {
+  IOnchainAggregator,
+  SwapRequest,
+  SwapQuote,
+  TransactionBuild,
+  ProviderConfig,
+  ProviderHealth,
+} from '@swap/models/ports';
+import {
+  ParaSwapPriceResponse,
+  ParaSwapPriceRoute,
+  ParaSwapTransactionResponse,
+  ParaSwapTokenInfo,
+  ParaSwapTokenListResponse,
+  isParaSwapErrorResponse,
+} from '@swap/models/aggregator-responses';
+import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
+import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { describeProviderError } from './provider-error.utils';
+
+/**
+ * ParaSwap (Velora) aggregator service implementing IOnchainAggregator port
+ * Prices a route with /prices (SELL for exact input, BUY for exact output) and builds its calldata
+ * with /transactions; approvals go to the route's tokenTransferProxy
+ * Self-registers with AggregatorManagerService
+ *
+ * @see https://developers.velora.xyz/api/velora-api/velora-market-api
+ */
+@Injectable()
+export class ParaSwapService implements IOnchainAggregator, OnModuleInit {
+  private readonly logger = new Logger(ParaSwapService.name);
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
+  private readonly apiKey = process.env.PARASWAP_API_KEY;
+  private readonly apiVersion = '6.2';
+
+  // /prices needs token decimals, which the swap request does not carry
+  private readonly tokenListCache = new Map<
+    number,
+    { tokens: ParaSwapTokenInfo[]; timestamp: number }
+  >();
+  private readonly decimalsCache = new Map<string, number>();
+  private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly supportedChains = [
+    1, 10, 56, 100, 130, 137, 146, 1101, 8453, 42161, 43114,
+  ];
+
+  constructor(
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://api.paraswap.io',
+        enabled: true,
+        rateLimit: {
+          requests: 1,
+          perSeconds: 1,
+        },
+        timeout: 15000,
+        retries: 2,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
+
+  /**
+   * Self-register with aggregator manager on module initialization
+   */
+  onModuleInit() {
+    if (this.registry) {
+      this.registry.registerEvmAggregator(this);
+      this.logger.debug(
+        `${this.getProviderName()} self-registered with aggregator manager`,
+      );
+    } else {
+      this.logger.warn(
+        `${this.getProviderName()} could not find registry to self-register`,
+      );
+    }
+  }
+
+  /**
+   * Get provider name for identification
+   */
+  getProviderName(): string {
+    return 'ParaSwap';
+  }
+
+  /**
+   * Check if provider supports the given chain
+   */
+  supportsChain(chainId: number): boolean {
+    return this.supportedChains.includes(chainId);
+  }
+
+  /**
+   * Bundled chain list, used by the chain capability registry until discovery succeeds
+   */
+  getStaticSupportedChains(): number[] {
+    return [...this.supportedChains];
+  }
+
+  /**
+   * ParaSwap has no chain listing endpoint, so the registry keeps serving the bundled list
+   */
+  getSupportedChains(): Promise<number[]> {
+    return Promise.reject(
+      new Error('ParaSwap API does not publish its supported chains'),
+    );
+  }
+
+  /**
+   * Get swap quote: price the route, then build its transaction
+   * Exact-output requests (buyAmount set) are priced on the BUY side; relaxed validation (quote
+   * comparison) skips ParaSwap's balance and allowance checks
+   */
+  async getQuote(
+    request: SwapRequest,
+    strictValidation: boolean = true,
+  ): Promise<SwapQuote> {
+    try {
+      const priceRoute = await this.getPriceRoute(request, strictValidation);
+      const transaction = await this.buildTransaction(
+        priceRoute,
+        request,
+        strictValidation,
+      );
+
+      return this.parseSwapQuote(priceRoute, transaction, request);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get ParaSwap quote: ${(error as Error).message}`,
+      );
+      throw new Error(`ParaSwap quote failed: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Build transaction data - implements IOnchainAggregator interface
+   */
+  async buildTx(request: SwapRequest): Promise<TransactionBuild> {
+    const quote = await this.getQuote(request);
+    return {
+      to: quote.to,
+      data: quote.data,
+      value: quote.value,
+      gasLimit: quote.gas,
+      gasPrice: quote.gasPrice,
+    };
+  }
+
+  /**
+   * Get token list for a chain
+   */
+  async getTokenList(chainId: number): Promise<ParaSwapTokenInfo[]> {
+    const cached = this.tokenListCache.get(chainId);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      return cached.tokens;
+    }
+
+    try {
+      const response = await this.httpService.get<ParaSwapTokenListResponse>(
+        `${this.baseUrl}/tokens/${chainId}`,
+        {
+          headers: this.buildHeaders(),
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      const tokens = response?.tokens || [];
+      this.tokenListCache.set(chainId, { tokens, timestamp: Date.now() });
+      return tokens;
+    } catch (error) {
+      this.logger.error(
+        `Failed to get ParaSwap token list: ${(error as Error).message}`,
+      );
+      throw new Error(
+        `Failed to get ParaSwap token list: ${this.describeError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Provider health check
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    try {
+      const params = new URLSearchParams({
+        srcToken: NATIVE_TOKEN_ADDRESS,
+        srcDecimals: '18',
+        destToken: USDT_ADDRESS,
+        destDecimals: '6',
+        amount: '1000000000000000000',
+        side: 'SELL',
+        network: '1',
+        version: this.apiVersion,
+      });
+      await this.httpService.get(`${this.baseUrl}/prices?${params}`, {
+        headers: this.buildHeaders(),
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
+      return {
+        name: this.getProviderName(),
+        status: 'healthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 0,
+      };
+    } catch (error) {
+      this.logger.debug(
+        `ParaSwap health check failed: ${(error as Error).message}`,
+      );
+      return {
+        name: this.getProviderName(),
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 1,
+      };
+    }
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): ProviderConfig {
+    return {
+      ...this.config,
+      apiKey: this.apiKey ? '***' : undefined,
+    };
+  }
+
+  /**
+   * Price the swap with /prices
+   */
+  private async getPriceRoute(
+    request: SwapRequest,
+    strictValidation: boolean,
+  ): Promise<ParaSwapPriceRoute> {
+    const side = request.buyAmount ? 'BUY' : 'SELL';
+    const [srcDecimals, destDecimals] = await Promise.all([
+      this.getTokenDecimals(request.chainId, request.sellToken),
+      this.getTokenDecimals(request.chainId, request.buyToken),
+    ]);
+
+    const params: Record<string, string> = {
+      srcToken: request.sellToken,
+      srcDecimals: srcDecimals.toString(),
+      destToken: request.buyToken,
+      destDecimals: destDecimals.toString(),
+      amount: side === 'BUY' ? request.buyAmount! : request.sellAmount,
+      side,
+      network: request.chainId.toString(),
+      userAddress: request.taker,
+      version: this.apiVersion,
+    };
+    if (request.recipient && request.recipient !== request.taker) {
+      params.receiver = request.recipient;
+    }
+
+    this.logger.debug(
+      `Getting ParaSwap ${side} price for chain ${request.chainId}`,
+      params,
+    );
+    const response = await this.httpService.get<ParaSwapPriceResponse>(
+      `${this.baseUrl}/prices?${new URLSearchParams(params)}`,
+      {
+        headers: this.buildHeaders(),
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        rateLimit: this.rateLimit,
+      },
+    );
+
+    this.validatePriceResponse(response, request, strictValidation);
+    return response.priceRoute;
+  }
+
+  /**
+   * Build the route's calldata with /transactions; slippage applies to the destAmount (SELL) or the
+   * srcAmount (BUY)
+   */
+  private async buildTransaction(
+    priceRoute: ParaSwapPriceRoute,
+    request: SwapRequest,
+    strictValidation: boolean,
+  ): Promise<ParaSwapTransactionResponse> {
+    const body: Record<string, any> = {
+      srcToken: priceRoute.srcToken,
+      srcDecimals: priceRoute.srcDecimals,
+      destToken: priceRoute.destToken,
+      destDecimals: priceRoute.destDecimals,
+      slippage: this.slippageBps(request),
+      priceRoute,
+      userAddress: request.taker,
+    };
+    if (priceRoute.side === 'BUY') {
+      body.destAmount = priceRoute.destAmount;
+    } else {
+      body.srcAmount = priceRoute.srcAmount;
+    }
+    if (request.recipient && request.recipient !== request.taker) {
+      body.receiver = request.recipient;
+    }
+    if (request.deadline) {
+      body.deadline = request.deadline;
+    }
+
+    const url = `${this.baseUrl}/transactions/${request.chainId}?ignoreChecks=${!strictValidation}`;
+    const response = await this.httpService.post<ParaSwapTransactionResponse>(
+      url,
+      body,
+      {
+        headers: {
+          ...this.buildHeaders(),
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        rateLimit: this.rateLimit,
+      },
+    );
+
+    this.validateTransactionResponse(response, request);
+    return response;
+  }
+
+  /**
+   * Decimals of a token: native coins use 18, then ParaSwap's token list, then the token contract
+   */
+  private async getTokenDecimals(
+    chainId: number,
+    token: string,
+  ): Promise<number> {
+    if (token.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+      return 18;
+    }
+
+    const key = `${chainId}:${token.toLowerCase()}`;
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const tokens = await this.getTokenList(chainId).catch(
+      () => [] as ParaSwapTokenInfo[],
+    );
+    let decimals = tokens.find(
+      (listed) => listed.address.toLowerCase() === token.toLowerCase(),
+    )?.decimals;
+
+    if (decimals === undefined) {
+      try {
+        decimals = Number(
+          await createViemPublicClient(chainId).readContract({
+            address: token as `0x${string}`,
+            abi: ERC20_ABI,
+            functionName: 'decimals',
+          }),
+        );
+      } catch (error) {
+        throw new Error(
+          `Unable to resolve decimals of ${token} on chain ${chainId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    this.decimalsCache.set(key, decimals);
+    return decimals;
+  }
+
+  /**
+   * Build headers for ParaSwap API requests
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (this.apiKey) {
+      headers['X-API-KEY'] = this.apiKey;
+    }
+
+    return headers;
+  }
+
+  /**
+   * ParaSwap takes slippage in basis points
+   */
+  private slippageBps(request: SwapRequest): number {
+    return Math.round((request.slippagePercentage ?? 0.5) * 100);
+  }
+
+  /**
+   * Parse ParaSwap price route and transaction into SwapQuote format
+   * A BUY quote sells at most srcAmount plus slippage and buys exactly the requested amount
+   */
+  private parseSwapQuote(
+    priceRoute: ParaSwapPriceRoute,
+    transaction: ParaSwapTransactionResponse,
+    request: SwapRequest,
+  ): SwapQuote {
+    const slippageBps = BigInt(this.slippageBps(request));
+    const isBuy = priceRoute.side === 'BUY';
+
+    const sellAmount = isBuy
+      ? (
+          (BigInt(priceRoute.srcAmount) * (10000n + slippageBps)) /
+          10000n
+        ).toString()
+      : priceRoute.srcAmount;
+    const minBuyAmount = isBuy
+      ? priceRoute.destAmount
+      : (
+          (BigInt(priceRoute.destAmount) * (10000n - slippageBps)) /
+          10000n
+        ).toString();
+
+    if (isBuy && BigInt(sellAmount) > BigInt(request.sellAmount)) {
+      throw new Error(
+        `Buying ${request.buyAmount} needs up to ${sellAmount}, above the maximum sellAmount ${request.sellAmount}`,
+      );
+    }
+
+    const gas = transaction.gas || priceRoute.gasCost;
+
+    return {
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      sellAmount,
+      buyAmount: priceRoute.destAmount,
+      minBuyAmount,
+      gas,
+      gasPrice: transaction.gasPrice,
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value || '0',
+      allowanceTarget: priceRoute.tokenTransferProxy,
+      aggregator: this.getProviderName().toLowerCase(),
+      priceImpact: this.priceImpact(priceRoute),
+      estimatedGas: priceRoute.gasCost,
+    };
+  }
+
+  /**
+   * Price impact in percent from the USD values of both sides, when ParaSwap prices them
+   */
+  private priceImpact(priceRoute: ParaSwapPriceRoute): string | undefined {
+    const srcUSD = Number(priceRoute.srcUSD);
+    const destUSD = Number(priceRoute.destUSD);
+    if (!srcUSD || !destUSD) {
+      return undefined;
+    }
+
+    return ((1 - destUSD / srcUSD) * 100).toFixed(4);
+  }
+
+  /**
+   * Validate price response from ParaSwap
+   */
+  private validatePriceResponse(
+    response: ParaSwapPriceResponse,
+    request: SwapRequest,
+    strictValidation: boolean = true,
+  ): void {
+    if (!response) {
+      throw new Error('Empty response from ParaSwap prices API');
+    }
+
+    if (isParaSwapErrorResponse(response)) {
+      throw new Error(`ParaSwap API error: ${response.error}`);
+    }
+
+    const { priceRoute } = response;
+    if (!priceRoute) {
+      throw new Error('Invalid price response: missing priceRoute');
+    }
+
+    if (!priceRoute.srcAmount || !priceRoute.destAmount) {
+      throw new Error(
+        'Invalid price response: missing srcAmount or destAmount',
+      );
+    }
+
+    if (!priceRoute.tokenTransferProxy) {
+      throw new Error('Invalid price response: missing tokenTransferProxy');
+    }
+
+    if (
+      BigInt(priceRoute.destAmount) === 0n ||
+      BigInt(priceRoute.srcAmount) === 0n
+    ) {
+      if (strictValidation) {
+        throw new Error('Insufficient liquidity for this trade on ParaSwap');
+      } else {
+        this.logger.warn(
+          'ParaSwap returned a zero amount - quote may not be executable',
+        );
+      }
+    }
+
+    if (priceRoute.maxImpactReached) {
+      if (strictValidation) {
+        throw new Error('Price impact of this trade exceeds ParaSwap maximum');
+      } else {
+        this.logger.warn(
+          'ParaSwap reports maximum price impact reached for this trade',
+        );
+      }
+    }
+
+    this.logger.debug(
+      `ParaSwap ${priceRoute.side} price validation passed for ${request.sellToken} -> ${request.buyToken}${strictValidation ? ' (strict)' : ' (relaxed)'}`,
+    );
+  }
+
+  /**
+   * Validate transaction response from ParaSwap
+   */
+  private validateTransactionResponse(
+    response: ParaSwapTransactionResponse,
+    request: SwapRequest,
+  ): void {
+    if (!response) {
+      throw new Error('Empty response from ParaSwap transactions API');
+    }
+
+    if (isParaSwapErrorResponse(response)) {
+      throw new Error(`ParaSwap API error: ${response.error}`);
+    }
+
+    if (!response.to || !response.data) {
+      throw new Error('Invalid transaction response: missing to or data');
+    }
+
+    if (
+      response.from &&
+      request.taker &&
+      response.from.toLowerCase() !== request.taker.toLowerCase()
+    ) {
+      throw new Error(
+        `Invalid transaction response: transaction built for ${response.from} instead of ${request.taker}`,
+      );
+    }
+  }
+
+  /**
+   * ParaSwap error bodies ({ error }) arrive JSON-encoded in the HTTP error message;
+   * the status is kept so the error is still classified (bad request, no route, server error)
+   */
+  private describeError(error: unknown): string {
+    return describeProviderError(
+      error,
+      isParaSwapErrorResponse,
+      (body, status) => `ParaSwap API error (${status}): ${body.error}`,
+    );
+  }
+}
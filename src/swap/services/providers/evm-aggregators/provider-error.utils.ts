@@ -0,0 +1,29 @@
+/**
+ * Error messages for upstream API failures
+ */
+
+/**
+ * Describe a failed upstream call: CustomHttpService reports error responses as
+ * "HTTP <status> <statusText>: <JSON body>"; a body matching the provider's error shape is formatted
+ * by describe(), anything else keeps the original message (so error classification still sees the status)
+ */
+export function describeProviderError<T>(
+  error: unknown,
+  isErrorResponse: (body: unknown) => body is T,
+  describe: (body: T, status: string) => string,
+): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const [, status, body] = message.match(/^HTTP (\d+ [^:]*): (.*)$/s) || [];
+  if (body) {
+    try {
+      const parsed: unknown = JSON.parse(body);
+      if (isErrorResponse(parsed)) {
+        return describe(parsed, status);
+      }
+    } catch {
+      // Not a JSON body, keep the original message
+    }
+  }
+
+  return message;
+}
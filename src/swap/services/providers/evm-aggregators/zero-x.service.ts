@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleInit, Inject, Optional } from '@nestjs/common';
 import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 import { ApprovalStrategy } from '@swap/models/swap-request.model';
 import { 
   IOnchainAggregator, 
@@ -21,6 +22,12 @@ import {
 import { NATIVE_TOKEN_ADDRESS, USDT_ADDRESS } from '@shared/utils/chain.utils';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { exactOutputProbeBudget, quoteExactOutput } from './exact-output.utils';
 
 /**
  * 0x Protocol v2 aggregator service implementing IOnchainAggregator port
@@ -30,7 +37,9 @@ import { AggregatorManagerService } from '@swap/services/core/aggregation/aggreg
 @Injectable()
 export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit {
   private readonly logger = new Logger(ZeroXService.name);
-  private readonly baseUrl = 'https://api.0x.org';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly apiKey = process.env.ZEROX_API_KEY;
   
   
@@ -41,8 +50,31 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
 
   constructor(
     private readonly httpService: CustomHttpService,
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://api.0x.org',
+        enabled: true,
+        rateLimit: {
+          requests: 10,
+          perSeconds: 1,
+        },
+        timeout: 15000,
+        retries: 3,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with aggregator manager on module initialization
@@ -71,6 +103,13 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
     return this.supportedChains.includes(chainId);
   }
 
+  /**
+   * Bundled chain list, used by the chain capability registry until discovery succeeds
+   */
+  getStaticSupportedChains(): number[] {
+    return [...this.supportedChains];
+  }
+
   /**
    * Get all supported chains dynamically from 0x API
    */
@@ -81,9 +120,12 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
 
       this.logger.debug('Fetching supported chains from 0x API');
 
-      const response = await this.httpService.get<{ chains: Array<{ chainId: number }> }>(url, {
+      const response = await this.httpService.get<{
+        chains: Array<{ chainId: number }>;
+      }>(url, {
         headers,
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       const chainIds = response.chains?.map(record => record.chainId) || [];
@@ -92,10 +134,11 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
       
       return chainIds.filter(chainId => chainId > 0);
     } catch (error) {
-      this.logger.warn(`Failed to fetch supported chains from 0x API: ${error.message}, using hardcoded list`);
-      
-      // Fallback to hardcoded list
-      return this.supportedChains;
+      // The chain capability registry falls back to the last known good or hardcoded list
+      this.logger.warn(
+        `Failed to fetch supported chains from 0x API: ${(error as Error).message}`,
+      );
+      throw error;
     }
   }
 
@@ -104,9 +147,50 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
    */
   async getQuote(request: SwapRequest, strictValidation: boolean = true): Promise<SwapQuote> {
     const strategy = request.approvalStrategy || ApprovalStrategy.ALLOWANCE_HOLDER;
+    if (request.buyAmount) {
+      return this.getExactOutputQuote(request, strategy, strictValidation);
+    }
     return this.getQuoteWithStrategy(request, strategy, strictValidation);
   }
 
+  /**
+   * Exact-output quote: 0x v2 only quotes sell amounts, so the sell amount is searched with price requests
+   */
+  private async getExactOutputQuote(
+    request: SwapRequest,
+    strategy: ApprovalStrategy,
+    strictValidation: boolean,
+  ): Promise<SwapQuote> {
+    this.logger.debug(
+      `Searching 0x v2 ${strategy} sell amount for exact output ${request.buyAmount} on chain ${request.chainId}`,
+    );
+
+    return quoteExactOutput(
+      request,
+      async (sellAmount) => {
+        const price = (await this.getPriceWithStrategy(
+          {
+            ...request,
+            sellAmount: sellAmount.toString(),
+            buyAmount: undefined,
+          },
+          strategy,
+        )) as Partial<ZeroXQuoteResponse> | undefined;
+        if (price?.liquidityAvailable === false) {
+          return 0n;
+        }
+        return BigInt(price?.minBuyAmount || price?.buyAmount || '0');
+      },
+      (exactInputRequest) =>
+        this.getQuoteWithStrategy(
+          exactInputRequest,
+          strategy,
+          strictValidation,
+        ),
+      exactOutputProbeBudget(this.config.rateLimit),
+    );
+  }
+
   /**
    * Build transaction data - implements IOnchainAggregator interface
    */
@@ -128,10 +212,14 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
     const startTime = Date.now();
     try {
       // Simple health check with ETH price query
-      await this.httpService.get(`${this.baseUrl}/swap/permit2/price?chainId=1&sellToken=${NATIVE_TOKEN_ADDRESS}&buyToken=${USDT_ADDRESS}&sellAmount=1000000000000000000`, {
-        headers: this.buildHeaders(),
-        timeout: 5000,
-      });
+      await this.httpService.get(
+        `${this.baseUrl}/swap/permit2/price?chainId=1&sellToken=${NATIVE_TOKEN_ADDRESS}&buyToken=${USDT_ADDRESS}&sellAmount=1000000000000000000`,
+        {
+          headers: this.buildHeaders(),
+          timeout: 5000,
+          rateLimit: this.rateLimit,
+        },
+      );
       
       const latency = Date.now() - startTime;
       return {
@@ -156,16 +244,8 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
    */
   getConfig(): ProviderConfig {
     return {
-      name: this.getProviderName(),
-      baseUrl: this.baseUrl,
+      ...this.config,
       apiKey: this.apiKey ? '***' : undefined,
-      enabled: true,
-      rateLimit: {
-        requests: 10,
-        perSeconds: 1,
-      },
-      timeout: 15000,
-      retries: 3,
     };
   }
 
@@ -223,10 +303,15 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
       const quoteParams = new URLSearchParams({...params});
       
       this.logger.debug(`Getting 0x v2 ${strategy} quote for chain ${request.chainId}`, params);
-      const response = await this.httpService.get<ZeroXQuoteResponse>(url + quoteParams.toString(), {
-        headers,
-        timeout: 15000,
-      });
+      const response = await this.httpService.get<ZeroXQuoteResponse>(
+        url + quoteParams.toString(),
+        {
+          headers,
+          timeout: this.config.timeout,
+          retries: this.config.retries,
+          rateLimit: this.rateLimit,
+        },
+      );
       
       // Validate response before parsing - use strict or relaxed validation
       this.validateQuoteResponse(response, request, strictValidation);
@@ -297,6 +382,7 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
       const response = await this.httpService.get<ZeroXTokenListResponse>(url, {
         headers,
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       return response.records || [];
@@ -318,10 +404,14 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
 
       this.logger.debug(`Getting 0x v2 ${strategy} price for chain ${request.chainId}`, params);
 
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 10000,
-      });
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return response;
     } catch (error) {
@@ -443,9 +533,12 @@ export class ZeroXService implements IOnchainAggregator, IProvider, OnModuleInit
       
       this.logger.debug(`Getting dynamic AllowanceHolder address for chain ${chainId}`);
       
-      const response = await this.httpService.get<any>(url + '?' + params.toString(), {
+      const response = await this.httpService.get<{
+        allowanceTarget?: string;
+      }>(url + '?' + params.toString(), {
         headers,
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       if (response.allowanceTarget) {
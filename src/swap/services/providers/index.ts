@@ -3,6 +3,7 @@ export * from './evm-aggregators';
 export * from './meta';
 export * from './solana';
 export * from './native-l1';
+export * from './intent';
 
 // Re-export interfaces
 export * from '@swap/models/ports';
\ No newline at end of file
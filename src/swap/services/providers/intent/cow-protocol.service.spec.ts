@@ -0,0 +1,210 @@
+import { privateKeyToAccount } from 'viem/accounts';
+import { CustomHttpService } from '@shared/services/http.service';
+import { CowOrderResponse, CowTrade } from '@swap/models/aggregator-responses';
+import { IntentOrder, SwapRequest } from '@swap/models/ports';
+import {
+  fixtureLoader,
+  httpError,
+  serveFixtures,
+} from '../__fixtures__/provider-fixtures';
+import { CowProtocolService } from './cow-protocol.service';
+
+// Hand-written responses shaped after the CoW Protocol order book API docs for Ethereum mainnet (not captured from the live API)
+const fixture = fixtureLoader(__dirname, 'cow');
+
+describe('CowProtocolService', () => {
+  let http: {
+    get: jest.Mock<Promise<unknown>, [string]>;
+    post: jest.Mock<Promise<unknown>, [string, Record<string, any>]>;
+  };
+  let cow: CowProtocolService;
+
+  // Well-known development key of the taker below
+  const taker = privateKeyToAccount(
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  );
+  const orderUid = (fixture('order-fulfilled') as CowOrderResponse).uid;
+  const request: SwapRequest = {
+    chainId: 1,
+    sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    sellAmount: '1000000000',
+    taker: taker.address,
+    slippagePercentage: 1,
+  };
+
+  const quoteBody = () => http.post.mock.calls[0][1];
+
+  const sign = (order: IntentOrder) =>
+    taker.signTypedData({
+      domain: order.typedData.domain,
+      types: order.typedData.types,
+      primaryType: order.typedData.primaryType,
+      message: order.typedData.message,
+    });
+
+  beforeEach(() => {
+    http = {
+      get: jest.fn(
+        serveFixtures(fixture, ({ pathname }) =>
+          pathname.endsWith('/trades') ? 'trades' : 'order-fulfilled',
+        ),
+      ),
+      post: jest.fn((url: string, body: Record<string, any>) =>
+        Promise.resolve(
+          url.endsWith('/orders')
+            ? orderUid
+            : fixture(body.kind === 'buy' ? 'quote-buy' : 'quote-sell'),
+        ),
+      ),
+    };
+    cow = new CowProtocolService(http as unknown as CustomHttpService);
+  });
+
+  it('should quote a sell order with the fee folded into the signed sell amount and slippage on the buy amount', async () => {
+    const quote = await cow.quoteOrder(request);
+
+    expect(quote).toMatchObject({
+      provider: 'CoW Protocol',
+      sellAmount: '1000000000',
+      buyAmount: '332512884519063047',
+      minBuyAmount: '329187755673872416',
+      feeAmount: '1258717',
+      kind: 'sell',
+      allowanceTarget: '0xC92E8bdf79f0507f65a392b0ab4667716BFE0110',
+    });
+    expect(quote.order).toMatchObject({
+      chainId: 1,
+      owner: taker.address,
+      quoteId: 584123907,
+    });
+    expect(quote.order.typedData).toMatchObject({
+      primaryType: 'Order',
+      domain: {
+        name: 'Gnosis Protocol',
+        version: 'v2',
+        chainId: 1,
+        verifyingContract: '0x9008D19f58AAbD9eD0D60971565AA8510560ab41',
+      },
+      message: {
+        sellAmount: '1000000000',
+        buyAmount: '329187755673872416',
+        feeAmount: '0',
+        validTo: 1760876460,
+        appData:
+          '0x2f4aca09e95286d307b51b69a825ea4c3f32ea220d9756bcdf4e258d35c0716e',
+      },
+    });
+
+    expect(http.post.mock.calls[0][0]).toBe(
+      'https://api.cow.fi/mainnet/api/v1/quote',
+    );
+    expect(quoteBody()).toMatchObject({
+      kind: 'sell',
+      sellAmountBeforeFee: '1000000000',
+      validFor: 1800,
+      from: taker.address,
+    });
+  });
+
+  it('should quote exact-output requests as buy orders and cap the spend with slippage', async () => {
+    const quote = await cow.quoteOrder({
+      ...request,
+      sellAmount: '1600000000',
+      buyAmount: '500000000000000000',
+    });
+
+    expect(quote).toMatchObject({
+      kind: 'buy',
+      sellAmount: '1503382173',
+      maxSellAmount: '1518415994',
+      minBuyAmount: '500000000000000000',
+    });
+    expect(quoteBody()).toMatchObject({
+      kind: 'buy',
+      buyAmountAfterFee: '500000000000000000',
+    });
+
+    await expect(
+      cow.quoteOrder({
+        ...request,
+        sellAmount: '1510000000',
+        buyAmount: '500000000000000000',
+      }),
+    ).rejects.toThrow(
+      'needs up to 1518415994, above the maximum sellAmount 1510000000',
+    );
+  });
+
+  it('should reject native coin sells and normalize an order book error response', async () => {
+    await expect(
+      cow.quoteOrder({
+        ...request,
+        sellToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+      }),
+    ).rejects.toThrow('cannot sell the native coin');
+    expect(http.post).not.toHaveBeenCalled();
+
+    http.post.mockRejectedValueOnce(
+      httpError('400 Bad Request', fixture('error-no-liquidity')),
+    );
+    await expect(cow.quoteOrder(request)).rejects.toThrow(
+      'CoW Protocol quote failed: CoW Protocol API error (400 Bad Request): NoLiquidity: no route found',
+    );
+  });
+
+  it('should post an order signed by its owner and refuse signatures from anyone else', async () => {
+    const { order } = await cow.quoteOrder(request);
+
+    await expect(cow.submitOrder(order, await sign(order))).resolves.toBe(
+      orderUid,
+    );
+    const [url, body] = http.post.mock.calls[1];
+    expect(url).toBe('https://api.cow.fi/mainnet/api/v1/orders');
+    const { appData, ...signedOrder } = order.typedData.message;
+    expect(body).toMatchObject({
+      ...signedOrder,
+      signingScheme: 'eip712',
+      from: taker.address,
+      quoteId: 584123907,
+    });
+    // The order book takes the app data document and checks it against the signed hash
+    expect(body).toMatchObject({
+      appData: order.appData,
+      appDataHash: appData as string,
+    });
+
+    await expect(
+      cow.submitOrder(
+        { ...order, owner: '0x0000000000000000000000000000000000000001' },
+        await sign(order),
+      ),
+    ).rejects.toThrow('not produced by the order owner');
+    expect(http.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report fulfilled orders with their settlement and expired orders as failed', async () => {
+    await expect(cow.getOrderStatus(1, orderUid)).resolves.toEqual({
+      status: 'SUCCESS',
+      destinationTxHash: (fixture('trades') as CowTrade[])[0].txHash,
+      amountReceived: '333104552031870101',
+    });
+
+    http.get.mockResolvedValueOnce({
+      ...fixture('order-fulfilled'),
+      status: 'open',
+    });
+    await expect(cow.getOrderStatus(1, orderUid)).resolves.toEqual({
+      status: 'PENDING',
+    });
+
+    http.get.mockResolvedValueOnce({
+      ...fixture('order-fulfilled'),
+      status: 'expired',
+    });
+    await expect(cow.getOrderStatus(1, orderUid)).resolves.toEqual({
+      status: 'FAILED',
+      error: 'Order expired before solvers filled it',
+    });
+  });
+});
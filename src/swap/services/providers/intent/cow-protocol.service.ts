@@ -0,0 +1,572 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Inject,
+  Optional,
+} from '@nestjs/common';
+import {
+  keccak256,
+  toBytes,
+  verifyTypedData,
+  type Address,
+  type Hex,
+} from 'viem';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
+import { NATIVE_TOKEN_ADDRESS } from '@shared/utils/chain.utils';
+import {
+  IIntentProvider,
+  IntentOrder,
+  IntentQuote,
+  EIP712TypedData,
+  ExecutionStatusDetails,
+  SwapRequest,
+  ProviderConfig,
+  ProviderHealth,
+} from '@swap/models/ports';
+import {
+  CowOrderParameters,
+  CowOrderResponse,
+  CowQuoteResponse,
+  CowTrade,
+  isCowErrorResponse,
+} from '@swap/models/aggregator-responses';
+import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
+import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { describeProviderError } from '../evm-aggregators/provider-error.utils';
+
+// GPv2Settlement verifies order signatures; GPv2VaultRelayer pulls the sell token (same address on every chain)
+const COW_SETTLEMENT_ADDRESS = '0x9008D19f58AAbD9eD0D60971565AA8510560ab41';
+const COW_VAULT_RELAYER_ADDRESS = '0xC92E8bdf79f0507f65a392b0ab4667716BFE0110';
+
+// App data document committed to by every order (its keccak256 hash is signed)
+const COW_APP_DATA = JSON.stringify({
+  appCode: 'aggregator-aml-apis',
+  metadata: {},
+  version: '1.3.0',
+});
+
+const COW_ORDER_TYPES = {
+  EIP712Domain: [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' },
+  ],
+  Order: [
+    { name: 'sellToken', type: 'address' },
+    { name: 'buyToken', type: 'address' },
+    { name: 'receiver', type: 'address' },
+    { name: 'sellAmount', type: 'uint256' },
+    { name: 'buyAmount', type: 'uint256' },
+    { name: 'validTo', type: 'uint32' },
+    { name: 'appData', type: 'bytes32' },
+    { name: 'feeAmount', type: 'uint256' },
+    { name: 'kind', type: 'string' },
+    { name: 'partiallyFillable', type: 'bool' },
+    { name: 'sellTokenBalance', type: 'string' },
+    { name: 'buyTokenBalance', type: 'string' },
+  ],
+};
+
+/**
+ * CoW Protocol intent provider implementing IIntentProvider port
+ * Quotes an order with /quote and hands back its EIP-712 typed data; the signed order is posted to the
+ * order book and settled by solvers in batch auctions, so the taker pays no gas and the swap never
+ * reaches the public mempool. The taker approves the vault relayer to pull the sell token
+ * Self-registers with AggregatorManagerService
+ *
+ * @see https://docs.cow.fi/cow-protocol/reference/apis/orderbook
+ */
+@Injectable()
+export class CowProtocolService implements IIntentProvider, OnModuleInit {
+  private readonly logger = new Logger(CowProtocolService.name);
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
+  private readonly apiKey = process.env.COW_API_KEY;
+  private readonly orderValiditySeconds = Number(
+    process.env.COW_ORDER_VALIDITY_SECONDS || 1800,
+  ); // Default 30 minutes
+
+  // Order book network names by chain ID
+  private readonly networks: Record<number, string> = {
+    1: 'mainnet',
+    100: 'xdai',
+    137: 'polygon',
+    8453: 'base',
+    42161: 'arbitrum_one',
+    43114: 'avalanche',
+  };
+
+  constructor(
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://api.cow.fi',
+        enabled: true,
+        rateLimit: {
+          requests: 5,
+          perSeconds: 1,
+        },
+        timeout: 15000,
+        retries: 2,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
+
+  /**
+   * Self-register with aggregator manager on module initialization
+   */
+  onModuleInit() {
+    if (this.registry) {
+      this.registry.registerIntentProvider(this);
+      this.logger.debug(
+        `${this.getProviderName()} self-registered with aggregator manager`,
+      );
+    } else {
+      this.logger.warn(
+        `${this.getProviderName()} could not find registry to self-register`,
+      );
+    }
+  }
+
+  /**
+   * Get provider name for identification
+   */
+  getProviderName(): string {
+    return 'CoW Protocol';
+  }
+
+  /**
+   * Check if provider supports the given chain
+   */
+  supportsChain(chainId: number): boolean {
+    return chainId in this.networks;
+  }
+
+  /**
+   * Get supported chain IDs
+   */
+  getSupportedChains(): number[] {
+    return Object.keys(this.networks).map(Number);
+  }
+
+  /**
+   * Quote an order and build the typed data the taker signs
+   * Network fees are folded into the signed sell amount (orders are signed with a zero fee); slippage
+   * lowers the signed buy amount of sell orders and raises the signed sell amount of buy orders
+   */
+  async quoteOrder(request: SwapRequest): Promise<IntentQuote> {
+    try {
+      if (request.sellToken.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+        throw new Error(
+          'CoW Protocol orders cannot sell the native coin, wrap it first',
+        );
+      }
+
+      const response = await this.requestQuote(request);
+      return this.parseIntentQuote(response, request);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get CoW Protocol quote: ${(error as Error).message}`,
+      );
+      throw new Error(
+        `CoW Protocol quote failed: ${this.describeError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Post a signed order to the order book, returning its order UID
+   * The signature is checked against the owner first so a wrong signer fails here rather than at the order book
+   */
+  async submitOrder(order: IntentOrder, signature: string): Promise<string> {
+    const { typedData } = order;
+    const isValid = await verifyTypedData({
+      address: order.owner as Address,
+      domain: typedData.domain,
+      types: typedData.types,
+      primaryType: typedData.primaryType,
+      message: typedData.message,
+      signature: signature as Hex,
+    }).catch(() => false);
+
+    if (!isValid) {
+      throw new Error(
+        `Order signature was not produced by the order owner ${order.owner}`,
+      );
+    }
+
+    const appDataHash = typedData.message.appData as string;
+
+    try {
+      const uid = await this.httpService.post<string>(
+        `${this.getApiUrl(order.chainId)}/orders`,
+        {
+          ...typedData.message,
+          signingScheme: 'eip712',
+          signature,
+          from: order.owner,
+          quoteId: order.quoteId,
+          appData: order.appData ?? appDataHash,
+          appDataHash,
+        },
+        {
+          headers: {
+            ...this.buildHeaders(),
+            'Content-Type': 'application/json',
+          },
+          timeout: this.config.timeout,
+          retries: 0,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      if (typeof uid !== 'string' || !uid.startsWith('0x')) {
+        throw new Error('Invalid order response: missing order UID');
+      }
+
+      this.logger.log(
+        `🐮 Submitted CoW Protocol order ${uid} on chain ${order.chainId}`,
+      );
+      return uid;
+    } catch (error) {
+      this.logger.error(
+        `Failed to submit CoW Protocol order: ${(error as Error).message}`,
+      );
+      throw new Error(
+        `CoW Protocol order submission failed: ${this.describeError(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get order status; a fulfilled order reports its settlement transaction and the amount bought
+   */
+  async getOrderStatus(
+    chainId: number,
+    orderId: string,
+  ): Promise<ExecutionStatusDetails> {
+    const order = await this.httpService.get<CowOrderResponse>(
+      `${this.getApiUrl(chainId)}/orders/${orderId}`,
+      {
+        headers: this.buildHeaders(),
+        timeout: 10000,
+        rateLimit: this.rateLimit,
+      },
+    );
+
+    switch (order.status) {
+      case 'fulfilled': {
+        const trades = await this.httpService.get<CowTrade[]>(
+          `${this.getApiUrl(chainId)}/trades?orderUid=${orderId}`,
+          {
+            headers: this.buildHeaders(),
+            timeout: 10000,
+            rateLimit: this.rateLimit,
+          },
+        );
+        const settlement = [...(trades || [])]
+          .reverse()
+          .find((trade) => trade.txHash);
+
+        return {
+          status: 'SUCCESS',
+          destinationTxHash: settlement?.txHash ?? undefined,
+          amountReceived: order.executedBuyAmount,
+        };
+      }
+      case 'expired':
+        return {
+          status: 'FAILED',
+          error: 'Order expired before solvers filled it',
+        };
+      case 'cancelled':
+        return { status: 'FAILED', error: 'Order was cancelled' };
+      default:
+        // open or awaiting a pre-signature
+        return { status: 'PENDING' };
+    }
+  }
+
+  /**
+   * Provider health check
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    try {
+      await this.httpService.get(`${this.getApiUrl(1)}/version`, {
+        headers: this.buildHeaders(),
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
+      return {
+        name: this.getProviderName(),
+        status: 'healthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 0,
+      };
+    } catch (error) {
+      this.logger.debug(
+        `CoW Protocol health check failed: ${(error as Error).message}`,
+      );
+      return {
+        name: this.getProviderName(),
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 1,
+      };
+    }
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): ProviderConfig {
+    return {
+      ...this.config,
+      apiKey: this.apiKey ? '***' : undefined,
+    };
+  }
+
+  /**
+   * Request a quote for a fill-or-kill order with /quote
+   */
+  private async requestQuote(request: SwapRequest): Promise<CowQuoteResponse> {
+    const body: Record<string, any> = {
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      receiver: request.recipient || request.taker,
+      from: request.taker,
+      appData: COW_APP_DATA,
+      appDataHash: keccak256(toBytes(COW_APP_DATA)),
+      partiallyFillable: false,
+      sellTokenBalance: 'erc20',
+      buyTokenBalance: 'erc20',
+      signingScheme: 'eip712',
+      priceQuality: 'verified',
+      onchainOrder: false,
+    };
+    if (request.buyAmount) {
+      body.kind = 'buy';
+      body.buyAmountAfterFee = request.buyAmount;
+    } else {
+      body.kind = 'sell';
+      body.sellAmountBeforeFee = request.sellAmount;
+    }
+    if (request.deadline) {
+      body.validTo = request.deadline;
+    } else {
+      body.validFor = this.orderValiditySeconds;
+    }
+
+    this.logger.debug(
+      `Getting CoW Protocol ${body.kind} quote for chain ${request.chainId}`,
+      body,
+    );
+    const response = await this.httpService.post<CowQuoteResponse>(
+      `${this.getApiUrl(request.chainId)}/quote`,
+      body,
+      {
+        headers: {
+          ...this.buildHeaders(),
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        rateLimit: this.rateLimit,
+      },
+    );
+
+    this.validateQuoteResponse(response, request);
+    return response;
+  }
+
+  /**
+   * Parse a CoW Protocol quote into an IntentQuote with the order to sign
+   */
+  private parseIntentQuote(
+    response: CowQuoteResponse,
+    request: SwapRequest,
+  ): IntentQuote {
+    const { quote } = response;
+    const slippageBps = BigInt(
+      Math.round((request.slippagePercentage ?? 0.5) * 100),
+    );
+    const isBuy = quote.kind === 'buy';
+
+    // The quoted sellAmount excludes the network fee, which the signed order pays out of its sell amount
+    const sellAmount = BigInt(quote.sellAmount) + BigInt(quote.feeAmount);
+    const maxSellAmount = isBuy
+      ? (sellAmount * (10000n + slippageBps)) / 10000n
+      : sellAmount;
+    const minBuyAmount = isBuy
+      ? BigInt(quote.buyAmount)
+      : (BigInt(quote.buyAmount) * (10000n - slippageBps)) / 10000n;
+
+    if (isBuy && maxSellAmount > BigInt(request.sellAmount)) {
+      throw new Error(
+        `Buying ${request.buyAmount} needs up to ${maxSellAmount}, above the maximum sellAmount ${request.sellAmount}`,
+      );
+    }
+
+    const order: Omit<CowOrderParameters, 'appDataHash' | 'signingScheme'> = {
+      sellToken: quote.sellToken,
+      buyToken: quote.buyToken,
+      receiver: quote.receiver || request.recipient || request.taker,
+      sellAmount: maxSellAmount.toString(),
+      buyAmount: minBuyAmount.toString(),
+      validTo: quote.validTo,
+      appData: quote.appDataHash || keccak256(toBytes(COW_APP_DATA)),
+      feeAmount: '0',
+      kind: quote.kind,
+      partiallyFillable: false,
+      sellTokenBalance: 'erc20',
+      buyTokenBalance: 'erc20',
+    };
+
+    return {
+      provider: this.getProviderName(),
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      sellAmount: sellAmount.toString(),
+      buyAmount: quote.buyAmount,
+      minBuyAmount: order.buyAmount,
+      maxSellAmount: order.sellAmount,
+      feeAmount: quote.feeAmount,
+      kind: quote.kind,
+      validTo: quote.validTo,
+      allowanceTarget: COW_VAULT_RELAYER_ADDRESS,
+      order: {
+        chainId: request.chainId,
+        owner: request.taker,
+        typedData: this.buildOrderTypedData(request.chainId, order),
+        quoteId: response.id,
+        appData: COW_APP_DATA,
+      },
+    };
+  }
+
+  /**
+   * EIP-712 typed data of an order, signed against the GPv2Settlement domain
+   */
+  private buildOrderTypedData(
+    chainId: number,
+    order: Record<string, any>,
+  ): EIP712TypedData {
+    return {
+      types: COW_ORDER_TYPES,
+      domain: {
+        name: 'Gnosis Protocol',
+        version: 'v2',
+        chainId,
+        verifyingContract: COW_SETTLEMENT_ADDRESS,
+      },
+      message: order,
+      primaryType: 'Order',
+    };
+  }
+
+  /**
+   * Order book API root for a chain
+   */
+  private getApiUrl(chainId: number): string {
+    const network = this.networks[chainId];
+    if (!network) {
+      throw new Error(`CoW Protocol does not support chain ${chainId}`);
+    }
+
+    return `${this.baseUrl}/${network}/api/v1`;
+  }
+
+  /**
+   * Build headers for CoW Protocol API requests
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Validate quote response from CoW Protocol
+   */
+  private validateQuoteResponse(
+    response: CowQuoteResponse,
+    request: SwapRequest,
+  ): void {
+    if (!response) {
+      throw new Error('Empty response from CoW Protocol quote API');
+    }
+
+    if (isCowErrorResponse(response)) {
+      throw new Error(
+        `CoW Protocol API error: ${response.errorType}: ${response.description}`,
+      );
+    }
+
+    const { quote } = response;
+    if (
+      !quote?.sellAmount ||
+      !quote.buyAmount ||
+      quote.feeAmount === undefined
+    ) {
+      throw new Error(
+        'Invalid quote response: missing sellAmount, buyAmount or feeAmount',
+      );
+    }
+
+    if (BigInt(quote.buyAmount) === 0n || BigInt(quote.sellAmount) === 0n) {
+      throw new Error('Insufficient liquidity for this trade on CoW Protocol');
+    }
+
+    if (
+      response.from &&
+      response.from.toLowerCase() !== request.taker.toLowerCase()
+    ) {
+      throw new Error(
+        `Invalid quote response: quote built for ${response.from} instead of ${request.taker}`,
+      );
+    }
+  }
+
+  /**
+   * CoW Protocol error bodies ({ errorType, description }) arrive JSON-encoded in the HTTP error message;
+   * the status is kept so the error is still classified (bad request, no route, server error)
+   */
+  private describeError(error: unknown): string {
+    return describeProviderError(
+      error,
+      isCowErrorResponse,
+      (body, status) =>
+        `CoW Protocol API error (${status}): ${body.errorType}: ${body.description}`,
+    );
+  }
+}
@@ -0,0 +1,5 @@
+// Intent Providers (signed orders settled by solvers)
+export { CowProtocolService } from './cow-protocol.service';
+
+// Future intent providers:
+// export { UniswapXService } from './uniswapx.service';
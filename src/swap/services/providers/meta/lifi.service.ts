@@ -1,17 +1,31 @@
 import { Injectable, Logger, OnModuleInit, Optional, Inject } from '@nestjs/common';
 import { CustomHttpService } from '@shared/services/http.service';
-import { 
-  IMetaAggregator, 
-  RouteRequest, 
-  RouteQuote, 
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
+import {
+  IMetaAggregator,
+  RouteRequest,
+  RouteQuote,
   ExecutionStatus,
+  ExecutionStatusDetails,
   ProviderConfig,
   ProviderHealth,
   IProvider,
-  Step 
+  Step,
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+
+// Fields read from the LI.FI /status response
+interface LifiStatusResponse {
+  status?: string;
+  substatus?: string;
+  receiving?: { txHash?: string; amount?: string };
+}
 
 /**
  * LI.FI meta-aggregator service implementing IMetaAggregator port
@@ -21,13 +35,38 @@ import { AggregatorManagerService } from '@swap/services/core/aggregation/aggreg
 @Injectable()
 export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
   private readonly logger = new Logger(LiFiService.name);
-  private readonly baseUrl = 'https://li.quest/v1';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly apiKey = process.env.LIFI_API_KEY;
 
   constructor(
     private readonly httpService: CustomHttpService,
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://li.quest/v1',
+        enabled: true,
+        rateLimit: {
+          requests: 5,
+          perSeconds: 1,
+        },
+        timeout: 20000,
+        retries: 3,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with aggregator manager on module initialization
@@ -52,7 +91,7 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
    * Get supported chain pairs
    */
   getSupportedChains(): { from: number[]; to: number[] } {
-    // LI.FI supports many chains - this is a subset
+    // LI.FI supports many chains - this is a subset (fetchSupportedChains discovers the full list)
     const chains = [1, 10, 56, 137, 42161, 43114, 8453, 324, 59144, 100, 1101];
     return {
       from: chains,
@@ -60,6 +99,21 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
     };
   }
 
+  /**
+   * Fetch supported EVM chains from the LI.FI chains endpoint
+   */
+  async fetchSupportedChains(): Promise<number[]> {
+    const response = await this.httpService.get<{
+      chains: Array<{ id: number }>;
+    }>(`${this.baseUrl}/chains?chainTypes=EVM`, {
+      headers: this.buildHeaders(),
+      timeout: 10000,
+      rateLimit: this.rateLimit,
+    });
+
+    return (response.chains || []).map((chain) => chain.id);
+  }
+
   /**
    * Get available cross-chain routes
    */
@@ -72,10 +126,16 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
       this.logger.debug(`Getting LI.FI routes`, params);
       
       const queryParams = new URLSearchParams(params);
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 20000,
-      });
+      this.appendBridgeFilters(queryParams, req);
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: this.config.timeout,
+          retries: this.config.retries,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return this.parseRoutesResponse(response, req);
     } catch (error) {
@@ -121,10 +181,14 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
       const headers = this.buildHeaders();
 
       const queryParams = new URLSearchParams({ txHash: routeId });
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 10000,
-      });
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return this.parseStatusResponse(response);
     } catch (error) {
@@ -133,6 +197,44 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
     }
   }
 
+  /**
+   * Get execution status with destination tx hash and received amount
+   */
+  async getStatusDetails(txHash: string): Promise<ExecutionStatusDetails> {
+    try {
+      const url = `${this.baseUrl}/status`;
+      const headers = this.buildHeaders();
+
+      const queryParams = new URLSearchParams({ txHash });
+      const response = await this.httpService.get<LifiStatusResponse>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      const status = this.parseStatusResponse(response);
+      return {
+        // Completed transfers that delivered a different token or were refunded are partial
+        status:
+          status === 'SUCCESS' &&
+          ['PARTIAL', 'REFUNDED'].includes(response.substatus ?? '')
+            ? 'PARTIAL'
+            : status,
+        destinationTxHash: response.receiving?.txHash,
+        amountReceived: response.receiving?.amount,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get LI.FI status details: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      return { status: 'PENDING' };
+    }
+  }
+
   /**
    * Provider health check
    */
@@ -142,6 +244,7 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
       await this.httpService.get(`${this.baseUrl}/chains`, {
         headers: this.buildHeaders(),
         timeout: 5000,
+        rateLimit: this.rateLimit,
       });
       
       const latency = Date.now() - startTime;
@@ -167,16 +270,8 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
    */
   getConfig(): ProviderConfig {
     return {
-      name: this.getProviderName(),
-      baseUrl: this.baseUrl,
+      ...this.config,
       apiKey: this.apiKey ? '***' : undefined,
-      enabled: true,
-      rateLimit: {
-        requests: 5,
-        perSeconds: 1,
-      },
-      timeout: 20000,
-      retries: 3,
     };
   }
 
@@ -189,10 +284,14 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
       const headers = this.buildHeaders();
 
       const queryParams = new URLSearchParams({ chains: chainId.toString() });
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 10000,
-      });
+      const response = await this.httpService.get<{ tokens?: unknown[] }>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return response.tokens || [];
     } catch (error) {
@@ -229,6 +328,21 @@ export class LiFiService implements IMetaAggregator, IProvider, OnModuleInit {
     return params;
   }
 
+  /**
+   * Add bridge allow/deny lists (LI.FI expects one query parameter per bridge key)
+   */
+  private appendBridgeFilters(
+    queryParams: URLSearchParams,
+    req: RouteRequest,
+  ): void {
+    req.allowBridges?.forEach((bridge) =>
+      queryParams.append('allowBridges', bridge.trim().toLowerCase()),
+    );
+    req.denyBridges?.forEach((bridge) =>
+      queryParams.append('denyBridges', bridge.trim().toLowerCase()),
+    );
+  }
+
   /**
    * Build headers for LI.FI API requests
    */
@@ -10,6 +10,13 @@ import {
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 
 /**
  * Rango meta-aggregator service (STUB - Implementation Pending)
@@ -20,8 +27,28 @@ export class RangoService implements IMetaAggregator, IProvider, OnModuleInit {
   private readonly logger = new Logger(RangoService.name);
 
   constructor(
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: 'Rango',
+        baseUrl: 'https://api.rango.exchange',
+        enabled: !!this.apiKey,
+        timeout: 10000,
+        retries: 3,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -34,7 +61,9 @@ export class RangoService implements IMetaAggregator, IProvider, OnModuleInit {
       this.logger.warn(`⚠️ ${this.getProviderName()} could not find registry to self-register`);
     }
   }
-  private readonly baseUrl = 'https://api.rango.exchange';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly apiKey = process.env.RANGO_API_KEY;
 
   getProviderName(): string {
@@ -84,24 +113,46 @@ export class RangoService implements IMetaAggregator, IProvider, OnModuleInit {
     throw new Error('Rango status tracking not yet implemented');
   }
 
+  /**
+   * Probe Rango's blockchain metadata endpoint
+   */
   async healthCheck(): Promise<ProviderHealth> {
-    return {
-      name: this.getProviderName(),
-      status: 'healthy', // Placeholder
-      latency: 100,
-      lastCheck: new Date(),
-      errorRate: 0,
-    };
+    const startTime = Date.now();
+    try {
+      await this.httpService.get(
+        `${this.baseUrl}/basic/meta/blockchains?${new URLSearchParams({ apiKey: this.apiKey ?? '' })}`,
+        {
+          timeout: 5000,
+          retries: 0,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      return {
+        name: this.getProviderName(),
+        status: 'healthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 0,
+      };
+    } catch (error) {
+      this.logger.debug(
+        `${this.getProviderName()} health probe failed: ${(error as Error).message}`,
+      );
+      return {
+        name: this.getProviderName(),
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 1,
+      };
+    }
   }
 
   getConfig(): ProviderConfig {
     return {
-      name: 'Rango',
-      baseUrl: this.baseUrl,
+      ...this.config,
       apiKey: this.apiKey,
-      enabled: !!this.apiKey,
-      timeout: 10000,
-      retries: 3,
     };
   }
 }
\ No newline at end of file
@@ -10,6 +10,13 @@ import {
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 
 /**
  * Router Protocol meta-aggregator service (STUB - Implementation Pending)
@@ -20,8 +27,28 @@ export class RouterService implements IMetaAggregator, IProvider, OnModuleInit {
   private readonly logger = new Logger(RouterService.name);
 
   constructor(
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: 'Router Protocol',
+        baseUrl: 'https://api.routerprotocol.com/api',
+        enabled: !!this.apiKey,
+        timeout: 15000,
+        retries: 3,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -34,7 +61,9 @@ export class RouterService implements IMetaAggregator, IProvider, OnModuleInit {
       this.logger.warn(`⚠️ ${this.getProviderName()} could not find registry to self-register`);
     }
   }
-  private readonly baseUrl = 'https://api.routerprotocol.com/api';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly apiKey = process.env.ROUTER_API_KEY;
 
   getProviderName(): string {
@@ -82,24 +111,44 @@ export class RouterService implements IMetaAggregator, IProvider, OnModuleInit {
     throw new Error('Router Protocol status tracking not yet implemented');
   }
 
+  /**
+   * Probe Router Protocol's health endpoint
+   */
   async healthCheck(): Promise<ProviderHealth> {
-    return {
-      name: this.getProviderName(),
-      status: 'healthy', // Placeholder
-      latency: 120,
-      lastCheck: new Date(),
-      errorRate: 0,
-    };
+    const startTime = Date.now();
+    try {
+      await this.httpService.get(`${this.baseUrl}/health`, {
+        headers: this.apiKey ? { 'x-api-key': this.apiKey } : {},
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
+      return {
+        name: this.getProviderName(),
+        status: 'healthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 0,
+      };
+    } catch (error) {
+      this.logger.debug(
+        `${this.getProviderName()} health probe failed: ${(error as Error).message}`,
+      );
+      return {
+        name: this.getProviderName(),
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 1,
+      };
+    }
   }
 
   getConfig(): ProviderConfig {
     return {
-      name: 'Router Protocol',
-      baseUrl: this.baseUrl,
+      ...this.config,
       apiKey: this.apiKey,
-      enabled: !!this.apiKey,
-      timeout: 15000,
-      retries: 3,
     };
   }
 }
\ No newline at end of file
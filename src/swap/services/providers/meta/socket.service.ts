@@ -10,6 +10,13 @@ import {
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 
 /**
  * Socket meta-aggregator service (STUB - Implementation Pending)
@@ -20,8 +27,32 @@ export class SocketService implements IMetaAggregator, IProvider, OnModuleInit {
   private readonly logger = new Logger(SocketService.name);
 
   constructor(
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: 'Socket',
+        baseUrl: 'https://api.socket.tech/v2',
+        enabled: !!this.apiKey,
+        timeout: 10000,
+        retries: 3,
+        rateLimit: {
+          requests: 100,
+          perSeconds: 60,
+        },
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -34,7 +65,9 @@ export class SocketService implements IMetaAggregator, IProvider, OnModuleInit {
       this.logger.warn(`⚠️ ${this.getProviderName()} could not find registry to self-register`);
     }
   }
-  private readonly baseUrl = 'https://api.socket.tech/v2';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly apiKey = process.env.SOCKET_API_KEY;
 
   /**
@@ -126,28 +159,35 @@ export class SocketService implements IMetaAggregator, IProvider, OnModuleInit {
   }
 
   /**
-   * Provider health check
+   * Probe Socket's supported-chains endpoint
    */
   async healthCheck(): Promise<ProviderHealth> {
     const startTime = Date.now();
-    
     try {
-      // TODO: Implement actual health check
-      // await this.httpService.get(`${this.baseUrl}/supported/chains`);
-      
+      await this.httpService.get(`${this.baseUrl}/supported/chains`, {
+        headers: this.apiKey ? { 'API-KEY': this.apiKey } : {},
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
       return {
         name: this.getProviderName(),
-        status: 'healthy', // Placeholder
+        status: 'healthy',
         latency: Date.now() - startTime,
         lastCheck: new Date(),
         errorRate: 0,
       };
     } catch (error) {
+      this.logger.debug(
+        `${this.getProviderName()} health probe failed: ${(error as Error).message}`,
+      );
       return {
         name: this.getProviderName(),
         status: 'unhealthy',
+        latency: Date.now() - startTime,
         lastCheck: new Date(),
-        errorRate: 100,
+        errorRate: 1,
       };
     }
   }
@@ -157,16 +197,8 @@ export class SocketService implements IMetaAggregator, IProvider, OnModuleInit {
    */
   getConfig(): ProviderConfig {
     return {
-      name: 'Socket',
-      baseUrl: this.baseUrl,
+      ...this.config,
       apiKey: this.apiKey,
-      enabled: !!this.apiKey,
-      timeout: 10000,
-      retries: 3,
-      rateLimit: {
-        requests: 100,
-        perSeconds: 60,
-      },
     };
   }
 }
\ No newline at end of file
@@ -10,6 +10,13 @@ import {
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 
 /**
  * Maya Protocol native router service (STUB - Implementation Pending)
@@ -20,8 +27,32 @@ export class MayaService implements INativeRouter, IProvider, OnModuleInit {
   private readonly logger = new Logger(MayaService.name);
 
   constructor(
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: 'Maya Protocol',
+        baseUrl: 'https://mayanode.mayachain.info',
+        enabled: true, // No API key required for public endpoints
+        timeout: 15000,
+        retries: 3,
+        rateLimit: {
+          requests: 60,
+          perSeconds: 60,
+        },
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -34,7 +65,9 @@ export class MayaService implements INativeRouter, IProvider, OnModuleInit {
       this.logger.warn(`⚠️ ${this.getProviderName()} could not find registry to self-register`);
     }
   }
-  private readonly baseUrl = 'https://mayanode.mayachain.info';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
 
   getProviderName(): string {
     return 'Maya Protocol';
@@ -83,42 +116,41 @@ export class MayaService implements INativeRouter, IProvider, OnModuleInit {
     throw new Error('Maya deposit tracking not yet implemented');
   }
 
+  /**
+   * Probe the MAYANode ping endpoint
+   */
   async healthCheck(): Promise<ProviderHealth> {
     const startTime = Date.now();
-    
     try {
-      // TODO: Implement actual health check
-      // await this.httpService.get(`${this.baseUrl}/mayachain/health`);
-      
+      await this.httpService.get(`${this.baseUrl}/mayachain/ping`, {
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
       return {
         name: this.getProviderName(),
-        status: 'healthy', // Placeholder
+        status: 'healthy',
         latency: Date.now() - startTime,
         lastCheck: new Date(),
         errorRate: 0,
       };
     } catch (error) {
+      this.logger.debug(
+        `${this.getProviderName()} health probe failed: ${(error as Error).message}`,
+      );
       return {
         name: this.getProviderName(),
         status: 'unhealthy',
+        latency: Date.now() - startTime,
         lastCheck: new Date(),
-        errorRate: 100,
+        errorRate: 1,
       };
     }
   }
 
   getConfig(): ProviderConfig {
-    return {
-      name: 'Maya Protocol',
-      baseUrl: this.baseUrl,
-      enabled: true, // No API key required for public endpoints
-      timeout: 15000,
-      retries: 3,
-      rateLimit: {
-        requests: 60,
-        perSeconds: 60,
-      },
-    };
+    return { ...this.config };
   }
 
   private getAssetForChain(chainId: number, tokenAddress: string): string {
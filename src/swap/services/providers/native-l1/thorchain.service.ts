@@ -1,17 +1,39 @@
 import { Injectable, Logger, OnModuleInit, Optional, Inject } from '@nestjs/common';
 import { CustomHttpService } from '@shared/services/http.service';
-import { 
-  INativeRouter, 
-  NativeQuoteRequest, 
-  RouteQuote, 
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
+import {
+  INativeRouter,
+  NativeQuoteRequest,
+  RouteQuote,
   ExecutionStatus,
+  ExecutionStatusDetails,
   ProviderConfig,
   ProviderHealth,
   IProvider,
-  Step 
+  Step,
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+
+// Map chain IDs to THORChain chain symbols
+const CHAIN_SYMBOLS: Record<number, string> = {
+  1: 'ETH', // Ethereum
+  56: 'BSC', // BSC
+  43114: 'AVAX', // Avalanche
+};
+
+// Fields read from the Midgard /actions response
+interface MidgardActionsResponse {
+  actions?: Array<{
+    status?: string;
+    out?: Array<{ txID?: string; coins?: Array<{ amount?: string }> }>;
+  }>;
+}
 
 /**
  * THORChain native router service implementing INativeRouter port
@@ -20,13 +42,38 @@ import { AggregatorManagerService } from '@swap/services/core/aggregation/aggreg
 @Injectable()
 export class ThorChainService implements INativeRouter, IProvider, OnModuleInit {
   private readonly logger = new Logger(ThorChainService.name);
-  private readonly baseUrl = 'https://thornode-v1.ninerealms.com';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly midgardUrl = 'https://midgard.ninerealms.com/v2';
 
   constructor(
     private readonly httpService: CustomHttpService,
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://thornode-v1.ninerealms.com',
+        enabled: true,
+        rateLimit: {
+          requests: 5,
+          perSeconds: 1,
+        },
+        timeout: 15000,
+        retries: 3,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -55,22 +102,50 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
     return [1, 56, 43114]; // Ethereum, BSC, Avalanche
   }
 
+  /**
+   * Fetch destination chains whose THORChain inbound vaults are live (not halted)
+   */
+  async fetchSupportedDestinations(): Promise<number[]> {
+    const response = await this.httpService.get<
+      Array<{ chain: string; halted?: boolean; chain_trading_paused?: boolean }>
+    >(`${this.baseUrl}/thorchain/inbound_addresses`, {
+      headers: this.buildHeaders(),
+      timeout: 10000,
+      rateLimit: this.rateLimit,
+    });
+
+    const liveChains = new Set(
+      (response || [])
+        .filter((inbound) => !inbound.halted && !inbound.chain_trading_paused)
+        .map((inbound) => inbound.chain),
+    );
+
+    return Object.entries(CHAIN_SYMBOLS)
+      .filter(([, symbol]) => liveChains.has(symbol))
+      .map(([chainId]) => Number(chainId));
+  }
+
   /**
    * Get quote for Bitcoin to other chains
    */
   async quoteBtc(req: NativeQuoteRequest): Promise<RouteQuote> {
     try {
-      const url = `${this.midgardUrl}/thorchain/quote/swap`;
+      const url = `${this.baseUrl}/thorchain/quote/swap`;
       const params = this.buildQuoteParams(req);
       const headers = this.buildHeaders();
 
       this.logger.debug(`Getting THORChain quote`, params);
       
       const queryParams = new URLSearchParams(params);
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 15000,
-      });
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: this.config.timeout,
+          retries: this.config.retries,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return this.parseQuoteResponse(response, req);
     } catch (error) {
@@ -94,10 +169,14 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
         type: 'swap',
       });
       
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 10000,
-      });
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return this.parseStatusResponse(response);
     } catch (error) {
@@ -106,6 +185,43 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
     }
   }
 
+  /**
+   * Get deposit status with outbound tx hash and received amount
+   */
+  async getStatusDetails(depositTx: string): Promise<ExecutionStatusDetails> {
+    try {
+      const url = `${this.midgardUrl}/actions`;
+      const headers = this.buildHeaders();
+
+      const queryParams = new URLSearchParams({
+        txid: depositTx,
+        type: 'swap',
+      });
+
+      const response = await this.httpService.get<MidgardActionsResponse>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
+
+      const outbound = response.actions?.[0]?.out?.[0];
+      return {
+        status: this.parseStatusResponse(response),
+        destinationTxHash: outbound?.txID,
+        amountReceived: outbound?.coins?.[0]?.amount,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to get THORChain deposit details: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      return { status: 'PENDING' };
+    }
+  }
+
   /**
    * Provider health check
    */
@@ -115,6 +231,7 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
       await this.httpService.get(`${this.baseUrl}/thorchain/ping`, {
         headers: this.buildHeaders(),
         timeout: 5000,
+        rateLimit: this.rateLimit,
       });
       
       const latency = Date.now() - startTime;
@@ -139,17 +256,7 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
    * Get provider configuration
    */
   getConfig(): ProviderConfig {
-    return {
-      name: this.getProviderName(),
-      baseUrl: this.baseUrl,
-      enabled: true,
-      rateLimit: {
-        requests: 5,
-        perSeconds: 1,
-      },
-      timeout: 15000,
-      retries: 3,
-    };
+    return { ...this.config };
   }
 
   /**
@@ -163,6 +270,7 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
       const response = await this.httpService.get<any[]>(url, {
         headers,
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       return response || [];
@@ -183,6 +291,7 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
       const response = await this.httpService.get<any>(url, {
         headers,
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       return response;
@@ -197,7 +306,7 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
    */
   private buildQuoteParams(req: NativeQuoteRequest): Record<string, string> {
     const params: Record<string, string> = {
-      from_asset: 'BTC.BTC',
+      from_asset: req.fromAsset || 'BTC.BTC',
       to_asset: this.getAssetSymbol(req.toChainId, req.toToken),
       amount: req.amountSats,
     };
@@ -213,14 +322,12 @@ export class ThorChainService implements INativeRouter, IProvider, OnModuleInit
    * Get THORChain asset symbol from chain ID and token address
    */
   private getAssetSymbol(chainId: number, tokenAddress: string): string {
-    // Map chain IDs to THORChain chain symbols
-    const chainMap: Record<number, string> = {
-      1: 'ETH',    // Ethereum
-      56: 'BSC',   // BSC
-      43114: 'AVAX', // Avalanche
-    };
+    // Already in THORChain asset notation (e.g. ETH.ETH, ETH.USDT-0X...)
+    if (tokenAddress.includes('.')) {
+      return tokenAddress.toUpperCase();
+    }
 
-    const chainSymbol = chainMap[chainId];
+    const chainSymbol = CHAIN_SYMBOLS[chainId];
     if (!chainSymbol) {
       throw new Error(`Unsupported chain ID: ${chainId}`);
     }
@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleInit, Optional, Inject } from '@nestjs/common';
 import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 import { 
   ISolanaRouter, 
   SolanaQuoteRequest, 
@@ -12,6 +13,11 @@ import {
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
 
 /**
  * Jupiter aggregator service implementing ISolanaRouter port
@@ -20,13 +26,38 @@ import { AggregatorManagerService } from '@swap/services/core/aggregation/aggreg
 @Injectable()
 export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
   private readonly logger = new Logger(JupiterService.name);
-  private readonly baseUrl = 'https://quote-api.jup.ag/v6';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
   private readonly apiKey = process.env.JUPITER_API_KEY;
 
   constructor(
     private readonly httpService: CustomHttpService,
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: this.getProviderName(),
+        baseUrl: 'https://quote-api.jup.ag/v6',
+        enabled: true,
+        rateLimit: {
+          requests: 10,
+          perSeconds: 1,
+        },
+        timeout: 15000,
+        retries: 3,
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -59,10 +90,15 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
       this.logger.debug(`Getting Jupiter quote`, params);
       
       const queryParams = new URLSearchParams(params);
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 15000,
-      });
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: this.config.timeout,
+          retries: this.config.retries,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return this.parseQuoteResponse(response, req);
     } catch (error) {
@@ -90,7 +126,9 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
       
       const response = await this.httpService.post<any>(url, payload, {
         headers,
-        timeout: 15000,
+        timeout: this.config.timeout,
+        retries: this.config.retries,
+        rateLimit: this.rateLimit,
       });
 
       return {
@@ -138,6 +176,7 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
       await this.httpService.get(`${url}?${queryParams.toString()}`, {
         headers: this.buildHeaders(),
         timeout: 5000,
+        rateLimit: this.rateLimit,
       });
       
       const latency = Date.now() - startTime;
@@ -163,16 +202,8 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
    */
   getConfig(): ProviderConfig {
     return {
-      name: this.getProviderName(),
-      baseUrl: this.baseUrl,
+      ...this.config,
       apiKey: this.apiKey ? '***' : undefined,
-      enabled: true,
-      rateLimit: {
-        requests: 10,
-        perSeconds: 1,
-      },
-      timeout: 15000,
-      retries: 3,
     };
   }
 
@@ -187,6 +218,7 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
       const response = await this.httpService.get<any[]>(url, {
         headers,
         timeout: 10000,
+        rateLimit: this.rateLimit,
       });
 
       return response || [];
@@ -209,10 +241,14 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
       const headers = this.buildHeaders();
 
       const queryParams = new URLSearchParams(params);
-      const response = await this.httpService.get<any>(url + '?' + queryParams.toString(), {
-        headers,
-        timeout: 10000,
-      });
+      const response = await this.httpService.get<unknown>(
+        url + '?' + queryParams.toString(),
+        {
+          headers,
+          timeout: 10000,
+          rateLimit: this.rateLimit,
+        },
+      );
 
       return response;
     } catch (error) {
@@ -232,6 +268,11 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
       slippageBps: req.slippageBps.toString(),
     };
 
+    // In ExactOut mode amount is the output to receive and Jupiter quotes the input it needs
+    if (req.swapMode) {
+      params.swapMode = req.swapMode;
+    }
+
     if (req.userPublicKey) {
       params.userPublicKey = req.userPublicKey;
     }
@@ -291,6 +332,7 @@ export class JupiterService implements ISolanaRouter, IProvider, OnModuleInit {
     return {
       steps,
       totalEstimatedOut: response.outAmount,
+      totalEstimatedIn: (response as { inAmount?: string }).inAmount,
       fees: {
         gas: '5000', // Typical Solana transaction fee in lamports
         provider: response.platformFee?.amount || '0',
@@ -10,6 +10,13 @@ import {
 } from '../../../models/ports';
 import type { IAggregatorRegistry } from '@swap/services/core/aggregation/aggregator-registry.interface';
 import { AggregatorManagerService } from '@swap/services/core/aggregation/aggregator-manager.service';
+import {
+  providersConfig,
+  resolveProviderConfig,
+} from '@swap/config/providers.config';
+import type { ProvidersConfig } from '@swap/config/providers.config';
+import { CustomHttpService } from '@shared/services/http.service';
+import { OutboundRateLimit } from '@shared/services/rate-limiter.service';
 
 /**
  * Orca Solana router service (STUB - Implementation Pending)
@@ -20,8 +27,32 @@ export class OrcaService implements ISolanaRouter, IProvider, OnModuleInit {
   private readonly logger = new Logger(OrcaService.name);
 
   constructor(
-    @Optional() @Inject(AggregatorManagerService) private readonly registry?: IAggregatorRegistry
-  ) {}
+    private readonly httpService: CustomHttpService,
+    @Optional()
+    @Inject(AggregatorManagerService)
+    private readonly registry?: IAggregatorRegistry,
+    @Optional() @Inject(providersConfig.KEY) providers?: ProvidersConfig,
+  ) {
+    this.config = resolveProviderConfig(
+      {
+        name: 'Orca',
+        baseUrl: 'https://api.orca.so/v1',
+        enabled: true, // No API key required
+        timeout: 5000,
+        retries: 3,
+        rateLimit: {
+          requests: 300,
+          perSeconds: 60,
+        },
+      },
+      providers,
+    );
+    this.baseUrl = this.config.baseUrl;
+    this.rateLimit = this.config.rateLimit && {
+      key: this.config.name,
+      ...this.config.rateLimit,
+    };
+  }
 
   /**
    * Self-register with AggregatorManagerService on module initialization
@@ -34,7 +65,9 @@ export class OrcaService implements ISolanaRouter, IProvider, OnModuleInit {
       this.logger.warn(`⚠️ ${this.getProviderName()} could not find registry to self-register`);
     }
   }
-  private readonly baseUrl = 'https://api.orca.so/v1';
+  private readonly baseUrl: string;
+  private readonly config: ProviderConfig;
+  private readonly rateLimit?: OutboundRateLimit;
 
   getProviderName(): string {
     return 'Orca';
@@ -82,27 +115,40 @@ export class OrcaService implements ISolanaRouter, IProvider, OnModuleInit {
     throw new Error('Orca transaction building not yet implemented');
   }
 
+  /**
+   * Probe Orca's markets endpoint
+   */
   async healthCheck(): Promise<ProviderHealth> {
-    return {
-      name: this.getProviderName(),
-      status: 'healthy', // Placeholder
-      latency: 80,
-      lastCheck: new Date(),
-      errorRate: 0,
-    };
+    const startTime = Date.now();
+    try {
+      await this.httpService.get(`${this.baseUrl}/markets`, {
+        timeout: 5000,
+        retries: 0,
+        rateLimit: this.rateLimit,
+      });
+
+      return {
+        name: this.getProviderName(),
+        status: 'healthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 0,
+      };
+    } catch (error) {
+      this.logger.debug(
+        `${this.getProviderName()} health probe failed: ${(error as Error).message}`,
+      );
+      return {
+        name: this.getProviderName(),
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        lastCheck: new Date(),
+        errorRate: 1,
+      };
+    }
   }
 
   getConfig(): ProviderConfig {
-    return {
-      name: 'Orca',
-      baseUrl: this.baseUrl,
-      enabled: true, // No API key required
-      timeout: 5000,
-      retries: 3,
-      rateLimit: {
-        requests: 300,
-        perSeconds: 60,
-      },
-    };
+    return { ...this.config };
   }
 }
\ No newline at end of file
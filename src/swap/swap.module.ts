@@ -1,16 +1,27 @@
 import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { providersConfig } from './config/providers.config';
 import { UniversalSwapController } from './controllers/universal-swap.controller';
 import { SwapAnalysisController } from './controllers/swap-analysis.controller';
 import { QuoteService } from './services/core/execution/quote.service';
 import { SwapExecutionService } from './services/core/execution/swap-execution.service';
+import { UniversalExecutionService } from './services/core/execution/universal-execution.service';
+import { ExecutionTrackerService } from './services/core/execution/execution-tracker.service';
 import { SwapRoutingService } from './services/core/swap-routing.service';
 import { SwapCacheService } from './services/core/swap-cache.service';
+import { RouteStoreService } from './services/core/route-store.service';
 import { ApprovalService } from './services/blockchain/approval/approval.service';
 import { WalletService } from './services/blockchain/wallet/wallet.service';
 import { EvmWalletProvider } from './services/blockchain/wallet/providers/evm-wallet.provider';
 import { SolanaWalletProvider } from './services/blockchain/wallet/providers/solana-wallet.provider';
 import { BitcoinWalletProvider } from './services/blockchain/wallet/providers/bitcoin-wallet.provider';
 import { AggregatorManagerService } from './services/core/aggregation/aggregator-manager.service';
+import { NativePriceService } from './services/core/aggregation/native-price.service';
+import { ProviderPerformanceService } from './services/core/aggregation/provider-performance.service';
+import { ProviderCircuitBreakerService } from './services/core/aggregation/circuit-breaker.service';
+import { QuoteConsensusService } from './services/core/aggregation/quote-consensus.service';
+import { ChainCapabilityService } from './services/core/aggregation/chain-capability.service';
+import { ProviderHealthMonitorService } from './services/core/aggregation/provider-health-monitor.service';
 import { Permit2Service } from './services/blockchain/approval/permit2.service';
 import { Permit2WorkflowService } from './services/blockchain/approval/permit2-workflow.service';
 import { TransactionParserService } from './services/blockchain/analysis/transaction-parser.service';
@@ -18,6 +29,8 @@ import { TransactionParserService } from './services/blockchain/analysis/transac
 // Provider imports
 import { ZeroXService } from './services/providers/evm-aggregators/zero-x.service';
 import { OdosService } from './services/providers/evm-aggregators/odos.service';
+import { OneInchService } from './services/providers/evm-aggregators/oneinch.service';
+import { ParaSwapService } from './services/providers/evm-aggregators/paraswap.service';
 
 import { LiFiService } from './services/providers/meta/lifi.service';
 import { SocketService } from './services/providers/meta/socket.service';
@@ -31,22 +44,25 @@ import { RaydiumService } from './services/providers/solana/raydium.service';
 import { ThorChainService } from './services/providers/native-l1/thorchain.service';
 import { MayaService } from './services/providers/native-l1/maya.service';
 
+import { CowProtocolService } from './services/providers/intent/cow-protocol.service';
+
 /**
  * Unified swap module with universal swap architecture
- * Supports all swap types: on-chain, cross-chain, L1-L2, and native L1
+ * Supports all swap types: on-chain, cross-chain, L1-L2, and native L1, plus gasless intent orders
  * Intelligent routing across EVM, Solana, Cosmos, Bitcoin, and THORChain ecosystems
  */
 @Module({
-  controllers: [
-    UniversalSwapController,
-    SwapAnalysisController,
-  ],
+  imports: [ConfigModule.forFeature(providersConfig)],
+  controllers: [UniversalSwapController, SwapAnalysisController],
   providers: [
     // Core services
     QuoteService,
     SwapExecutionService,
+    UniversalExecutionService,
+    ExecutionTrackerService,
     SwapRoutingService,
     SwapCacheService,
+    RouteStoreService,
     ApprovalService,
     WalletService,
     EvmWalletProvider,
@@ -58,10 +74,18 @@ import { MayaService } from './services/providers/native-l1/maya.service';
     
     // Unified aggregator manager (legacy + enhanced functionality)
     AggregatorManagerService,
+    NativePriceService,
+    ProviderPerformanceService,
+    ProviderCircuitBreakerService,
+    QuoteConsensusService,
+    ChainCapabilityService,
+    ProviderHealthMonitorService,
     
     // EVM Aggregator providers (implemented)
     ZeroXService,
     OdosService,
+    OneInchService,
+    ParaSwapService,
     
     // Meta aggregator providers (implemented + stubs)
     LiFiService,
@@ -77,6 +101,9 @@ import { MayaService } from './services/providers/native-l1/maya.service';
     // Native L1 router providers (implemented + stubs)
     ThorChainService,
     MayaService,
+
+    // Intent providers (signed orders settled by solvers)
+    CowProtocolService,
   ],
   exports: [
     // Core services
@@ -96,6 +123,8 @@ import { MayaService } from './services/providers/native-l1/maya.service';
     // All provider services
     ZeroXService,
     OdosService,
+    OneInchService,
+    ParaSwapService,
     LiFiService,
     SocketService,
     RangoService,
@@ -105,6 +134,7 @@ import { MayaService } from './services/providers/native-l1/maya.service';
     RaydiumService,
     ThorChainService,
     MayaService,
+    CowProtocolService,
   ],
 })
 export class SwapModule implements OnModuleInit {
@@ -114,6 +144,8 @@ export class SwapModule implements OnModuleInit {
     private readonly walletService: WalletService,
     private readonly zeroXService: ZeroXService,
     private readonly odosService: OdosService,
+    private readonly oneInchService: OneInchService,
+    private readonly paraSwapService: ParaSwapService,
     private readonly lifiService: LiFiService,
     private readonly socketService: SocketService,
     private readonly rangoService: RangoService,
@@ -123,6 +155,7 @@ export class SwapModule implements OnModuleInit {
     private readonly raydiumService: RaydiumService,
     private readonly thorChainService: ThorChainService,
     private readonly mayaService: MayaService,
+    private readonly cowProtocolService: CowProtocolService,
   ) {}
 
   onModuleInit() {
@@ -130,6 +163,8 @@ export class SwapModule implements OnModuleInit {
     const allProviders = [
       this.zeroXService,
       this.odosService,
+      this.oneInchService,
+      this.paraSwapService,
       this.lifiService,
       this.socketService,
       this.rangoService,
@@ -139,6 +174,7 @@ export class SwapModule implements OnModuleInit {
       this.raydiumService,
       this.thorChainService,
       this.mayaService,
+      this.cowProtocolService,
     ];
     
     this.swapRoutingService.setProviderRegistry(allProviders);